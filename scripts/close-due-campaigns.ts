@@ -0,0 +1,32 @@
+/**
+ * Closes campaigns that reached their closing date (see public.close_due_campaigns)
+ * pg_cron runs this every 15 minutes where available; use this script locally or from an external scheduler
+ *
+ * Usage: npm run db:close-campaigns
+ * Reads NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from the environment or .env.local
+ */
+import { existsSync } from 'fs';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+async function main() {
+  // Imported after loading the env file, the client reads its keys at import time
+  const { createAdminClient } = await import('../src/lib/supabase');
+
+  const { data, error } = await createAdminClient().rpc('close_due_campaigns');
+
+  if (error) {
+    console.error('Error closing due campaigns:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`Closed ${data} campaign${data === 1 ? '' : 's'}`);
+}
+
+// Exit non-zero on unexpected errors so the scheduler sees the run failed
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
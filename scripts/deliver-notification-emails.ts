@@ -0,0 +1,227 @@
+/**
+ * Emails pending notifications: those their recipients get by email right away, or with --digest
+ * those collected for the daily digest, one email per recipient
+ * Run it every few minutes, and the digest once a day, from cron or another scheduler
+ * Failed deliveries are retried on later runs, up to EMAIL_MAX_ATTEMPTS times (see src/lib/email.ts)
+ *
+ * Usage: npm run email:deliver
+ *        npm run email:digest
+ * Reads NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, NEXT_PUBLIC_SITE_URL and the SMTP
+ * settings (see src/lib/smtp.ts) from the environment or .env.local; without SMTP settings mail goes
+ * to the local Supabase mail catcher, Inbucket, at http://localhost:54324
+ */
+import { existsSync } from 'fs';
+import type { EmailContext, EmailNotification } from '../src/lib/email';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+// How many notifications one run delivers at most; a digest run covers the recipients of this many
+// notifications, with all of their pending notifications, so no digest is split across runs
+const BATCH_SIZE = 200;
+
+type PendingNotification = EmailNotification & { delivery_attempts: number };
+
+async function main() {
+  const digest = process.argv.includes('--digest');
+
+  // Imported after loading the env file, the client reads its keys at import time
+  const { createAdminClient } = await import('../src/lib/supabase');
+  const {
+    getDeliveryUpdate,
+    getSiteUrl,
+    groupByRecipient,
+    renderDigestEmail,
+    renderNotificationEmail,
+  } = await import('../src/lib/email');
+  const { getSmtpConfig, sendMail } = await import('../src/lib/smtp');
+
+  const supabase = createAdminClient();
+  const smtp = getSmtpConfig();
+  const siteUrl = getSiteUrl();
+
+  const channel = digest ? 'digest' : 'email';
+  let query = supabase
+    .from('notifications')
+    .select(
+      'id, user_id, idea_id, type, meta, created_at, delivery_attempts, idea:ideas(title, status)'
+    )
+    .eq('channel', channel)
+    .eq('delivery_status', 'pending')
+    .order('created_at');
+
+  if (digest) {
+    // The recipients waiting longest, then everything pending for them
+    const { data: recipients, error: recipientsError } = await supabase
+      .from('notifications')
+      .select('user_id')
+      .eq('channel', channel)
+      .eq('delivery_status', 'pending')
+      .order('created_at')
+      .limit(BATCH_SIZE);
+
+    if (recipientsError) {
+      console.error('Error fetching digest recipients:', recipientsError.message);
+      process.exit(1);
+    }
+
+    query = query.in('user_id', [...new Set((recipients ?? []).map(r => r.user_id))]);
+  } else {
+    query = query.limit(BATCH_SIZE);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching pending notifications:', error.message);
+    process.exit(1);
+  }
+
+  const notifications = data as unknown as PendingNotification[];
+  if (!notifications.length) {
+    console.log('No notifications to email');
+    return;
+  }
+
+  const metaOf = (notification: PendingNotification) =>
+    (notification.meta ?? {}) as Record<string, string | undefined>;
+
+  // Recipients' addresses, and the names of who acted
+  const userIds = new Set(
+    notifications.flatMap(n => [n.user_id, metaOf(n).author_id ?? []].flat())
+  );
+  const { data: users, error: usersError } = await supabase.rpc('get_notification_recipients', {
+    user_ids: [...userIds],
+  });
+
+  if (usersError) {
+    console.error('Error fetching recipients:', usersError.message);
+    process.exit(1);
+  }
+
+  const userById = new Map((users ?? []).map(u => [u.id, u]));
+
+  // The comments emails quote; removed comments are not quoted
+  const commentIds = [
+    ...new Set(notifications.map(n => metaOf(n).comment_id).filter((id): id is string => !!id)),
+  ];
+  const { data: comments, error: commentsError } = commentIds.length
+    ? await supabase.from('comments').select('id, body').in('id', commentIds).is('deleted_at', null)
+    : { data: [], error: null };
+
+  // Reviewers' decision comments, quoted when an idea is approved or rejected
+  const decidedIdeaIds = [
+    ...new Set(
+      notifications
+        .filter(
+          n =>
+            n.type === 'status_change' &&
+            ['approved', 'rejected'].includes(metaOf(n).new_status ?? '')
+        )
+        .map(n => n.idea_id)
+    ),
+  ];
+  const { data: decisions, error: decisionsError } = decidedIdeaIds.length
+    ? await supabase
+        .from('comments')
+        .select('idea_id, body, created_at')
+        .eq('kind', 'decision')
+        .in('idea_id', decidedIdeaIds)
+        .order('created_at', { ascending: false })
+    : { data: [], error: null };
+
+  if (commentsError || decisionsError) {
+    console.error('Error fetching comments:', (commentsError ?? decisionsError)?.message);
+    process.exit(1);
+  }
+
+  const contextOf = (notification: PendingNotification): EmailContext => {
+    const meta = metaOf(notification);
+    return {
+      actorName: meta.author_id ? userById.get(meta.author_id)?.full_name : null,
+      comment: comments?.find(c => c.id === meta.comment_id)?.body ?? null,
+      // The latest decision made up to the notification
+      decisionComment:
+        notification.type === 'status_change'
+          ? (decisions?.find(
+              d => d.idea_id === notification.idea_id && d.created_at <= notification.created_at
+            )?.body ?? null)
+          : null,
+    };
+  };
+
+  // Send an email, returning why it failed, if it did
+  const deliver = async (
+    userId: string,
+    email: { subject: string; text: string; html: string }
+  ) => {
+    const to = userById.get(userId)?.email;
+    if (!to) {
+      return 'Recipient has no email address';
+    }
+
+    try {
+      await sendMail(smtp, { to, ...email });
+      return null;
+    } catch (sendError) {
+      return sendError instanceof Error ? sendError.message : String(sendError);
+    }
+  };
+
+  // Track the outcome on each notification the email covered
+  const record = async (delivered: PendingNotification[], deliveryError: string | null) => {
+    for (const notification of delivered) {
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update(getDeliveryUpdate(notification.delivery_attempts, deliveryError))
+        .eq('id', notification.id);
+
+      if (updateError) {
+        console.error(
+          `Error recording delivery of notification ${notification.id}:`,
+          updateError.message
+        );
+      }
+    }
+  };
+
+  let sent = 0;
+  let failed = 0;
+
+  const batches = digest
+    ? [...groupByRecipient(notifications).values()]
+    : notifications.map(notification => [notification]);
+
+  for (const batch of batches) {
+    const email = digest
+      ? renderDigestEmail(
+          batch.map(notification => ({ notification, context: contextOf(notification) })),
+          siteUrl
+        )
+      : renderNotificationEmail(batch[0], contextOf(batch[0]), siteUrl);
+
+    const deliveryError = await deliver(batch[0].user_id, email);
+    await record(batch, deliveryError);
+
+    if (deliveryError) {
+      failed++;
+      console.error(
+        `Error emailing ${batch.length} notification(s) to ${batch[0].user_id}:`,
+        deliveryError
+      );
+    } else {
+      sent++;
+    }
+  }
+
+  console.log(
+    `Sent ${sent} ${digest ? 'digest' : 'notification'} email${sent === 1 ? '' : 's'}, ${failed} failed`
+  );
+}
+
+// Exit non-zero on unexpected errors so the scheduler sees the run failed
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+/**
+ * Sends webhook deliveries that are due: new events, and failed deliveries whose retry time came
+ * Run it every minute from cron or another scheduler, one run at a time; failed deliveries are retried
+ * with exponential backoff up to WEBHOOK_MAX_ATTEMPTS times (see src/lib/webhooks.ts)
+ * Deliveries to webhooks deactivated since the event are marked as failed, admins can replay them
+ *
+ * Usage: npm run webhooks:deliver
+ * Reads NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and NEXT_PUBLIC_SITE_URL, which links in chat
+ * messages point to, from the environment or .env.local
+ * Try it against the local receiver, npm run webhooks:receive, with WEBHOOK_ALLOW_PRIVATE_NETWORK=true
+ */
+import { existsSync } from 'fs';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+// How many deliveries one run sends at most
+const BATCH_SIZE = 100;
+
+async function main() {
+  // Imported after loading the env file, the client reads its keys at import time
+  const { createAdminClient } = await import('../src/lib/supabase');
+  const { getWebhookDeliveryUpdate, sendWebhook } = await import('../src/lib/webhooks');
+
+  const supabase = createAdminClient();
+
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, event, payload, attempts, webhook:webhooks(url, secret, format, active)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Error fetching due webhook deliveries:', error.message);
+    process.exit(1);
+  }
+
+  if (!deliveries.length) {
+    console.log('No webhook deliveries due');
+    return;
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const delivery of deliveries) {
+    const attempt = delivery.webhook.active
+      ? await sendWebhook(delivery.webhook, delivery)
+      : { status: null, body: null, error: 'Webhook is disabled' };
+
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update(
+        getWebhookDeliveryUpdate(delivery.attempts, attempt, { retry: delivery.webhook.active })
+      )
+      .eq('id', delivery.id);
+
+    if (updateError) {
+      console.error(`Error recording webhook delivery ${delivery.id}:`, updateError.message);
+    }
+
+    if (attempt.error) {
+      failed++;
+      console.error(`Error delivering ${delivery.event} (${delivery.id}):`, attempt.error);
+    } else {
+      sent++;
+    }
+  }
+
+  console.log(`Sent ${sent} webhook deliver${sent === 1 ? 'y' : 'ies'}, ${failed} failed`);
+}
+
+// Exit non-zero on unexpected errors so the scheduler sees the run failed
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+/**
+ * Escalates submitted ideas that have breached the review SLA (see public.escalate_overdue_reviews)
+ * pg_cron runs this hourly where available; use this script locally or from an external scheduler
+ *
+ * Usage: npm run db:escalate
+ * Reads NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from the environment or .env.local
+ */
+import { existsSync } from 'fs';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+async function main() {
+  // Imported after loading the env file, the client reads its keys at import time
+  const { createAdminClient } = await import('../src/lib/supabase');
+
+  const { data, error } = await createAdminClient().rpc('escalate_overdue_reviews');
+
+  if (error) {
+    console.error('Error escalating overdue reviews:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`Escalated ${data} overdue idea${data === 1 ? '' : 's'}`);
+}
+
+// Exit non-zero on unexpected errors so the scheduler sees the run failed
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
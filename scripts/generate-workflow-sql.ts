@@ -0,0 +1,18 @@
+/**
+ * Writes the SQL that enforces the idea workflow table (src/lib/workflow.ts) in Postgres
+ *
+ * Usage: npm run db:workflow -- supabase/migrations/<timestamp>_<name>.sql
+ * Prints to stdout when no path is given
+ */
+import { writeFileSync } from 'fs';
+import { generateWorkflowSql } from '../src/lib/workflow';
+
+const target = process.argv[2];
+const sql = generateWorkflowSql();
+
+if (target) {
+  writeFileSync(target, sql);
+  console.log(`Wrote workflow SQL to ${target}`);
+} else {
+  process.stdout.write(sql);
+}
@@ -0,0 +1,63 @@
+/**
+ * A local HTTP receiver to try webhooks against: logs every delivery and checks its signature
+ * Create a webhook for http://localhost:4000 (or the port given), then send it a test delivery with
+ * POST /api/admin/webhooks/[id]/test or run npm run webhooks:deliver; both need
+ * WEBHOOK_ALLOW_PRIVATE_NETWORK=true, as webhooks are otherwise not sent to local addresses
+ *
+ * Usage: npm run webhooks:receive [-- --port 4000 --fail]
+ * Reads WEBHOOK_SECRET, the secret returned when the webhook was created, from the environment or
+ * .env.local; without it signatures are not checked. With --fail it answers 500, to try retries
+ */
+import { existsSync } from 'fs';
+import { createServer } from 'http';
+import {
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../src/lib/webhooks';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const portIndex = process.argv.indexOf('--port');
+const port = portIndex === -1 ? 4000 : Number(process.argv[portIndex + 1]);
+const fail = process.argv.includes('--fail');
+const secret = process.env.WEBHOOK_SECRET;
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const event = req.headers[WEBHOOK_EVENT_HEADER.toLowerCase()];
+    const delivery = req.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()];
+    const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+    const verified = secret
+      ? verifyWebhookSignature(secret, typeof signature === 'string' ? signature : null, body)
+      : null;
+
+    console.log(
+      `${new Date().toISOString()} ${req.method} ${req.url} ${event ?? '-'} (${delivery ?? '-'})`,
+      verified === null
+        ? 'signature not checked'
+        : verified
+          ? 'signature valid'
+          : 'SIGNATURE INVALID'
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = verified === false ? 401 : fail ? 500 : 200;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status === 200 }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}`);
+});
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { closeCampaignSchema, getCampaignPhase } from '@/lib/campaigns';
+
+/**
+ * POST /api/admin/campaigns/[id]/close
+ * Close a campaign for submissions before its closing date
+ * Participants are notified unless the campaign, or this request, turns notifications off
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const campaignId = req.nextUrl.pathname.split('/')[4]; // /api/admin/campaigns/[id]/close
+    if (!campaignId) {
+      return createErrorResponse('Campaign ID is required', 400);
+    }
+    
+    // Parse and validate request body, which is optional
+    const body = await req.json().catch(() => ({}));
+    const { notify_participants } = closeCampaignSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // Close the campaign; the on_campaign_closed trigger notifies participants
+    const { data, error } = await supabase
+      .from('campaigns')
+      .update({
+        closed_at: new Date().toISOString(),
+        ...(notify_participants !== undefined && { notify_participants }),
+      })
+      .eq('id', campaignId)
+      .eq('workspace_id', profile.workspace_id)
+      .is('closed_at', null)
+      .select()
+      .maybeSingle();
+    
+    if (error) {
+      console.error('Error closing campaign:', error);
+      return createErrorResponse('Failed to close campaign', 500, 'Database Error');
+    }
+    
+    // Nothing updated: either no such campaign or it has already closed
+    if (!data) {
+      const { data: existing } = await supabase
+        .from('campaigns')
+        .select('id')
+        .eq('id', campaignId)
+        .eq('workspace_id', profile.workspace_id)
+        .maybeSingle();
+      
+      return existing
+        ? createErrorResponse('Campaign is already closed', 409, 'Conflict')
+        : createErrorResponse('Campaign not found', 404, 'Not Found');
+    }
+    
+    return NextResponse.json({
+      data: { ...data, phase: getCampaignPhase(data) },
+      message: 'Campaign closed successfully',
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/campaigns/[id]/close:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid close request: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
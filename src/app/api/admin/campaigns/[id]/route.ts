@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { getCampaignPhase, updateCampaignSchema } from '@/lib/campaigns';
+
+/**
+ * PUT /api/admin/campaigns/[id]
+ * Update a campaign's brief, dates, rubric or notification setting
+ * Moving the closing date of a closed campaign into the future reopens it
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const campaignId = req.nextUrl.pathname.split('/').pop();
+    if (!campaignId) {
+      return createErrorResponse('Campaign ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const changes = updateCampaignSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // The rubric must be an active rubric of this workspace
+    if (changes.rubric_id) {
+      const { data: rubric, error: rubricError } = await supabase
+        .from('rubrics')
+        .select('id')
+        .eq('id', changes.rubric_id)
+        .eq('workspace_id', profile.workspace_id)
+        .eq('active', true)
+        .maybeSingle();
+      
+      if (rubricError) {
+        console.error('Error fetching rubric for campaign:', rubricError);
+        return createErrorResponse('Failed to fetch rubric', 500, 'Database Error');
+      }
+      
+      if (!rubric) {
+        return createErrorResponse('Rubric not found or inactive', 400, 'Validation Error');
+      }
+    }
+    
+    // Update the campaign
+    const { data, error } = await supabase
+      .from('campaigns')
+      .update(changes)
+      .eq('id', campaignId)
+      .eq('workspace_id', profile.workspace_id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating campaign:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Campaign not found', 404, 'Not Found');
+      }
+      
+      if (error.code === '23514') {
+        return createErrorResponse('Closing date must be after the opening date', 400, 'Validation Error');
+      }
+      
+      return createErrorResponse('Failed to update campaign', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...data, phase: getCampaignPhase(data) } });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/campaigns/[id]:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid campaign data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
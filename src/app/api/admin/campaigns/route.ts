@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { createCampaignSchema, getCampaignPhase } from '@/lib/campaigns';
+
+/**
+ * POST /api/admin/campaigns
+ * Launch a campaign in the current workspace, optionally with its own review rubric
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const campaign = createCampaignSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // The rubric must be an active rubric of this workspace
+    if (campaign.rubric_id) {
+      const { data: rubric, error: rubricError } = await supabase
+        .from('rubrics')
+        .select('id')
+        .eq('id', campaign.rubric_id)
+        .eq('workspace_id', profile.workspace_id)
+        .eq('active', true)
+        .maybeSingle();
+      
+      if (rubricError) {
+        console.error('Error fetching rubric for campaign:', rubricError);
+        return createErrorResponse('Failed to fetch rubric', 500, 'Database Error');
+      }
+      
+      if (!rubric) {
+        return createErrorResponse('Rubric not found or inactive', 400, 'Validation Error');
+      }
+    }
+    
+    // Create the campaign
+    const { data, error } = await supabase
+      .from('campaigns')
+      .insert({
+        ...campaign,
+        workspace_id: profile.workspace_id,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating campaign:', error);
+      
+      if (error.code === '23514') {
+        return createErrorResponse('Closing date must be after the opening date', 400, 'Validation Error');
+      }
+      
+      return createErrorResponse('Failed to create campaign', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...data, phase: getCampaignPhase(data) } }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/admin/campaigns:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid campaign data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { getFieldOptionsError, updateIdeaFieldSchema } from '@/lib/fields';
+
+/**
+ * PUT /api/admin/fields/[id]
+ * Update a custom idea field's label, help text, options, required flag or position
+ * Values already stored on ideas are kept; they are revalidated when the idea is next saved or submitted
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const fieldId = req.nextUrl.pathname.split('/').pop();
+    if (!fieldId) {
+      return createErrorResponse('Field ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const changes = updateIdeaFieldSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // New options must suit the field's type
+    if (changes.options) {
+      const { data: field, error: fetchError } = await supabase
+        .from('idea_fields')
+        .select('type')
+        .eq('id', fieldId)
+        .eq('workspace_id', profile.workspace_id)
+        .single();
+      
+      if (fetchError) {
+        console.error('Error fetching idea field:', fetchError);
+        
+        if (fetchError.code === 'PGRST116') {
+          return createErrorResponse('Field not found', 404, 'Not Found');
+        }
+        
+        return createErrorResponse('Failed to fetch idea field', 500, 'Database Error');
+      }
+      
+      const optionsError = getFieldOptionsError(field.type, changes.options);
+      if (optionsError) {
+        return createErrorResponse(optionsError, 400, 'Validation Error');
+      }
+    }
+    
+    // Update the field
+    const { data, error } = await supabase
+      .from('idea_fields')
+      .update(changes)
+      .eq('id', fieldId)
+      .eq('workspace_id', profile.workspace_id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating idea field:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Field not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to update idea field', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/fields/[id]:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid field data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * DELETE /api/admin/fields/[id]
+ * Deactivate a custom idea field so ideas no longer show or require it
+ * Fields are never hard-deleted so values already stored on ideas keep their meaning
+ */
+export const DELETE = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const fieldId = req.nextUrl.pathname.split('/').pop();
+    if (!fieldId) {
+      return createErrorResponse('Field ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { error } = await supabase
+      .from('idea_fields')
+      .update({ active: false })
+      .eq('id', fieldId)
+      .eq('workspace_id', profile.workspace_id);
+    
+    if (error) {
+      console.error('Error deactivating idea field:', error);
+      return createErrorResponse('Failed to deactivate idea field', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/fields/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { ideaFieldSchema } from '@/lib/fields';
+
+// Schema for validating query parameters
+const listFieldsQuerySchema = z.object({
+  campaign_id: z.string().uuid('Campaign ID must be a valid UUID').optional(),
+  include_inactive: z.enum(['true', 'false']).optional().default('false'),
+});
+
+/**
+ * GET /api/admin/fields
+ * List the current workspace's custom idea fields, optionally only those of one campaign
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const url = new URL(req.url);
+    const { campaign_id, include_inactive } = listFieldsQuerySchema.parse({
+      campaign_id: url.searchParams.get('campaign_id') ?? undefined,
+      include_inactive: url.searchParams.get('include_inactive') ?? undefined,
+    });
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    let query = supabase
+      .from('idea_fields')
+      .select('*, campaign:campaigns(id, title)')
+      .eq('workspace_id', profile.workspace_id)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+    
+    if (campaign_id) {
+      query = query.eq('campaign_id', campaign_id);
+    }
+    
+    if (include_inactive !== 'true') {
+      query = query.eq('active', true);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching idea fields:', error);
+      return createErrorResponse('Failed to fetch idea fields', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/fields:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/admin/fields
+ * Define a custom idea field for the whole workspace, or for one campaign
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const field = ideaFieldSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Create the field
+    const { data, error } = await supabase
+      .from('idea_fields')
+      .insert({
+        ...field,
+        workspace_id: profile.workspace_id,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating idea field:', error);
+      
+      if (error.code === '23505') {
+        return createErrorResponse('A field with this key already exists', 409, 'Conflict');
+      }
+      
+      // The campaign is not one of this workspace's
+      if (error.code === '23503') {
+        return createErrorResponse('Campaign not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to create idea field', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/admin/fields:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid field data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
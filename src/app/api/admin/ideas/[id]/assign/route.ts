@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { assignReviewerSchema } from '@/lib/assignment';
+
+/**
+ * POST /api/admin/ideas/[id]/assign
+ * Assign or reassign a submitted idea to a reviewer on the review panel
+ * The reviewer is given explicitly, or picked round-robin or by lowest workload
+ * The new assignee is notified by a database trigger
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Extract idea ID from the URL
+    const ideaId = req.nextUrl.pathname.split('/')[4]; // /api/admin/ideas/[id]/assign
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { strategy, reviewer_id } = assignReviewerSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Only ideas of the current workspace can be assigned from it
+    const { error: fetchError } = await supabase
+      .from('ideas')
+      .select('id')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for assignment:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    // Assign in one step so concurrent round-robin picks do not collide
+    const { error: assignError } = await supabase.rpc('assign_idea_reviewer', {
+      idea_id: ideaId,
+      strategy,
+      reviewer_id: reviewer_id ?? null,
+    });
+    
+    if (assignError) {
+      console.error('Error assigning reviewer:', assignError);
+      
+      if (assignError.code === '23514') {
+        return createErrorResponse(assignError.message, 400, 'Validation Error');
+      }
+      
+      if (assignError.code === 'P0002') {
+        return createErrorResponse(
+          'Idea not found or not awaiting review',
+          409,
+          'Conflict'
+        );
+      }
+      
+      return createErrorResponse('Failed to assign reviewer', 500, 'Database Error');
+    }
+    
+    // Return the idea with its new assignee
+    const { data, error } = await supabase
+      .from('ideas')
+      .select(`
+        *,
+        assigned_reviewer:profiles!ideas_assigned_reviewer_id_fkey(id, full_name, avatar_url)
+      `)
+      .eq('id', ideaId)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching assigned idea:', error);
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data,
+      message: 'Reviewer assigned successfully',
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/ideas/[id]/assign:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid assignment data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
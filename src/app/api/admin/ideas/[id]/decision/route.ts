@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createServerComponentClient } from '@/lib/supabase';
 import { withAdmin, createErrorResponse } from '@/lib/auth';
-import { IdeaStatus } from '@/lib/database.types';
+import { checkTransition, getWorkflowActors } from '@/lib/workflow';
+import { scorecardSchema, scoreScorecard, ScoredCriterion } from '@/lib/rubrics';
+import { DEFAULT_QUORUM_POLICY, getQuorumState, QuorumPolicy } from '@/lib/quorum';
 
 // Schema for validating admin decision
 const decisionSchema = z.object({
@@ -14,12 +16,16 @@ const decisionSchema = z.object({
   }).max(1000, {
     message: "Comment must be less than 1000 characters",
   }),
+  scorecard: scorecardSchema.optional(),
 });
 
 /**
  * POST /api/admin/ideas/[id]/decision
- * Admin decision to approve or reject a submitted idea
- * Requires admin role and a mandatory comment
+ * Cast a review panel vote to approve or reject a submitted idea
+ * Requires admin role on the review panel and a mandatory comment
+ * When a rubric applies, a complete scorecard is required and its weighted score is recorded
+ * Ideas in a campaign are scored against the campaign's rubric, others against the workspace default
+ * The idea only changes status once the votes reach the review policy's quorum
  */
 export const POST = withAdmin(async (req: NextRequest, user, profile) => {
   try {
@@ -31,16 +37,17 @@ export const POST = withAdmin(async (req: NextRequest, user, profile) => {
     
     // Parse and validate request body
     const body = await req.json();
-    const { action, comment } = decisionSchema.parse(body);
+    const { action, comment, scorecard } = decisionSchema.parse(body);
     
     // Get Supabase client
     const supabase = createServerComponentClient();
     
-    // Check if the idea exists and is in submitted status
+    // Check if the idea exists, with the rubric of its campaign
     const { data: idea, error: fetchError } = await supabase
       .from('ideas')
-      .select('status, owner_id, title')
+      .select('*, campaign:campaigns(rubric_id)')
       .eq('id', ideaId)
+      .eq('workspace_id', profile.workspace_id)
       .single();
     
     if (fetchError) {
@@ -53,23 +60,164 @@ export const POST = withAdmin(async (req: NextRequest, user, profile) => {
       return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
     }
     
-    // Verify the idea is in submitted status
-    if (idea.status !== 'submitted') {
+    // Verify the workflow allows this decision in the idea's current state
+    const check = checkTransition(action, idea, getWorkflowActors(idea, user.id, profile?.workspace_role));
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
+    }
+    
+    // Only reviewers on the panel can vote
+    const { data: panel, error: panelError } = await supabase.rpc('get_review_panel', {
+      workspace_id: profile.workspace_id,
+    });
+    
+    if (panelError) {
+      console.error('Error fetching review panel:', panelError);
+      return createErrorResponse('Failed to fetch review panel', 500, 'Database Error');
+    }
+    
+    const panelIds = panel.map(reviewer => reviewer.id);
+    if (!panelIds.includes(user.id)) {
+      return createErrorResponse('You are not on the review panel', 403, 'Forbidden');
+    }
+    
+    // Resolve the rubric: the campaign's, otherwise the workspace default
+    const rubricId = idea.campaign?.rubric_id;
+    let rubricQuery = supabase
+      .from('rubrics')
+      .select('id, criteria:rubric_criteria(key, label, weight)')
+      .eq('workspace_id', profile.workspace_id)
+      .eq('active', true);
+    
+    rubricQuery = rubricId
+      ? rubricQuery.eq('id', rubricId)
+      : rubricQuery.eq('is_default', true);
+    
+    const { data: rubric, error: rubricError } = await rubricQuery.maybeSingle();
+    
+    if (rubricError) {
+      console.error('Error fetching rubric for admin decision:', rubricError);
+      return createErrorResponse('Failed to fetch rubric', 500, 'Database Error');
+    }
+    
+    // A scorecard can name its rubric, but only the one that applies to this idea
+    if (scorecard?.rubric_id && scorecard.rubric_id !== rubric?.id) {
       return createErrorResponse(
-        `Only ideas in 'submitted' status can be approved or rejected`,
+        'Scorecard rubric does not match the rubric for this idea',
         400,
-        'Invalid Status'
+        'Validation Error'
       );
     }
     
-    // Determine the new status based on the action
-    const newStatus: IdeaStatus = action === 'approve' ? 'approved' : 'rejected';
+    // Score the decision against the rubric
+    let scored: ScoredCriterion[] = [];
+    let weightedScore: number | null = null;
+    
+    if (rubric) {
+      if (!scorecard) {
+        return createErrorResponse(
+          'A scorecard is required for this decision',
+          400,
+          'Validation Error'
+        );
+      }
+      
+      const result = scoreScorecard(rubric.criteria, scorecard.scores);
+      if (result.error !== undefined) {
+        return createErrorResponse(result.error, 400, 'Validation Error');
+      }
+      
+      scored = result.scored;
+      weightedScore = result.weightedScore;
+    }
+    
+    // Record the vote with a snapshot of the scorecard
+    const { data: review, error: reviewError } = await supabase
+      .from('idea_reviews')
+      .insert({
+        idea_id: ideaId,
+        reviewer_id: user.id,
+        rubric_id: rubric?.id ?? null,
+        decision: action,
+        scores: scored,
+        weighted_score: weightedScore,
+      })
+      .select()
+      .single();
+    
+    if (reviewError) {
+      console.error('Error recording review vote:', reviewError);
+      
+      if (reviewError.code === '23505') {
+        return createErrorResponse(
+          'You have already voted on this submission',
+          409,
+          'Conflict'
+        );
+      }
+      
+      return createErrorResponse('Failed to record vote', 500, 'Database Error');
+    }
+    
+    // Add the reviewer's comment; decision comments cannot be edited or removed later
+    if (check.transition.effects.includes('decision_comment')) {
+      const { error: commentError } = await supabase
+        .from('comments')
+        .insert({
+          idea_id: ideaId,
+          author_id: user.id,
+          body: comment,
+          kind: 'decision',
+        });
+      
+      if (commentError) {
+        console.error('Error adding admin comment:', commentError);
+        // Continue despite comment error, but log it
+        // We don't want to lose the vote if only the comment failed
+      }
+    }
+    
+    // Tally this round's votes against the review policy
+    const [{ data: policy }, { data: votes, error: votesError }] = await Promise.all([
+      supabase
+        .from('review_policy')
+        .select('approvals_required, rejection_rule')
+        .eq('workspace_id', profile.workspace_id)
+        .maybeSingle(),
+      supabase
+        .from('idea_reviews')
+        .select('reviewer_id, decision')
+        .eq('idea_id', ideaId)
+        .eq('round', review.round),
+    ]);
     
-    // Update the idea status
+    if (votesError) {
+      console.error('Error fetching review votes:', votesError);
+      return createErrorResponse('Failed to fetch review votes', 500, 'Database Error');
+    }
+    
+    const quorum = getQuorumState(
+      (policy as QuorumPolicy | null) ?? DEFAULT_QUORUM_POLICY,
+      panelIds,
+      votes
+    );
+    
+    // Not decided yet, the idea stays submitted
+    if (quorum.outcome !== action) {
+      return NextResponse.json({
+        data: idea,
+        review,
+        quorum,
+        message: `Vote recorded, ${quorum.approvals} of ${quorum.approvals_required} approvals`,
+        action,
+      });
+    }
+    
+    // Quorum reached, update the idea status
     const { data, error } = await supabase
       .from('ideas')
       .update({
-        status: newStatus,
+        status: check.transition.to,
       })
       .eq('id', ideaId)
       .select()
@@ -80,24 +228,11 @@ export const POST = withAdmin(async (req: NextRequest, user, profile) => {
       return createErrorResponse('Failed to update idea status', 500, 'Database Error');
     }
     
-    // Add the admin's comment
-    const { error: commentError } = await supabase
-      .from('comments')
-      .insert({
-        idea_id: ideaId,
-        author_id: user.id,
-        body: comment,
-      });
-    
-    if (commentError) {
-      console.error('Error adding admin comment:', commentError);
-      // Continue despite comment error, but log it
-      // We don't want to revert the status change if only the comment failed
-    }
-    
     // Return the updated idea with success message
     return NextResponse.json({
       data,
+      review,
+      quorum,
       message: `Idea ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
       action,
     });
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+
+/**
+ * POST /api/admin/ideas/[id]/review
+ * Pick up a submitted idea for review; from then on its owner can no longer withdraw it
+ * Reviewers on the review panel and the idea's assigned reviewer can start its review
+ * Commenting on the idea or casting the first vote also starts it
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Extract idea ID from the URL
+    const ideaId = req.nextUrl.pathname.split('/')[4]; // /api/admin/ideas/[id]/review
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Check if the idea exists and is awaiting review
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('id, status, assigned_reviewer_id, review_started_at')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for review start:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    if (idea.status !== 'submitted') {
+      return createErrorResponse('Only submitted ideas can be reviewed', 409, 'Conflict');
+    }
+    
+    // Only the idea's reviewers can start its review
+    if (idea.assigned_reviewer_id !== user.id) {
+      const { data: panel, error: panelError } = await supabase.rpc('get_review_panel', {
+        workspace_id: profile.workspace_id,
+      });
+      
+      if (panelError) {
+        console.error('Error fetching review panel:', panelError);
+        return createErrorResponse('Failed to fetch review panel', 500, 'Database Error');
+      }
+      
+      if (!panel.some(reviewer => reviewer.id === user.id)) {
+        return createErrorResponse(
+          'Only the assigned reviewer or the review panel can review this idea',
+          403,
+          'Forbidden'
+        );
+      }
+    }
+    
+    // Starting an already started review leaves it as it was
+    if (idea.review_started_at) {
+      return NextResponse.json({
+        data: idea,
+        message: 'Review already started',
+      });
+    }
+    
+    const { error: reviewError } = await supabase.rpc('start_idea_review', { idea_id: ideaId });
+    
+    if (reviewError) {
+      console.error('Error starting idea review:', reviewError);
+      return createErrorResponse('Failed to start review', 500, 'Database Error');
+    }
+    
+    // Return the idea with its review start
+    const { data, error } = await supabase
+      .from('ideas')
+      .select('id, status, assigned_reviewer_id, review_started_at')
+      .eq('id', ideaId)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching reviewed idea:', error);
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data,
+      message: 'Review started successfully',
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/ideas/[id]/review:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { checkTransition, getWorkflowActors } from '@/lib/workflow';
+
+// Schema for validating post-approval status changes
+const statusSchema = z.object({
+  action: z.enum(['start', 'ship'], {
+    required_error: "Action must be either 'start' or 'ship'",
+  }),
+  comment: z.string().min(3, {
+    message: "Comment must be at least 3 characters",
+  }).max(1000, {
+    message: "Comment must be less than 1000 characters",
+  }).optional(),
+});
+
+/**
+ * POST /api/admin/ideas/[id]/status
+ * Move an approved idea through delivery: start work on it or mark it shipped
+ * Requires admin role; the optional comment is posted on the idea
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Extract idea ID from the URL
+    const ideaId = req.nextUrl.pathname.split('/')[4]; // /api/admin/ideas/[id]/status
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { action, comment } = statusSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Check if the idea exists
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('status, owner_id, title')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for status change:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    // Verify the workflow allows this change in the idea's current state
+    const check = checkTransition(action, idea, getWorkflowActors(idea, user.id, profile?.workspace_role));
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
+    }
+    
+    // Update the idea status
+    const { data, error } = await supabase
+      .from('ideas')
+      .update({
+        status: check.transition.to,
+      })
+      .eq('id', ideaId)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating idea status:', error);
+      return createErrorResponse('Failed to update idea status', 500, 'Database Error');
+    }
+    
+    // Add the admin's comment if one was given
+    if (comment) {
+      const { error: commentError } = await supabase
+        .from('comments')
+        .insert({
+          idea_id: ideaId,
+          author_id: user.id,
+          body: comment,
+        });
+      
+      if (commentError) {
+        console.error('Error adding admin comment:', commentError);
+        // Continue despite comment error, the status change is what matters
+      }
+    }
+    
+    // Return the updated idea with success message
+    return NextResponse.json({
+      data,
+      message: `Idea ${action === 'start' ? 'moved to in progress' : 'marked as shipped'}`,
+      action,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/ideas/[id]/status:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid status data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -2,21 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createServerComponentClient } from '@/lib/supabase';
 import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { RevisionField } from '@/lib/revisions';
+import { markdownExcerpt } from '@/lib/markdown';
+import { Constants } from '@/lib/database.types';
 
 // Schema for validating query parameters
 const listIdeasQuerySchema = z.object({
-  status: z.enum(['draft', 'submitted', 'approved', 'rejected']).optional(),
+  status: z.enum(Constants.public.Enums.idea_status).optional(),
   limit: z.coerce.number().min(1).max(100).optional().default(20),
   offset: z.coerce.number().min(0).optional().default(0),
   search: z.string().optional(),
-  sort: z.enum(['created_at', 'updated_at', 'title']).optional().default('updated_at'),
+  assignee: z.union([z.enum(['me', 'unassigned']), z.string().uuid()]).optional(),
+  overdue: z.enum(['true', 'false']).optional(),
+  sort: z.enum(['created_at', 'updated_at', 'submitted_at', 'title', 'review_score', 'votes']).optional().default('updated_at'),
   order: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 
 /**
  * GET /api/admin/ideas
- * List all ideas with admin filtering capabilities
- * Only accessible by users with admin role
+ * List the current workspace's ideas with admin filtering capabilities
+ * Only accessible by admins of the workspace
  */
 export const GET = withAdmin(async (req: NextRequest, user, profile) => {
   try {
@@ -27,12 +32,15 @@ export const GET = withAdmin(async (req: NextRequest, user, profile) => {
       limit: url.searchParams.get('limit'),
       offset: url.searchParams.get('offset'),
       search: url.searchParams.get('search'),
+      assignee: url.searchParams.get('assignee') ?? undefined,
+      overdue: url.searchParams.get('overdue') ?? undefined,
       sort: url.searchParams.get('sort'),
       order: url.searchParams.get('order'),
     };
 
     // Validate query parameters
-    const { status, limit, offset, search, sort, order } = listIdeasQuerySchema.parse(queryParams);
+    const { status, limit, offset, search, assignee, overdue, sort, order } =
+      listIdeasQuerySchema.parse(queryParams);
 
     // Get Supabase client
     const supabase = createServerComponentClient();
@@ -40,9 +48,15 @@ export const GET = withAdmin(async (req: NextRequest, user, profile) => {
     // Start building the query with extended information for admin review
     let query = supabase.from('ideas').select(`
       *,
+      review_due_at,
+      overdue,
+      vote_count,
+      voted,
       owner:profiles!ideas_owner_id_fkey(id, full_name, avatar_url, role),
+      assigned_reviewer:profiles!ideas_assigned_reviewer_id_fkey(id, full_name, avatar_url),
       comments:comments(
         id,
+        internal,
         body,
         created_at,
         author:profiles!comments_author_id_fkey(id, full_name, avatar_url, role)
@@ -50,18 +64,33 @@ export const GET = withAdmin(async (req: NextRequest, user, profile) => {
       comment_count:comments(count)
     `);
     
+    // Only ideas of the current workspace
+    query = query.eq('workspace_id', profile.workspace_id);
+    
     // Apply status filter if provided
     if (status) {
       query = query.eq('status', status);
     }
     
+    // Apply reviewer assignment filter if provided
+    if (assignee === 'unassigned') {
+      query = query.is('assigned_reviewer_id', null);
+    } else if (assignee) {
+      query = query.eq('assigned_reviewer_id', assignee === 'me' ? user.id : assignee);
+    }
+    
+    // Apply review SLA filter if provided
+    if (overdue) {
+      query = query.eq('overdue', overdue === 'true');
+    }
+    
     // Apply search filter if provided
     if (search) {
       query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
     }
     
-    // Apply sorting
-    query = query.order(sort, { ascending: order === 'asc' });
+    // Apply sorting, keeping unscored ideas last when sorting by review score
+    query = query.order(sort === 'votes' ? 'vote_count' : sort, { ascending: order === 'asc', nullsFirst: false });
     
     // Apply pagination
     query = query.range(offset, offset + limit - 1);
@@ -74,9 +103,33 @@ export const GET = withAdmin(async (req: NextRequest, user, profile) => {
       return createErrorResponse('Failed to fetch ideas', 500, 'Database Error');
     }
     
+    // Flag resubmitted ideas whose content changed since the last admin review
+    const ideaIds = data.map(idea => idea.id);
+    const { data: reviewChanges, error: reviewChangesError } = ideaIds.length
+      ? await supabase.rpc('idea_review_changes', { idea_ids: ideaIds })
+      : { data: [], error: null };
+    
+    if (reviewChangesError) {
+      console.error('Error fetching idea review changes:', reviewChangesError);
+      // Continue with the response, just log the error
+    }
+    
+    const ideas = data.map(idea => {
+      const changes = (reviewChanges || []).find(change => change.idea_id === idea.id);
+      
+      return {
+        ...idea,
+        excerpt: markdownExcerpt(idea.description),
+        last_reviewed_revision: changes?.last_reviewed_revision ?? null,
+        changed_since_review: !!changes?.changed_fields.length,
+        changed_fields: (changes?.changed_fields ?? []) as RevisionField[],
+      };
+    });
+    
     // Get dashboard counts for admin view
     const { data: dashboardCounts, error: dashboardError } = await supabase.rpc(
-      'get_admin_dashboard_counts'
+      'get_admin_dashboard_counts',
+      { workspace_id: profile.workspace_id }
     );
     
     if (dashboardError) {
@@ -86,7 +139,7 @@ export const GET = withAdmin(async (req: NextRequest, user, profile) => {
     
     // Return ideas with pagination metadata and dashboard counts
     return NextResponse.json({
-      data,
+      data: ideas,
       pagination: {
         total: count,
         limit,
@@ -97,8 +150,16 @@ export const GET = withAdmin(async (req: NextRequest, user, profile) => {
         submitted_count: 0,
         approved_count: 0,
         rejected_count: 0,
+        in_progress_count: 0,
+        shipped_count: 0,
+        archived_count: 0,
         total_count: 0,
         pending_review_count: 0,
+        overdue_count: 0,
+        avg_review_hours: null,
+        sla_hours: null,
+        unassigned_count: 0,
+        reviewer_workload: [],
       },
     });
   } catch (error) {
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+
+// Schema for validating query parameters
+const queueQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).optional().default(20),
+  offset: z.coerce.number().min(0).optional().default(0),
+});
+
+/**
+ * GET /api/admin/queue
+ * The current admin's assigned submissions in the current workspace, longest waiting first, with their review SLA status
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse query parameters
+    const url = new URL(req.url);
+    const { limit, offset } = queueQuerySchema.parse({
+      limit: url.searchParams.get('limit') ?? undefined,
+      offset: url.searchParams.get('offset') ?? undefined,
+    });
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    const { data, error, count } = await supabase
+      .from('ideas')
+      .select(
+        `
+        *,
+        review_due_at,
+        overdue,
+        owner:profiles!ideas_owner_id_fkey(id, full_name, avatar_url),
+        comment_count:comments(count)
+      `,
+        { count: 'exact' }
+      )
+      .eq('workspace_id', profile.workspace_id)
+      .eq('assigned_reviewer_id', user.id)
+      .eq('status', 'submitted')
+      .order('submitted_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+    
+    if (error) {
+      console.error('Error fetching review queue:', error);
+      return createErrorResponse('Failed to fetch review queue', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data,
+      pagination: {
+        total: count,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/admin/queue:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
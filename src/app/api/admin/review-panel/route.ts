@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+
+// Schema for validating panel membership updates
+const reviewPanelSchema = z.object({
+  reviewer_ids: z.array(z.string().uuid('Reviewer IDs must be valid UUIDs')).max(50, 'Too many reviewers'),
+});
+
+/**
+ * GET /api/admin/review-panel
+ * List the reviewers who vote on the current workspace's submitted ideas
+ * An empty panel configuration means every admin of the workspace votes
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const supabase = await createServerComponentClient();
+    
+    const [{ data: panel, error }, { count, error: membersError }] = await Promise.all([
+      supabase.rpc('get_review_panel', { workspace_id: profile.workspace_id }),
+      supabase
+        .from('review_panel_members')
+        .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', profile.workspace_id),
+    ]);
+    
+    if (error || membersError) {
+      console.error('Error fetching review panel:', error || membersError);
+      return createErrorResponse('Failed to fetch review panel', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data: panel,
+      all_admins: !count,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/admin/review-panel:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/admin/review-panel
+ * Replace the current workspace's review panel; pass an empty list to let every admin of the
+ * workspace vote
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { reviewer_ids } = reviewPanelSchema.parse(body);
+    const reviewerIds = [...new Set(reviewer_ids)];
+    
+    const supabase = await createServerComponentClient();
+    
+    // Only admins of the workspace can sit on its panel
+    if (reviewerIds.length) {
+      const { data: admins, error: adminsError } = await supabase
+        .from('workspace_members')
+        .select('user_id')
+        .eq('workspace_id', profile.workspace_id)
+        .in('user_id', reviewerIds)
+        .eq('role', 'admin');
+      
+      if (adminsError) {
+        console.error('Error checking reviewer roles:', adminsError);
+        return createErrorResponse('Failed to update review panel', 500, 'Database Error');
+      }
+      
+      if (admins.length !== reviewerIds.length) {
+        return createErrorResponse(
+          'Every reviewer must be an admin of the workspace',
+          400,
+          'Validation Error'
+        );
+      }
+    }
+    
+    // Replace the current members
+    const { error: deleteError } = await supabase
+      .from('review_panel_members')
+      .delete()
+      .eq('workspace_id', profile.workspace_id);
+    
+    if (deleteError) {
+      console.error('Error clearing review panel:', deleteError);
+      return createErrorResponse('Failed to update review panel', 500, 'Database Error');
+    }
+    
+    if (reviewerIds.length) {
+      const { error: insertError } = await supabase
+        .from('review_panel_members')
+        .insert(reviewerIds.map(reviewer_id => ({
+          workspace_id: profile.workspace_id,
+          reviewer_id,
+          added_by: user.id,
+        })));
+      
+      if (insertError) {
+        console.error('Error adding review panel members:', insertError);
+        return createErrorResponse('Failed to update review panel', 500, 'Database Error');
+      }
+    }
+    
+    const { data: panel, error } = await supabase.rpc('get_review_panel', {
+      workspace_id: profile.workspace_id,
+    });
+    
+    if (error) {
+      console.error('Error fetching review panel:', error);
+      return createErrorResponse('Failed to fetch review panel', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data: panel,
+      all_admins: reviewerIds.length === 0,
+    });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/review-panel:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid review panel: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { reviewPolicySchema } from '@/lib/quorum';
+import { ASSIGNMENT_STRATEGIES } from '@/lib/assignment';
+
+// The quorum rule plus how new submissions are assigned and how long they may wait
+const updateReviewPolicySchema = reviewPolicySchema.extend({
+  assignment_strategy: z.enum(ASSIGNMENT_STRATEGIES).optional(),
+  sla_hours: z
+    .number()
+    .int('SLA hours must be a whole number')
+    .min(1, 'SLA must be at least one hour')
+    .max(24 * 90, 'SLA must be at most 90 days')
+    .optional(),
+});
+
+/**
+ * GET /api/admin/review-policy
+ * Get the current workspace's quorum rule applied to review panel votes, the reviewer assignment strategy
+ * and the review SLA
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('review_policy')
+      .select('approvals_required, rejection_rule, assignment_strategy, sla_hours, updated_at, updated_by')
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching review policy:', error);
+      return createErrorResponse('Failed to fetch review policy', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/review-policy:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/admin/review-policy
+ * Change the quorum rule; applies to votes still pending on submitted ideas
+ * The assignment strategy only affects ideas submitted from now on; the SLA applies immediately
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { approvals_required, rejection_rule, assignment_strategy, sla_hours } =
+      updateReviewPolicySchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('review_policy')
+      .update({
+        approvals_required,
+        rejection_rule,
+        ...(assignment_strategy && { assignment_strategy }),
+        ...(sla_hours && { sla_hours }),
+        updated_by: user.id,
+      })
+      .eq('workspace_id', profile.workspace_id)
+      .select('approvals_required, rejection_rule, assignment_strategy, sla_hours, updated_at, updated_by')
+      .single();
+    
+    if (error) {
+      console.error('Error updating review policy:', error);
+      return createErrorResponse('Failed to update review policy', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/review-policy:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid review policy: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
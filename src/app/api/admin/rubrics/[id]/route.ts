@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { rubricSchema } from '@/lib/rubrics';
+
+/**
+ * GET /api/admin/rubrics/[id]
+ * Get a rubric with its criteria
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const rubricId = req.nextUrl.pathname.split('/').pop();
+    if (!rubricId) {
+      return createErrorResponse('Rubric ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('rubrics')
+      .select('*, criteria:rubric_criteria(*)')
+      .eq('id', rubricId)
+      .eq('workspace_id', profile.workspace_id)
+      .order('position', { referencedTable: 'rubric_criteria', ascending: true })
+      .single();
+    
+    if (error) {
+      console.error('Error fetching rubric:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Rubric not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch rubric', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/rubrics/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/admin/rubrics/[id]
+ * Replace a rubric's details and criteria
+ * Past reviews keep the criteria snapshot they were scored with
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const rubricId = req.nextUrl.pathname.split('/').pop();
+    if (!rubricId) {
+      return createErrorResponse('Rubric ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { name, description, is_default, criteria } = rubricSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // Only one rubric can be the default
+    if (is_default) {
+      const { error: resetError } = await supabase
+        .from('rubrics')
+        .update({ is_default: false })
+        .eq('workspace_id', profile.workspace_id)
+        .eq('is_default', true)
+        .neq('id', rubricId);
+      
+      if (resetError) {
+        console.error('Error clearing default rubric:', resetError);
+        return createErrorResponse('Failed to update rubric', 500, 'Database Error');
+      }
+    }
+    
+    // Update the rubric
+    const { data: rubric, error } = await supabase
+      .from('rubrics')
+      .update({ name, description, is_default })
+      .eq('id', rubricId)
+      .eq('workspace_id', profile.workspace_id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating rubric:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Rubric not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to update rubric', 500, 'Database Error');
+    }
+    
+    // Replace its criteria
+    const { error: deleteError } = await supabase
+      .from('rubric_criteria')
+      .delete()
+      .eq('rubric_id', rubricId);
+    
+    if (deleteError) {
+      console.error('Error replacing rubric criteria:', deleteError);
+      return createErrorResponse('Failed to update rubric criteria', 500, 'Database Error');
+    }
+    
+    const { data: updatedCriteria, error: criteriaError } = await supabase
+      .from('rubric_criteria')
+      .insert(criteria.map((criterion, position) => ({
+        ...criterion,
+        rubric_id: rubricId,
+        position,
+      })))
+      .select();
+    
+    if (criteriaError) {
+      console.error('Error replacing rubric criteria:', criteriaError);
+      return createErrorResponse('Failed to update rubric criteria', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...rubric, criteria: updatedCriteria } });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/rubrics/[id]:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid rubric data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * DELETE /api/admin/rubrics/[id]
+ * Deactivate a rubric so it can no longer be used for new reviews
+ * Rubrics are never hard-deleted because past reviews refer to them
+ */
+export const DELETE = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const rubricId = req.nextUrl.pathname.split('/').pop();
+    if (!rubricId) {
+      return createErrorResponse('Rubric ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { error } = await supabase
+      .from('rubrics')
+      .update({ active: false, is_default: false })
+      .eq('id', rubricId)
+      .eq('workspace_id', profile.workspace_id);
+    
+    if (error) {
+      console.error('Error deactivating rubric:', error);
+      return createErrorResponse('Failed to deactivate rubric', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/rubrics/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
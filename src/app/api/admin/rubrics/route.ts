@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { rubricSchema } from '@/lib/rubrics';
+
+// Schema for validating query parameters
+const listRubricsQuerySchema = z.object({
+  include_inactive: z.enum(['true', 'false']).optional().default('false'),
+});
+
+/**
+ * GET /api/admin/rubrics
+ * List the current workspace's review rubrics with their criteria
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const url = new URL(req.url);
+    const { include_inactive } = listRubricsQuerySchema.parse({
+      include_inactive: url.searchParams.get('include_inactive') ?? undefined,
+    });
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    let query = supabase
+      .from('rubrics')
+      .select('*, criteria:rubric_criteria(*)')
+      .eq('workspace_id', profile.workspace_id)
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true })
+      .order('position', { referencedTable: 'rubric_criteria', ascending: true });
+    
+    if (include_inactive !== 'true') {
+      query = query.eq('active', true);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching rubrics:', error);
+      return createErrorResponse('Failed to fetch rubrics', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/rubrics:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/admin/rubrics
+ * Create a review rubric with weighted criteria in the current workspace
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { name, description, is_default, criteria } = rubricSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Only one rubric can be the default
+    if (is_default) {
+      const { error: resetError } = await supabase
+        .from('rubrics')
+        .update({ is_default: false })
+        .eq('workspace_id', profile.workspace_id)
+        .eq('is_default', true);
+      
+      if (resetError) {
+        console.error('Error clearing default rubric:', resetError);
+        return createErrorResponse('Failed to create rubric', 500, 'Database Error');
+      }
+    }
+    
+    // Create the rubric
+    const { data: rubric, error } = await supabase
+      .from('rubrics')
+      .insert({
+        workspace_id: profile.workspace_id,
+        name,
+        description,
+        is_default,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating rubric:', error);
+      return createErrorResponse('Failed to create rubric', 500, 'Database Error');
+    }
+    
+    // Create its criteria in the order given
+    const { data: createdCriteria, error: criteriaError } = await supabase
+      .from('rubric_criteria')
+      .insert(criteria.map((criterion, position) => ({
+        ...criterion,
+        rubric_id: rubric.id,
+        position,
+      })))
+      .select();
+    
+    if (criteriaError) {
+      console.error('Error creating rubric criteria:', criteriaError);
+      // Don't leave a rubric without criteria behind
+      await supabase.from('rubrics').delete().eq('id', rubric.id);
+      return createErrorResponse('Failed to create rubric', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...rubric, criteria: createdCriteria } }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/admin/rubrics:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid rubric data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
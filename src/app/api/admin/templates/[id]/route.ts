@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { updateIdeaTemplateSchema } from '@/lib/templates';
+
+/**
+ * GET /api/admin/templates/[id]
+ * Get an idea template with every version published so far, newest first
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const templateId = req.nextUrl.pathname.split('/').pop();
+    if (!templateId) {
+      return createErrorResponse('Template ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('idea_templates')
+      .select('*, versions:idea_template_versions(version, name, sections, author_id, created_at)')
+      .eq('id', templateId)
+      .eq('workspace_id', profile.workspace_id)
+      .order('version', { referencedTable: 'idea_template_versions', ascending: false })
+      .single();
+    
+    if (error) {
+      console.error('Error fetching idea template:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Template not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea template', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/templates/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/admin/templates/[id]
+ * Update an idea template's name, description or sections
+ * Changing the sections publishes a new version; ideas created earlier keep the version they started from
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const templateId = req.nextUrl.pathname.split('/').pop();
+    if (!templateId) {
+      return createErrorResponse('Template ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const changes = updateIdeaTemplateSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // Update the template
+    const { data, error } = await supabase
+      .from('idea_templates')
+      .update(changes)
+      .eq('id', templateId)
+      .eq('workspace_id', profile.workspace_id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating idea template:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Template not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to update idea template', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/templates/[id]:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid template data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * DELETE /api/admin/templates/[id]
+ * Deactivate an idea template so new ideas can no longer start from it
+ * Ideas created from it keep their copy of the template and their sections
+ */
+export const DELETE = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const templateId = req.nextUrl.pathname.split('/').pop();
+    if (!templateId) {
+      return createErrorResponse('Template ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { error } = await supabase
+      .from('idea_templates')
+      .update({ active: false })
+      .eq('id', templateId)
+      .eq('workspace_id', profile.workspace_id);
+    
+    if (error) {
+      console.error('Error deactivating idea template:', error);
+      return createErrorResponse('Failed to deactivate idea template', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/templates/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
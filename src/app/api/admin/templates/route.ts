@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { ideaTemplateSchema } from '@/lib/templates';
+
+// Schema for validating query parameters
+const listTemplatesQuerySchema = z.object({
+  include_inactive: z.enum(['true', 'false']).optional().default('false'),
+});
+
+/**
+ * GET /api/admin/templates
+ * List the current workspace's own idea templates
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const url = new URL(req.url);
+    const { include_inactive } = listTemplatesQuerySchema.parse({
+      include_inactive: url.searchParams.get('include_inactive') ?? undefined,
+    });
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    let query = supabase
+      .from('idea_templates')
+      .select('*')
+      .eq('workspace_id', profile.workspace_id)
+      .order('name', { ascending: true });
+    
+    if (include_inactive !== 'true') {
+      query = query.eq('active', true);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching idea templates:', error);
+      return createErrorResponse('Failed to fetch idea templates', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/templates:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/admin/templates
+ * Author an idea template for the workspace; it is published as version 1
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const template = ideaTemplateSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Create the template
+    const { data, error } = await supabase
+      .from('idea_templates')
+      .insert({
+        ...template,
+        workspace_id: profile.workspace_id,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating idea template:', error);
+      
+      if (error.code === '23505') {
+        return createErrorResponse('A template with this key already exists', 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to create idea template', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/admin/templates:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid template data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
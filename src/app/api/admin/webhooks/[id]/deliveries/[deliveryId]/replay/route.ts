@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { getWebhookDeliveryUpdate, sendWebhook } from '@/lib/webhooks';
+
+/**
+ * POST /api/admin/webhooks/[id]/deliveries/[deliveryId]/replay
+ * Send a logged delivery's payload again, as a new delivery that refers back to it
+ * It is sent right away; if that fails, the delivery worker retries it like any other
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/admin/webhooks/[id]/deliveries/[deliveryId]/replay
+    const webhookId = segments[4];
+    const deliveryId = segments[6];
+    if (!webhookId || !deliveryId) {
+      return createErrorResponse('Webhook ID and delivery ID are required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data: original, error: fetchError } = await supabase
+      .from('webhook_deliveries')
+      .select('id, event, payload, webhook:webhooks(id, url, secret, format)')
+      .eq('id', deliveryId)
+      .eq('webhook_id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching webhook delivery for replay:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Delivery not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch delivery', 500, 'Database Error');
+    }
+    
+    // Log the replay first; without a next attempt the delivery worker leaves it alone meanwhile
+    const { data: delivery, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert({
+        webhook_id: original.webhook.id,
+        event: original.event,
+        payload: original.payload,
+        replay_of: original.id,
+        next_attempt_at: null,
+      })
+      .select()
+      .single();
+    
+    if (insertError) {
+      console.error('Error logging webhook replay:', insertError);
+      return createErrorResponse('Failed to replay delivery', 500, 'Database Error');
+    }
+    
+    const attempt = await sendWebhook(original.webhook, delivery);
+    
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update(getWebhookDeliveryUpdate(delivery.attempts, attempt))
+      .eq('id', delivery.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error recording webhook replay:', error);
+      return createErrorResponse('Failed to record replay', 500, 'Database Error');
+    }
+    
+    return NextResponse.json(
+      {
+        data,
+        message: attempt.error
+          ? `Replay failed and will be retried: ${attempt.error}`
+          : 'Delivery replayed successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in POST /api/admin/webhooks/[id]/deliveries/[deliveryId]/replay:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { listWebhookDeliveriesQuerySchema } from '@/lib/webhooks';
+
+/**
+ * GET /api/admin/webhooks/[id]/deliveries
+ * A webhook's delivery log, newest first, optionally filtered by status
+ * Query: status (pending, sent, failed), limit (default 50, at most 100)
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const webhookId = req.nextUrl.pathname.split('/')[4]; // /api/admin/webhooks/[id]/deliveries
+    if (!webhookId) {
+      return createErrorResponse('Webhook ID is required', 400);
+    }
+    
+    const { status, limit } = listWebhookDeliveriesQuerySchema.parse({
+      status: req.nextUrl.searchParams.get('status') ?? undefined,
+      limit: req.nextUrl.searchParams.get('limit') ?? undefined,
+    });
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data: webhook, error: fetchError } = await supabase
+      .from('webhooks')
+      .select('id')
+      .eq('id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .maybeSingle();
+    
+    if (fetchError) {
+      console.error('Error fetching webhook for deliveries:', fetchError);
+      return createErrorResponse('Failed to fetch webhook', 500, 'Database Error');
+    }
+    
+    if (!webhook) {
+      return createErrorResponse('Webhook not found', 404, 'Not Found');
+    }
+    
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (status) {
+      query = query.eq('status', status);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return createErrorResponse('Failed to fetch webhook deliveries', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/webhooks/[id]/deliveries:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid query parameters: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { generateWebhookSecret, updateWebhookSchema, WEBHOOK_COLUMNS } from '@/lib/webhooks';
+
+/**
+ * GET /api/admin/webhooks/[id]
+ * Get a webhook, without its secret
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const webhookId = req.nextUrl.pathname.split('/').pop();
+    if (!webhookId) {
+      return createErrorResponse('Webhook ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select(WEBHOOK_COLUMNS)
+      .eq('id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching webhook:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Webhook not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch webhook', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/webhooks/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/admin/webhooks/[id]
+ * Update a webhook's URL, events, format, campaign, description or whether it is active
+ * With rotate_secret, a new signing secret replaces the old one and is returned once
+ */
+export const PUT = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const webhookId = req.nextUrl.pathname.split('/').pop();
+    if (!webhookId) {
+      return createErrorResponse('Webhook ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { rotate_secret, ...changes } = updateWebhookSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('webhooks')
+      .update({
+        ...changes,
+        ...(rotate_secret && { secret: generateWebhookSecret() }),
+      })
+      .eq('id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .select(rotate_secret ? '*' : WEBHOOK_COLUMNS)
+      .single();
+    
+    if (error) {
+      console.error('Error updating webhook:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Webhook not found', 404, 'Not Found');
+      }
+      
+      if (error.code === '23514') {
+        return createErrorResponse(error.message, 400, 'Validation Error');
+      }
+      
+      return createErrorResponse('Failed to update webhook', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in PUT /api/admin/webhooks/[id]:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid webhook data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * DELETE /api/admin/webhooks/[id]
+ * Delete a webhook along with its delivery log
+ * Deactivate it instead to pause deliveries and keep the log
+ */
+export const DELETE = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const webhookId = req.nextUrl.pathname.split('/').pop();
+    if (!webhookId) {
+      return createErrorResponse('Webhook ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('webhooks')
+      .delete()
+      .eq('id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .select('id');
+    
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      return createErrorResponse('Failed to delete webhook', 500, 'Database Error');
+    }
+    
+    if (!data?.length) {
+      return createErrorResponse('Webhook not found', 404, 'Not Found');
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/webhooks/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import {
+  buildTestPayload,
+  getWebhookDeliveryUpdate,
+  sendWebhook,
+  WEBHOOK_TEST_EVENT,
+} from '@/lib/webhooks';
+
+/**
+ * POST /api/admin/webhooks/[id]/test
+ * Send a signed webhook.test event to a webhook right away, active or not, and log the delivery
+ * The receiver's answer is returned with the delivery; failed tests are not retried
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const webhookId = req.nextUrl.pathname.split('/')[4]; // /api/admin/webhooks/[id]/test
+    if (!webhookId) {
+      return createErrorResponse('Webhook ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data: webhook, error: fetchError } = await supabase
+      .from('webhooks')
+      .select('id, url, secret, format')
+      .eq('id', webhookId)
+      .eq('workspace_id', profile.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching webhook for test:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Webhook not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch webhook', 500, 'Database Error');
+    }
+    
+    // Log the delivery first; without a next attempt the delivery worker leaves it alone
+    const { data: delivery, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert({
+        webhook_id: webhook.id,
+        event: WEBHOOK_TEST_EVENT,
+        payload: buildTestPayload(profile.workspace_id),
+        next_attempt_at: null,
+      })
+      .select()
+      .single();
+    
+    if (insertError) {
+      console.error('Error logging webhook test delivery:', insertError);
+      return createErrorResponse('Failed to send test delivery', 500, 'Database Error');
+    }
+    
+    const attempt = await sendWebhook(webhook, delivery);
+    
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update(getWebhookDeliveryUpdate(delivery.attempts, attempt, { retry: false }))
+      .eq('id', delivery.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error recording webhook test delivery:', error);
+      return createErrorResponse('Failed to record test delivery', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data,
+      message: attempt.error
+        ? `Test delivery failed: ${attempt.error}`
+        : 'Test delivery sent successfully',
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/webhooks/[id]/test:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAdmin, createErrorResponse } from '@/lib/auth';
+import { createWebhookSchema, generateWebhookSecret, WEBHOOK_COLUMNS } from '@/lib/webhooks';
+
+/**
+ * GET /api/admin/webhooks
+ * List the current workspace's webhooks, without their secrets
+ */
+export const GET = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select(WEBHOOK_COLUMNS)
+      .eq('workspace_id', profile.workspace_id)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return createErrorResponse('Failed to fetch webhooks', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/admin/webhooks:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/admin/webhooks
+ * Subscribe a URL to idea lifecycle events in the current workspace, or one of its campaigns
+ * Chat formats post messages to Slack, Teams or Mattermost incoming webhooks instead of JSON
+ * The signing secret is generated here and only returned in this response
+ */
+export const POST = withAdmin(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { url, events, format, campaign_id, description, active } = createWebhookSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('webhooks')
+      .insert({
+        workspace_id: profile.workspace_id,
+        url,
+        events,
+        format,
+        campaign_id,
+        description,
+        active,
+        secret: generateWebhookSecret(),
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating webhook:', error);
+      
+      if (error.code === '23514') {
+        return createErrorResponse(error.message, 400, 'Validation Error');
+      }
+      
+      return createErrorResponse('Failed to create webhook', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/admin/webhooks:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid webhook data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import OpenAI from 'openai';
 import { createAdminClient, createServerComponentClient } from '@/lib/supabase';
 import { withAuth, createErrorResponse } from '@/lib/auth';
+import { renderMarkdown } from '@/lib/markdown';
 
 // Schema for validating idea helper request
 const ideaHelperSchema = z.object({
@@ -78,6 +79,7 @@ Return your response in JSON format with the following structure:
 }
 
 Keep the improved copy concise but compelling. Focus on clarifying the value proposition and making the idea more marketable.
+The improved copy may use markdown: paragraphs, bold and italic text, bullet lists and checklists.
 `;
 
     // Call OpenAI API
@@ -153,10 +155,11 @@ Keep the improved copy concise but compelling. Focus on clarifying the value pro
       // Continue despite logging error
     }
     
-    // Return the improved copy and tags
+    // Return the improved copy, rendered like a description would be, and tags
     return NextResponse.json({
       data: {
         improvedCopy: parsedResponse.improvedCopy,
+        improvedCopyHtml: renderMarkdown(parsedResponse.improvedCopy),
         tags
       },
       usage: {
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { Constants } from '@/lib/database.types';
+
+// Schema for validating query parameters
+const listCampaignIdeasQuerySchema = z.object({
+  status: z.enum(Constants.public.Enums.idea_status).optional(),
+  limit: z.coerce.number().min(1).max(100).optional().default(20),
+  offset: z.coerce.number().min(0).optional().default(0),
+  include_archived: z.enum(['true', 'false']).optional().default('false'),
+});
+
+/**
+ * GET /api/campaigns/[id]/ideas
+ * List the ideas submitted into a campaign
+ * Admins see every idea in the campaign, other users the ones they are members of
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const campaignId = req.nextUrl.pathname.split('/')[3]; // /api/campaigns/[id]/ideas
+    if (!campaignId) {
+      return createErrorResponse('Campaign ID is required', 400);
+    }
+    
+    const url = new URL(req.url);
+    const { status, limit, offset, include_archived } = listCampaignIdeasQuerySchema.parse({
+      status: url.searchParams.get('status') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      offset: url.searchParams.get('offset') ?? undefined,
+      include_archived: url.searchParams.get('include_archived') ?? undefined,
+    });
+    
+    const supabase = await createServerComponentClient();
+    
+    // The campaign must belong to the current workspace
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('id', campaignId)
+      .eq('workspace_id', profile?.workspace_id)
+      .maybeSingle();
+    
+    if (campaignError) {
+      console.error('Error fetching campaign:', campaignError);
+      return createErrorResponse('Failed to fetch campaign', 500, 'Database Error');
+    }
+    
+    if (!campaign) {
+      return createErrorResponse('Campaign not found', 404, 'Not Found');
+    }
+    
+    let query = profile?.workspace_role === 'admin'
+      ? supabase
+          .from('ideas')
+          .select('*, owner:profiles!ideas_owner_id_fkey(id, full_name, avatar_url)', { count: 'exact' })
+      // Regular users can only see the ideas they are members of, with their role
+      : supabase
+          .from('ideas')
+          .select(
+            '*, owner:profiles!ideas_owner_id_fkey(id, full_name, avatar_url), membership:idea_members!inner(role)',
+            { count: 'exact' }
+          )
+          .eq('membership.user_id', user.id);
+    
+    query = query
+      .eq('campaign_id', campaignId)
+      .eq('workspace_id', profile?.workspace_id);
+    
+    // Apply status filter if provided
+    if (status) {
+      query = query.eq('status', status);
+    } else if (include_archived !== 'true') {
+      // Archived ideas are hidden unless explicitly requested
+      query = query.neq('status', 'archived');
+    }
+    
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    
+    if (error) {
+      console.error('Error fetching campaign ideas:', error);
+      return createErrorResponse('Failed to fetch campaign ideas', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data,
+      pagination: {
+        total: count,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/campaigns/[id]/ideas:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getCampaignPhase } from '@/lib/campaigns';
+
+/**
+ * GET /api/campaigns/[id]
+ * Get a campaign with its brief and review rubric
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const campaignId = req.nextUrl.pathname.split('/').pop();
+    if (!campaignId) {
+      return createErrorResponse('Campaign ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*, rubric:rubrics(id, name, description, criteria:rubric_criteria(key, label, weight))')
+      .eq('id', campaignId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching campaign:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Campaign not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch campaign', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...data, phase: getCampaignPhase(data) } });
+  } catch (error) {
+    console.error('Error in GET /api/campaigns/[id]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
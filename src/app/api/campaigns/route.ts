@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { CAMPAIGN_PHASES, getCampaignPhase } from '@/lib/campaigns';
+
+// Schema for validating query parameters
+const listCampaignsQuerySchema = z.object({
+  phase: z.enum(CAMPAIGN_PHASES).optional(),
+});
+
+/**
+ * GET /api/campaigns
+ * List the current workspace's campaigns, soonest closing first
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const url = new URL(req.url);
+    const { phase } = listCampaignsQuerySchema.parse({
+      phase: url.searchParams.get('phase') ?? undefined,
+    });
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*, rubric:rubrics(id, name)')
+      .eq('workspace_id', profile?.workspace_id)
+      .order('closes_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching campaigns:', error);
+      return createErrorResponse('Failed to fetch campaigns', 500, 'Database Error');
+    }
+    
+    // The phase depends on the current time, so it is worked out here rather than stored
+    const now = new Date();
+    const campaigns = data
+      .map(campaign => ({ ...campaign, phase: getCampaignPhase(campaign, now) }))
+      .filter(campaign => !phase || campaign.phase === phase);
+    
+    return NextResponse.json({ data: campaigns });
+  } catch (error) {
+    console.error('Error in GET /api/campaigns:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
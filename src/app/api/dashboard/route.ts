@@ -4,22 +4,24 @@ import { withAuth, createErrorResponse } from '@/lib/auth';
 
 /**
  * GET /api/dashboard
- * Fetch aggregated dashboard statistics for the current user
- * Returns different metrics based on user role (owner vs admin)
+ * Fetch aggregated dashboard statistics for the current user in the current workspace
+ * Returns different metrics based on the user's workspace role (owner vs admin)
  */
 export const GET = withAuth(async (req: NextRequest, user, profile) => {
   try {
     // Get Supabase client
     const supabase = createServerComponentClient();
     
-    // Check if user is admin
-    const isAdmin = profile?.role === 'admin';
+    // Check if user is admin of the current workspace
+    const isAdmin = profile?.workspace_role === 'admin';
     
     let dashboardData;
     
     if (isAdmin) {
-      // Get admin dashboard counts (all ideas across the platform)
-      const { data, error } = await supabase.rpc('get_admin_dashboard_counts');
+      // Get admin dashboard counts (all ideas in the workspace)
+      const { data, error } = await supabase.rpc('get_admin_dashboard_counts', {
+        workspace_id: profile.workspace_id,
+      });
       
       if (error) {
         console.error('Error fetching admin dashboard counts:', error);
@@ -30,8 +32,9 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
       
       // Get additional admin metrics
       const { data: userCount, error: userCountError } = await supabase
-        .from('profiles')
-        .select('*', { count: 'exact', head: true });
+        .from('workspace_members')
+        .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', profile.workspace_id);
       
       if (!userCountError) {
         dashboardData.user_count = userCount;
@@ -56,6 +59,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
             )
           )
         `)
+        .eq('workspace_id', profile.workspace_id)
         .eq('type', 'status_change')
         .order('created_at', { ascending: false })
         .limit(5);
@@ -67,6 +71,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
       // Get user-specific dashboard counts
       const { data, error } = await supabase.rpc('get_dashboard_counts', {
         user_id: user.id,
+        workspace_id: profile?.workspace_id,
       });
       
       if (error) {
@@ -91,6 +96,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
           )
         `)
         .eq('user_id', user.id)
+        .eq('workspace_id', profile?.workspace_id)
         .order('created_at', { ascending: false })
         .limit(5);
       
@@ -103,6 +109,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
         .from('notifications')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id)
+        .eq('workspace_id', profile?.workspace_id)
         .eq('read', false);
       
       if (!countError) {
@@ -114,7 +121,8 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
     return NextResponse.json({
       data: dashboardData,
       timestamp: new Date().toISOString(),
-      role: profile?.role || 'unknown',
+      role: profile?.workspace_role || 'unknown',
+      workspace_id: profile?.workspace_id ?? null,
     });
   } catch (error) {
     console.error('Error in GET /api/dashboard:', error);
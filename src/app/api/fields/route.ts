@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getFieldScopeFilter } from '@/lib/fields';
+
+// Schema for validating query parameters
+const listFieldsQuerySchema = z.object({
+  campaign_id: z.string().uuid('Campaign ID must be a valid UUID').optional(),
+});
+
+/**
+ * GET /api/fields
+ * List the custom fields a new idea fills in: the workspace's fields, plus the campaign's
+ * when the idea goes into a campaign
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const url = new URL(req.url);
+    const { campaign_id } = listFieldsQuerySchema.parse({
+      campaign_id: url.searchParams.get('campaign_id') ?? undefined,
+    });
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('idea_fields')
+      .select('id, campaign_id, key, label, help_text, type, options, required, position')
+      .eq('workspace_id', profile?.workspace_id)
+      .eq('active', true)
+      .or(getFieldScopeFilter(campaign_id))
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching idea fields:', error);
+      return createErrorResponse('Failed to fetch idea fields', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/fields:', error);
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid query parameters', 400, 'Validation Error');
+    }
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withResourceOwner, createErrorResponse, getIdeaMemberIds } from '@/lib/auth';
+import { checkTransition, getWorkflowActors } from '@/lib/workflow';
+
+// Schema for validating archive request
+const archiveSchema = z.object({
+  reason: z.string().max(1000, 'Reason must be less than 1000 characters').optional(),
+});
+
+// Helper to get the IDs of the idea's owners from request
+const getIdeaOwnerIds = (req: NextRequest): Promise<string[] | null> =>
+  getIdeaMemberIds(req.nextUrl.pathname.split('/')[3], ['owner']); // /api/ideas/[id]/archive
+
+/**
+ * POST /api/ideas/[id]/archive
+ * Archive an idea that is not under review (owner or admin)
+ */
+export const POST = withResourceOwner(getIdeaOwnerIds, async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3];
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // The body is optional; an empty request archives without a reason
+    const body = await req.json().catch(() => ({}));
+    const { reason } = archiveSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Check if the idea exists
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('status, title, owner_id, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for archiving:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    // Verify the workflow allows this user to archive the idea in its current state
+    const check = checkTransition('archive', idea, getWorkflowActors(idea, user.id, profile?.workspace_role));
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
+    }
+    
+    // Archive the idea
+    const { data, error } = await supabase
+      .from('ideas')
+      .update({
+        status: check.transition.to,
+        status_reason: reason?.trim() || null,
+      })
+      .eq('id', ideaId)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error archiving idea:', error);
+      return createErrorResponse('Failed to archive idea', 500, 'Database Error');
+    }
+    
+    // Return the updated idea
+    return NextResponse.json({
+      data,
+      message: 'Idea archived successfully'
+    });
+  } catch (error) {
+    console.error('Error in POST /api/ideas/[id]/archive:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid archive data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
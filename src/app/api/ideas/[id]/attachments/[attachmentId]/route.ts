@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { canEditIdea, getWorkflowActors } from '@/lib/workflow';
+import { ATTACHMENT_BUCKET } from '@/lib/attachments';
+
+/**
+ * DELETE /api/ideas/[id]/attachments/[attachmentId]
+ * Remove an attachment from an idea
+ * Owners and editors can remove attachments until the idea is submitted; from then on they are locked
+ */
+export const DELETE = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/ideas/[id]/attachments/[attachmentId]
+    const ideaId = segments[3];
+    const attachmentId = segments[5];
+    if (!ideaId || !attachmentId) {
+      return createErrorResponse('Idea ID and attachment ID are required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    // Fetch the idea with its members
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('owner_id, status, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for attachment removal:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    const actors = getWorkflowActors(idea, user.id, profile?.workspace_role);
+    if (!actors.includes('owner') && !actors.includes('editor')) {
+      return createErrorResponse(
+        'Only idea owners and editors can remove attachments',
+        403,
+        'Forbidden'
+      );
+    }
+    
+    const { data: attachment, error: attachmentError } = await supabase
+      .from('idea_attachments')
+      .select('storage_path, locked_at')
+      .eq('id', attachmentId)
+      .eq('idea_id', ideaId)
+      .maybeSingle();
+    
+    if (attachmentError) {
+      console.error('Error fetching idea attachment:', attachmentError);
+      return createErrorResponse('Failed to fetch attachment', 500, 'Database Error');
+    }
+    
+    if (!attachment) {
+      return createErrorResponse('Attachment not found', 404, 'Not Found');
+    }
+    
+    if (attachment.locked_at || !canEditIdea(idea.status, actors)) {
+      return createErrorResponse(
+        'Attachments cannot be removed once the idea has been submitted',
+        409,
+        'Conflict'
+      );
+    }
+    
+    const { error } = await supabase
+      .from('idea_attachments')
+      .delete()
+      .eq('id', attachmentId);
+    
+    if (error) {
+      console.error('Error removing idea attachment:', error);
+      
+      // The idea was submitted in the meantime
+      if (error.code === '23514') {
+        return createErrorResponse(error.message, 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to remove attachment', 500, 'Database Error');
+    }
+    
+    const { error: storageError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove([attachment.storage_path]);
+    
+    if (storageError) {
+      console.error('Error removing idea attachment file:', storageError);
+      // Continue despite the error, the attachment is no longer listed
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/ideas/[id]/attachments/[attachmentId]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { canEditIdea, getWorkflowActors } from '@/lib/workflow';
+import {
+  ATTACHMENT_BUCKET,
+  canReadAttachments,
+  getAttachmentFileError,
+  getAttachmentPath,
+  getAttachmentQuotaError,
+  getAttachmentUsage,
+  SIGNED_URL_TTL,
+} from '@/lib/attachments';
+
+/**
+ * GET /api/ideas/[id]/attachments
+ * List an idea's attachments with short-lived signed download URLs
+ * Members of the idea and workspace admins can download them
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3]; // /api/ideas/[id]/attachments
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    // Fetch the idea with its members and attachments
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select(`
+        owner_id,
+        members:idea_members(user_id, role),
+        attachments:idea_attachments(
+          id,
+          file_name,
+          content_type,
+          size_bytes,
+          storage_path,
+          uploaded_by,
+          locked_at,
+          created_at
+        )
+      `)
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .order('created_at', { referencedTable: 'idea_attachments', ascending: true })
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea attachments:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea attachments', 500, 'Database Error');
+    }
+    
+    if (!canReadAttachments(idea, user.id, profile?.workspace_role)) {
+      return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+    }
+    
+    // Signed URLs download the file under its original name
+    const storage = supabase.storage.from(ATTACHMENT_BUCKET);
+    const signed = await Promise.all(
+      idea.attachments.map(attachment =>
+        storage.createSignedUrl(attachment.storage_path, SIGNED_URL_TTL, {
+          download: attachment.file_name,
+        })
+      )
+    );
+    
+    const signError = signed.find(result => result.error)?.error;
+    if (signError) {
+      console.error('Error signing attachment URLs:', signError);
+      return createErrorResponse('Failed to sign attachment URLs', 500, 'Storage Error');
+    }
+    
+    // Storage paths stay internal; clients download through the signed URLs
+    const data = idea.attachments.map((attachment, i) => ({
+      id: attachment.id,
+      file_name: attachment.file_name,
+      content_type: attachment.content_type,
+      size_bytes: attachment.size_bytes,
+      uploaded_by: attachment.uploaded_by,
+      locked_at: attachment.locked_at,
+      created_at: attachment.created_at,
+      download_url: signed[i].data?.signedUrl,
+    }));
+    
+    return NextResponse.json({ data, expires_in: SIGNED_URL_TTL });
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]/attachments:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/ideas/[id]/attachments
+ * Attach a file (multipart form field "file") to an idea
+ * Owners and editors can add attachments while the idea is a draft or rejected
+ */
+export const POST = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3]; // /api/ideas/[id]/attachments
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Parse and validate the uploaded file
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) {
+      return createErrorResponse(
+        'Invalid attachment data: Upload a file in the "file" form field',
+        400,
+        'Validation Error'
+      );
+    }
+    
+    const fileError = getAttachmentFileError(file);
+    if (fileError) {
+      return createErrorResponse(`Invalid attachment data: ${fileError}`, 400, 'Validation Error');
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    // Fetch the idea with its members and the quota its attachments use
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select(`
+        owner_id,
+        status,
+        workspace_id,
+        members:idea_members(user_id, role),
+        attachments:idea_attachments(size_bytes)
+      `)
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for attachment:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    const actors = getWorkflowActors(idea, user.id, profile?.workspace_role);
+    if (!actors.includes('owner') && !actors.includes('editor')) {
+      return createErrorResponse('Only idea owners and editors can add attachments', 403, 'Forbidden');
+    }
+    
+    if (!canEditIdea(idea.status, actors)) {
+      return createErrorResponse(
+        `Attachments cannot be added to ideas in '${idea.status}' status`,
+        409,
+        'Conflict'
+      );
+    }
+    
+    const quotaError = getAttachmentQuotaError(getAttachmentUsage(idea.attachments), file);
+    if (quotaError) {
+      return createErrorResponse(quotaError, 409, 'Conflict');
+    }
+    
+    // Record the attachment first, so the quota is enforced before anything is stored
+    const attachmentId = crypto.randomUUID();
+    const storagePath = getAttachmentPath(idea.workspace_id, ideaId, attachmentId, file.name);
+    
+    const { data: attachment, error: insertError } = await supabase
+      .from('idea_attachments')
+      .insert({
+        id: attachmentId,
+        idea_id: ideaId,
+        workspace_id: idea.workspace_id,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        storage_path: storagePath,
+        uploaded_by: user.id,
+      })
+      .select('id, file_name, content_type, size_bytes, uploaded_by, locked_at, created_at')
+      .single();
+    
+    if (insertError) {
+      console.error('Error recording idea attachment:', insertError);
+      
+      // A concurrent upload used up the quota
+      if (insertError.code === '23514') {
+        return createErrorResponse(insertError.message, 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to add attachment', 500, 'Database Error');
+    }
+    
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, file, { contentType: file.type, upsert: false });
+    
+    if (uploadError) {
+      console.error('Error uploading idea attachment:', uploadError);
+      
+      // Drop the record so it does not count against the quota
+      const { error: cleanupError } = await supabase
+        .from('idea_attachments')
+        .delete()
+        .eq('id', attachmentId);
+      
+      if (cleanupError) {
+        console.error('Error removing failed idea attachment:', cleanupError);
+      }
+      
+      return createErrorResponse('Failed to upload attachment', 500, 'Storage Error');
+    }
+    
+    return NextResponse.json({ data: attachment }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/ideas/[id]/attachments:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
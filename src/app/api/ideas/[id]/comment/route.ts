@@ -2,15 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createServerComponentClient } from '@/lib/supabase';
 import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getMemberRole } from '@/lib/members';
+import { getCommentMaxDepth, getReplyDepthError, presentComment } from '@/lib/comments';
 
 // Schema for validating comment creation
 const createCommentSchema = z.object({
-  body: z.string().min(1, 'Comment cannot be empty').max(1000, 'Comment is too long')
+  body: z.string().min(1, 'Comment cannot be empty').max(1000, 'Comment is too long'),
+  parent_id: z.string().uuid('Parent comment ID must be a valid UUID').optional(),
+  internal: z.boolean().optional().default(false),
 });
 
 /**
  * POST /api/ideas/[id]/comment
- * Add a comment to an idea
+ * Add a comment to an idea, or a reply to one of its comments (parent_id)
+ * Replies nest at most COMMENT_MAX_DEPTH levels deep
+ * Admins can post internal notes, hidden from the idea's owner and members; replies to internal
+ * notes are internal too
  */
 export const POST = withAuth(async (req: NextRequest, user, profile) => {
   try {
@@ -21,7 +28,7 @@ export const POST = withAuth(async (req: NextRequest, user, profile) => {
     
     // Parse and validate request body
     const body = await req.json();
-    const { body: commentBody } = createCommentSchema.parse(body);
+    const { body: commentBody, parent_id, internal } = createCommentSchema.parse(body);
     
     // Get Supabase client
     const supabase = createServerComponentClient();
@@ -29,8 +36,9 @@ export const POST = withAuth(async (req: NextRequest, user, profile) => {
     // Check if the idea exists and the user has permission to comment
     const { data: idea, error: fetchError } = await supabase
       .from('ideas')
-      .select('owner_id')
+      .select('owner_id, members:idea_members(user_id, role)')
       .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
       .single();
     
     if (fetchError) {
@@ -43,25 +51,59 @@ export const POST = withAuth(async (req: NextRequest, user, profile) => {
       return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
     }
     
-    // Check if user is the idea owner or an admin
-    const isOwner = idea.owner_id === user.id;
-    const isAdmin = profile?.role === 'admin';
+    // Check if user is a member of the idea or an admin
+    const isMember = !!getMemberRole(idea, user.id);
+    const isAdmin = profile?.workspace_role === 'admin';
     
-    if (!isOwner && !isAdmin) {
+    if (!isMember && !isAdmin) {
       return createErrorResponse(
-        'Only the idea owner and administrators can comment',
+        'Only idea members and administrators can comment',
         403,
         'Forbidden'
       );
     }
     
+    if (internal && !isAdmin) {
+      return createErrorResponse('Only administrators can post internal notes', 403, 'Forbidden');
+    }
+    
+    // Replies must answer a comment on the same idea, within the nesting limit
+    if (parent_id) {
+      const { data: parent, error: parentError } = await supabase
+        .from('comments')
+        .select('depth, deleted_at')
+        .eq('id', parent_id)
+        .eq('idea_id', ideaId)
+        .maybeSingle();
+      
+      if (parentError) {
+        console.error('Error fetching parent comment:', parentError);
+        return createErrorResponse('Failed to fetch parent comment', 500, 'Database Error');
+      }
+      
+      if (!parent) {
+        return createErrorResponse('Parent comment not found', 404, 'Not Found');
+      }
+      
+      if (parent.deleted_at) {
+        return createErrorResponse('Removed comments cannot be replied to', 409, 'Conflict');
+      }
+      
+      const depthError = getReplyDepthError(parent.depth, getCommentMaxDepth());
+      if (depthError) {
+        return createErrorResponse(depthError, 400, 'Validation Error');
+      }
+    }
+    
     // Create the comment
     const { data: comment, error } = await supabase
       .from('comments')
       .insert({
         idea_id: ideaId,
         author_id: user.id,
-        body: commentBody
+        body: commentBody,
+        parent_id,
+        internal,
       })
       .select(`
         *,
@@ -74,8 +116,19 @@ export const POST = withAuth(async (req: NextRequest, user, profile) => {
       return createErrorResponse('Failed to create comment', 500, 'Database Error');
     }
     
-    // Return the created comment with author information
-    return NextResponse.json({ data: comment }, { status: 201 });
+    // A reviewer commenting on a submitted idea starts its review, which blocks withdrawal
+    // The database only starts it for the assigned reviewer and the review panel
+    if (isAdmin) {
+      const { error: reviewError } = await supabase.rpc('start_idea_review', { idea_id: ideaId });
+      
+      if (reviewError) {
+        console.error('Error marking idea review as started:', reviewError);
+        // Continue despite the error, the comment was created
+      }
+    }
+    
+    // Return the created comment with author information and its rendered body
+    return NextResponse.json({ data: presentComment(comment) }, { status: 201 });
   } catch (error) {
     console.error('Error in POST /api/ideas/[id]/comment:', error);
     
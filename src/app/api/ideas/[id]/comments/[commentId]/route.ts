@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { checkCommentChange, presentComment } from '@/lib/comments';
+
+// Schema for validating comment edits
+const updateCommentSchema = z.object({
+  body: z.string().min(1, 'Comment cannot be empty').max(1000, 'Comment is too long'),
+});
+
+// Columns returned for a comment
+const COMMENT_COLUMNS = `
+  id,
+  idea_id,
+  parent_id,
+  kind,
+  internal,
+  body,
+  created_at,
+  edited_at,
+  deleted_at,
+  author:profiles!comments_author_id_fkey(id, full_name, avatar_url, role)
+`;
+
+/**
+ * GET /api/ideas/[id]/comments/[commentId]
+ * Get a comment with its prior versions, newest first
+ * Prior versions are only visible to the author and workspace admins
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/ideas/[id]/comments/[commentId]
+    const ideaId = segments[3];
+    const commentId = segments[5];
+    if (!ideaId || !commentId) {
+      return createErrorResponse('Idea ID and comment ID are required', 400);
+    }
+    
+    const supabase = createServerComponentClient();
+    
+    const { data: comment, error } = await supabase
+      .from('comments')
+      .select(`
+        ${COMMENT_COLUMNS},
+        revisions:comment_revisions(
+          id,
+          body,
+          created_at,
+          replaced_by:profiles!comment_revisions_replaced_by_fkey(id, full_name, avatar_url)
+        )
+      `)
+      .eq('id', commentId)
+      .eq('idea_id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .order('created_at', { referencedTable: 'comment_revisions', ascending: false })
+      .single();
+    
+    if (error) {
+      console.error('Error fetching comment:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Comment not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch comment', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: presentComment(comment) });
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]/comments/[commentId]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PATCH /api/ideas/[id]/comments/[commentId]
+ * Edit a comment; the prior version is kept
+ * Authors can edit within COMMENT_EDIT_WINDOW_MINUTES of posting, admins their own comments at any time
+ */
+export const PATCH = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/ideas/[id]/comments/[commentId]
+    const ideaId = segments[3];
+    const commentId = segments[5];
+    if (!ideaId || !commentId) {
+      return createErrorResponse('Idea ID and comment ID are required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { body: commentBody } = updateCommentSchema.parse(body);
+    
+    const supabase = createServerComponentClient();
+    
+    const { data: comment, error: fetchError } = await supabase
+      .from('comments')
+      .select('author_id, kind, created_at, deleted_at')
+      .eq('id', commentId)
+      .eq('idea_id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching comment for edit:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Comment not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch comment', 500, 'Database Error');
+    }
+    
+    const check = checkCommentChange('edit', comment, user.id, profile?.workspace_role === 'admin');
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
+    }
+    
+    // The on_comment_change trigger stores the prior version and sets edited_at
+    const { data, error } = await supabase
+      .from('comments')
+      .update({ body: commentBody })
+      .eq('id', commentId)
+      .select(COMMENT_COLUMNS)
+      .single();
+    
+    if (error) {
+      console.error('Error editing comment:', error);
+      
+      // The comment was removed in the meantime
+      if (error.code === '23514') {
+        return createErrorResponse(error.message, 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to edit comment', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: presentComment(data) });
+  } catch (error) {
+    console.error('Error in PATCH /api/ideas/[id]/comments/[commentId]:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid comment data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * DELETE /api/ideas/[id]/comments/[commentId]
+ * Remove a comment; it keeps its place in the thread with a "Comment removed" placeholder
+ * Authors can remove within COMMENT_EDIT_WINDOW_MINUTES of posting, admins any comment at any time
+ */
+export const DELETE = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/ideas/[id]/comments/[commentId]
+    const ideaId = segments[3];
+    const commentId = segments[5];
+    if (!ideaId || !commentId) {
+      return createErrorResponse('Idea ID and comment ID are required', 400);
+    }
+    
+    const supabase = createServerComponentClient();
+    
+    const { data: comment, error: fetchError } = await supabase
+      .from('comments')
+      .select('author_id, kind, created_at, deleted_at')
+      .eq('id', commentId)
+      .eq('idea_id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching comment for removal:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Comment not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch comment', 500, 'Database Error');
+    }
+    
+    const check = checkCommentChange('delete', comment, user.id, profile?.workspace_role === 'admin');
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
+    }
+    
+    // The on_comment_change trigger keeps the body as a prior version and clears it
+    const { error } = await supabase
+      .from('comments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', commentId);
+    
+    if (error) {
+      console.error('Error removing comment:', error);
+      
+      if (error.code === '23514') {
+        return createErrorResponse(error.message, 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to remove comment', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/ideas/[id]/comments/[commentId]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getMemberRole } from '@/lib/members';
+
+/**
+ * DELETE /api/ideas/[id]/members/[userId]
+ * Remove a member from an idea
+ * Owners and admins can remove anyone but the creator; members can remove themselves
+ */
+export const DELETE = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/ideas/[id]/members/[userId]
+    const ideaId = segments[3];
+    const memberId = segments[5];
+    if (!ideaId || !memberId) {
+      return createErrorResponse('Idea ID and user ID are required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    // Fetch the idea with its members
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('owner_id, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for member removal:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    const isSelf = memberId === user.id;
+    const isOwner = getMemberRole(idea, user.id) === 'owner';
+    const isAdmin = profile?.workspace_role === 'admin';
+    
+    if (!isSelf && !isOwner && !isAdmin) {
+      return createErrorResponse(
+        'Only idea owners and administrators can remove members',
+        403,
+        'Forbidden'
+      );
+    }
+    
+    if (memberId === idea.owner_id) {
+      return createErrorResponse('The idea creator cannot be removed', 409, 'Conflict');
+    }
+    
+    if (!getMemberRole(idea, memberId)) {
+      return createErrorResponse('Member not found', 404, 'Not Found');
+    }
+    
+    const { error } = await supabase
+      .from('idea_members')
+      .delete()
+      .eq('idea_id', ideaId)
+      .eq('user_id', memberId);
+    
+    if (error) {
+      console.error('Error removing idea member:', error);
+      return createErrorResponse('Failed to remove idea member', 500, 'Database Error');
+    }
+    
+    return NextResponse.json(
+      { message: 'Member removed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in DELETE /api/ideas/[id]/members/[userId]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
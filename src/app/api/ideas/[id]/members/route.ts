@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, withResourceOwner, createErrorResponse, getIdeaMemberIds } from '@/lib/auth';
+import { addMemberSchema, getMemberRole } from '@/lib/members';
+
+// Helper to get the IDs of the idea's owners from request
+const getIdeaOwnerIds = (req: NextRequest): Promise<string[] | null> =>
+  getIdeaMemberIds(req.nextUrl.pathname.split('/')[3], ['owner']); // /api/ideas/[id]/members
+
+/**
+ * GET /api/ideas/[id]/members
+ * List the people working on an idea and their roles
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3];
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    // Fetch the idea with its members
+    const { data: idea, error } = await supabase
+      .from('ideas')
+      .select(`
+        owner_id,
+        members:idea_members(
+          user_id,
+          role,
+          added_by,
+          created_at,
+          profile:profiles!idea_members_user_id_fkey(id, full_name, avatar_url)
+        )
+      `)
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching idea members:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea members', 500, 'Database Error');
+    }
+    
+    if (!getMemberRole(idea, user.id) && profile?.workspace_role !== 'admin') {
+      return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+    }
+    
+    return NextResponse.json({ data: idea.members });
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]/members:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/ideas/[id]/members
+ * Add a member by user ID or email, or change an existing member's role
+ */
+export const POST = withResourceOwner(getIdeaOwnerIds, async (req: NextRequest, user) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3];
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { user_id, email, role } = addMemberSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // Resolve an email invitation to an existing user
+    let memberId = user_id;
+    if (email) {
+      const { data: foundId, error: lookupError } = await supabase
+        .rpc('find_user_by_email', { email });
+      
+      if (lookupError) {
+        console.error('Error looking up user by email:', lookupError);
+        return createErrorResponse('Failed to add idea member', 500, 'Database Error');
+      }
+      
+      if (!foundId) {
+        return createErrorResponse('No user found with that email address', 404, 'Not Found');
+      }
+      
+      memberId = foundId;
+    }
+    
+    // Add the member, or update their role if they already are one
+    const { data: member, error } = await supabase
+      .from('idea_members')
+      .upsert(
+        { idea_id: ideaId, user_id: memberId, role, added_by: user.id },
+        { onConflict: 'idea_id,user_id' }
+      )
+      .select(`
+        user_id,
+        role,
+        added_by,
+        created_at,
+        profile:profiles!idea_members_user_id_fkey(id, full_name, avatar_url)
+      `)
+      .single();
+    
+    if (error) {
+      console.error('Error adding idea member:', error);
+      
+      // The creator's owner role is protected by a trigger
+      if (error.code === '23514') {
+        return createErrorResponse('The idea creator must remain an owner', 409, 'Conflict');
+      }
+      
+      // Foreign key violation: the user does not exist
+      if (error.code === '23503') {
+        return createErrorResponse('User not found', 404, 'Not Found');
+      }
+      
+      // Row level security only admits people from the idea's workspace
+      if (error.code === '42501') {
+        return createErrorResponse(
+          "Members must belong to the idea's workspace",
+          400,
+          'Validation Error'
+        );
+      }
+      
+      return createErrorResponse('Failed to add idea member', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: member }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/ideas/[id]/members:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid member data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
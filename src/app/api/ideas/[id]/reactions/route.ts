@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getMemberRole } from '@/lib/members';
+import { reactionSchema } from '@/lib/reactions';
+
+/**
+ * POST /api/ideas/[id]/reactions
+ * React to an idea, or to one of its comments (comment_id); the upvote reaction is a vote for the idea
+ * Anyone who can see the idea can react, once per reaction
+ */
+export const POST = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3]; // Extract ID from /api/ideas/[id]/reactions
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { reaction, comment_id } = reactionSchema.parse(body);
+    
+    const supabase = createServerComponentClient();
+    
+    // Check if the idea exists and the user can see it
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('owner_id, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for reaction:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    if (!getMemberRole(idea, user.id) && profile?.workspace_role !== 'admin') {
+      return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+    }
+    
+    // Comment reactions go on comments of the same idea that have not been removed
+    if (comment_id) {
+      const { data: comment, error: commentError } = await supabase
+        .from('comments')
+        .select('deleted_at')
+        .eq('id', comment_id)
+        .eq('idea_id', ideaId)
+        .maybeSingle();
+      
+      if (commentError) {
+        console.error('Error fetching comment for reaction:', commentError);
+        return createErrorResponse('Failed to fetch comment', 500, 'Database Error');
+      }
+      
+      if (!comment) {
+        return createErrorResponse('Comment not found', 404, 'Not Found');
+      }
+      
+      if (comment.deleted_at) {
+        return createErrorResponse('Removed comments cannot be reacted to', 409, 'Conflict');
+      }
+    }
+    
+    // Upvotes and other idea reactions, or reactions on a comment
+    const { data, error } = comment_id
+      ? await supabase
+          .from('comment_reactions')
+          .insert({ comment_id, user_id: user.id, reaction })
+          .select('comment_id, user_id, reaction, created_at')
+          .single()
+      : await supabase
+          .from('idea_reactions')
+          .insert({ idea_id: ideaId, user_id: user.id, reaction })
+          .select('idea_id, user_id, reaction, created_at')
+          .single();
+    
+    if (error) {
+      console.error('Error adding reaction:', error);
+      
+      if (error.code === '23505') {
+        return createErrorResponse(
+          reaction === 'upvote' ? 'You have already upvoted this idea' : 'You have already left this reaction',
+          409,
+          'Conflict'
+        );
+      }
+      
+      return createErrorResponse('Failed to add reaction', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/ideas/[id]/reactions:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid reaction data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * DELETE /api/ideas/[id]/reactions?reaction=...&comment_id=...
+ * Take back a reaction, or an upvote, the current user left on an idea or one of its comments
+ */
+export const DELETE = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3]; // Extract ID from /api/ideas/[id]/reactions
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Validate query parameters
+    const { reaction, comment_id } = reactionSchema.parse({
+      reaction: req.nextUrl.searchParams.get('reaction') ?? undefined,
+      comment_id: req.nextUrl.searchParams.get('comment_id') ?? undefined,
+    });
+    
+    const supabase = createServerComponentClient();
+    
+    // Comment reactions are only looked up on the idea's own comments
+    if (comment_id) {
+      const { data: comment, error: commentError } = await supabase
+        .from('comments')
+        .select('id')
+        .eq('id', comment_id)
+        .eq('idea_id', ideaId)
+        .eq('workspace_id', profile?.workspace_id)
+        .maybeSingle();
+      
+      if (commentError) {
+        console.error('Error fetching comment for reaction:', commentError);
+        return createErrorResponse('Failed to fetch comment', 500, 'Database Error');
+      }
+      
+      if (!comment) {
+        return createErrorResponse('Comment not found', 404, 'Not Found');
+      }
+    }
+    
+    const { data, error } = comment_id
+      ? await supabase
+          .from('comment_reactions')
+          .delete()
+          .eq('comment_id', comment_id)
+          .eq('user_id', user.id)
+          .eq('reaction', reaction)
+          .select('reaction')
+      : await supabase
+          .from('idea_reactions')
+          .delete()
+          .eq('idea_id', ideaId)
+          .eq('workspace_id', profile?.workspace_id)
+          .eq('user_id', user.id)
+          .eq('reaction', reaction)
+          .select('reaction');
+    
+    if (error) {
+      console.error('Error removing reaction:', error);
+      return createErrorResponse('Failed to remove reaction', 500, 'Database Error');
+    }
+    
+    if (!data.length) {
+      return createErrorResponse('Reaction not found', 404, 'Not Found');
+    }
+    
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error in DELETE /api/ideas/[id]/reactions:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid reaction data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
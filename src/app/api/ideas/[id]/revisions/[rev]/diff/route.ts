@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getMemberRole } from '@/lib/members';
+import { diffRevisions } from '@/lib/revisions';
+
+// Schema for validating path and query parameters
+const diffParamsSchema = z.object({
+  rev: z.coerce.number().int().min(1),
+  against: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * GET /api/ideas/[id]/revisions/[rev]/diff
+ * Field-level and word-level diff of a revision against the previous one
+ * Pass ?against=N to compare with a specific earlier revision instead
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    // Extract IDs from /api/ideas/[id]/revisions/[rev]/diff
+    const segments = req.nextUrl.pathname.split('/');
+    const ideaId = segments[3];
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    const { rev, against } = diffParamsSchema.parse({
+      rev: segments[5],
+      against: req.nextUrl.searchParams.get('against') ?? undefined,
+    });
+    const baseRevision = against ?? rev - 1;
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Check if the idea exists and the user has access to it
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('owner_id, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for revision diff:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    if (!getMemberRole(idea, user.id) && profile?.workspace_role !== 'admin') {
+      return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+    }
+    
+    // Fetch both revisions in one query
+    const { data: revisions, error } = await supabase
+      .from('idea_revisions')
+      .select('revision, title, description, tags')
+      .eq('idea_id', ideaId)
+      .in('revision', [rev, baseRevision]);
+    
+    if (error) {
+      console.error('Error fetching idea revisions:', error);
+      return createErrorResponse('Failed to fetch revisions', 500, 'Database Error');
+    }
+    
+    const target = revisions.find(r => r.revision === rev);
+    const base = revisions.find(r => r.revision === baseRevision) || null;
+    
+    if (!target) {
+      return createErrorResponse(`Revision ${rev} not found`, 404, 'Not Found');
+    }
+    
+    if (against !== undefined && !base) {
+      return createErrorResponse(`Revision ${against} not found`, 404, 'Not Found');
+    }
+    
+    return NextResponse.json({ data: diffRevisions(base, target) });
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]/revisions/[rev]/diff:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse('Invalid revision number', 400, 'Validation Error');
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getMemberRole } from '@/lib/members';
+
+/**
+ * GET /api/ideas/[id]/revisions
+ * List every revision snapshot of an idea, newest first
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3]; // Extract ID from /api/ideas/[id]/revisions
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Check if the idea exists and the user has access to it
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('owner_id, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for revisions:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    if (!getMemberRole(idea, user.id) && profile?.workspace_role !== 'admin') {
+      return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+    }
+    
+    // Get the revisions with their authors
+    const { data, error } = await supabase
+      .from('idea_revisions')
+      .select(`
+        *,
+        author:profiles!idea_revisions_author_id_fkey(id, full_name, avatar_url)
+      `)
+      .eq('idea_id', ideaId)
+      .order('revision', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching idea revisions:', error);
+      return createErrorResponse('Failed to fetch revisions', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]/revisions:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
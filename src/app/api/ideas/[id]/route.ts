@@ -1,29 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createAdminClient, createServerComponentClient } from '@/lib/supabase';
-import { withAuth, createErrorResponse, canModifyIdea, getUserId, withResourceOwner } from '@/lib/auth';
+import {
+  withAuth,
+  createErrorResponse,
+  canModifyIdea,
+  getIdeaMemberIds,
+  getUserId,
+  withResourceOwner,
+} from '@/lib/auth';
+import { canDeleteIdea, getAvailableActions, getWorkflowActors } from '@/lib/workflow';
+import { DEFAULT_QUORUM_POLICY, getQuorumState, QuorumPolicy } from '@/lib/quorum';
+import { getMemberRole } from '@/lib/members';
+import { ATTACHMENT_BUCKET } from '@/lib/attachments';
+import { getVisibleComments, presentComment, threadComments } from '@/lib/comments';
+import { summarizeReactions } from '@/lib/reactions';
+import { renderMarkdown } from '@/lib/markdown';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/revisions';
+import {
+  buildCustomFieldsSchema,
+  FIELD_DEFINITION_COLUMNS,
+  getFieldScopeFilter,
+  mergeCustomFields,
+} from '@/lib/fields';
+import {
+  buildSectionsSchema,
+  getSectionsView,
+  mergeSections,
+  renderSections,
+  TemplateSnapshot,
+} from '@/lib/templates';
 
 // Schema for validating idea updates
 const updateIdeaSchema = z.object({
   title: z.string().min(3, 'Title must be at least 3 characters').max(100, 'Title must be at most 100 characters').optional(),
-  description: z.string().min(10, 'Description must be at least 10 characters').optional(),
+  description: z.string().min(10, 'Description must be at least 10 characters').max(MAX_DESCRIPTION_LENGTH, `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`).optional(),
   tags: z.array(z.string()).optional(),
+  // Checked against the workspace's field definitions once they are loaded; null clears a value
+  custom_fields: z.record(z.unknown()).optional(),
+  // Checked against the idea's template; null clears a section
+  sections: z.record(z.unknown()).optional(),
 });
 
-// Helper to get idea owner ID from request
-const getIdeaOwnerId = async (req: NextRequest): Promise<string | null> => {
-  const ideaId = req.nextUrl.pathname.split('/').pop();
-  if (!ideaId) return null;
-  
-  const supabase = createAdminClient();
-  const { data } = await supabase
-    .from('ideas')
-    .select('owner_id')
-    .eq('id', ideaId)
-    .single();
-  
-  return data?.owner_id || null;
-};
+// Helpers to get the IDs of the idea's owners, or of everyone who may edit it, from request
+const getIdeaOwnerIds = (req: NextRequest): Promise<string[] | null> =>
+  getIdeaMemberIds(req.nextUrl.pathname.split('/').pop(), ['owner']);
+
+const getIdeaEditorIds = (req: NextRequest): Promise<string[] | null> =>
+  getIdeaMemberIds(req.nextUrl.pathname.split('/').pop(), ['owner', 'editor']);
 
 /**
  * GET /api/ideas/[id]
@@ -38,20 +62,49 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
     
     const supabase = createServerComponentClient();
     
-    // Get the idea with owner profile and comments
+    // Get the idea with owner profile, campaign, members, comments, reactions and review scorecards
     const { data: idea, error } = await supabase
       .from('ideas')
       .select(`
         *,
+        review_due_at,
+        overdue,
+        vote_count,
+        voted,
         owner:profiles!ideas_owner_id_fkey(id, full_name, avatar_url),
+        campaign:campaigns(id, title, opens_at, closes_at, closed_at),
+        members:idea_members(
+          user_id,
+          role,
+          profile:profiles!idea_members_user_id_fkey(id, full_name, avatar_url)
+        ),
         comments:comments(
           id,
+          parent_id,
+          kind,
+          internal,
           body,
           created_at,
-          author:profiles!comments_author_id_fkey(id, full_name, avatar_url)
+          edited_at,
+          deleted_at,
+          author:profiles!comments_author_id_fkey(id, full_name, avatar_url),
+          mentions:comment_mentions(user_id),
+          reactions:comment_reactions(reaction, user_id)
+        ),
+        reactions:idea_reactions(reaction, user_id),
+        reviews:idea_reviews(
+          id,
+          reviewer_id,
+          round,
+          decision,
+          scores,
+          weighted_score,
+          created_at,
+          reviewer:profiles!idea_reviews_reviewer_id_fkey(id, full_name, avatar_url)
         )
       `)
       .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
       .single();
     
     if (error) {
@@ -66,15 +119,101 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
     
     // Check if user has access to this idea
     const userId = await getUserId();
-    const isOwner = idea.owner_id === userId;
-    const isAdmin = profile?.role === 'admin';
+    const memberRole = getMemberRole(idea, userId);
+    const isAdmin = profile?.workspace_role === 'admin';
     
-    if (!isOwner && !isAdmin) {
+    if (!memberRole && !isAdmin) {
       return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
     }
     
-    // Return the idea with its related data
-    return NextResponse.json({ data: idea });
+    // The custom fields that apply to the idea, in form order
+    const { data: fields, error: fieldsError } = await supabase
+      .from('idea_fields')
+      .select(`${FIELD_DEFINITION_COLUMNS}, help_text, position`)
+      .eq('workspace_id', idea.workspace_id)
+      .eq('active', true)
+      .or(getFieldScopeFilter(idea.campaign_id))
+      .order('position', { ascending: true });
+    
+    if (fieldsError) {
+      console.error('Error fetching idea fields:', fieldsError);
+      return createErrorResponse('Failed to fetch idea fields', 500, 'Database Error');
+    }
+    
+    let availableActions = getAvailableActions(
+      { ...idea, fields },
+      getWorkflowActors(idea, userId, profile?.workspace_role)
+    );
+    
+    // While submitted, show the panel's votes in this round against the review policy
+    let quorum = null;
+    if (idea.status === 'submitted') {
+      const [{ data: panel, error: panelError }, { data: policy }] = await Promise.all([
+        supabase.rpc('get_review_panel', { workspace_id: idea.workspace_id }),
+        supabase
+          .from('review_policy')
+          .select('approvals_required, rejection_rule')
+          .eq('workspace_id', idea.workspace_id)
+          .maybeSingle(),
+      ]);
+      
+      if (panelError) {
+        console.error('Error fetching review panel:', panelError);
+        return createErrorResponse('Failed to fetch review panel', 500, 'Database Error');
+      }
+      
+      const votes = idea.reviews.filter(review => review.round === idea.review_round);
+      const state = getQuorumState(
+        (policy as QuorumPolicy | null) ?? DEFAULT_QUORUM_POLICY,
+        panel.map(reviewer => reviewer.id),
+        votes
+      );
+      const reviewer = (id: string) => panel.find(member => member.id === id);
+      
+      quorum = {
+        ...state,
+        voted: votes
+          .filter(vote => state.voted.includes(vote.reviewer_id))
+          .map(vote => ({
+            reviewer: reviewer(vote.reviewer_id),
+            decision: vote.decision,
+            created_at: vote.created_at,
+          })),
+        pending: state.pending.map(reviewer),
+      };
+      
+      // Reviewers off the panel, or who already voted, have no decision to make
+      if (!userId || !state.pending.includes(userId)) {
+        availableActions = availableActions.filter(
+          action => action !== 'approve' && action !== 'reject'
+        );
+      }
+    }
+    
+    // Return the idea with its related data and the workflow actions open to this user
+    return NextResponse.json({
+      data: {
+        ...idea,
+        // The description rendered from markdown and sanitized
+        description_html: renderMarkdown(idea.description),
+        // Flattened in thread order, each with its depth and number of replies;
+        // removed comments keep their place with a placeholder body, internal notes are admin-only
+        comments: threadComments(
+          getVisibleComments(idea.comments.map(presentComment), isAdmin).map(comment => ({
+            ...comment,
+            reactions: summarizeReactions(comment.reactions, userId),
+          }))
+        ),
+        // Reaction counts, including upvotes, and whether the current user left each
+        reactions: summarizeReactions(idea.reactions, userId),
+        quorum,
+        fields,
+        // The template's sections with their content, in template order
+        sections_view: getSectionsView(idea.template as unknown as TemplateSnapshot | null, idea.sections),
+        member_role: memberRole,
+        available_actions: availableActions,
+      },
+    });
   } catch (error) {
     console.error('Error in GET /api/ideas/[id]:', error);
     return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
@@ -83,9 +222,9 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
 
 /**
  * PUT /api/ideas/[id]
- * Update an idea (owner can update draft/rejected ideas only)
+ * Update an idea (owners and editors can update draft/rejected ideas only)
  */
-export const PUT = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, user, profile) => {
+export const PUT = withResourceOwner(getIdeaEditorIds, async (req: NextRequest, user, profile) => {
   try {
     const ideaId = req.nextUrl.pathname.split('/').pop();
     if (!ideaId) {
@@ -100,25 +239,87 @@ export const PUT = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, us
     
     // Parse and validate request body
     const body = await req.json();
-    const { title, description, tags } = updateIdeaSchema.parse(body);
+    const { title, description, tags, custom_fields, sections } = updateIdeaSchema.parse(body);
     
     // Get Supabase client
     const supabase = createServerComponentClient();
     
+    let customFields;
+    let ideaSections;
+    let newDescription = description;
+    if (custom_fields || sections) {
+      const { data: idea, error: fetchError } = await supabase
+        .from('ideas')
+        .select('campaign_id, custom_fields, template, sections')
+        .eq('id', ideaId)
+        .eq('workspace_id', profile?.workspace_id)
+        .single();
+      
+      if (fetchError) {
+        console.error('Error fetching idea for update:', fetchError);
+        
+        if (fetchError.code === 'PGRST116') {
+          return createErrorResponse('Idea not found', 404, 'Not Found');
+        }
+        
+        return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+      }
+      
+      // Validate custom field changes against the fields that apply to the idea
+      if (custom_fields) {
+        const { data: fields, error: fieldsError } = await supabase
+          .from('idea_fields')
+          .select(FIELD_DEFINITION_COLUMNS)
+          .eq('workspace_id', profile?.workspace_id)
+          .eq('active', true)
+          .or(getFieldScopeFilter(idea.campaign_id));
+        
+        if (fieldsError) {
+          console.error('Error fetching idea fields:', fieldsError);
+          return createErrorResponse('Failed to fetch idea fields', 500, 'Database Error');
+        }
+        
+        customFields = mergeCustomFields(
+          idea.custom_fields,
+          buildCustomFieldsSchema(fields).parse(custom_fields)
+        );
+      }
+      
+      // Validate section changes against the template the idea was created from,
+      // and keep the description in step with the sections unless one is given
+      if (sections) {
+        const template = idea.template as unknown as TemplateSnapshot | null;
+        if (!template) {
+          return createErrorResponse('Invalid idea data: Sections need a template', 400, 'Validation Error');
+        }
+        
+        ideaSections = mergeSections(idea.sections, buildSectionsSchema(template).parse(sections));
+        newDescription = description ?? renderSections(template, ideaSections);
+      }
+    }
+    
     // Update the idea
     const { data, error } = await supabase
       .from('ideas')
       .update({
         ...(title && { title }),
-        ...(description && { description }),
+        ...(newDescription && { description: newDescription }),
         ...(tags && { tags }),
+        ...(customFields && { custom_fields: customFields }),
+        ...(ideaSections && { sections: ideaSections }),
       })
       .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
       .select()
       .single();
     
     if (error) {
       console.error('Error updating idea:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
       return createErrorResponse('Failed to update idea', 500, 'Database Error');
     }
     
@@ -141,23 +342,29 @@ export const PUT = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, us
 
 /**
  * DELETE /api/ideas/[id]
- * Delete an idea (owner can delete draft ideas only)
+ * Delete an idea (owners and workspace admins can delete draft ideas only)
  */
-export const DELETE = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, user, profile) => {
+export const DELETE = withResourceOwner(getIdeaOwnerIds, async (req: NextRequest, user, profile) => {
   try {
     const ideaId = req.nextUrl.pathname.split('/').pop();
     if (!ideaId) {
       return createErrorResponse('Idea ID is required', 400);
     }
     
-    // Get Supabase client
-    const supabase = createAdminClient();
+    // Get Supabase client; the delete policy follows the same workflow table
+    const supabase = await createServerComponentClient();
     
-    // Check if the idea exists and is in draft status
+    // Check if the idea exists
     const { data: idea, error: fetchError } = await supabase
       .from('ideas')
-      .select('status')
+      .select(`
+        status,
+        owner_id,
+        members:idea_members(user_id, role),
+        attachments:idea_attachments(storage_path)
+      `)
       .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
       .single();
     
     if (fetchError) {
@@ -170,10 +377,10 @@ export const DELETE = withResourceOwner(getIdeaOwnerId, async (req: NextRequest,
       return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
     }
     
-    // Only draft ideas can be deleted
-    if (idea.status !== 'draft') {
+    // Only statuses the workflow marks as deletable can be deleted
+    if (!canDeleteIdea(idea.status, getWorkflowActors(idea, user.id, profile?.workspace_role))) {
       return createErrorResponse(
-        'Only draft ideas can be deleted',
+        `Ideas in '${idea.status}' status cannot be deleted`,
         403,
         'Forbidden'
       );
@@ -183,13 +390,37 @@ export const DELETE = withResourceOwner(getIdeaOwnerId, async (req: NextRequest,
     const { error: deleteError } = await supabase
       .from('ideas')
       .delete()
-      .eq('id', ideaId);
+      .eq('id', ideaId)
+      .select('id')
+      .single();
     
     if (deleteError) {
       console.error('Error deleting idea:', deleteError);
+      
+      if (deleteError.code === 'PGRST116') {
+        return createErrorResponse(
+          `Ideas in '${idea.status}' status cannot be deleted`,
+          403,
+          'Forbidden'
+        );
+      }
+      
       return createErrorResponse('Failed to delete idea', 500, 'Database Error');
     }
     
+    // Remove the files of its attachments; their rows went with the idea
+    // Storage policies need the idea to let its members remove files, so the service role does it
+    if (idea.attachments.length) {
+      const { error: storageError } = await createAdminClient().storage
+        .from(ATTACHMENT_BUCKET)
+        .remove(idea.attachments.map(attachment => attachment.storage_path));
+      
+      if (storageError) {
+        console.error('Error removing attachment files of deleted idea:', storageError);
+        // Continue despite the error, the idea is already deleted
+      }
+    }
+    
     // Return success response
     return NextResponse.json({ success: true }, { status: 200 });
   } catch (error) {
@@ -1,28 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerComponentClient } from '@/lib/supabase';
-import { withResourceOwner, createErrorResponse } from '@/lib/auth';
-import { IdeaStatus } from '@/lib/database.types';
+import { withResourceOwner, createErrorResponse, getIdeaMemberIds } from '@/lib/auth';
+import { checkTransition, getWorkflowActors } from '@/lib/workflow';
+import { FIELD_DEFINITION_COLUMNS, getFieldScopeFilter } from '@/lib/fields';
 
-// Helper to get idea owner ID from request
-const getIdeaOwnerId = async (req: NextRequest): Promise<string | null> => {
-  const ideaId = req.nextUrl.pathname.split('/')[3]; // Extract ID from /api/ideas/[id]/submit
-  if (!ideaId) return null;
-  
-  const supabase = createServerComponentClient();
-  const { data } = await supabase
-    .from('ideas')
-    .select('owner_id')
-    .eq('id', ideaId)
-    .single();
-  
-  return data?.owner_id || null;
-};
+// Helper to get the IDs of the idea's owners from request
+const getIdeaOwnerIds = (req: NextRequest): Promise<string[] | null> =>
+  getIdeaMemberIds(req.nextUrl.pathname.split('/')[3], ['owner']); // /api/ideas/[id]/submit
 
 /**
  * POST /api/ideas/[id]/submit
  * Submit an idea for review (change status from draft/rejected to submitted)
  */
-export const POST = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, user, profile) => {
+export const POST = withResourceOwner(getIdeaOwnerIds, async (req: NextRequest, user, profile) => {
   try {
     const ideaId = req.nextUrl.pathname.split('/')[3];
     if (!ideaId) {
@@ -32,11 +22,22 @@ export const POST = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, u
     // Get Supabase client
     const supabase = createServerComponentClient();
     
-    // Check if the idea exists and is in draft or rejected status
+    // Check if the idea exists, with its campaign's submission window and template sections
     const { data: idea, error: fetchError } = await supabase
       .from('ideas')
-      .select('status, title')
+      .select(`
+        status,
+        title,
+        owner_id,
+        campaign_id,
+        custom_fields,
+        template,
+        sections,
+        members:idea_members(user_id, role),
+        campaign:campaigns(opens_at, closes_at, closed_at)
+      `)
       .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
       .single();
     
     if (fetchError) {
@@ -49,29 +50,35 @@ export const POST = withResourceOwner(getIdeaOwnerId, async (req: NextRequest, u
       return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
     }
     
-    // Verify the idea is in a valid state for submission
-    if (idea.status !== 'draft' && idea.status !== 'rejected') {
-      return createErrorResponse(
-        `Ideas in '${idea.status}' status cannot be submitted`,
-        400,
-        'Invalid Status'
-      );
+    // Required custom fields must be filled in before submission
+    const { data: fields, error: fieldsError } = await supabase
+      .from('idea_fields')
+      .select(FIELD_DEFINITION_COLUMNS)
+      .eq('workspace_id', profile?.workspace_id)
+      .eq('active', true)
+      .or(getFieldScopeFilter(idea.campaign_id))
+      .order('position', { ascending: true });
+    
+    if (fieldsError) {
+      console.error('Error fetching idea fields for submission:', fieldsError);
+      return createErrorResponse('Failed to fetch idea fields', 500, 'Database Error');
     }
     
-    // Check if the idea has a title and content (basic validation)
-    if (!idea.title || idea.title.trim().length < 3) {
-      return createErrorResponse(
-        'Idea must have a title of at least 3 characters before submission',
-        400,
-        'Validation Error'
-      );
+    // Verify the workflow allows this user to submit the idea in its current state
+    const check = checkTransition(
+      'submit',
+      { ...idea, fields },
+      getWorkflowActors(idea, user.id, profile?.workspace_role)
+    );
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
     }
     
     // Update the idea status to submitted
     const { data, error } = await supabase
       .from('ideas')
       .update({
-        status: 'submitted' as IdeaStatus,
+        status: check.transition.to,
       })
       .eq('id', ideaId)
       .select()
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withResourceOwner, createErrorResponse, getIdeaMemberIds } from '@/lib/auth';
+import { checkTransition, getWorkflowActors } from '@/lib/workflow';
+
+// Schema for validating withdrawal request
+const withdrawSchema = z.object({
+  reason: z.string().max(1000, 'Reason must be less than 1000 characters').optional(),
+});
+
+// Helper to get the IDs of the idea's owners from request
+const getIdeaOwnerIds = (req: NextRequest): Promise<string[] | null> =>
+  getIdeaMemberIds(req.nextUrl.pathname.split('/')[3], ['owner']); // /api/ideas/[id]/withdraw
+
+/**
+ * POST /api/ideas/[id]/withdraw
+ * Withdraw a submitted idea back to draft before an admin starts reviewing it
+ */
+export const POST = withResourceOwner(getIdeaOwnerIds, async (req: NextRequest, user, profile) => {
+  try {
+    const ideaId = req.nextUrl.pathname.split('/')[3];
+    if (!ideaId) {
+      return createErrorResponse('Idea ID is required', 400);
+    }
+    
+    // The body is optional; an empty request withdraws without a reason
+    const body = await req.json().catch(() => ({}));
+    const { reason } = withdrawSchema.parse(body);
+    
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    // Check if the idea exists
+    const { data: idea, error: fetchError } = await supabase
+      .from('ideas')
+      .select('status, title, owner_id, review_started_at, members:idea_members(user_id, role)')
+      .eq('id', ideaId)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching idea for withdrawal:', fetchError);
+      
+      if (fetchError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to fetch idea', 500, 'Database Error');
+    }
+    
+    // Verify the workflow allows this user to withdraw the idea in its current state
+    const check = checkTransition('withdraw', idea, getWorkflowActors(idea, user.id, profile?.workspace_role));
+    if (!check.allowed) {
+      return createErrorResponse(check.message, check.status, check.error);
+    }
+    
+    // Move the idea back to draft; the status trigger notifies admins with the reason
+    const { data, error } = await supabase
+      .from('ideas')
+      .update({
+        status: check.transition.to,
+        status_reason: reason?.trim() || null,
+      })
+      .eq('id', ideaId)
+      .eq('status', idea.status) // Lose the race to an admin rather than withdrawing mid-review
+      .is('review_started_at', null)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error withdrawing idea:', error);
+      
+      if (error.code === 'PGRST116') {
+        return createErrorResponse('An admin has already started reviewing this idea', 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to withdraw idea', 500, 'Database Error');
+    }
+    
+    // Return the updated idea
+    return NextResponse.json({
+      data,
+      message: 'Idea withdrawn and moved back to draft'
+    });
+  } catch (error) {
+    console.error('Error in POST /api/ideas/[id]/withdraw:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid withdrawal data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -1,27 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createAdminClient, createServerComponentClient } from '@/lib/supabase';
-import { withAuth, createErrorResponse, getUserRole } from '@/lib/auth';
-import { IdeaStatus } from '@/lib/database.types';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { Constants, IdeaStatus } from '@/lib/database.types';
+import { getCampaignPhase } from '@/lib/campaigns';
+import { markdownExcerpt } from '@/lib/markdown';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/revisions';
+import {
+  buildCustomFieldsSchema,
+  FIELD_DEFINITION_COLUMNS,
+  getFieldScopeFilter,
+  mergeCustomFields,
+} from '@/lib/fields';
+import {
+  buildSectionsSchema,
+  getBuiltInTemplate,
+  mergeSections,
+  renderSections,
+  TemplateSection,
+  TemplateSnapshot,
+  toTemplateSnapshot,
+} from '@/lib/templates';
 
 // Schema for validating idea creation
 const createIdeaSchema = z.object({
   title: z.string().min(3, 'Title must be at least 3 characters').max(100, 'Title must be at most 100 characters'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
+  // Rendered from the sections when the idea starts from a template
+  description: z.string().min(10, 'Description must be at least 10 characters').max(MAX_DESCRIPTION_LENGTH, `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`).optional(),
   tags: z.array(z.string()).optional().default([]),
+  campaign_id: z.string().uuid('Campaign ID must be a valid UUID').optional(),
+  // Checked against the workspace's field definitions once they are loaded
+  custom_fields: z.record(z.unknown()).optional().default({}),
+  // Checked against the template's sections once it is resolved
+  sections: z.record(z.unknown()).optional().default({}),
+});
+
+// Schema for validating the template an idea starts from
+const createIdeaQuerySchema = z.object({
+  template: z.string().min(1, 'Template key is required').max(50).optional(),
 });
 
 // Schema for validating query parameters
 const listIdeasQuerySchema = z.object({
-  status: z.enum(['draft', 'submitted', 'approved', 'rejected']).optional(),
+  status: z.enum(Constants.public.Enums.idea_status).optional(),
   limit: z.coerce.number().min(1).max(100).optional().default(10),
   offset: z.coerce.number().min(0).optional().default(0),
   search: z.string().optional(),
+  campaign_id: z.string().uuid('Campaign ID must be a valid UUID').optional(),
+  include_archived: z.enum(['true', 'false']).optional().default('false'),
+  sort: z.enum(['created_at', 'votes']).optional().default('created_at'),
 });
 
 /**
  * GET /api/ideas
- * List ideas with filtering
+ * List ideas with filtering, newest first or most upvoted first (sort=votes)
  */
 export const GET = withAuth(async (req: NextRequest, user, profile) => {
   try {
@@ -32,28 +64,44 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
       limit: url.searchParams.get('limit'),
       offset: url.searchParams.get('offset'),
       search: url.searchParams.get('search'),
+      campaign_id: url.searchParams.get('campaign_id') ?? undefined,
+      include_archived: url.searchParams.get('include_archived') ?? undefined,
+      sort: url.searchParams.get('sort') ?? undefined,
     };
 
     // Validate query parameters
-    const { status, limit, offset, search } = listIdeasQuerySchema.parse(queryParams);
+    const { status, limit, offset, search, campaign_id, include_archived, sort } =
+      listIdeasQuerySchema.parse(queryParams);
 
     // Get Supabase client
     const supabase = createServerComponentClient();
     
+    // Apply filters based on the user's role in the current workspace
+    const userRole = profile?.workspace_role;
+    
     // Start building the query
-    let query = supabase.from('ideas').select('*');
+    let query = userRole === 'admin'
+      ? supabase.from('ideas').select('*, vote_count, voted')
+      // Regular users can only see the ideas they are members of, with their role
+      : supabase
+          .from('ideas')
+          .select('*, vote_count, voted, membership:idea_members!inner(role)')
+          .eq('membership.user_id', user.id);
     
-    // Apply filters based on user role
-    const userRole = await getUserRole();
-    
-    if (userRole !== 'admin') {
-      // Regular users can only see their own ideas
-      query = query.eq('owner_id', user.id);
-    }
+    // Only ideas of the current workspace
+    query = query.eq('workspace_id', profile?.workspace_id);
     
     // Apply status filter if provided
     if (status) {
       query = query.eq('status', status);
+    } else if (include_archived !== 'true') {
+      // Archived ideas are hidden unless explicitly requested
+      query = query.neq('status', 'archived');
+    }
+    
+    // Apply campaign filter if provided
+    if (campaign_id) {
+      query = query.eq('campaign_id', campaign_id);
     }
     
     // Apply search filter if provided
@@ -61,6 +109,11 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
       query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
     }
     
+    // Apply sorting, breaking ties in votes by recency
+    if (sort === 'votes') {
+      query = query.order('vote_count', { ascending: false });
+    }
+    
     // Apply pagination
     query = query.order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
@@ -73,9 +126,9 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
       return createErrorResponse('Failed to fetch ideas', 500, 'Database Error');
     }
     
-    // Return ideas with pagination metadata
+    // Return ideas, each with a plain-text preview of its description, and pagination metadata
     return NextResponse.json({
-      data,
+      data: data.map(idea => ({ ...idea, excerpt: markdownExcerpt(idea.description) })),
       pagination: {
         total: count,
         limit,
@@ -93,7 +146,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
 
 /**
  * POST /api/ideas
- * Create a new idea
+ * Create a new idea, optionally from a template (?template=key) that structures it into sections
  */
 export const POST = withAuth(async (req: NextRequest, user, profile) => {
   try {
@@ -101,19 +154,112 @@ export const POST = withAuth(async (req: NextRequest, user, profile) => {
     const body = await req.json();
     
     // Validate request body
-    const { title, description, tags } = createIdeaSchema.parse(body);
+    const { title, description, tags, campaign_id, custom_fields, sections } =
+      createIdeaSchema.parse(body);
+    const { template: templateKey } = createIdeaQuerySchema.parse({
+      template: req.nextUrl.searchParams.get('template') ?? undefined,
+    });
+    
+    if (!templateKey && !description) {
+      return createErrorResponse('Invalid idea data: Description is required', 400, 'Validation Error');
+    }
+    
+    if (!templateKey && Object.keys(sections).length > 0) {
+      return createErrorResponse('Invalid idea data: Sections need a template', 400, 'Validation Error');
+    }
+    
+    // Ideas are created in the current workspace
+    if (!profile?.workspace_id) {
+      return createErrorResponse('Join a workspace before creating ideas', 403, 'Forbidden');
+    }
     
     // Get Supabase client
     const supabase = createServerComponentClient();
     
+    // Ideas can join campaigns of the current workspace until they close
+    if (campaign_id) {
+      const { data: campaign, error: campaignError } = await supabase
+        .from('campaigns')
+        .select('opens_at, closes_at, closed_at')
+        .eq('id', campaign_id)
+        .eq('workspace_id', profile.workspace_id)
+        .maybeSingle();
+      
+      if (campaignError) {
+        console.error('Error fetching campaign for new idea:', campaignError);
+        return createErrorResponse('Failed to fetch campaign', 500, 'Database Error');
+      }
+      
+      if (!campaign) {
+        return createErrorResponse('Campaign not found', 404, 'Not Found');
+      }
+      
+      if (getCampaignPhase(campaign) === 'closed') {
+        return createErrorResponse('This campaign is closed for submissions', 400, 'Validation Error');
+      }
+    }
+    
+    // Resolve the template: a built-in one, or one of the workspace's own
+    // The idea keeps a copy of the current version, so later revisions do not change it
+    let template: TemplateSnapshot | null = null;
+    if (templateKey) {
+      const builtIn = getBuiltInTemplate(templateKey);
+      if (builtIn) {
+        template = toTemplateSnapshot(builtIn);
+      } else {
+        const { data: custom, error: templateError } = await supabase
+          .from('idea_templates')
+          .select('key, name, version, sections')
+          .eq('key', templateKey)
+          .eq('workspace_id', profile.workspace_id)
+          .eq('active', true)
+          .maybeSingle();
+        
+        if (templateError) {
+          console.error('Error fetching template for new idea:', templateError);
+          return createErrorResponse('Failed to fetch template', 500, 'Database Error');
+        }
+        
+        if (!custom) {
+          return createErrorResponse('Template not found', 404, 'Not Found');
+        }
+        
+        template = { ...custom, sections: custom.sections as unknown as TemplateSection[] };
+      }
+    }
+    
+    // Incomplete sections are allowed in drafts; they are only enforced when the idea is submitted
+    const ideaSections = template ? mergeSections({}, buildSectionsSchema(template).parse(sections)) : {};
+    
+    // Validate custom field values against the fields that apply to the idea
+    // Required fields are only enforced when the idea is submitted
+    const { data: fields, error: fieldsError } = await supabase
+      .from('idea_fields')
+      .select(FIELD_DEFINITION_COLUMNS)
+      .eq('workspace_id', profile.workspace_id)
+      .eq('active', true)
+      .or(getFieldScopeFilter(campaign_id));
+    
+    if (fieldsError) {
+      console.error('Error fetching idea fields:', fieldsError);
+      return createErrorResponse('Failed to fetch idea fields', 500, 'Database Error');
+    }
+    
+    const customFields = mergeCustomFields({}, buildCustomFieldsSchema(fields).parse(custom_fields));
+    
     // Create new idea with draft status
     const { data, error } = await supabase
       .from('ideas')
       .insert({
         owner_id: user.id,
+        workspace_id: profile.workspace_id,
         title,
-        description,
+        description: description ?? renderSections(template!, ideaSections),
         tags,
+        campaign_id,
+        custom_fields: customFields,
+        template,
+        sections: ideaSections,
         status: 'draft' as IdeaStatus,
       })
       .select()
@@ -20,7 +20,7 @@ const markAsReadSchema = z.object({
 
 /**
  * GET /api/inbox
- * List notifications for the current user with filtering
+ * List notifications for the current user in the current workspace with filtering
  */
 export const GET = withAuth(async (req: NextRequest, user, profile) => {
   try {
@@ -50,7 +50,8 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
           status
         )
       `)
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .eq('workspace_id', profile?.workspace_id);
     
     // Apply read filter if provided
     if (read !== 'all') {
@@ -76,6 +77,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
       .from('notifications')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .eq('workspace_id', profile?.workspace_id)
       .eq('read', false);
     
     if (countError) {
@@ -92,6 +94,7 @@ export const GET = withAuth(async (req: NextRequest, user, profile) => {
         offset,
       },
       unread: unreadCount || 0,
+      workspace_id: profile?.workspace_id,
     });
   } catch (error) {
     console.error('Error in GET /api/inbox:', error);
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferencesSchema,
+} from '@/lib/notifications';
+
+/**
+ * Read the user's preferences, and the ideas they muted in the current workspace
+ */
+async function fetchNotificationPreferences(
+  supabase: Awaited<ReturnType<typeof createServerComponentClient>>,
+  userId: string,
+  workspaceId: string | null | undefined
+) {
+  const { data: preferences, error } = await supabase
+    .from('notification_preferences')
+    .select('type, channel')
+    .eq('user_id', userId);
+  
+  if (error) {
+    return { error };
+  }
+  
+  const { data: mutes, error: mutesError } = await supabase
+    .from('notification_mutes')
+    .select('idea_id, created_at, idea:ideas(title, status)')
+    .eq('user_id', userId)
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false });
+  
+  if (mutesError) {
+    return { error: mutesError };
+  }
+  
+  return {
+    data: {
+      // Every notification type with its channel, in-app unless the user chose otherwise
+      preferences: getNotificationPreferences(preferences),
+      muted_ideas: mutes,
+    },
+  };
+}
+
+/**
+ * GET /api/me/notification-preferences
+ * Get how each type of notification reaches the current user, and the ideas they muted
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await fetchNotificationPreferences(supabase, user.id, profile?.workspace_id);
+    
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      return createErrorResponse('Failed to fetch notification preferences', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/me/notification-preferences:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/me/notification-preferences
+ * Set the channel of notification types (in_app, email, digest or off), and mute or unmute ideas
+ * Types left out keep their current channel; a muted idea only sends mentions and assignments
+ */
+export const PUT = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { preferences, mute, unmute } = updateNotificationPreferencesSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // Set the channel of each type given
+    const changed = Object.entries(preferences).map(([type, channel]) => ({
+      user_id: user.id,
+      type,
+      channel,
+      updated_at: new Date().toISOString(),
+    }));
+    
+    if (changed.length) {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(changed, { onConflict: 'user_id,type' });
+      
+      if (error) {
+        console.error('Error saving notification preferences:', error);
+        return createErrorResponse('Failed to save notification preferences', 500, 'Database Error');
+      }
+    }
+    
+    // Only ideas of the current workspace the user can see can be muted
+    if (mute.length) {
+      const { data: ideas, error: ideasError } = await supabase
+        .from('ideas')
+        .select('id')
+        .in('id', mute)
+        .eq('workspace_id', profile?.workspace_id);
+      
+      if (ideasError) {
+        console.error('Error fetching ideas to mute:', ideasError);
+        return createErrorResponse('Failed to fetch ideas', 500, 'Database Error');
+      }
+      
+      if (ideas.length !== new Set(mute).size) {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      const { error } = await supabase
+        .from('notification_mutes')
+        .upsert(
+          mute.map(idea_id => ({ user_id: user.id, idea_id })),
+          { onConflict: 'user_id,idea_id', ignoreDuplicates: true }
+        );
+      
+      if (error) {
+        console.error('Error muting ideas:', error);
+        
+        // Row level security only admits ideas the user can see
+        if (error.code === '42501') {
+          return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+        }
+        
+        return createErrorResponse('Failed to mute ideas', 500, 'Database Error');
+      }
+    }
+    
+    if (unmute.length) {
+      const { error } = await supabase
+        .from('notification_mutes')
+        .delete()
+        .eq('user_id', user.id)
+        .in('idea_id', unmute);
+      
+      if (error) {
+        console.error('Error unmuting ideas:', error);
+        return createErrorResponse('Failed to unmute ideas', 500, 'Database Error');
+      }
+    }
+    
+    // Return the preferences as they now stand
+    const { data, error } = await fetchNotificationPreferences(supabase, user.id, profile?.workspace_id);
+    
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      return createErrorResponse('Failed to fetch notification preferences', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in PUT /api/me/notification-preferences:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid notification preferences: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
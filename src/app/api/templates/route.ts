@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { BUILT_IN_TEMPLATES, IdeaTemplateSummary, TemplateSection } from '@/lib/templates';
+
+/**
+ * GET /api/templates
+ * List the templates a new idea can start from: the built-in templates, then the
+ * current workspace's own templates at their latest version
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    // Get Supabase client
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('idea_templates')
+      .select('id, key, name, description, version, sections')
+      .eq('workspace_id', profile?.workspace_id)
+      .eq('active', true)
+      .order('name', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching idea templates:', error);
+      return createErrorResponse('Failed to fetch idea templates', 500, 'Database Error');
+    }
+    
+    const custom: IdeaTemplateSummary[] = data.map(template => ({
+      ...template,
+      sections: template.sections as unknown as TemplateSection[],
+      built_in: false,
+    }));
+    
+    return NextResponse.json({ data: [...BUILT_IN_TEMPLATES, ...custom] });
+  } catch (error) {
+    console.error('Error in GET /api/templates:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
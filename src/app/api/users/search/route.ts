@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { getMemberRole } from '@/lib/members';
+import { DEFAULT_MENTION_SEARCH_LIMIT, MAX_MENTION_SEARCH_LIMIT } from '@/lib/mentions';
+
+// Schema for validating query parameters
+const searchUsersQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(100, 'Search query is too long'),
+  idea_id: z.string().uuid('Idea ID must be a valid UUID'),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_MENTION_SEARCH_LIMIT)
+    .optional()
+    .default(DEFAULT_MENTION_SEARCH_LIMIT),
+  internal: z.enum(['true', 'false']).optional().default('false'),
+});
+
+/**
+ * GET /api/users/search
+ * Find users to @mention on an idea by name
+ * Only the idea's members and the workspace admins, who can all see the idea, are returned;
+ * with internal=true, only the admins who can read internal notes
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    // Parse query parameters
+    const url = new URL(req.url);
+    const { q, idea_id, limit, internal } = searchUsersQuerySchema.parse({
+      q: url.searchParams.get('q') ?? undefined,
+      idea_id: url.searchParams.get('idea_id') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      internal: url.searchParams.get('internal') ?? undefined,
+    });
+    
+    const supabase = createServerComponentClient();
+    
+    // The current user must be able to see the idea
+    const { data: idea, error: ideaError } = await supabase
+      .from('ideas')
+      .select('owner_id, members:idea_members(user_id, role)')
+      .eq('id', idea_id)
+      .eq('workspace_id', profile?.workspace_id)
+      .single();
+    
+    if (ideaError) {
+      if (ideaError.code === 'PGRST116') {
+        return createErrorResponse('Idea not found', 404, 'Not Found');
+      }
+      
+      console.error('Error fetching idea:', ideaError);
+      return createErrorResponse('Failed to search users', 500, 'Database Error');
+    }
+    
+    if (!getMemberRole(idea, user.id) && profile?.workspace_role !== 'admin') {
+      return createErrorResponse('You do not have permission to view this idea', 403, 'Forbidden');
+    }
+    
+    const { data, error } = await supabase.rpc('search_mention_candidates', {
+      idea_id,
+      query: q,
+      max_results: limit,
+      internal: internal === 'true',
+    });
+    
+    if (error) {
+      console.error('Error searching users:', error);
+      return createErrorResponse('Failed to search users', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/users/search:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid search query: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
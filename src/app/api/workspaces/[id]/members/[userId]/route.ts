@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse, getWorkspaceRole } from '@/lib/auth';
+
+/**
+ * DELETE /api/workspaces/[id]/members/[userId]
+ * Remove a member from a workspace
+ * Workspace admins can remove anyone but the last admin; members can leave on their own
+ */
+export const DELETE = withAuth(async (req: NextRequest, user) => {
+  try {
+    const segments = req.nextUrl.pathname.split('/'); // /api/workspaces/[id]/members/[userId]
+    const workspaceId = segments[3];
+    const memberId = segments[5];
+    if (!workspaceId || !memberId) {
+      return createErrorResponse('Workspace ID and user ID are required', 400);
+    }
+    
+    const role = await getWorkspaceRole(workspaceId);
+    if (!role) {
+      return createErrorResponse('Workspace not found', 404, 'Not Found');
+    }
+    
+    if (memberId !== user.id && role !== 'admin') {
+      return createErrorResponse(
+        'Only workspace admins can remove members',
+        403,
+        'Forbidden'
+      );
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+      .select('user_id');
+    
+    if (error) {
+      console.error('Error removing workspace member:', error);
+      
+      // The last admin is protected by a trigger
+      if (error.code === '23514') {
+        return createErrorResponse('A workspace must keep at least one admin', 409, 'Conflict');
+      }
+      
+      return createErrorResponse('Failed to remove workspace member', 500, 'Database Error');
+    }
+    
+    if (!data.length) {
+      return createErrorResponse('Member not found', 404, 'Not Found');
+    }
+    
+    return NextResponse.json(
+      { message: 'Member removed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in DELETE /api/workspaces/[id]/members/[userId]:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
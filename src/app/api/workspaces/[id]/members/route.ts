@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse, getWorkspaceRole } from '@/lib/auth';
+import { addWorkspaceMemberSchema } from '@/lib/workspaces';
+
+/**
+ * GET /api/workspaces/[id]/members
+ * List a workspace's members and their roles
+ */
+export const GET = withAuth(async (req: NextRequest) => {
+  try {
+    const workspaceId = req.nextUrl.pathname.split('/')[3]; // /api/workspaces/[id]/members
+    if (!workspaceId) {
+      return createErrorResponse('Workspace ID is required', 400);
+    }
+    
+    // Other workspaces are not visible at all
+    if (!(await getWorkspaceRole(workspaceId))) {
+      return createErrorResponse('Workspace not found', 404, 'Not Found');
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select(`
+        user_id,
+        role,
+        added_by,
+        created_at,
+        profile:profiles!workspace_members_user_id_fkey(id, full_name, avatar_url)
+      `)
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching workspace members:', error);
+      return createErrorResponse('Failed to fetch workspace members', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/workspaces/[id]/members:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/workspaces/[id]/members
+ * Add a member by user ID or email, or change an existing member's role
+ * Only admins of the workspace can manage its members
+ */
+export const POST = withAuth(async (req: NextRequest, user) => {
+  try {
+    const workspaceId = req.nextUrl.pathname.split('/')[3];
+    if (!workspaceId) {
+      return createErrorResponse('Workspace ID is required', 400);
+    }
+    
+    const role = await getWorkspaceRole(workspaceId);
+    if (!role) {
+      return createErrorResponse('Workspace not found', 404, 'Not Found');
+    }
+    
+    if (role !== 'admin') {
+      return createErrorResponse(
+        'Only workspace admins can manage members',
+        403,
+        'Forbidden'
+      );
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { user_id, email, role: memberRole } = addWorkspaceMemberSchema.parse(body);
+    
+    const supabase = await createServerComponentClient();
+    
+    // Resolve an email invitation to an existing user
+    let memberId = user_id;
+    if (email) {
+      const { data: foundId, error: lookupError } = await supabase
+        .rpc('find_user_by_email', { email });
+      
+      if (lookupError) {
+        console.error('Error looking up user by email:', lookupError);
+        return createErrorResponse('Failed to add workspace member', 500, 'Database Error');
+      }
+      
+      if (!foundId) {
+        return createErrorResponse('No user found with that email address', 404, 'Not Found');
+      }
+      
+      memberId = foundId;
+    }
+    
+    // Add the member, or update their role if they already are one
+    const { data: member, error } = await supabase
+      .from('workspace_members')
+      .upsert(
+        { workspace_id: workspaceId, user_id: memberId, role: memberRole, added_by: user.id },
+        { onConflict: 'workspace_id,user_id' }
+      )
+      .select(`
+        user_id,
+        role,
+        added_by,
+        created_at,
+        profile:profiles!workspace_members_user_id_fkey(id, full_name, avatar_url)
+      `)
+      .single();
+    
+    if (error) {
+      console.error('Error adding workspace member:', error);
+      
+      // The last admin is protected by a trigger
+      if (error.code === '23514') {
+        return createErrorResponse('A workspace must keep at least one admin', 409, 'Conflict');
+      }
+      
+      // Foreign key violation: the user does not exist
+      if (error.code === '23503') {
+        return createErrorResponse('User not found', 404, 'Not Found');
+      }
+      
+      return createErrorResponse('Failed to add workspace member', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: member }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/workspaces/[id]/members:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid member data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
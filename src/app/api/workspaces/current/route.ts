@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse, getWorkspaceRole } from '@/lib/auth';
+import { switchWorkspaceSchema, WORKSPACE_COOKIE } from '@/lib/workspaces';
+
+/**
+ * GET /api/workspaces/current
+ * Get the workspace requests currently act in, and the user's role there
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    if (!profile?.workspace_id) {
+      return createErrorResponse('You are not a member of any workspace', 404, 'Not Found');
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('id, name, slug')
+      .eq('id', profile.workspace_id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching current workspace:', error);
+      return createErrorResponse('Failed to fetch workspace', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...data, role: profile.workspace_role } });
+  } catch (error) {
+    console.error('Error in GET /api/workspaces/current:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * PUT /api/workspaces/current
+ * Switch the workspace later requests act in
+ * The choice is kept in a cookie; clients can also send the x-workspace-id header per request
+ */
+export const PUT = withAuth(async (req: NextRequest) => {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { workspace_id } = switchWorkspaceSchema.parse(body);
+    
+    const role = await getWorkspaceRole(workspace_id);
+    if (!role) {
+      return createErrorResponse('You are not a member of this workspace', 403, 'Forbidden');
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('id, name, slug')
+      .eq('id', workspace_id)
+      .single();
+    
+    if (error) {
+      console.error('Error fetching workspace to switch to:', error);
+      return createErrorResponse('Failed to fetch workspace', 500, 'Database Error');
+    }
+    
+    const response = NextResponse.json({ data: { ...data, role } });
+    response.cookies.set(WORKSPACE_COOKIE, workspace_id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    
+    return response;
+  } catch (error) {
+    console.error('Error in PUT /api/workspaces/current:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid workspace data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerComponentClient } from '@/lib/supabase';
+import { withAuth, createErrorResponse } from '@/lib/auth';
+import { createWorkspaceSchema, slugifyWorkspaceName } from '@/lib/workspaces';
+
+/**
+ * GET /api/workspaces
+ * List the workspaces the current user belongs to, with their role and which one is current
+ */
+export const GET = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspace:workspaces(id, name, slug)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching workspaces:', error);
+      return createErrorResponse('Failed to fetch workspaces', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({
+      data: data.map(membership => ({
+        ...membership.workspace,
+        role: membership.role,
+        current: membership.workspace?.id === profile?.workspace_id,
+      })),
+      current: profile?.workspace_id ?? null,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/workspaces:', error);
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
+
+/**
+ * POST /api/workspaces
+ * Create a workspace; the creator becomes its first admin
+ * Only platform administrators can create workspaces
+ */
+export const POST = withAuth(async (req: NextRequest, user, profile) => {
+  try {
+    if (profile?.role !== 'admin') {
+      return createErrorResponse(
+        'Only administrators can create workspaces',
+        403,
+        'Forbidden'
+      );
+    }
+    
+    // Parse and validate request body
+    const body = await req.json();
+    const { name, slug } = createWorkspaceSchema.parse(body);
+    
+    const workspaceSlug = slug ?? slugifyWorkspaceName(name);
+    if (!workspaceSlug) {
+      return createErrorResponse(
+        'Provide a slug for this workspace name',
+        400,
+        'Validation Error'
+      );
+    }
+    
+    const supabase = await createServerComponentClient();
+    
+    const { data, error } = await supabase
+      .from('workspaces')
+      .insert({
+        name,
+        slug: workspaceSlug,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating workspace:', error);
+      
+      if (error.code === '23505') {
+        return createErrorResponse(
+          'A workspace with this slug already exists',
+          409,
+          'Conflict'
+        );
+      }
+      
+      return createErrorResponse('Failed to create workspace', 500, 'Database Error');
+    }
+    
+    return NextResponse.json({ data: { ...data, role: 'admin' } }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/workspaces:', error);
+    
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        'Invalid workspace data: ' + error.errors.map(e => e.message).join(', '),
+        400,
+        'Validation Error'
+      );
+    }
+    
+    return createErrorResponse('An unexpected error occurred', 500, 'Internal Server Error');
+  }
+});
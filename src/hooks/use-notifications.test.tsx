@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createBrowserClient } from '@/lib/supabase';
+import { InboxPage } from '@/lib/notifications';
+import { useNotifications } from './use-notifications';
+
+type Handler = (payload: { new: Record<string, unknown> }) => void;
+type StatusCallback = (status: string) => void;
+
+// The Supabase client and channel mocked in src/test/setup.ts; their stubs are reset after each test
+const supabase = vi.mocked(createBrowserClient());
+const channel = supabase.channel('notifications');
+
+let handlers: Record<string, Handler>;
+let setStatus: StatusCallback;
+
+const notification = (id: string, read = false, workspace_id = 'ws-1') => ({
+  id,
+  user_id: 'user-1',
+  workspace_id,
+  idea_id: 'idea-1',
+  type: 'new_comment',
+  meta: {},
+  read,
+  channel: 'in_app',
+  delivery_status: null,
+  delivery_attempts: 0,
+  delivery_error: null,
+  delivered_at: null,
+  created_at: '2025-01-24T10:00:00Z',
+});
+
+const inbox = (): InboxPage => ({
+  data: [
+    {
+      ...notification('a'),
+      idea: { id: 'idea-1', title: 'Faster onboarding', status: 'submitted' },
+    },
+  ],
+  pagination: { total: 1, limit: 20, offset: 0 },
+  unread: 1,
+  workspace_id: 'ws-1',
+});
+
+const respond = (body: unknown) => ({ ok: true, status: 200, json: async () => body }) as Response;
+
+const renderNotifications = (
+  userId: string | null = 'user-1',
+  workspaceId: string | null = 'ws-1'
+) => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  return renderHook(() => useNotifications(userId, { workspaceId }), { wrapper });
+};
+
+describe('useNotifications', () => {
+  beforeEach(() => {
+    handlers = {};
+    vi.mocked(createBrowserClient).mockReturnValue(supabase);
+    vi.mocked(supabase.channel).mockReturnValue(channel);
+    vi.mocked(channel.on).mockImplementation(((
+      _type: string,
+      filter: { event: string },
+      callback: Handler
+    ) => {
+      handlers[filter.event] = callback;
+      return channel;
+    }) as never);
+    vi.mocked(channel.subscribe).mockImplementation(((callback: StatusCallback) => {
+      setStatus = callback;
+      return channel;
+    }) as never);
+    vi.mocked(global.fetch).mockResolvedValue(respond(inbox()));
+  });
+
+  it('fetches the inbox and subscribes to the user’s notifications', async () => {
+    const { result } = renderNotifications();
+
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+    expect(result.current.unread).toBe(1);
+    expect(global.fetch).toHaveBeenCalledWith('/api/inbox?limit=20', {
+      headers: { 'x-workspace-id': 'ws-1' },
+    });
+
+    expect(supabase.channel).toHaveBeenCalledWith('notifications:user-1');
+    expect(channel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: 'user_id=eq.user-1' },
+      expect.any(Function)
+    );
+    expect(channel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'notifications', filter: 'user_id=eq.user-1' },
+      expect.any(Function)
+    );
+  });
+
+  it('does nothing without a user', () => {
+    renderNotifications(null);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  it('merges inserted notifications and keeps the unread count live', async () => {
+    const { result } = renderNotifications();
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+
+    act(() => handlers.INSERT({ new: notification('b') }));
+    await waitFor(() => expect(result.current.notifications.map(n => n.id)).toEqual(['b', 'a']));
+    expect(result.current.notifications[0].idea?.title).toBe('Faster onboarding');
+    expect(result.current.unread).toBe(2);
+
+    // Delivered twice, counted once
+    act(() => handlers.INSERT({ new: notification('b') }));
+    act(() => handlers.INSERT({ new: notification('c') }));
+    await waitFor(() => expect(result.current.notifications).toHaveLength(3));
+    expect(result.current.unread).toBe(3);
+  });
+
+  it('ignores notifications from other workspaces', async () => {
+    const { result } = renderNotifications();
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+
+    act(() => handlers.INSERT({ new: notification('b', false, 'ws-2') }));
+    act(() => handlers.INSERT({ new: notification('c') }));
+    await waitFor(() => expect(result.current.notifications.map(n => n.id)).toEqual(['c', 'a']));
+    expect(result.current.unread).toBe(2);
+  });
+
+  it('without a workspace, ignores notifications outside the one the inbox was listed for', async () => {
+    const { result } = renderNotifications('user-1', null);
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+    expect(global.fetch).toHaveBeenCalledWith('/api/inbox?limit=20', { headers: undefined });
+
+    act(() => handlers.INSERT({ new: notification('b', false, 'ws-2') }));
+    act(() => handlers.UPDATE({ new: notification('z', true, 'ws-2') }));
+    act(() => handlers.INSERT({ new: notification('c') }));
+    await waitFor(() => expect(result.current.notifications.map(n => n.id)).toEqual(['c', 'a']));
+    expect(result.current.unread).toBe(2);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies updates, such as notifications read in another tab', async () => {
+    const { result } = renderNotifications();
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+
+    act(() => handlers.UPDATE({ new: notification('a', true) }));
+    await waitFor(() => expect(result.current.notifications[0].read).toBe(true));
+    expect(result.current.unread).toBe(0);
+  });
+
+  it('refetches when an unlisted notification changes', async () => {
+    const { result } = renderNotifications();
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+
+    act(() => handlers.UPDATE({ new: notification('z', true) }));
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(2));
+  });
+
+  it('backfills after the channel reconnects', async () => {
+    const { result } = renderNotifications();
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+
+    act(() => setStatus('SUBSCRIBED'));
+    expect(result.current.connected).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    act(() => setStatus('CHANNEL_ERROR'));
+    expect(result.current.connected).toBe(false);
+
+    vi.mocked(global.fetch).mockResolvedValue(
+      respond({
+        ...inbox(),
+        data: [{ ...notification('b'), idea: null }, ...inbox().data],
+        unread: 2,
+      })
+    );
+    act(() => setStatus('SUBSCRIBED'));
+
+    await waitFor(() => expect(result.current.unread).toBe(2));
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result.current.connected).toBe(true);
+  });
+
+  it('marks notifications as read', async () => {
+    const { result } = renderNotifications();
+    await waitFor(() => expect(result.current.notifications).toHaveLength(1));
+
+    vi.mocked(global.fetch).mockResolvedValue(respond({ data: [notification('a', true)] }));
+    await act(() => result.current.markAsRead(['a']));
+    await waitFor(() => expect(result.current.unread).toBe(0));
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/inbox', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'x-workspace-id': 'ws-1' },
+      body: JSON.stringify({ ids: ['a'], read: true }),
+    });
+
+    // The realtime echo of the same change is not counted again
+    act(() => handlers.UPDATE({ new: notification('a', true) }));
+    act(() => handlers.INSERT({ new: notification('b') }));
+    await waitFor(() => expect(result.current.notifications).toHaveLength(2));
+    expect(result.current.unread).toBe(1);
+  });
+
+  it('leaves the channel on unmount', async () => {
+    const { unmount } = renderNotifications();
+    unmount();
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channel);
+  });
+});
@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { QueryClient, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload,
+} from "@supabase/supabase-js";
+import { createBrowserClient, Notification } from "@/lib/supabase";
+import { addNotification, InboxPage, updateNotification } from "@/lib/notifications";
+import { WORKSPACE_HEADER } from "@/lib/workspaces";
+
+// How many notifications the inbox lists
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+// How often the inbox is refetched while the realtime channel is down
+export const NOTIFICATIONS_POLL_INTERVAL = 30 * 1000; // 30 seconds
+
+// Cache key of a user's inbox in the current workspace
+export const notificationsQueryKey = (
+  userId: string | null | undefined,
+  workspaceId: string | null | undefined,
+  limit: number
+) => ["notifications", userId ?? null, workspaceId ?? null, limit] as const;
+
+interface UseNotificationsOptions {
+  // The workspace the inbox belongs to; defaults to the one the API picks
+  workspaceId?: string | null;
+  limit?: number;
+}
+
+// Merge changed notifications into the cached inbox, refetching it when that is not enough
+const applyUpdates = (
+  queryClient: QueryClient,
+  queryKey: ReturnType<typeof notificationsQueryKey>,
+  notifications: Notification[]
+) => {
+  let page = queryClient.getQueryData<InboxPage>(queryKey);
+  if (!page) return;
+
+  for (const notification of notifications) {
+    const updated = updateNotification(page, notification);
+    if (!updated) {
+      queryClient.invalidateQueries({ queryKey });
+      return;
+    }
+    page = updated;
+  }
+
+  queryClient.setQueryData(queryKey, page);
+};
+
+/**
+ * The current user's inbox, kept live over Supabase Realtime
+ * New and changed notifications are merged into the React Query cache as they happen, along with
+ * the unread count; after the channel drops the inbox is polled, and refetched once it reconnects
+ * to backfill what was missed
+ * @param userId The current user; nothing is fetched without one
+ */
+export function useNotifications(
+  userId: string | null | undefined,
+  { workspaceId, limit = NOTIFICATIONS_PAGE_SIZE }: UseNotificationsOptions = {}
+) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const queryKey = notificationsQueryKey(userId, workspaceId, limit);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<InboxPage> => {
+      const response = await fetch(`/api/inbox?limit=${limit}`, {
+        headers: workspaceId ? { [WORKSPACE_HEADER]: workspaceId } : undefined,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch notifications (${response.status})`);
+      }
+
+      return response.json();
+    },
+    enabled: !!userId,
+    refetchInterval: connected ? false : NOTIFICATIONS_POLL_INTERVAL,
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const supabase = createBrowserClient();
+    const key = notificationsQueryKey(userId, workspaceId, limit);
+    const filter = `user_id=eq.${userId}`;
+    let dropped = false;
+
+    // Notifications from other workspaces belong to other inboxes; without a workspace given, the
+    // inbox belongs to the one the API resolved, and nothing is merged before it has been fetched
+    const inWorkspace = (notification: Notification) => {
+      const current = workspaceId ?? queryClient.getQueryData<InboxPage>(key)?.workspace_id;
+      return !!current && notification.workspace_id === current;
+    };
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter },
+        (payload: RealtimePostgresInsertPayload<Notification>) => {
+          if (!inWorkspace(payload.new)) return;
+
+          // Before the inbox is first fetched there is nothing to merge into
+          queryClient.setQueryData<InboxPage>(key, page =>
+            page ? addNotification(page, payload.new) : page
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter },
+        (payload: RealtimePostgresUpdatePayload<Notification>) => {
+          if (!inWorkspace(payload.new)) return;
+          applyUpdates(queryClient, key, [payload.new]);
+        }
+      )
+      .subscribe(status => {
+        if (status === "SUBSCRIBED") {
+          setConnected(true);
+
+          // Backfill what happened while the socket was down
+          if (dropped) {
+            dropped = false;
+            queryClient.invalidateQueries({ queryKey: key });
+          }
+        } else {
+          // CHANNEL_ERROR, TIMED_OUT or CLOSED; the client rejoins by itself
+          setConnected(false);
+          dropped = true;
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, userId, workspaceId, limit]);
+
+  // Mark notifications as read or unread, updating the inbox without waiting for realtime
+  const markAsRead = useCallback(
+    async (ids: string[], read = true) => {
+      const response = await fetch("/api/inbox", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(workspaceId ? { [WORKSPACE_HEADER]: workspaceId } : {}),
+        },
+        body: JSON.stringify({ ids, read }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update notifications (${response.status})`);
+      }
+
+      const { data } = (await response.json()) as { data: Notification[] };
+      applyUpdates(queryClient, notificationsQueryKey(userId, workspaceId, limit), data);
+    },
+    [queryClient, userId, workspaceId, limit]
+  );
+
+  return {
+    notifications: query.data?.data ?? [],
+    unread: query.data?.unread ?? 0,
+    total: query.data?.pagination.total ?? 0,
+    isLoading: query.isLoading,
+    error: query.error,
+    // Whether changes are arriving over realtime; the inbox is polled while they are not
+    connected,
+    markAsRead,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { assignReviewerSchema } from './assignment';
+
+const reviewerId = '0b6e7c8a-3f0d-4b8e-9a51-6f2d3c4b5a69';
+
+describe('assignment', () => {
+  describe('assignReviewerSchema', () => {
+    it('defaults to manual assignment', () => {
+      expect(assignReviewerSchema.parse({ reviewer_id: reviewerId })).toEqual({
+        strategy: 'manual',
+        reviewer_id: reviewerId,
+      });
+    });
+
+    it('requires a reviewer for manual assignment', () => {
+      expect(assignReviewerSchema.safeParse({}).success).toBe(false);
+      expect(assignReviewerSchema.safeParse({ strategy: 'manual' }).success).toBe(false);
+    });
+
+    it('picks the reviewer itself for automatic strategies', () => {
+      expect(assignReviewerSchema.safeParse({ strategy: 'round_robin' }).success).toBe(true);
+      expect(assignReviewerSchema.safeParse({ strategy: 'least_loaded' }).success).toBe(true);
+      expect(assignReviewerSchema.safeParse({ strategy: 'random' }).success).toBe(false);
+    });
+  });
+});
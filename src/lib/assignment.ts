@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/**
+ * How submitted ideas are assigned to reviewers on the review panel
+ * - manual: an admin picks the reviewer
+ * - round_robin: panel members take turns
+ * - least_loaded: the panel member with the fewest open assignments
+ */
+export const ASSIGNMENT_STRATEGIES = ['manual', 'round_robin', 'least_loaded'] as const;
+export type AssignmentStrategy = (typeof ASSIGNMENT_STRATEGIES)[number];
+
+// Schema for validating an assignment request
+export const assignReviewerSchema = z
+  .object({
+    strategy: z.enum(ASSIGNMENT_STRATEGIES).optional().default('manual'),
+    reviewer_id: z.string().uuid('Reviewer ID must be a valid UUID').optional(),
+  })
+  .refine(data => data.strategy !== 'manual' || !!data.reviewer_id, {
+    message: 'A reviewer is required for manual assignment',
+    path: ['reviewer_id'],
+  });
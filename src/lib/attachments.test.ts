@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_ATTACHMENT_BYTES_PER_IDEA,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_IDEA,
+  canReadAttachments,
+  formatBytes,
+  getAttachmentFileError,
+  getAttachmentPath,
+  getAttachmentQuotaError,
+  getAttachmentUsage,
+  sanitizeFileName,
+} from './attachments';
+
+const MB = 1024 * 1024;
+
+const deck = {
+  name: 'Pitch deck.pptx',
+  type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  size: 3 * MB,
+};
+
+describe('attachments', () => {
+  describe('getAttachmentFileError', () => {
+    it('accepts slide decks, mockups and spreadsheets', () => {
+      expect(getAttachmentFileError(deck)).toBeNull();
+      expect(
+        getAttachmentFileError({ name: 'mockup.PNG', type: 'image/png', size: MB })
+      ).toBeNull();
+      expect(
+        getAttachmentFileError({
+          name: 'model.xlsx',
+          type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          size: MB,
+        })
+      ).toBeNull();
+    });
+
+    it('rejects empty and oversized files', () => {
+      expect(getAttachmentFileError({ ...deck, size: 0 })).toBe('File is empty');
+      expect(getAttachmentFileError({ ...deck, size: MAX_ATTACHMENT_SIZE + 1 })).toBe(
+        'Files can be at most 25 MB'
+      );
+      expect(getAttachmentFileError({ ...deck, size: MAX_ATTACHMENT_SIZE })).toBeNull();
+    });
+
+    it('rejects types outside the allowlist', () => {
+      expect(getAttachmentFileError({ name: 'page.html', type: 'text/html', size: 10 })).toBe(
+        'Files of type text/html cannot be attached'
+      );
+      expect(
+        getAttachmentFileError({ name: 'logo.svg', type: 'image/svg+xml', size: 10 })
+      ).not.toBeNull();
+      expect(getAttachmentFileError({ name: 'blob', type: '', size: 10 })).toBe(
+        'Files of type unknown cannot be attached'
+      );
+    });
+
+    it('rejects extensions that do not match the declared type', () => {
+      expect(getAttachmentFileError({ name: 'setup.exe', type: 'application/pdf', size: 10 })).toBe(
+        'File name must end in .pdf for application/pdf files'
+      );
+      expect(
+        getAttachmentFileError({ name: 'pdf', type: 'application/pdf', size: 10 })
+      ).not.toBeNull();
+    });
+  });
+
+  describe('getAttachmentQuotaError', () => {
+    it('allows attachments within the quota', () => {
+      expect(getAttachmentQuotaError({ count: 0, bytes: 0 }, deck)).toBeNull();
+      expect(
+        getAttachmentQuotaError(
+          { count: MAX_ATTACHMENTS_PER_IDEA - 1, bytes: MAX_ATTACHMENT_BYTES_PER_IDEA - deck.size },
+          deck
+        )
+      ).toBeNull();
+    });
+
+    it('limits the number of attachments per idea', () => {
+      expect(getAttachmentQuotaError({ count: MAX_ATTACHMENTS_PER_IDEA, bytes: 0 }, deck)).toBe(
+        'Ideas can have at most 20 attachments'
+      );
+    });
+
+    it('limits the total size of attachments per idea', () => {
+      expect(getAttachmentQuotaError({ count: 5, bytes: 98 * MB }, deck)).toBe(
+        'Attachments on an idea can total at most 100 MB (2 MB left)'
+      );
+    });
+  });
+
+  describe('getAttachmentUsage', () => {
+    it('counts attachments and adds up their sizes', () => {
+      expect(getAttachmentUsage([{ size_bytes: 100 }, { size_bytes: 250 }])).toEqual({
+        count: 2,
+        bytes: 350,
+      });
+      expect(getAttachmentUsage([])).toEqual({ count: 0, bytes: 0 });
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('uses the largest sensible unit', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(2048)).toBe('2 KB');
+      expect(formatBytes(1.5 * MB)).toBe('1.5 MB');
+    });
+  });
+
+  describe('canReadAttachments', () => {
+    const idea = {
+      owner_id: 'owner-1',
+      members: [
+        { user_id: 'editor-1', role: 'editor' },
+        { user_id: 'viewer-1', role: 'viewer' },
+      ],
+    };
+
+    it('lets every member of the idea read attachments, viewers included', () => {
+      expect(canReadAttachments(idea, 'owner-1', 'owner')).toBe(true);
+      expect(canReadAttachments(idea, 'editor-1', 'owner')).toBe(true);
+      expect(canReadAttachments(idea, 'viewer-1', 'owner')).toBe(true);
+    });
+
+    it('lets workspace admins read attachments of any idea', () => {
+      expect(canReadAttachments(idea, 'admin-1', 'admin')).toBe(true);
+    });
+
+    it('keeps other users out', () => {
+      expect(canReadAttachments(idea, 'stranger-1', 'owner')).toBe(false);
+      expect(canReadAttachments(idea, null, null)).toBe(false);
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('keeps safe characters and replaces the rest', () => {
+      expect(sanitizeFileName('Pitch deck (v2).pptx')).toBe('Pitch_deck_v2_.pptx');
+      expect(sanitizeFileName('Résumé.pdf')).toBe('Resume.pdf');
+    });
+
+    it('cannot escape the attachment folder', () => {
+      expect(sanitizeFileName('../../secrets.txt')).toBe('secrets.txt');
+      expect(sanitizeFileName('a/b\\c.txt')).toBe('a_b_c.txt');
+    });
+
+    it('falls back to a placeholder when nothing usable is left', () => {
+      expect(sanitizeFileName('...')).toBe('file');
+    });
+  });
+
+  describe('getAttachmentPath', () => {
+    it('stores files under the workspace, idea and attachment', () => {
+      expect(getAttachmentPath('ws-1', 'idea-1', 'att-1', 'Pitch deck.pptx')).toBe(
+        'ws-1/idea-1/att-1/Pitch_deck.pptx'
+      );
+    });
+  });
+});
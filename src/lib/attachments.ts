@@ -0,0 +1,193 @@
+import { getMemberRole, IdeaMemberRef } from './members';
+import { IdeaAttachment, UserRole } from './supabase';
+
+/**
+ * Supabase Storage bucket holding idea attachments
+ * Objects are stored under {workspace_id}/{idea_id}/{attachment_id}/{file name}, which the
+ * storage policies in the database rely on
+ */
+export const ATTACHMENT_BUCKET = 'idea-attachments';
+
+/**
+ * Largest file that can be attached, in bytes
+ * Mirrors the bucket's file_size_limit
+ */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Per-idea quotas, mirrored by public.check_idea_attachment_quota in the database
+ */
+export const MAX_ATTACHMENTS_PER_IDEA = 20;
+export const MAX_ATTACHMENT_BYTES_PER_IDEA = 100 * 1024 * 1024;
+
+/**
+ * How long signed download URLs stay valid, in seconds
+ */
+export const SIGNED_URL_TTL = 10 * 60;
+
+/**
+ * File types that can be attached, with the extensions each may carry
+ * Mirrors the bucket's allowed_mime_types; HTML, SVG and executables are left out on purpose
+ */
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string[]> = {
+  'application/pdf': ['pdf'],
+  'application/vnd.ms-powerpoint': ['ppt'],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['pptx'],
+  'application/vnd.oasis.opendocument.presentation': ['odp'],
+  'application/vnd.apple.keynote': ['key'],
+  'application/vnd.ms-excel': ['xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['xlsx'],
+  'application/vnd.oasis.opendocument.spreadsheet': ['ods'],
+  'text/csv': ['csv'],
+  'application/msword': ['doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
+  'application/vnd.oasis.opendocument.text': ['odt'],
+  'text/plain': ['txt'],
+  'image/png': ['png'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+};
+
+/**
+ * The file properties checked before upload
+ */
+export interface AttachmentFile {
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * What an idea's existing attachments already use of its quota
+ */
+export interface AttachmentUsage {
+  count: number;
+  bytes: number;
+}
+
+/**
+ * Format a byte count for error messages
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+/**
+ * Get a file name's extension, lowercased
+ */
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Check a file against the size limit and the type allowlist
+ * The extension must match the declared type, so a renamed file cannot pass as another type
+ * @param file The uploaded file
+ * @returns An error message, or null when the file can be attached
+ */
+export function getAttachmentFileError(file: AttachmentFile): string | null {
+  if (!file.name.trim()) {
+    return 'File name is required';
+  }
+
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `Files can be at most ${formatBytes(MAX_ATTACHMENT_SIZE)}`;
+  }
+
+  const extensions = ALLOWED_ATTACHMENT_TYPES[file.type];
+  if (!extensions) {
+    return `Files of type ${file.type || 'unknown'} cannot be attached`;
+  }
+
+  if (!extensions.includes(getExtension(file.name))) {
+    return `File name must end in .${extensions.join(' or .')} for ${file.type} files`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether an idea has room for another attachment
+ * @param usage What the idea's attachments already use
+ * @param file The file to add
+ * @returns An error message, or null when the file fits the idea's quota
+ */
+export function getAttachmentQuotaError(
+  usage: AttachmentUsage,
+  file: AttachmentFile
+): string | null {
+  if (usage.count >= MAX_ATTACHMENTS_PER_IDEA) {
+    return `Ideas can have at most ${MAX_ATTACHMENTS_PER_IDEA} attachments`;
+  }
+
+  if (usage.bytes + file.size > MAX_ATTACHMENT_BYTES_PER_IDEA) {
+    const left = Math.max(MAX_ATTACHMENT_BYTES_PER_IDEA - usage.bytes, 0);
+    return `Attachments on an idea can total at most ${formatBytes(MAX_ATTACHMENT_BYTES_PER_IDEA)} (${formatBytes(left)} left)`;
+  }
+
+  return null;
+}
+
+/**
+ * Add up the quota an idea's attachments use
+ */
+export function getAttachmentUsage(
+  attachments: Pick<IdeaAttachment, 'size_bytes'>[]
+): AttachmentUsage {
+  return {
+    count: attachments.length,
+    bytes: attachments.reduce((total, attachment) => total + attachment.size_bytes, 0),
+  };
+}
+
+/**
+ * Check whether a user can list and download an idea's attachments
+ * Every member of the idea can, whatever their role, and so can workspace admins;
+ * mirrors public.can_read_idea_attachments in the database
+ * @param idea The idea with its members
+ * @param userId The user
+ * @param role The user's workspace role
+ */
+export function canReadAttachments(
+  idea: { owner_id: string; members?: IdeaMemberRef[] | null },
+  userId: string | null | undefined,
+  role: UserRole | null | undefined
+): boolean {
+  return !!getMemberRole(idea, userId) || role === 'admin';
+}
+
+/**
+ * Make a file name safe to use as the last segment of a storage path
+ * Keeps letters, digits, dots, dashes and underscores; the original name is kept in the
+ * database and used for downloads
+ */
+export function sanitizeFileName(name: string): string {
+  const cleaned = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-100);
+  return cleaned || 'file';
+}
+
+/**
+ * Build the storage path of an attachment
+ * @returns {workspace_id}/{idea_id}/{attachment_id}/{sanitized file name}
+ */
+export function getAttachmentPath(
+  workspaceId: string,
+  ideaId: string,
+  attachmentId: string,
+  fileName: string
+): string {
+  return `${workspaceId}/${ideaId}/${attachmentId}/${sanitizeFileName(fileName)}`;
+}
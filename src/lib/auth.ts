@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { createAdminClient, createServerComponentClient, getCurrentUser } from './supabase';
-import { UserRole } from './database.types';
+import { User } from '@supabase/supabase-js';
+import { createAdminClient, createServerComponentClient, getCurrentUser, Profile, UserRole } from './supabase';
+import { canEditIdea, getWorkflowActors } from './workflow';
+import { IdeaMemberRole } from './members';
+import { WORKSPACE_COOKIE, WORKSPACE_HEADER, pickWorkspace } from './workspaces';
 
 /**
  * Standard API error response format
@@ -50,8 +53,68 @@ export const AUTH_ERRORS = {
     403,
     'Forbidden'
   ),
+  WORKSPACE_FORBIDDEN: createErrorResponse(
+    'You are not a member of this workspace',
+    403,
+    'Forbidden'
+  ),
 };
 
+/**
+ * A profile with the workspace the request acts in, as route handlers receive it
+ */
+export type WorkspaceProfile = Profile & {
+  workspace_id: string | null;
+  workspace_role: UserRole | null;
+};
+
+/**
+ * Resolve the workspace a request acts in and attach it to the profile
+ * profile.role stays the platform role; profile.workspace_role is the role in the workspace
+ * A workspace named by header must be one of the user's; a stale cookie falls back to the
+ * user's first workspace
+ * @param req The incoming request
+ * @param user The authenticated user
+ * @param profile The user's profile
+ * @returns The profile with workspace_id and workspace_role (null without any workspace),
+ * or an error response
+ */
+async function resolveWorkspace(
+  req: NextRequest,
+  user: User,
+  profile: Profile | null
+): Promise<{ profile: WorkspaceProfile | null; error?: NextResponse<ApiError> }> {
+  const supabase = await createServerComponentClient();
+  const { data: memberships, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, role')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error resolving workspace:', error);
+    return { profile: null, error: createErrorResponse('Failed to resolve workspace', 500, 'Database Error') };
+  }
+  
+  const requestedId = req.headers.get(WORKSPACE_HEADER);
+  const workspace = requestedId
+    ? pickWorkspace(memberships, requestedId)
+    : pickWorkspace(memberships, req.cookies.get(WORKSPACE_COOKIE)?.value) ??
+      pickWorkspace(memberships, null);
+  
+  if (requestedId && !workspace) {
+    return { profile: null, error: AUTH_ERRORS.WORKSPACE_FORBIDDEN };
+  }
+  
+  return {
+    profile: profile && {
+      ...profile,
+      workspace_id: workspace?.workspace_id ?? null,
+      workspace_role: workspace?.role ?? null,
+    },
+  };
+}
+
 /**
  * Middleware to require authentication for API routes
  * @param handler The API route handler
@@ -67,12 +130,18 @@ export function withAuth<T>(
       return AUTH_ERRORS.UNAUTHORIZED;
     }
     
-    return handler(req, user, profile);
+    const workspace = await resolveWorkspace(req, user, profile);
+    if (workspace.error) {
+      return workspace.error;
+    }
+    
+    return handler(req, user, workspace.profile);
   };
 }
 
 /**
  * Middleware to require admin role for API routes
+ * Admin means admin of the workspace the request acts in
  * @param handler The API route handler
  * @returns A handler that checks for admin role before proceeding
  */
@@ -86,11 +155,16 @@ export function withAdmin<T>(
       return AUTH_ERRORS.UNAUTHORIZED;
     }
     
-    if (!profile || profile.role !== 'admin') {
+    const workspace = await resolveWorkspace(req, user, profile);
+    if (workspace.error) {
+      return workspace.error;
+    }
+    
+    if (!profile || workspace.profile?.workspace_role !== 'admin') {
       return AUTH_ERRORS.ADMIN_REQUIRED;
     }
     
-    return handler(req, user, profile);
+    return handler(req, user, workspace.profile);
   };
 }
 
@@ -106,12 +180,12 @@ export async function isResourceOwner(ownerId: string): Promise<boolean> {
 
 /**
  * Middleware to require resource ownership for API routes
- * @param getOwnerId Function to extract owner ID from the request
+ * @param getOwnerId Function to extract the owner ID, or all owner IDs, from the request
  * @param handler The API route handler
  * @returns A handler that checks for resource ownership before proceeding
  */
 export function withResourceOwner<T>(
-  getOwnerId: (req: NextRequest) => Promise<string | null>,
+  getOwnerId: (req: NextRequest) => Promise<string | string[] | null>,
   handler: (req: NextRequest, user: any, profile: any) => Promise<NextResponse<T>>
 ) {
   return async (req: NextRequest) => {
@@ -121,13 +195,19 @@ export function withResourceOwner<T>(
       return AUTH_ERRORS.UNAUTHORIZED;
     }
     
-    const ownerId = await getOwnerId(req);
+    const workspace = await resolveWorkspace(req, user, profile);
+    if (workspace.error) {
+      return workspace.error;
+    }
+    
+    const ownerIds = [await getOwnerId(req)].flat().filter(Boolean);
+    const isAdmin = workspace.profile?.workspace_role === 'admin';
     
-    if (!ownerId || (ownerId !== user.id && profile?.role !== 'admin')) {
+    if (!ownerIds.length || (!ownerIds.includes(user.id) && !isAdmin)) {
       return AUTH_ERRORS.OWNER_REQUIRED;
     }
     
-    return handler(req, user, profile);
+    return handler(req, user, workspace.profile);
   };
 }
 
@@ -150,13 +230,64 @@ export async function getUserId(): Promise<string | null> {
   return user?.id || null;
 }
 
+/**
+ * Get the IDs of an idea's members holding one of the given roles
+ * Suitable as the getOwnerId argument of withResourceOwner
+ * @param ideaId The ID of the idea
+ * @param roles The member roles to include
+ * @returns Member user IDs, or null if the idea is not visible to the current user
+ */
+export async function getIdeaMemberIds(
+  ideaId: string | undefined,
+  roles: IdeaMemberRole[]
+): Promise<string[] | null> {
+  if (!ideaId) return null;
+  
+  const supabase = await createServerComponentClient();
+  const { data, error } = await supabase
+    .from('idea_members')
+    .select('user_id')
+    .eq('idea_id', ideaId)
+    .in('role', roles);
+  
+  if (error || !data?.length) {
+    return null;
+  }
+  
+  return data.map(member => member.user_id);
+}
+
+/**
+ * Get the current user's role in a workspace
+ * @param workspaceId The ID of the workspace
+ * @returns The workspace role, or null if the user is not a member
+ */
+export async function getWorkspaceRole(workspaceId: string | undefined): Promise<UserRole | null> {
+  const { user } = await getCurrentUser();
+  if (!user || !workspaceId) return null;
+  
+  const supabase = await createServerComponentClient();
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  
+  if (error || !data) {
+    return null;
+  }
+  
+  return data.role;
+}
+
 /**
  * Validate if the current user can modify an idea based on its status and user role
  * @param ideaId The ID of the idea to check
  * @returns Object with canModify boolean and error message if applicable
  */
 export async function canModifyIdea(ideaId: string): Promise<{ canModify: boolean; error?: string }> {
-  const { user, profile } = await getCurrentUser();
+  const { user } = await getCurrentUser();
   
   if (!user) {
     return { canModify: false, error: 'Authentication required' };
@@ -165,7 +296,7 @@ export async function canModifyIdea(ideaId: string): Promise<{ canModify: boolea
   const supabase = createAdminClient();
   const { data: idea, error } = await supabase
     .from('ideas')
-    .select('*')
+    .select('*, members:idea_members(user_id, role)')
     .eq('id', ideaId)
     .single();
   
@@ -173,20 +304,24 @@ export async function canModifyIdea(ideaId: string): Promise<{ canModify: boolea
     return { canModify: false, error: 'Idea not found' };
   }
   
-  // Admins can modify submitted ideas (status only)
-  if (profile?.role === 'admin' && idea.status === 'submitted') {
-    return { canModify: true };
-  }
+  // Admin rights come from the idea's own workspace
+  const { data: membership } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', idea.workspace_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
   
-  // Owners can modify their own ideas if in draft or rejected status
-  if (idea.owner_id === user.id && (idea.status === 'draft' || idea.status === 'rejected')) {
+  // Content edits follow the workflow status rules
+  const actors = getWorkflowActors(idea, user.id, membership?.role);
+  if (canEditIdea(idea.status, actors)) {
     return { canModify: true };
   }
   
   return { 
     canModify: false, 
-    error: idea.owner_id !== user.id 
-      ? 'You can only modify your own ideas' 
+    error: !actors.includes('owner') && !actors.includes('editor')
+      ? 'You can only modify ideas you own or edit' 
       : 'Ideas cannot be modified in their current status'
   };
 }
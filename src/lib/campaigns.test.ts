@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCampaignSchema,
+  getCampaignPhase,
+  getCampaignSubmissionError,
+  updateCampaignSchema,
+} from './campaigns';
+
+const now = new Date('2025-01-15T12:00:00Z');
+
+const campaign = (opens_at: string, closes_at: string, closed_at: string | null = null) => ({
+  opens_at,
+  closes_at,
+  closed_at,
+});
+
+describe('campaigns', () => {
+  describe('getCampaignPhase', () => {
+    it('is upcoming before the opening date', () => {
+      expect(getCampaignPhase(campaign('2025-01-16T00:00:00Z', '2025-02-01T00:00:00Z'), now)).toBe(
+        'upcoming'
+      );
+    });
+
+    it('is open between the opening and closing dates', () => {
+      expect(getCampaignPhase(campaign('2025-01-15T12:00:00Z', '2025-02-01T00:00:00Z'), now)).toBe(
+        'open'
+      );
+    });
+
+    it('is closed from the closing date on', () => {
+      expect(getCampaignPhase(campaign('2025-01-01T00:00:00Z', '2025-01-15T12:00:00Z'), now)).toBe(
+        'closed'
+      );
+    });
+
+    it('is closed once an admin closed it early', () => {
+      expect(
+        getCampaignPhase(
+          campaign('2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z', '2025-01-10T00:00:00Z'),
+          now
+        )
+      ).toBe('closed');
+    });
+  });
+
+  describe('getCampaignSubmissionError', () => {
+    it('accepts ideas outside any campaign', () => {
+      expect(getCampaignSubmissionError(null, now)).toBeNull();
+      expect(getCampaignSubmissionError(undefined, now)).toBeNull();
+    });
+
+    it('accepts submissions into open campaigns', () => {
+      expect(
+        getCampaignSubmissionError(campaign('2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z'), now)
+      ).toBeNull();
+    });
+
+    it('refuses submissions before opening and after closing', () => {
+      expect(
+        getCampaignSubmissionError(campaign('2025-01-20T00:00:00Z', '2025-02-01T00:00:00Z'), now)
+      ).toBe('This campaign is not open for submissions yet');
+      expect(
+        getCampaignSubmissionError(campaign('2025-01-01T00:00:00Z', '2025-01-10T00:00:00Z'), now)
+      ).toBe('This campaign is closed for submissions');
+    });
+  });
+
+  describe('createCampaignSchema', () => {
+    it('fills in defaults', () => {
+      expect(
+        createCampaignSchema.parse({ title: 'Greener branches', closes_at: '2025-03-01T00:00:00Z' })
+      ).toEqual({
+        title: 'Greener branches',
+        brief: '',
+        closes_at: '2025-03-01T00:00:00Z',
+        notify_participants: true,
+      });
+    });
+
+    it('requires the closing date to follow the opening date', () => {
+      const result = createCampaignSchema.safeParse({
+        title: 'Greener branches',
+        opens_at: '2025-03-01T00:00:00Z',
+        closes_at: '2025-02-01T00:00:00Z',
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toBe('Closing date must be after the opening date');
+    });
+
+    it('rejects dates that are not ISO timestamps', () => {
+      expect(
+        createCampaignSchema.safeParse({ title: 'Greener branches', closes_at: 'next friday' })
+          .success
+      ).toBe(false);
+    });
+  });
+
+  describe('updateCampaignSchema', () => {
+    it('accepts partial updates', () => {
+      expect(updateCampaignSchema.parse({ rubric_id: null })).toEqual({ rubric_id: null });
+    });
+
+    it('rejects empty updates', () => {
+      expect(updateCampaignSchema.safeParse({}).success).toBe(false);
+    });
+  });
+});
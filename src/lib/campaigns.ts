@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { Campaign } from './supabase';
+
+/**
+ * Where a campaign is in its lifecycle
+ * - upcoming: not open for submissions yet
+ * - open: ideas can be submitted into it
+ * - closed: past its closing date, or closed early by an admin
+ */
+export const CAMPAIGN_PHASES = ['upcoming', 'open', 'closed'] as const;
+
+export type CampaignPhase = (typeof CAMPAIGN_PHASES)[number];
+
+/**
+ * The campaign fields that decide whether it accepts submissions
+ */
+export type CampaignWindow = Pick<Campaign, 'opens_at' | 'closes_at' | 'closed_at'>;
+
+const campaignFields = {
+  title: z
+    .string()
+    .trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(120, 'Title must be at most 120 characters'),
+  brief: z.string().max(5000, 'Brief is too long'),
+  opens_at: z.string().datetime({ offset: true, message: 'Opening date must be an ISO date' }),
+  closes_at: z.string().datetime({ offset: true, message: 'Closing date must be an ISO date' }),
+  rubric_id: z.string().uuid('Rubric ID must be a valid UUID').nullable(),
+  notify_participants: z.boolean(),
+};
+
+const closesAfterOpening = (data: { opens_at?: string; closes_at?: string }) =>
+  !data.opens_at || !data.closes_at || new Date(data.closes_at) > new Date(data.opens_at);
+
+// Schema for validating campaign creation
+export const createCampaignSchema = z
+  .object({
+    ...campaignFields,
+    brief: campaignFields.brief.optional().default(''),
+    opens_at: campaignFields.opens_at.optional(),
+    rubric_id: campaignFields.rubric_id.optional(),
+    notify_participants: campaignFields.notify_participants.optional().default(true),
+  })
+  .refine(closesAfterOpening, {
+    message: 'Closing date must be after the opening date',
+    path: ['closes_at'],
+  });
+
+// Schema for validating campaign updates
+export const updateCampaignSchema = z
+  .object(campaignFields)
+  .partial()
+  .refine(closesAfterOpening, {
+    message: 'Closing date must be after the opening date',
+    path: ['closes_at'],
+  })
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+// Schema for validating an early close
+export const closeCampaignSchema = z.object({
+  notify_participants: z.boolean().optional(),
+});
+
+/**
+ * Work out where a campaign is in its lifecycle
+ * @param campaign The campaign's dates
+ * @param now The moment to evaluate at
+ * @returns The campaign phase
+ */
+export function getCampaignPhase(campaign: CampaignWindow, now: Date = new Date()): CampaignPhase {
+  if (campaign.closed_at || new Date(campaign.closes_at) <= now) {
+    return 'closed';
+  }
+
+  return new Date(campaign.opens_at) > now ? 'upcoming' : 'open';
+}
+
+/**
+ * Explain why an idea cannot be submitted into a campaign right now
+ * Mirrors public.campaign_accepts_submissions in the database
+ * @param campaign The idea's campaign, or null for ideas outside any campaign
+ * @param now The moment to evaluate at
+ * @returns An error message, or null when submissions are accepted
+ */
+export function getCampaignSubmissionError(
+  campaign: CampaignWindow | null | undefined,
+  now: Date = new Date()
+): string | null {
+  if (!campaign) return null;
+
+  switch (getCampaignPhase(campaign, now)) {
+    case 'upcoming':
+      return 'This campaign is not open for submissions yet';
+    case 'closed':
+      return 'This campaign is closed for submissions';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ChatEvent,
+  CHAT_FORMATS,
+  describeChatEvent,
+  formatChatMessage,
+  formatMattermostMessage,
+  formatSlackMessage,
+  formatTeamsMessage,
+} from './chat-ops';
+
+const SITE_URL = 'https://ideas.example.com';
+
+const idea = {
+  id: 'idea-1',
+  title: 'Solar roofs on every depot',
+  status: 'approved',
+  owner_name: 'Ada Lovelace',
+};
+
+const approved: ChatEvent = {
+  event: 'idea.approved',
+  created_at: '2025-01-28T10:00:00.000Z',
+  workspace_id: 'ws-1',
+  data: {
+    idea,
+    previous_status: 'submitted',
+    decision_comment: 'Great **impact** on running costs.\nStart with the *north* depot.',
+  },
+};
+
+const rejected: ChatEvent = {
+  ...approved,
+  event: 'idea.rejected',
+  data: {
+    idea: { ...idea, status: 'rejected' },
+    previous_status: 'submitted',
+    decision_comment: 'Needs a budget estimate.',
+  },
+};
+
+const commented: ChatEvent = {
+  ...approved,
+  event: 'comment.created',
+  data: {
+    idea: { ...idea, status: 'submitted' },
+    comment: { body: 'Could we pilot this at `depot 7` first? <script>alert(1)</script>' },
+  },
+};
+
+const test: ChatEvent = {
+  event: 'webhook.test',
+  created_at: '2025-01-28T10:00:00.000Z',
+  workspace_id: 'ws-1',
+  data: { message: 'This is a test delivery from Ideazoop.' },
+};
+
+describe('chat-ops', () => {
+  describe('describeChatEvent', () => {
+    it('describes an approval with its decision comment', () => {
+      expect(describeChatEvent(approved, SITE_URL)).toEqual({
+        headline: '"Solar roofs on every depot" was approved',
+        title: 'Solar roofs on every depot',
+        url: 'https://ideas.example.com/ideas/idea-1',
+        status: 'approved',
+        statusLabel: 'Approved',
+        color: '#2EB67D',
+        owner: 'Ada Lovelace',
+        quote: 'Great impact on running costs. Start with the north depot.',
+        quoteLabel: 'Decision comment',
+      });
+    });
+
+    it('describes events without an idea', () => {
+      expect(describeChatEvent(test, SITE_URL)).toMatchObject({
+        headline: 'This is a test delivery from Ideazoop.',
+        title: null,
+        url: null,
+        quote: null,
+      });
+    });
+  });
+
+  describe('formatSlackMessage', () => {
+    it('formats an approval as Block Kit', () => {
+      expect(formatSlackMessage(approved, SITE_URL)).toMatchSnapshot();
+    });
+
+    it('formats a comment as Block Kit', () => {
+      expect(formatSlackMessage(commented, SITE_URL)).toMatchSnapshot();
+    });
+
+    it('escapes Slack control characters', () => {
+      const message = formatSlackMessage(
+        { ...approved, data: { ...approved.data, idea: { ...idea, title: 'A <b> & <!channel>' } } },
+        SITE_URL
+      );
+
+      expect(JSON.stringify(message)).not.toContain('<!channel>');
+      expect(JSON.stringify(message)).toContain('A &lt;b&gt; &amp; &lt;!channel&gt;');
+    });
+  });
+
+  describe('formatTeamsMessage', () => {
+    it('formats an approval as an Adaptive Card', () => {
+      expect(formatTeamsMessage(approved, SITE_URL)).toMatchSnapshot();
+    });
+
+    it('formats a rejection as an Adaptive Card', () => {
+      expect(formatTeamsMessage(rejected, SITE_URL)).toMatchSnapshot();
+    });
+  });
+
+  describe('formatMattermostMessage', () => {
+    it('formats an approval as an attachment', () => {
+      expect(formatMattermostMessage(approved, SITE_URL)).toMatchSnapshot();
+    });
+
+    it('formats a comment as an attachment', () => {
+      expect(formatMattermostMessage(commented, SITE_URL)).toMatchSnapshot();
+    });
+  });
+
+  describe('formatChatMessage', () => {
+    it.each(CHAT_FORMATS)('formats test deliveries for %s', format => {
+      expect(formatChatMessage(format, test, SITE_URL)).toMatchSnapshot();
+    });
+  });
+});
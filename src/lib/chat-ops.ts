@@ -0,0 +1,325 @@
+import { markdownExcerpt, markdownToPlainText } from './markdown';
+import { IdeaStatus } from './supabase';
+import { getStatusLabel } from './utils';
+
+/**
+ * Chat services webhooks can post formatted messages to, through their incoming webhooks
+ * - slack: Block Kit
+ * - teams: an Adaptive Card (Workflows or Office 365 connector incoming webhooks)
+ * - mattermost: a message attachment
+ */
+export const CHAT_FORMATS = ['slack', 'teams', 'mattermost'] as const;
+
+export type ChatFormat = (typeof CHAT_FORMATS)[number];
+
+// How long quoted comments in chat messages can be
+export const CHAT_EXCERPT_LENGTH = 300;
+
+/**
+ * A webhook event as the database queues it, see public.enqueue_webhook_event
+ */
+export interface ChatEvent {
+  event: string;
+  created_at: string;
+  workspace_id: string;
+  data: {
+    idea?: {
+      id: string;
+      title: string;
+      status: string;
+      owner_name?: string | null;
+    } | null;
+    previous_status?: string | null;
+    decision_comment?: string | null;
+    comment?: { body: string } | null;
+    message?: string;
+  };
+}
+
+// Status badge colours, by how the status reads to the idea's owner
+const STATUS_COLORS: Record<string, string> = {
+  approved: '#2EB67D',
+  shipped: '#2EB67D',
+  in_progress: '#1D9BD1',
+  submitted: '#ECB22E',
+  rejected: '#E01E5A',
+  draft: '#868686',
+  archived: '#868686',
+};
+
+const STATUS_EMOJI: Record<string, string> = {
+  approved: ':white_check_mark:',
+  shipped: ':rocket:',
+  in_progress: ':hammer_and_wrench:',
+  submitted: ':hourglass_flowing_sand:',
+  rejected: ':leftwards_arrow_with_hook:',
+  draft: ':memo:',
+  archived: ':file_folder:',
+};
+
+/**
+ * What a chat message says about an event, whatever the format
+ */
+export interface ChatMessage {
+  // One line on what happened, also the notification text
+  headline: string;
+  title: string | null;
+  url: string | null;
+  status: string | null;
+  statusLabel: string | null;
+  color: string;
+  owner: string | null;
+  // The decision or comment quoted, as plain text
+  quote: string | null;
+  quoteLabel: string | null;
+}
+
+/**
+ * Describe an event for a chat message
+ * @param payload The webhook event
+ * @param siteUrl Where idea links point
+ */
+export function describeChatEvent(payload: ChatEvent, siteUrl: string): ChatMessage {
+  const idea = payload.data.idea ?? null;
+  const title = idea?.title ?? null;
+  const status = idea?.status ?? null;
+  const name = title ? `"${title}"` : 'An idea';
+
+  const headlines: Record<string, string> = {
+    'idea.created': `New idea: ${name}`,
+    'idea.submitted': `${name} was submitted for review`,
+    'idea.approved': `${name} was approved`,
+    'idea.rejected': `${name} needs revision`,
+    'comment.created': `New comment on ${title ? name : 'an idea'}`,
+  };
+
+  const decision = payload.data.decision_comment;
+  const comment = payload.data.comment?.body;
+
+  return {
+    headline:
+      headlines[payload.event] ?? payload.data.message ?? `Ideazoop event: ${payload.event}`,
+    title,
+    url: idea ? `${siteUrl}/ideas/${encodeURIComponent(idea.id)}` : null,
+    status,
+    statusLabel: status ? getStatusLabel(status as IdeaStatus) : null,
+    color: (status && STATUS_COLORS[status]) || '#868686',
+    owner: idea?.owner_name || null,
+    quote: decision
+      ? markdownToPlainText(decision)
+      : comment
+        ? markdownExcerpt(comment, CHAT_EXCERPT_LENGTH)
+        : null,
+    quoteLabel: decision ? 'Decision comment' : comment ? 'Comment' : null,
+  };
+}
+
+// Slack mrkdwn treats these as control characters
+const escapeSlack = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Mattermost renders markdown, so characters that start formatting are escaped
+// Teams text blocks only know a little markdown, without escapes, so text is left as it is there
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_~[\]<>|#])/g, '\\$1');
+
+/**
+ * Format an event as a Slack Block Kit message
+ * @param payload The webhook event
+ * @param siteUrl Where idea links point
+ */
+export function formatSlackMessage(payload: ChatEvent, siteUrl: string) {
+  const message = describeChatEvent(payload, siteUrl);
+  const facts = [
+    message.statusLabel &&
+      `${STATUS_EMOJI[message.status ?? ''] ?? ''} *${escapeSlack(message.statusLabel)}*`.trim(),
+    message.owner && `Owner: ${escapeSlack(message.owner)}`,
+  ].filter(Boolean);
+
+  return {
+    text: escapeSlack(message.headline),
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: escapeSlack(message.headline) },
+      },
+      ...(message.title
+        ? [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: message.url
+                  ? `*<${message.url}|${escapeSlack(message.title)}>*`
+                  : `*${escapeSlack(message.title)}*`,
+              },
+            },
+          ]
+        : []),
+      ...(facts.length
+        ? [{ type: 'context', elements: facts.map(text => ({ type: 'mrkdwn', text })) }]
+        : []),
+      ...(message.quote
+        ? [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `*${message.quoteLabel}*\n${escapeSlack(message.quote)
+                  .split('\n')
+                  .map(line => `> ${line}`)
+                  .join('\n')}`,
+              },
+            },
+          ]
+        : []),
+      ...(message.url
+        ? [
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: { type: 'plain_text', text: 'View idea' },
+                  url: message.url,
+                },
+              ],
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Format an event as a Microsoft Teams message with an Adaptive Card
+ * @param payload The webhook event
+ * @param siteUrl Where idea links point
+ */
+export function formatTeamsMessage(payload: ChatEvent, siteUrl: string) {
+  const message = describeChatEvent(payload, siteUrl);
+  const facts = [
+    message.statusLabel && { title: 'Status', value: message.statusLabel },
+    message.owner && { title: 'Owner', value: message.owner },
+  ].filter(Boolean);
+
+  // Adaptive Cards only know a few named colours
+  const statusStyle =
+    message.status === 'approved' || message.status === 'shipped'
+      ? 'good'
+      : message.status === 'rejected'
+        ? 'attention'
+        : message.status === 'submitted'
+          ? 'warning'
+          : 'default';
+
+  return {
+    type: 'message',
+    summary: message.headline,
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            {
+              type: 'TextBlock',
+              text: message.headline,
+              wrap: true,
+              isSubtle: true,
+            },
+            ...(message.title
+              ? [
+                  {
+                    type: 'TextBlock',
+                    text: message.title,
+                    size: 'Large',
+                    weight: 'Bolder',
+                    wrap: true,
+                  },
+                ]
+              : []),
+            ...(message.statusLabel
+              ? [
+                  {
+                    type: 'TextBlock',
+                    text: message.statusLabel.toUpperCase(),
+                    color: statusStyle,
+                    weight: 'Bolder',
+                    size: 'Small',
+                  },
+                ]
+              : []),
+            ...(facts.length ? [{ type: 'FactSet', facts }] : []),
+            ...(message.quote
+              ? [
+                  {
+                    type: 'TextBlock',
+                    text: message.quoteLabel,
+                    weight: 'Bolder',
+                    spacing: 'Medium',
+                  },
+                  { type: 'TextBlock', text: message.quote, wrap: true },
+                ]
+              : []),
+          ],
+          actions: message.url
+            ? [{ type: 'Action.OpenUrl', title: 'View idea', url: message.url }]
+            : [],
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Format an event as a Mattermost message attachment
+ * @param payload The webhook event
+ * @param siteUrl Where idea links point
+ */
+export function formatMattermostMessage(payload: ChatEvent, siteUrl: string) {
+  const message = describeChatEvent(payload, siteUrl);
+  const fields = [
+    message.statusLabel && { short: true, title: 'Status', value: message.statusLabel },
+    message.owner && { short: true, title: 'Owner', value: escapeMarkdown(message.owner) },
+  ].filter(Boolean);
+
+  return {
+    username: 'Ideazoop',
+    attachments: [
+      {
+        fallback: message.headline,
+        color: message.color,
+        pretext: escapeMarkdown(message.headline),
+        ...(message.title && { title: message.title }),
+        ...(message.url && { title_link: message.url }),
+        ...(message.quote && {
+          text: `**${message.quoteLabel}**\n${escapeMarkdown(message.quote)
+            .split('\n')
+            .map(line => `> ${line}`)
+            .join('\n')}`,
+        }),
+        fields,
+      },
+    ],
+  };
+}
+
+/**
+ * Format an event for a chat service
+ * @param format The chat service
+ * @param payload The webhook event
+ * @param siteUrl Where idea links point
+ */
+export function formatChatMessage(format: ChatFormat, payload: ChatEvent, siteUrl: string) {
+  switch (format) {
+    case 'slack':
+      return formatSlackMessage(payload, siteUrl);
+    case 'teams':
+      return formatTeamsMessage(payload, siteUrl);
+    case 'mattermost':
+      return formatMattermostMessage(payload, siteUrl);
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMMENT_REMOVED_PLACEHOLDER,
+  DEFAULT_COMMENT_EDIT_WINDOW_MINUTES,
+  DEFAULT_COMMENT_MAX_DEPTH,
+  checkCommentChange,
+  getVisibleComments,
+  getCommentEditWindow,
+  getCommentMaxDepth,
+  getReplyDepthError,
+  presentComment,
+  threadComments,
+} from './comments';
+
+const comment = (id: string, parent_id: string | null, minute: number) => ({
+  id,
+  parent_id,
+  created_at: `2025-01-19T10:${String(minute).padStart(2, '0')}:00Z`,
+});
+
+describe('comments', () => {
+  describe('getCommentMaxDepth', () => {
+    it('reads the configured depth', () => {
+      expect(getCommentMaxDepth('5')).toBe(5);
+      expect(getCommentMaxDepth('0')).toBe(0);
+    });
+
+    it('falls back to the default when unset or invalid', () => {
+      expect(getCommentMaxDepth(undefined)).toBe(DEFAULT_COMMENT_MAX_DEPTH);
+      expect(getCommentMaxDepth('')).toBe(DEFAULT_COMMENT_MAX_DEPTH);
+      expect(getCommentMaxDepth('deep')).toBe(DEFAULT_COMMENT_MAX_DEPTH);
+      expect(getCommentMaxDepth('-1')).toBe(DEFAULT_COMMENT_MAX_DEPTH);
+      expect(getCommentMaxDepth('2.5')).toBe(DEFAULT_COMMENT_MAX_DEPTH);
+    });
+  });
+
+  describe('getReplyDepthError', () => {
+    it('allows replies up to the maximum depth', () => {
+      expect(getReplyDepthError(0, 3)).toBeNull();
+      expect(getReplyDepthError(2, 3)).toBeNull();
+    });
+
+    it('refuses replies beyond the maximum depth', () => {
+      expect(getReplyDepthError(3, 3)).toBe('Replies can be nested at most 3 levels deep');
+      expect(getReplyDepthError(1, 1)).toBe('Replies can be nested at most 1 level deep');
+    });
+
+    it('refuses all replies when the maximum depth is 0', () => {
+      expect(getReplyDepthError(0, 0)).toBe('Replies are turned off');
+    });
+  });
+
+  describe('threadComments', () => {
+    it('places replies under their parent, oldest first', () => {
+      const threaded = threadComments([
+        comment('b', null, 5),
+        comment('a-2', 'a', 4),
+        comment('a', null, 1),
+        comment('a-1', 'a', 2),
+        comment('a-1-1', 'a-1', 3),
+      ]);
+
+      expect(threaded.map(c => [c.id, c.depth, c.reply_count])).toEqual([
+        ['a', 0, 2],
+        ['a-1', 1, 1],
+        ['a-1-1', 2, 0],
+        ['a-2', 1, 0],
+        ['b', 0, 0],
+      ]);
+    });
+
+    it('treats replies to missing comments as top-level', () => {
+      const threaded = threadComments([comment('orphan', 'gone', 1), comment('a', null, 2)]);
+      expect(threaded.map(c => [c.id, c.depth])).toEqual([
+        ['orphan', 0],
+        ['a', 0],
+      ]);
+    });
+
+    it('keeps the other comment fields', () => {
+      const [threaded] = threadComments([{ ...comment('a', null, 1), body: 'Nice idea' }]);
+      expect(threaded.body).toBe('Nice idea');
+    });
+  });
+
+  describe('getCommentEditWindow', () => {
+    it('reads the configured window', () => {
+      expect(getCommentEditWindow('60')).toBe(60);
+    });
+
+    it('falls back to the default when unset or invalid', () => {
+      expect(getCommentEditWindow(undefined)).toBe(DEFAULT_COMMENT_EDIT_WINDOW_MINUTES);
+      expect(getCommentEditWindow('soon')).toBe(DEFAULT_COMMENT_EDIT_WINDOW_MINUTES);
+    });
+  });
+
+  describe('checkCommentChange', () => {
+    const now = new Date('2025-01-20T10:30:00Z');
+    const posted = (minutesAgo: number) => ({
+      author_id: 'author',
+      kind: 'comment',
+      created_at: new Date(now.getTime() - minutesAgo * 60 * 1000).toISOString(),
+      deleted_at: null,
+    });
+
+    it('lets authors edit and remove their comments within the window', () => {
+      expect(checkCommentChange('edit', posted(5), 'author', false, 15, now).allowed).toBe(true);
+      expect(checkCommentChange('delete', posted(15), 'author', false, 15, now).allowed).toBe(true);
+    });
+
+    it('refuses authors once the window has passed', () => {
+      expect(checkCommentChange('edit', posted(16), 'author', false, 15, now)).toEqual({
+        allowed: false,
+        status: 403,
+        error: 'Forbidden',
+        message: 'Comments can only be edited within 15 minutes of posting',
+      });
+    });
+
+    it('lets admins edit their own comments at any time', () => {
+      expect(checkCommentChange('edit', posted(600), 'author', true, 15, now).allowed).toBe(true);
+    });
+
+    it("lets admins remove, but not edit, other people's comments", () => {
+      expect(checkCommentChange('delete', posted(600), 'admin', true, 15, now).allowed).toBe(true);
+      expect(checkCommentChange('edit', posted(1), 'admin', true, 15, now)).toMatchObject({
+        allowed: false,
+        status: 403,
+        message: 'Only the author can edit this comment',
+      });
+    });
+
+    it('refuses other members', () => {
+      expect(checkCommentChange('delete', posted(1), 'member', false, 15, now)).toMatchObject({
+        allowed: false,
+        status: 403,
+        message: 'Only the author and administrators can remove this comment',
+      });
+    });
+
+    it('keeps decision comments immutable, even for admins', () => {
+      const decision = { ...posted(1), kind: 'decision' };
+      expect(checkCommentChange('edit', decision, 'author', true, 15, now)).toMatchObject({
+        allowed: false,
+        message: 'Decision comments cannot be edited',
+      });
+      expect(checkCommentChange('delete', decision, 'admin', true, 15, now)).toMatchObject({
+        allowed: false,
+        message: 'Decision comments cannot be removed',
+      });
+    });
+
+    it('refuses changes to removed comments', () => {
+      const removed = { ...posted(1), deleted_at: now.toISOString() };
+      expect(checkCommentChange('edit', removed, 'author', false, 15, now)).toMatchObject({
+        allowed: false,
+        status: 409,
+      });
+    });
+  });
+
+  describe('presentComment', () => {
+    it('shows a placeholder for removed comments', () => {
+      expect(presentComment({ body: '', deleted_at: '2025-01-20T10:00:00Z' }).body).toBe(
+        COMMENT_REMOVED_PLACEHOLDER
+      );
+      expect(presentComment({ body: 'Nice idea', deleted_at: null }).body).toBe('Nice idea');
+    });
+
+    it('renders the body as sanitized HTML', () => {
+      expect(presentComment({ body: '**Nice** <b>idea</b>', deleted_at: null }).body_html).toBe(
+        '<p><strong>Nice</strong> &lt;b&gt;idea&lt;/b&gt;</p>'
+      );
+      expect(
+        presentComment({ body: 'secret', deleted_at: '2025-01-20T10:00:00Z' }).body_html
+      ).not.toContain('secret');
+    });
+  });
+
+  describe('getVisibleComments', () => {
+    const comments = [
+      { id: 'a', internal: false },
+      { id: 'b', internal: true },
+      { id: 'c', internal: false },
+    ];
+
+    it('shows internal notes to admins', () => {
+      expect(getVisibleComments(comments, true).map(c => c.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('hides internal notes from everyone else', () => {
+      expect(getVisibleComments(comments, false).map(c => c.id)).toEqual(['a', 'c']);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { renderMarkdown } from './markdown';
+
+/**
+ * How deep replies can nest when COMMENT_MAX_DEPTH is not set
+ * Top-level comments are at depth 0, so the default allows replies to replies to replies
+ */
+export const DEFAULT_COMMENT_MAX_DEPTH = 3;
+
+/**
+ * A comment as needed to place it in its thread
+ */
+export interface ThreadComment {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+/**
+ * A comment in thread order, with how deep it sits and how many direct replies it has
+ */
+export type ThreadedComment<T extends ThreadComment> = T & {
+  depth: number;
+  reply_count: number;
+};
+
+/**
+ * Read the maximum reply depth from the environment
+ * @param value The configured value, usually process.env.COMMENT_MAX_DEPTH
+ * @returns The configured depth, or DEFAULT_COMMENT_MAX_DEPTH when unset or invalid
+ */
+export function getCommentMaxDepth(value: string | undefined = process.env.COMMENT_MAX_DEPTH) {
+  const depth = Number(value);
+  return value?.trim() && Number.isInteger(depth) && depth >= 0 ? depth : DEFAULT_COMMENT_MAX_DEPTH;
+}
+
+/**
+ * Check whether a comment can be replied to
+ * @param parentDepth The depth of the comment replied to
+ * @param maxDepth The deepest a reply may sit
+ * @returns An error message, or null when the reply is allowed
+ */
+export function getReplyDepthError(parentDepth: number, maxDepth: number): string | null {
+  if (maxDepth === 0) {
+    return 'Replies are turned off';
+  }
+
+  return parentDepth + 1 > maxDepth
+    ? `Replies can be nested at most ${maxDepth} ${maxDepth === 1 ? 'level' : 'levels'} deep`
+    : null;
+}
+
+/**
+ * Order comments into threads, flattened with their depth
+ * Each top-level comment is followed by its replies, depth first, all oldest first;
+ * replies whose parent is not in the list are treated as top-level comments
+ * @param comments An idea's comments, in any order
+ * @returns The comments in thread order
+ */
+export function threadComments<T extends ThreadComment>(comments: T[]): ThreadedComment<T>[] {
+  const byCreation = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const ids = new Set(comments.map(comment => comment.id));
+  const replies = new Map<string, T[]>();
+
+  for (const comment of byCreation) {
+    if (comment.parent_id && ids.has(comment.parent_id)) {
+      replies.set(comment.parent_id, [...(replies.get(comment.parent_id) ?? []), comment]);
+    }
+  }
+
+  const threaded: ThreadedComment<T>[] = [];
+  const visit = (comment: T, depth: number) => {
+    const children = replies.get(comment.id) ?? [];
+    threaded.push({ ...comment, depth, reply_count: children.length });
+    children.forEach(child => visit(child, depth + 1));
+  };
+
+  byCreation
+    .filter(comment => !comment.parent_id || !ids.has(comment.parent_id))
+    .forEach(comment => visit(comment, 0));
+
+  return threaded;
+}
+
+/**
+ * How long authors can edit or remove their comments when COMMENT_EDIT_WINDOW_MINUTES is not set
+ * The on_comment_change trigger falls back to the same value without app.comment_edit_window_minutes
+ */
+export const DEFAULT_COMMENT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * The body shown in place of a removed comment
+ */
+export const COMMENT_REMOVED_PLACEHOLDER = 'Comment removed';
+
+/**
+ * Kinds of comments
+ * - comment: posted by a member or admin; can be edited and removed
+ * - decision: posted with a review vote; immutable
+ */
+export const COMMENT_KINDS = ['comment', 'decision'] as const;
+export type CommentKind = (typeof COMMENT_KINDS)[number];
+
+export type CommentChange = 'edit' | 'delete';
+
+/**
+ * A comment as needed to decide whether it can be changed
+ */
+export interface ChangeableComment {
+  author_id: string;
+  kind: CommentKind | string;
+  created_at: string;
+  deleted_at: string | null;
+}
+
+/**
+ * The result of checking a comment edit or removal
+ */
+export type CommentChangeCheck =
+  | { allowed: true }
+  | { allowed: false; status: number; error: string; message: string };
+
+/**
+ * Read the authors' edit window from the environment
+ * @param value The configured value, usually process.env.COMMENT_EDIT_WINDOW_MINUTES
+ * @returns The window in minutes, or DEFAULT_COMMENT_EDIT_WINDOW_MINUTES when unset or invalid
+ */
+export function getCommentEditWindow(
+  value: string | undefined = process.env.COMMENT_EDIT_WINDOW_MINUTES
+): number {
+  const minutes = Number(value);
+  return value?.trim() && Number.isInteger(minutes) && minutes >= 0
+    ? minutes
+    : DEFAULT_COMMENT_EDIT_WINDOW_MINUTES;
+}
+
+/**
+ * Check whether a user may edit or remove a comment
+ * Authors can within the edit window; admins can edit their own comments and remove any comment
+ * at any time. Decision comments and removed comments cannot be changed.
+ * @param change Whether the comment is edited or removed
+ * @param comment The comment
+ * @param userId The user making the change
+ * @param isAdmin Whether the user administers the comment's workspace
+ * @param windowMinutes How long after posting authors can change their comments
+ * @param now The moment to evaluate at
+ */
+export function checkCommentChange(
+  change: CommentChange,
+  comment: ChangeableComment,
+  userId: string,
+  isAdmin: boolean,
+  windowMinutes: number = getCommentEditWindow(),
+  now: Date = new Date()
+): CommentChangeCheck {
+  const verb = change === 'edit' ? 'edited' : 'removed';
+
+  if (comment.deleted_at) {
+    return {
+      allowed: false,
+      status: 409,
+      error: 'Conflict',
+      message: 'This comment has been removed',
+    };
+  }
+
+  if (comment.kind === 'decision') {
+    return {
+      allowed: false,
+      status: 403,
+      error: 'Forbidden',
+      message: `Decision comments cannot be ${verb}`,
+    };
+  }
+
+  if (comment.author_id !== userId) {
+    return isAdmin && change === 'delete'
+      ? { allowed: true }
+      : {
+          allowed: false,
+          status: 403,
+          error: 'Forbidden',
+          message:
+            change === 'edit'
+              ? 'Only the author can edit this comment'
+              : 'Only the author and administrators can remove this comment',
+        };
+  }
+
+  const age = now.getTime() - new Date(comment.created_at).getTime();
+  if (!isAdmin && age > windowMinutes * 60 * 1000) {
+    return {
+      allowed: false,
+      status: 403,
+      error: 'Forbidden',
+      message: `Comments can only be ${verb} within ${windowMinutes} minutes of posting`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Prepare a comment for display, showing a placeholder for removed comments
+ * body_html is the body rendered from markdown and sanitized
+ */
+export function presentComment<T extends { body: string; deleted_at: string | null }>(
+  comment: T
+): T & { body_html: string } {
+  const body = comment.deleted_at ? COMMENT_REMOVED_PLACEHOLDER : comment.body;
+  return { ...comment, body, body_html: renderMarkdown(body) };
+}
+
+/**
+ * Keep the comments a user can read
+ * Internal notes are only shown to workspace admins; mirrors the comments read policy in the database
+ * @param comments An idea's comments
+ * @param isAdmin Whether the user administers the idea's workspace
+ */
+export function getVisibleComments<T extends { internal: boolean }>(
+  comments: T[],
+  isAdmin: boolean
+): T[] {
+  return isAdmin ? comments : comments.filter(comment => !comment.internal);
+}
@@ -9,27 +9,226 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      campaigns: {
+        Row: {
+          brief: string
+          closed_at: string | null
+          closes_at: string
+          created_at: string
+          created_by: string | null
+          id: string
+          notify_participants: boolean
+          opens_at: string
+          rubric_id: string | null
+          title: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          brief?: string
+          closed_at?: string | null
+          closes_at: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notify_participants?: boolean
+          opens_at?: string
+          rubric_id?: string | null
+          title: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          brief?: string
+          closed_at?: string | null
+          closes_at?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notify_participants?: boolean
+          opens_at?: string
+          rubric_id?: string | null
+          title?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaigns_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaigns_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaigns_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_mentions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_mentions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_reactions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          reaction: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          reaction: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          reaction?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_revisions: {
+        Row: {
+          body: string
+          comment_id: string
+          created_at: string
+          id: string
+          replaced_by: string | null
+        }
+        Insert: {
+          body: string
+          comment_id: string
+          created_at?: string
+          id?: string
+          replaced_by?: string | null
+        }
+        Update: {
+          body?: string
+          comment_id?: string
+          created_at?: string
+          id?: string
+          replaced_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_revisions_replaced_by_fkey"
+            columns: ["replaced_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           author_id: string
           body: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          depth: number
+          edited_at: string | null
           id: string
           idea_id: string
+          internal: boolean
+          kind: string
+          parent_id: string | null
+          workspace_id: string
         }
         Insert: {
           author_id: string
           body: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          depth?: number
+          edited_at?: string | null
           id?: string
           idea_id: string
+          internal?: boolean
+          kind?: string
+          parent_id?: string | null
+          workspace_id?: string
         }
         Update: {
           author_id?: string
           body?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          depth?: number
+          edited_at?: string | null
           id?: string
           idea_id?: string
+          internal?: boolean
+          kind?: string
+          parent_id?: string | null
+          workspace_id?: string
         }
         Relationships: [
           {
@@ -39,6 +238,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_idea_id_fkey"
             columns: ["idea_id"]
@@ -46,43 +252,632 @@ export type Database = {
             referencedRelation: "ideas"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          idea_id: string
+          locked_at: string | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+          workspace_id: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          idea_id: string
+          locked_at?: string | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+          workspace_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          idea_id?: string
+          locked_at?: string | null
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_attachments_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_attachments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_fields: {
+        Row: {
+          active: boolean
+          campaign_id: string | null
+          created_at: string
+          created_by: string | null
+          help_text: string | null
+          id: string
+          key: string
+          label: string
+          options: string[]
+          position: number
+          required: boolean
+          type: Database["public"]["Enums"]["idea_field_type"]
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          campaign_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          help_text?: string | null
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          required?: boolean
+          type: Database["public"]["Enums"]["idea_field_type"]
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          campaign_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          help_text?: string | null
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          required?: boolean
+          type?: Database["public"]["Enums"]["idea_field_type"]
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_fields_campaign_id_workspace_id_fkey"
+            columns: ["campaign_id", "workspace_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id", "workspace_id"]
+          },
+          {
+            foreignKeyName: "idea_fields_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_fields_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          idea_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          idea_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          idea_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_members_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_reactions: {
+        Row: {
+          created_at: string
+          idea_id: string
+          reaction: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          idea_id: string
+          reaction: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          created_at?: string
+          idea_id?: string
+          reaction?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_reactions_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_reactions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_reviews: {
+        Row: {
+          created_at: string
+          decision: string
+          id: string
+          idea_id: string
+          reviewer_id: string
+          round: number
+          rubric_id: string | null
+          scores: Json
+          weighted_score: number | null
+        }
+        Insert: {
+          created_at?: string
+          decision: string
+          id?: string
+          idea_id: string
+          reviewer_id: string
+          round?: number
+          rubric_id?: string | null
+          scores?: Json
+          weighted_score?: number | null
+        }
+        Update: {
+          created_at?: string
+          decision?: string
+          id?: string
+          idea_id?: string
+          reviewer_id?: string
+          round?: number
+          rubric_id?: string | null
+          scores?: Json
+          weighted_score?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_reviews_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_reviews_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_revisions: {
+        Row: {
+          author_id: string | null
+          created_at: string
+          custom_fields: Json
+          description: string
+          event: string
+          id: string
+          idea_id: string
+          revision: number
+          status: Database["public"]["Enums"]["idea_status"]
+          tags: string[] | null
+          title: string
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string
+          custom_fields?: Json
+          description: string
+          event: string
+          id?: string
+          idea_id: string
+          revision: number
+          status: Database["public"]["Enums"]["idea_status"]
+          tags?: string[] | null
+          title: string
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string
+          custom_fields?: Json
+          description?: string
+          event?: string
+          id?: string
+          idea_id?: string
+          revision?: number
+          status?: Database["public"]["Enums"]["idea_status"]
+          tags?: string[] | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_revisions_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_template_versions: {
+        Row: {
+          author_id: string | null
+          created_at: string
+          name: string
+          sections: Json
+          template_id: string
+          version: number
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string
+          name: string
+          sections: Json
+          template_id: string
+          version: number
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string
+          name?: string
+          sections?: Json
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_template_versions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "idea_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idea_templates: {
+        Row: {
+          active: boolean
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          key: string
+          name: string
+          sections: Json
+          updated_at: string
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          key: string
+          name: string
+          sections: Json
+          updated_at?: string
+          version?: number
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          key?: string
+          name?: string
+          sections?: Json
+          updated_at?: string
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idea_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idea_templates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ideas: {
         Row: {
+          assigned_at: string | null
+          assigned_reviewer_id: string | null
+          campaign_id: string | null
           created_at: string
+          custom_fields: Json
+          decided_at: string | null
           description: string
+          escalated_at: string | null
           id: string
           owner_id: string
+          review_round: number
+          review_score: number | null
+          review_started_at: string | null
+          sections: Json
           status: Database["public"]["Enums"]["idea_status"]
+          status_reason: string | null
+          submitted_at: string | null
           tags: string[] | null
+          template: Json | null
           title: string
           updated_at: string
+          workspace_id: string
         }
         Insert: {
+          assigned_at?: string | null
+          assigned_reviewer_id?: string | null
+          campaign_id?: string | null
           created_at?: string
+          custom_fields?: Json
+          decided_at?: string | null
           description: string
+          escalated_at?: string | null
           id?: string
           owner_id: string
+          review_round?: number
+          review_score?: number | null
+          review_started_at?: string | null
+          sections?: Json
           status?: Database["public"]["Enums"]["idea_status"]
+          status_reason?: string | null
+          submitted_at?: string | null
           tags?: string[] | null
+          template?: Json | null
           title: string
           updated_at?: string
+          workspace_id: string
         }
         Update: {
+          assigned_at?: string | null
+          assigned_reviewer_id?: string | null
+          campaign_id?: string | null
           created_at?: string
+          custom_fields?: Json
+          decided_at?: string | null
           description?: string
+          escalated_at?: string | null
           id?: string
           owner_id?: string
+          review_round?: number
+          review_score?: number | null
+          review_started_at?: string | null
+          sections?: Json
           status?: Database["public"]["Enums"]["idea_status"]
+          status_reason?: string | null
+          submitted_at?: string | null
           tags?: string[] | null
+          template?: Json | null
           title?: string
           updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ideas_assigned_reviewer_id_fkey"
+            columns: ["assigned_reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ideas_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ideas_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ideas_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_mutes: {
+        Row: {
+          created_at: string
+          idea_id: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          idea_id: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          created_at?: string
+          idea_id?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_mutes_idea_id_fkey"
+            columns: ["idea_id"]
+            isOneToOne: false
+            referencedRelation: "ideas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_mutes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_mutes_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "ideas_owner_id_fkey"
-            columns: ["owner_id"]
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
@@ -91,31 +886,49 @@ export type Database = {
       }
       notifications: {
         Row: {
+          channel: string
           created_at: string
+          delivered_at: string | null
+          delivery_attempts: number
+          delivery_error: string | null
+          delivery_status: string | null
           id: string
           idea_id: string
           meta: Json | null
           read: boolean
           type: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          channel?: string
           created_at?: string
+          delivered_at?: string | null
+          delivery_attempts?: number
+          delivery_error?: string | null
+          delivery_status?: string | null
           id?: string
           idea_id: string
           meta?: Json | null
           read?: boolean
           type: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
+          channel?: string
           created_at?: string
+          delivered_at?: string | null
+          delivery_attempts?: number
+          delivery_error?: string | null
+          delivery_status?: string | null
           id?: string
           idea_id?: string
           meta?: Json | null
           read?: boolean
           type?: string
           user_id?: string
+          workspace_id?: string
         }
         Relationships: [
           {
@@ -132,6 +945,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       openai_logs: {
@@ -193,26 +1013,566 @@ export type Database = {
         }
         Relationships: []
       }
+      review_panel_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          reviewer_id: string
+          workspace_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          reviewer_id: string
+          workspace_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          reviewer_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_panel_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_panel_members_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_panel_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_policy: {
+        Row: {
+          approvals_required: number
+          assignment_strategy: string
+          last_assigned_reviewer_id: string | null
+          rejection_rule: string
+          sla_hours: number
+          updated_at: string
+          updated_by: string | null
+          workspace_id: string
+        }
+        Insert: {
+          approvals_required?: number
+          assignment_strategy?: string
+          last_assigned_reviewer_id?: string | null
+          rejection_rule?: string
+          sla_hours?: number
+          updated_at?: string
+          updated_by?: string | null
+          workspace_id: string
+        }
+        Update: {
+          approvals_required?: number
+          assignment_strategy?: string
+          last_assigned_reviewer_id?: string | null
+          rejection_rule?: string
+          sla_hours?: number
+          updated_at?: string
+          updated_by?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_policy_last_assigned_reviewer_id_fkey"
+            columns: ["last_assigned_reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_policy_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_policy_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubric_criteria: {
+        Row: {
+          description: string | null
+          id: string
+          key: string
+          label: string
+          position: number
+          rubric_id: string
+          weight: number
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          key: string
+          label: string
+          position?: number
+          rubric_id: string
+          weight: number
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          key?: string
+          label?: string
+          position?: number
+          rubric_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubric_criteria_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubrics: {
+        Row: {
+          active: boolean
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubrics_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rubrics_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          event: string
+          id: string
+          next_attempt_at: string | null
+          payload: Json
+          replay_of: string | null
+          response_body: string | null
+          response_status: number | null
+          status: string
+          webhook_id: string
+          workspace_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event: string
+          id?: string
+          next_attempt_at?: string | null
+          payload: Json
+          replay_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          webhook_id: string
+          workspace_id?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event?: string
+          id?: string
+          next_attempt_at?: string | null
+          payload?: Json
+          replay_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          webhook_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          active: boolean
+          campaign_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string
+          events: string[]
+          format: string
+          id: string
+          secret: string
+          updated_at: string
+          url: string
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          campaign_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          events: string[]
+          format?: string
+          id?: string
+          secret: string
+          updated_at?: string
+          url: string
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          campaign_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          events?: string[]
+          format?: string
+          id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhooks_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhooks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhooks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assign_idea_reviewer: {
+        Args: { idea_id: string; reviewer_id?: string; strategy?: string }
+        Returns: string
+      }
+      average_review_hours: {
+        Args: { workspace_id: string }
+        Returns: number
+      }
+      campaign_accepts_submissions: {
+        Args: { campaign_id: string }
+        Returns: boolean
+      }
+      can_change_idea_attachments: {
+        Args: { idea_id: string }
+        Returns: boolean
+      }
+      can_read_idea_attachments: {
+        Args: { idea_id: string }
+        Returns: boolean
+      }
+      close_due_campaigns: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       create_admin_user: {
         Args: { email: string; password: string }
         Returns: string
       }
-      get_admin_dashboard_counts: {
+      escalate_overdue_reviews: {
         Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      find_comment_mentions: {
+        Args: { body: string; idea_id: string }
+        Returns: string[]
+      }
+      find_user_by_email: {
+        Args: { email: string }
+        Returns: string
+      }
+      get_admin_dashboard_counts: {
+        Args: { workspace_id: string }
         Returns: Json
       }
       get_dashboard_counts: {
-        Args: { user_id: string }
+        Args: { user_id: string; workspace_id: string }
         Returns: Json
       }
+      get_notification_recipients: {
+        Args: { user_ids: string[] }
+        Returns: {
+          email: string
+          full_name: string
+          id: string
+        }[]
+      }
+      get_review_panel: {
+        Args: { workspace_id: string }
+        Returns: {
+          avatar_url: string
+          full_name: string
+          id: string
+        }[]
+      }
+      idea_member_role: {
+        Args: { idea_id: string }
+        Returns: string
+      }
+      idea_quorum_reached: {
+        Args: { decision: string; idea_id: string }
+        Returns: boolean
+      }
+      idea_required_fields_complete: {
+        Args: { campaign_id: string; custom_fields: Json; workspace_id: string }
+        Returns: boolean
+      }
+      idea_review_changes: {
+        Args: { idea_ids: string[] }
+        Returns: {
+          changed_fields: string[]
+          idea_id: string
+          last_reviewed_revision: number
+        }[]
+      }
+      idea_sections_complete: {
+        Args: { sections: Json; template: Json }
+        Returns: boolean
+      }
+      overdue: {
+        Args: { idea: Database["public"]["Tables"]["ideas"]["Row"] }
+        Returns: boolean
+      }
+      pick_reviewer: {
+        Args: { strategy: string; workspace_id: string }
+        Returns: string
+      }
+      review_due_at: {
+        Args: { idea: Database["public"]["Tables"]["ideas"]["Row"] }
+        Returns: string
+      }
+      search_mention_candidates: {
+        Args: {
+          idea_id: string
+          internal?: boolean
+          max_results?: number
+          query: string
+        }
+        Returns: {
+          avatar_url: string
+          full_name: string
+          id: string
+        }[]
+      }
+      start_idea_review: {
+        Args: { idea_id: string }
+        Returns: boolean
+      }
+      vote_count: {
+        Args: { idea: Database["public"]["Tables"]["ideas"]["Row"] }
+        Returns: number
+      }
+      voted: {
+        Args: { idea: Database["public"]["Tables"]["ideas"]["Row"] }
+        Returns: boolean
+      }
+      workspace_role: {
+        Args: { workspace_id: string }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
     }
     Enums: {
-      idea_status: "draft" | "submitted" | "approved" | "rejected"
+      idea_field_type:
+        | "text"
+        | "number"
+        | "currency"
+        | "select"
+        | "multi_select"
+        | "date"
+        | "url"
+      idea_status:
+        | "draft"
+        | "submitted"
+        | "approved"
+        | "rejected"
+        | "in_progress"
+        | "shipped"
+        | "archived"
       user_role: "owner" | "admin"
     }
     CompositeTypes: {
@@ -329,7 +1689,24 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      idea_status: ["draft", "submitted", "approved", "rejected"],
+      idea_field_type: [
+        "text",
+        "number",
+        "currency",
+        "select",
+        "multi_select",
+        "date",
+        "url",
+      ],
+      idea_status: [
+        "draft",
+        "submitted",
+        "approved",
+        "rejected",
+        "in_progress",
+        "shipped",
+        "archived",
+      ],
       user_role: ["owner", "admin"],
     },
   },
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMAIL_MAX_ATTEMPTS,
+  EmailNotification,
+  getDeliveryUpdate,
+  getSiteUrl,
+  groupByRecipient,
+  renderDigestEmail,
+  renderNotificationEmail,
+} from './email';
+
+const SITE_URL = 'https://ideas.example.com';
+
+const notification = (overrides: Partial<EmailNotification> = {}): EmailNotification => ({
+  id: 'notification-1',
+  user_id: 'user-1',
+  idea_id: 'idea-1',
+  type: 'status_change',
+  meta: { old_status: 'submitted', new_status: 'approved' },
+  created_at: '2025-01-26T10:00:00Z',
+  idea: { title: 'Solar roofs', status: 'approved' },
+  ...overrides,
+});
+
+describe('email', () => {
+  describe('getSiteUrl', () => {
+    it('defaults to the local app', () => {
+      expect(getSiteUrl('')).toBe('http://localhost:3000');
+    });
+
+    it('drops trailing slashes', () => {
+      expect(getSiteUrl('https://ideas.example.com/')).toBe(SITE_URL);
+    });
+  });
+
+  describe('renderNotificationEmail', () => {
+    it('quotes the decision comment when an idea is approved', () => {
+      const email = renderNotificationEmail(
+        notification(),
+        { decisionComment: 'Great **impact**, go ahead' },
+        SITE_URL
+      );
+
+      expect(email.subject).toBe('"Solar roofs" is now Approved');
+      expect(email.text).toContain('"Solar roofs" moved from Under Review to Approved.');
+      expect(email.text).toContain('> Great impact, go ahead');
+      expect(email.text).toContain(`View the idea: ${SITE_URL}/ideas/idea-1`);
+      expect(email.html).toContain('<blockquote');
+      expect(email.html).toContain('<strong>impact</strong>');
+      expect(email.html).toContain(`href="${SITE_URL}/ideas/idea-1"`);
+    });
+
+    it('falls back to the reason given with the status change', () => {
+      const email = renderNotificationEmail(
+        notification({
+          meta: { old_status: 'submitted', new_status: 'rejected', reason: 'Needs a budget' },
+        }),
+        {},
+        SITE_URL
+      );
+
+      expect(email.subject).toBe('"Solar roofs" is now Needs Revision');
+      expect(email.text).toContain('> Needs a budget');
+    });
+
+    it.each([
+      ['admin_comment', 'New comment on "Solar roofs"', 'Ada commented on "Solar roofs".'],
+      ['internal_comment', 'New internal note on "Solar roofs"', 'Ada left an internal note'],
+      ['comment_reply', 'Ada replied to you on "Solar roofs"', 'Ada replied to your comment'],
+      ['mention', 'Ada mentioned you on "Solar roofs"', 'Ada mentioned you in a comment'],
+    ])('renders %s notifications with the comment', (type, subject, summary) => {
+      const email = renderNotificationEmail(
+        notification({ type, meta: { comment_id: 'comment-1' } }),
+        { actorName: 'Ada', comment: 'Could we pilot this?' },
+        SITE_URL
+      );
+
+      expect(email.subject).toBe(subject);
+      expect(email.text).toContain(summary);
+      expect(email.text).toContain('> Could we pilot this?');
+    });
+
+    it('describes other notifications generically', () => {
+      const email = renderNotificationEmail(
+        notification({ type: 'member_added', meta: {} }),
+        {},
+        SITE_URL
+      );
+
+      expect(email.subject).toBe('New activity on "Solar roofs"');
+      expect(email.text).toContain('(member added)');
+    });
+
+    it('escapes titles and comments in the HTML', () => {
+      const email = renderNotificationEmail(
+        notification({
+          type: 'new_comment',
+          meta: {},
+          idea: { title: '<img src=x onerror=alert(1)>', status: 'submitted' },
+        }),
+        { actorName: '<b>Eve</b>', comment: '<script>alert(1)</script>' },
+        SITE_URL
+      );
+
+      expect(email.html).not.toContain('<img');
+      expect(email.html).not.toContain('<script');
+      expect(email.html).toContain('&lt;b&gt;Eve&lt;/b&gt;');
+    });
+  });
+
+  describe('renderDigestEmail', () => {
+    it('summarizes the notifications oldest first', () => {
+      const email = renderDigestEmail(
+        [
+          {
+            notification: notification({
+              id: 'notification-2',
+              type: 'mention',
+              meta: {},
+              created_at: '2025-01-26T12:00:00Z',
+            }),
+            context: { actorName: 'Ada', comment: 'x'.repeat(300) },
+          },
+          { notification: notification(), context: {} },
+        ],
+        SITE_URL
+      );
+
+      expect(email.subject).toBe('Your daily digest: 2 new notifications');
+      expect(email.text.indexOf('moved from Under Review')).toBeLessThan(
+        email.text.indexOf('Ada mentioned you')
+      );
+      expect(email.text).not.toContain('x'.repeat(201));
+      expect(email.html.match(/<li/g)).toHaveLength(2);
+    });
+
+    it('uses the singular for one notification', () => {
+      expect(
+        renderDigestEmail([{ notification: notification(), context: {} }], SITE_URL).subject
+      ).toBe('Your daily digest: 1 new notification');
+    });
+  });
+
+  describe('groupByRecipient', () => {
+    it('groups notifications by user, keeping their order', () => {
+      const groups = groupByRecipient([
+        { id: 'a', user_id: 'user-1' },
+        { id: 'b', user_id: 'user-2' },
+        { id: 'c', user_id: 'user-1' },
+      ]);
+
+      expect([...groups.keys()]).toEqual(['user-1', 'user-2']);
+      expect(groups.get('user-1')?.map(n => n.id)).toEqual(['a', 'c']);
+    });
+  });
+
+  describe('getDeliveryUpdate', () => {
+    const now = new Date('2025-01-26T10:00:00Z');
+
+    it('marks a delivered notification as sent', () => {
+      expect(getDeliveryUpdate(1, null, now)).toEqual({
+        delivery_status: 'sent',
+        delivery_attempts: 2,
+        delivery_error: null,
+        delivered_at: now.toISOString(),
+      });
+    });
+
+    it('keeps a failed notification pending for a retry', () => {
+      expect(getDeliveryUpdate(0, 'SMTP 451: Try again later', now)).toMatchObject({
+        delivery_status: 'pending',
+        delivery_attempts: 1,
+        delivery_error: 'SMTP 451: Try again later',
+      });
+    });
+
+    it('gives up after the last attempt', () => {
+      expect(
+        getDeliveryUpdate(EMAIL_MAX_ATTEMPTS - 1, 'SMTP 550: No such user', now)
+      ).toMatchObject({
+        delivery_status: 'failed',
+        delivery_attempts: EMAIL_MAX_ATTEMPTS,
+      });
+    });
+  });
+});
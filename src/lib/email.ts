@@ -0,0 +1,233 @@
+import { escapeHtml, markdownExcerpt, markdownToPlainText, renderMarkdown } from './markdown';
+import { IdeaStatus, Notification } from './supabase';
+import { getStatusLabel } from './utils';
+
+/**
+ * How often delivering a notification is tried before it is marked as failed
+ */
+export const EMAIL_MAX_ATTEMPTS = 3;
+
+// How long comments quoted in a digest can be
+export const DIGEST_EXCERPT_LENGTH = 200;
+
+/**
+ * A notification as needed to email it, with the idea it is about
+ */
+export type EmailNotification = Pick<
+  Notification,
+  'id' | 'user_id' | 'idea_id' | 'type' | 'meta' | 'created_at'
+> & {
+  idea: { title: string; status: string } | null;
+};
+
+/**
+ * What the email about a notification mentions besides the notification itself
+ */
+export interface EmailContext {
+  // The user who acted, e.g. the comment author
+  actorName?: string | null;
+  // The comment a comment or mention notification is about, as markdown
+  comment?: string | null;
+  // The reviewer's decision comment, for ideas approved or rejected
+  decisionComment?: string | null;
+}
+
+/**
+ * An email ready to send
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Where links in emails point, from NEXT_PUBLIC_SITE_URL
+ */
+export function getSiteUrl(value: string | undefined = process.env.NEXT_PUBLIC_SITE_URL): string {
+  return (value?.trim() || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+// What an email says about a notification: a subject, a one-line summary and any quoted markdown
+const describe = (notification: EmailNotification, context: EmailContext) => {
+  const meta = (notification.meta ?? {}) as Record<string, string | null | undefined>;
+  const title = notification.idea?.title ? `"${notification.idea.title}"` : 'an idea';
+  const actor = context.actorName || 'Someone';
+
+  switch (notification.type) {
+    case 'status_change': {
+      const status = getStatusLabel((meta.new_status ?? notification.idea?.status) as IdeaStatus);
+      return {
+        subject: `${title} is now ${status}`,
+        summary: meta.old_status
+          ? `${title} moved from ${getStatusLabel(meta.old_status as IdeaStatus)} to ${status}.`
+          : `${title} is now ${status}.`,
+        quote: context.decisionComment || meta.reason || null,
+      };
+    }
+    case 'admin_comment':
+    case 'user_comment':
+    case 'new_comment':
+      return {
+        subject: `New comment on ${title}`,
+        summary: `${actor} commented on ${title}.`,
+        quote: context.comment ?? null,
+      };
+    case 'internal_comment':
+      return {
+        subject: `New internal note on ${title}`,
+        summary: `${actor} left an internal note on ${title}.`,
+        quote: context.comment ?? null,
+      };
+    case 'comment_reply':
+      return {
+        subject: `${actor} replied to you on ${title}`,
+        summary: `${actor} replied to your comment on ${title}.`,
+        quote: context.comment ?? null,
+      };
+    case 'mention':
+      return {
+        subject: `${actor} mentioned you on ${title}`,
+        summary: `${actor} mentioned you in a comment on ${title}.`,
+        quote: context.comment ?? null,
+      };
+    default:
+      return {
+        subject: `New activity on ${title}`,
+        summary: `There is new activity on ${title} (${notification.type.replace(/_/g, ' ')}).`,
+        quote: null,
+      };
+  }
+};
+
+const ideaUrl = (notification: EmailNotification, siteUrl: string) =>
+  `${siteUrl}/ideas/${encodeURIComponent(notification.idea_id)}`;
+
+const FOOTER = 'You receive this email because of your notification preferences.';
+
+// Wrap email HTML in a minimal page
+const layout = (content: string) =>
+  '<!doctype html><html><body style="font-family: sans-serif; line-height: 1.5; color: #111;">' +
+  content +
+  `<p style="color: #666; font-size: 12px;">${escapeHtml(FOOTER)}</p></body></html>`;
+
+/**
+ * Render the email sent right away for a notification
+ * Status changes quote the reviewer's decision comment, comments and mentions the comment
+ * @param notification The notification
+ * @param context The actor and comments the email mentions
+ * @param siteUrl Where links point
+ */
+export function renderNotificationEmail(
+  notification: EmailNotification,
+  context: EmailContext,
+  siteUrl: string
+): RenderedEmail {
+  const { subject, summary, quote } = describe(notification, context);
+  const url = ideaUrl(notification, siteUrl);
+
+  const text = [
+    summary,
+    quote ? markdownToPlainText(quote).replace(/^/, '> ') : null,
+    `View the idea: ${url}`,
+    `--\n${FOOTER}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const html = layout(
+    `<p>${escapeHtml(summary)}</p>` +
+      (quote
+        ? `<blockquote style="margin: 0; padding-left: 12px; border-left: 3px solid #ddd;">${renderMarkdown(quote)}</blockquote>`
+        : '') +
+      `<p><a href="${escapeHtml(url)}">View the idea</a></p>`
+  );
+
+  return { subject, text, html };
+}
+
+/**
+ * Render one email summarizing a user's digest notifications, oldest first
+ * @param notifications The notifications, each with the context its own email would have
+ * @param siteUrl Where links point
+ */
+export function renderDigestEmail(
+  notifications: { notification: EmailNotification; context: EmailContext }[],
+  siteUrl: string
+): RenderedEmail {
+  const items = [...notifications]
+    .sort((a, b) => a.notification.created_at.localeCompare(b.notification.created_at))
+    .map(({ notification, context }) => {
+      const { summary, quote } = describe(notification, context);
+      return {
+        summary,
+        excerpt: quote ? markdownExcerpt(quote, DIGEST_EXCERPT_LENGTH) : null,
+        url: ideaUrl(notification, siteUrl),
+      };
+    });
+
+  const count = items.length;
+  const subject = `Your daily digest: ${count} new notification${count === 1 ? '' : 's'}`;
+
+  const text = [
+    `Here is what happened since your last digest.`,
+    ...items.map(
+      item => `- ${item.summary}${item.excerpt ? `\n  "${item.excerpt}"` : ''}\n  ${item.url}`
+    ),
+    `--\n${FOOTER}`,
+  ].join('\n\n');
+
+  const html = layout(
+    '<p>Here is what happened since your last digest.</p><ul>' +
+      items
+        .map(
+          item =>
+            `<li style="margin-bottom: 12px;">${escapeHtml(item.summary)}` +
+            (item.excerpt ? `<br><em>${escapeHtml(item.excerpt)}</em>` : '') +
+            `<br><a href="${escapeHtml(item.url)}">View the idea</a></li>`
+        )
+        .join('') +
+      '</ul>'
+  );
+
+  return { subject, text, html };
+}
+
+/**
+ * Group notifications by recipient
+ */
+export function groupByRecipient<T extends { user_id: string }>(
+  notifications: T[]
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const notification of notifications) {
+    groups.set(notification.user_id, [...(groups.get(notification.user_id) ?? []), notification]);
+  }
+  return groups;
+}
+
+/**
+ * Delivery tracking after an attempt to email a notification
+ * @param attempts How often delivery was tried before
+ * @param error Why the attempt failed, if it did
+ * @param now When the attempt was made
+ * @returns The notification columns to update; failed once EMAIL_MAX_ATTEMPTS is reached
+ */
+export function getDeliveryUpdate(attempts: number, error?: string | null, now = new Date()) {
+  if (!error) {
+    return {
+      delivery_status: 'sent' as const,
+      delivery_attempts: attempts + 1,
+      delivery_error: null,
+      delivered_at: now.toISOString(),
+    };
+  }
+
+  return {
+    delivery_status:
+      attempts + 1 >= EMAIL_MAX_ATTEMPTS ? ('failed' as const) : ('pending' as const),
+    delivery_attempts: attempts + 1,
+    delivery_error: error,
+    delivered_at: null,
+  };
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCustomFieldsSchema,
+  getCustomFieldsSubmissionError,
+  getFieldOptionsError,
+  getFieldScopeFilter,
+  getMissingRequiredFields,
+  ideaFieldSchema,
+  IdeaFieldDefinition,
+  mergeCustomFields,
+} from './fields';
+
+const field = (
+  key: string,
+  type: IdeaFieldDefinition['type'],
+  overrides: Partial<IdeaFieldDefinition> = {}
+): IdeaFieldDefinition => ({
+  key,
+  label: key.replace(/_/g, ' '),
+  type,
+  options: [],
+  required: false,
+  ...overrides,
+});
+
+const FIELDS: IdeaFieldDefinition[] = [
+  field('summary', 'text', { required: true }),
+  field('headcount', 'number'),
+  field('budget', 'currency', { required: true }),
+  field('region', 'select', { options: ['EMEA', 'APAC', 'AMER'] }),
+  field('channels', 'multi_select', { options: ['web', 'branch', 'app'], required: true }),
+  field('launch_date', 'date'),
+  field('prototype_url', 'url'),
+];
+
+describe('fields', () => {
+  describe('buildCustomFieldsSchema', () => {
+    const schema = buildCustomFieldsSchema(FIELDS);
+
+    it('accepts valid values of every type', () => {
+      const values = {
+        summary: 'Cheaper onboarding',
+        headcount: 3,
+        budget: 12500.5,
+        region: 'EMEA',
+        channels: ['web', 'app'],
+        launch_date: '2025-06-30',
+        prototype_url: 'https://example.com/demo',
+      };
+      expect(schema.parse(values)).toEqual(values);
+    });
+
+    it('lets drafts leave fields out or clear them with null', () => {
+      expect(schema.parse({})).toEqual({});
+      expect(schema.parse({ budget: null })).toEqual({ budget: null });
+    });
+
+    it('rejects unknown fields', () => {
+      expect(schema.safeParse({ colour: 'blue' }).success).toBe(false);
+    });
+
+    it.each([
+      ['headcount', 'three', 'headcount must be a number'],
+      ['budget', -5, 'budget cannot be negative'],
+      ['budget', 10.005, 'budget can have at most two decimals'],
+      ['region', 'LATAM', 'region must be one of: EMEA, APAC, AMER'],
+      ['channels', ['web', 'web'], 'channels has duplicate options'],
+      ['channels', ['fax'], 'channels must be one of: web, branch, app'],
+      ['launch_date', '30/06/2025', 'launch date must be a date (YYYY-MM-DD)'],
+      ['launch_date', '2025-02-30', 'launch date must be a valid date'],
+      ['prototype_url', 'ftp://example.com', 'prototype url must be an http(s) URL'],
+    ])('rejects %s = %j', (key, value, message) => {
+      const result = schema.safeParse({ [key]: value });
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toBe(message);
+    });
+  });
+
+  describe('getMissingRequiredFields', () => {
+    it('lists required fields that are absent or empty', () => {
+      const missing = getMissingRequiredFields(FIELDS, { summary: '  ', budget: 0, channels: [] });
+      expect(missing.map(f => f.key)).toEqual(['summary', 'channels']);
+    });
+
+    it('treats ideas without values as missing every required field', () => {
+      expect(getMissingRequiredFields(FIELDS, null)).toHaveLength(3);
+    });
+  });
+
+  describe('getCustomFieldsSubmissionError', () => {
+    it('names the missing required fields', () => {
+      expect(getCustomFieldsSubmissionError(FIELDS, { summary: 'Cheaper onboarding' })).toBe(
+        'Missing required fields: budget, channels'
+      );
+    });
+
+    it('revalidates stored values against the current definitions', () => {
+      expect(
+        getCustomFieldsSubmissionError(FIELDS, {
+          summary: 'Cheaper onboarding',
+          budget: 100,
+          channels: ['web'],
+          region: 'Mars',
+        })
+      ).toBe('region must be one of: EMEA, APAC, AMER');
+    });
+
+    it('ignores values of fields that no longer apply', () => {
+      expect(
+        getCustomFieldsSubmissionError(FIELDS, {
+          summary: 'Cheaper onboarding',
+          budget: 100,
+          channels: ['web'],
+          retired_field: 'anything',
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('mergeCustomFields', () => {
+    it('applies changes and drops cleared values', () => {
+      expect(
+        mergeCustomFields({ summary: 'Old', budget: 10 }, { summary: 'New', budget: null })
+      ).toEqual({ summary: 'New' });
+    });
+  });
+
+  describe('ideaFieldSchema', () => {
+    it('requires options for select fields only', () => {
+      expect(
+        ideaFieldSchema.safeParse({ key: 'region', label: 'Region', type: 'select' }).success
+      ).toBe(false);
+      expect(
+        ideaFieldSchema.safeParse({
+          key: 'budget',
+          label: 'Budget',
+          type: 'currency',
+          options: ['EUR'],
+        }).success
+      ).toBe(false);
+      expect(
+        ideaFieldSchema.parse({ key: 'budget', label: 'Budget', type: 'currency' })
+      ).toMatchObject({
+        options: [],
+        required: false,
+        position: 0,
+      });
+    });
+
+    it('rejects unknown field types', () => {
+      expect(
+        ideaFieldSchema.safeParse({ key: 'photo', label: 'Photo', type: 'image' }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('getFieldOptionsError', () => {
+    it('rejects duplicate options', () => {
+      expect(getFieldOptionsError('multi_select', ['a', 'a'])).toBe('Options must be unique');
+    });
+  });
+
+  describe('getFieldScopeFilter', () => {
+    it('includes the campaign fields when the idea is in a campaign', () => {
+      expect(getFieldScopeFilter(null)).toBe('campaign_id.is.null');
+      expect(getFieldScopeFilter('c1')).toBe('campaign_id.is.null,campaign_id.eq.c1');
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { Constants } from './database.types';
+import { IdeaField } from './supabase';
+
+/**
+ * Kinds of custom fields admins can add to ideas
+ */
+export type IdeaFieldType = (typeof Constants.public.Enums.idea_field_type)[number];
+
+export const IDEA_FIELD_TYPES: readonly IdeaFieldType[] = Constants.public.Enums.idea_field_type;
+
+/**
+ * Field types whose values are picked from the field's options
+ */
+export const CHOICE_FIELD_TYPES: readonly IdeaFieldType[] = ['select', 'multi_select'];
+
+/**
+ * A field definition as needed to validate values
+ */
+export type IdeaFieldDefinition = Pick<
+  IdeaField,
+  'key' | 'label' | 'type' | 'options' | 'required'
+>;
+
+/**
+ * Custom field values as stored in ideas.custom_fields, keyed by field key
+ */
+export type CustomFieldValues = Record<string, unknown>;
+
+/**
+ * Columns routes select when validating values against field definitions
+ */
+export const FIELD_DEFINITION_COLUMNS = 'key, label, type, options, required';
+
+/**
+ * Build the PostgREST filter selecting the fields that apply to an idea:
+ * the workspace-wide fields, plus those of the idea's campaign
+ * @param campaignId The idea's campaign, if any
+ * @returns A filter for the .or() query modifier
+ */
+export function getFieldScopeFilter(campaignId: string | null | undefined): string {
+  return campaignId ? `campaign_id.is.null,campaign_id.eq.${campaignId}` : 'campaign_id.is.null';
+}
+
+/**
+ * Check that a field's options suit its type
+ * @param type The field type
+ * @param options The options given for the field
+ * @returns An error message, or null when the options are valid
+ */
+export function getFieldOptionsError(type: IdeaFieldType, options: string[]): string | null {
+  if (!CHOICE_FIELD_TYPES.includes(type)) {
+    return options.length ? 'Only select fields can have options' : null;
+  }
+
+  if (!options.length) {
+    return 'Select fields need at least one option';
+  }
+
+  return new Set(options).size === options.length ? null : 'Options must be unique';
+}
+
+const fieldOptionsSchema = z
+  .array(z.string().trim().min(1, 'Options cannot be empty').max(100, 'Option is too long'))
+  .max(50, 'Too many options');
+
+// Schema for validating field definition creation
+export const ideaFieldSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, 'Field keys must be lowercase letters, digits and underscores')
+      .max(50, 'Field keys must be at most 50 characters'),
+    label: z.string().min(1, 'Field label is required').max(100, 'Field label is too long'),
+    help_text: z.string().max(500, 'Help text is too long').optional(),
+    type: z.enum(Constants.public.Enums.idea_field_type, {
+      errorMap: () => ({ message: `Field type must be one of: ${IDEA_FIELD_TYPES.join(', ')}` }),
+    }),
+    options: fieldOptionsSchema.optional().default([]),
+    required: z.boolean().optional().default(false),
+    campaign_id: z.string().uuid('Campaign ID must be a valid UUID').nullable().optional(),
+    position: z.number().int().min(0).optional().default(0),
+  })
+  .superRefine((field, ctx) => {
+    const message = getFieldOptionsError(field.type, field.options);
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['options'] });
+    }
+  });
+
+// Schema for validating field definition updates; keys, types and campaigns are fixed once created
+export const updateIdeaFieldSchema = z
+  .object({
+    label: z.string().min(1, 'Field label is required').max(100, 'Field label is too long'),
+    help_text: z.string().max(500, 'Help text is too long').nullable(),
+    options: fieldOptionsSchema,
+    required: z.boolean(),
+    position: z.number().int().min(0),
+  })
+  .partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Build the schema for a single field's value
+ */
+function valueSchema(field: IdeaFieldDefinition): z.ZodTypeAny {
+  const { label, options } = field;
+  const isOption = (value: string) => options.includes(value);
+  const optionsMessage = `${label} must be one of: ${options.join(', ')}`;
+
+  switch (field.type) {
+    case 'text':
+      return z
+        .string({ invalid_type_error: `${label} must be text` })
+        .trim()
+        .max(2000, `${label} is too long`);
+    case 'number':
+      return z.number({ invalid_type_error: `${label} must be a number` }).finite();
+    case 'currency':
+      return z
+        .number({ invalid_type_error: `${label} must be an amount` })
+        .nonnegative(`${label} cannot be negative`)
+        .refine(
+          value => Math.abs(value * 100 - Math.round(value * 100)) < 1e-6,
+          `${label} can have at most two decimals`
+        );
+    case 'select':
+      return z.string({ invalid_type_error: optionsMessage }).refine(isOption, optionsMessage);
+    case 'multi_select':
+      return z
+        .array(z.string().refine(isOption, optionsMessage), {
+          invalid_type_error: `${label} must be a list of options`,
+        })
+        .refine(values => new Set(values).size === values.length, `${label} has duplicate options`);
+    case 'date':
+      return z
+        .string({ invalid_type_error: `${label} must be a date` })
+        .regex(isoDate, `${label} must be a date (YYYY-MM-DD)`)
+        .refine(
+          value =>
+            !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value),
+          `${label} must be a valid date`
+        );
+    case 'url':
+      return z
+        .string({ invalid_type_error: `${label} must be a URL` })
+        .url(`${label} must be a valid URL`)
+        .refine(value => /^https?:\/\//i.test(value), `${label} must be an http(s) URL`);
+  }
+}
+
+/**
+ * Build the schema for an idea's custom field values from the field definitions
+ * Every field is optional, and null clears a value, so drafts can be saved incomplete;
+ * required fields are checked at submission with getMissingRequiredFields
+ * @param fields The field definitions that apply to the idea
+ * @returns A strict object schema that rejects unknown keys
+ */
+export function buildCustomFieldsSchema(fields: IdeaFieldDefinition[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.key] = valueSchema(field).nullable().optional();
+  }
+
+  return z.object(shape).strict('Unknown custom field');
+}
+
+/**
+ * Check whether a custom field value counts as filled in
+ */
+export function isEmptyFieldValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Find the required fields an idea has not filled in
+ * Mirrors public.idea_required_fields_complete in the database
+ * @param fields The field definitions that apply to the idea
+ * @param values The idea's custom field values
+ * @returns The missing fields, in definition order
+ */
+export function getMissingRequiredFields(
+  fields: IdeaFieldDefinition[],
+  values: CustomFieldValues | null | undefined
+): IdeaFieldDefinition[] {
+  return fields.filter(field => field.required && isEmptyFieldValue(values?.[field.key]));
+}
+
+/**
+ * Merge validated changes into an idea's stored values, dropping cleared ones
+ * @param current The idea's stored values
+ * @param changes Validated changes, where null clears a value
+ * @returns The values to store
+ */
+export function mergeCustomFields(
+  current: CustomFieldValues | null | undefined,
+  changes: CustomFieldValues
+): CustomFieldValues {
+  const merged: CustomFieldValues = { ...current, ...changes };
+  for (const key of Object.keys(merged)) {
+    if (isEmptyFieldValue(merged[key])) {
+      delete merged[key];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Check an idea's custom fields before it is submitted
+ * Values stored for fields that no longer apply are ignored
+ * @param fields The field definitions that apply to the idea
+ * @param values The idea's custom field values
+ * @returns An error message, or null when the idea can be submitted
+ */
+export function getCustomFieldsSubmissionError(
+  fields: IdeaFieldDefinition[],
+  values: CustomFieldValues | null | undefined
+): string | null {
+  const missing = getMissingRequiredFields(fields, values);
+  if (missing.length) {
+    return `Missing required fields: ${missing.map(field => field.label).join(', ')}`;
+  }
+
+  const current = Object.fromEntries(
+    fields
+      .filter(field => values && field.key in values)
+      .map(field => [field.key, values![field.key]])
+  );
+  const result = buildCustomFieldsSchema(fields).safeParse(current);
+
+  return result.success ? null : result.error.errors.map(e => e.message).join(', ');
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MARKDOWN_TAGS,
+  markdownExcerpt,
+  markdownToPlainText,
+  renderMarkdown,
+  sanitizeUrl,
+} from './markdown';
+
+/**
+ * Check that HTML only uses the tags and attributes renderMarkdown is meant to emit,
+ * and that every link points somewhere safe
+ */
+const expectSafeHtml = (html: string) => {
+  const allowedAttributes = [
+    'href',
+    'rel',
+    'target',
+    'class',
+    'type',
+    'disabled',
+    'checked',
+    'start',
+  ];
+
+  for (const [, tag, attributes] of html.matchAll(/<\/?([a-z0-9]+)([^>]*)>/gi)) {
+    expect(MARKDOWN_TAGS).toContain(tag.toLowerCase());
+    for (const [, name] of attributes.matchAll(/\s([^\s=]+)(?:="[^"]*")?/g)) {
+      expect(allowedAttributes).toContain(name.toLowerCase());
+    }
+  }
+
+  for (const [, href] of html.matchAll(/href="([^"]*)"/g)) {
+    expect(href).toMatch(/^(https?:|mailto:|\/|#|[^:]*$)/i);
+  }
+};
+
+describe('markdown', () => {
+  describe('renderMarkdown', () => {
+    it('renders paragraphs, line breaks and headings', () => {
+      expect(renderMarkdown('## Problem\n\nFirst line\nsecond line')).toBe(
+        '<h2>Problem</h2>\n<p>First line<br>\nsecond line</p>'
+      );
+    });
+
+    it('renders emphasis, strikethrough and inline code', () => {
+      expect(renderMarkdown('**bold**, *em*, _em_, ~~gone~~ and `a < b`')).toBe(
+        '<p><strong>bold</strong>, <em>em</em>, <em>em</em>, <del>gone</del> and <code>a &lt; b</code></p>'
+      );
+    });
+
+    it('leaves underscores inside words alone', () => {
+      expect(renderMarkdown('snake_case_name')).toBe('<p>snake_case_name</p>');
+    });
+
+    it('renders fenced code blocks verbatim', () => {
+      expect(renderMarkdown('```ts\nconst a = **1**;\n<b>\n```')).toBe(
+        '<pre><code class="language-ts">const a = **1**;\n&lt;b&gt;</code></pre>'
+      );
+      expect(renderMarkdown('~~~\nunclosed')).toBe('<pre><code>unclosed</code></pre>');
+    });
+
+    it('renders bullet, numbered and nested lists', () => {
+      expect(renderMarkdown('- one\n- two\n  - nested')).toBe(
+        '<ul>\n<li>one</li>\n<li>two\n<ul>\n<li>nested</li>\n</ul></li>\n</ul>'
+      );
+      expect(renderMarkdown('3. three\n4. four')).toBe(
+        '<ol start="3">\n<li>three</li>\n<li>four</li>\n</ol>'
+      );
+    });
+
+    it('renders checklists', () => {
+      expect(renderMarkdown('- [x] Interview users\n- [ ] Build prototype')).toBe(
+        '<ul>\n' +
+          '<li class="task-list-item"><input type="checkbox" disabled checked> Interview users</li>\n' +
+          '<li class="task-list-item"><input type="checkbox" disabled> Build prototype</li>\n' +
+          '</ul>'
+      );
+    });
+
+    it('renders block quotes and horizontal rules', () => {
+      expect(renderMarkdown('> quoted\n\n---')).toBe(
+        '<blockquote><p>quoted</p></blockquote>\n<hr>'
+      );
+    });
+
+    it('renders links and autolinks', () => {
+      const rel = 'rel="nofollow noopener noreferrer" target="_blank"';
+      expect(renderMarkdown('[docs](https://example.com/a_(b))')).toBe(
+        `<p><a href="https://example.com/a_(b)" ${rel}>docs</a></p>`
+      );
+      expect(renderMarkdown('See https://example.com/x.')).toBe(
+        `<p>See <a href="https://example.com/x" ${rel}>https://example.com/x</a>.</p>`
+      );
+      expect(renderMarkdown('<mailto:team@example.com>')).toBe(
+        `<p><a href="mailto:team@example.com" ${rel}>mailto:team@example.com</a></p>`
+      );
+    });
+
+    it('honours backslash escapes', () => {
+      expect(renderMarkdown('\\*not em\\* and \\`not code\\`')).toBe(
+        '<p>*not em* and `not code`</p>'
+      );
+    });
+
+    it('keeps escaped characters in link URLs', () => {
+      const rel = 'rel="nofollow noopener noreferrer" target="_blank"';
+      expect(renderMarkdown('[docs](http://a.com/a\\_b) and \\_')).toBe(
+        `<p><a href="http://a.com/a_b" ${rel}>docs</a> and _</p>`
+      );
+      expect(renderMarkdown('[`x`](http://a.com/`x`)')).toBe(
+        `<p><a href="http://a.com/\`x\`" ${rel}><code>x</code></a></p>`
+      );
+      expect(renderMarkdown('<http://a.com/a\\_b>')).toBe(
+        `<p><a href="http://a.com/a\\_b" ${rel}>http://a.com/a\\_b</a></p>`
+      );
+    });
+
+    it('renders empty sources as nothing', () => {
+      expect(renderMarkdown(null)).toBe('');
+      expect(renderMarkdown('   \n ')).toBe('');
+    });
+
+    it('returns the same HTML from its cache', () => {
+      const source = '- cached';
+      expect(renderMarkdown(source)).toBe(renderMarkdown(source));
+    });
+  });
+
+  describe('XSS', () => {
+    const payloads = [
+      '<script>alert(1)</script>',
+      '<img src=x onerror=alert(1)>',
+      '<svg/onload=alert(1)>',
+      '<a href="javascript:alert(1)">click</a>',
+      '<iframe src="https://evil.example"></iframe>',
+      '<style>body{display:none}</style>',
+      '[click](javascript:alert(1))',
+      '[click](JAVASCRIPT:alert(1))',
+      '[click](java\u0000script:alert(1))',
+      '[click](%6Aavascript:alert(1))',
+      '[click](&#106;avascript:alert(1))',
+      '[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+      '[click](vbscript:msgbox(1))',
+      '[click](<javascript:alert(1)>)',
+      '<javascript:alert(1)>',
+      '[x](https://example.com" onmouseover="alert(1))',
+      '[x](https://example.com "title" onclick="alert(1)")',
+      '[<img src=x onerror=alert(1)>](https://example.com)',
+      '```"><script>alert(1)</script>\ncode\n```',
+      '`<script>alert(1)</script>`',
+      '**<b onclick=alert(1)>bold</b>**',
+      '- [x] <img src=x onerror=alert(1)>',
+      '> <script>alert(1)</script>',
+      '# <script>alert(1)</script>',
+      'https://example.com/"><script>alert(1)</script>',
+      'www.example.com/<script>',
+      '\u00000\u0000 placeholder forgery',
+      '>'.repeat(200) + ' deep',
+      '- '.repeat(200) + 'deep',
+    ];
+
+    it.each(payloads)('neutralizes %j', payload => {
+      const html = renderMarkdown(payload);
+      expectSafeHtml(html);
+      expect(html).not.toMatch(/<(script|img|svg|iframe|style|b)\b/i);
+    });
+
+    it('keeps the text of neutralized markup visible', () => {
+      expect(renderMarkdown('<script>alert(1)</script>')).toBe(
+        '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>'
+      );
+      expect(renderMarkdown('[click](javascript:alert(1))')).toBe('<p>click</p>');
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('allows web, mail and relative links', () => {
+      expect(sanitizeUrl('https://example.com')).toBe('https://example.com');
+      expect(sanitizeUrl('mailto:a@example.com')).toBe('mailto:a@example.com');
+      expect(sanitizeUrl('/ideas/1')).toBe('/ideas/1');
+      expect(sanitizeUrl('docs/page?at=10:30')).toBe('docs/page?at=10:30');
+    });
+
+    it('rejects other schemes, however they are disguised', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl(' Java\tScript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,hi')).toBeNull();
+      expect(sanitizeUrl('&#106;avascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('')).toBeNull();
+    });
+  });
+
+  describe('markdownToPlainText', () => {
+    it('strips the syntax and joins blocks with spaces', () => {
+      expect(
+        markdownToPlainText('## Problem\n\nUsers **cannot** find [docs](https://x.io).\n\n- a\n- b')
+      ).toBe('Problem Users cannot find docs. a b');
+    });
+
+    it('keeps characters that look like markup', () => {
+      expect(markdownToPlainText('Use `a < b` & <div>')).toBe('Use a < b & <div>');
+    });
+  });
+
+  describe('markdownExcerpt', () => {
+    it('truncates the plain text', () => {
+      expect(markdownExcerpt('**Reduce** onboarding time for new hires', 18)).toBe(
+        'Reduce onboarding...'
+      );
+      expect(markdownExcerpt(null)).toBe('');
+    });
+  });
+});
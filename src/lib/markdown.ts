@@ -0,0 +1,404 @@
+import { truncateText } from './utils';
+
+/**
+ * Markdown for idea descriptions and comment bodies
+ *
+ * Supports a GFM subset: headings, paragraphs with line breaks, emphasis, strikethrough, inline code,
+ * fenced code blocks, block quotes, bullet, numbered and task lists, horizontal rules, links and
+ * autolinked URLs. Raw HTML is not supported: every character of the source is escaped and only the
+ * markup below is emitted, with link targets limited to SAFE_URL_PROTOCOLS, so the output is safe
+ * to render without further sanitization.
+ */
+
+/**
+ * The tags renderMarkdown can emit
+ */
+export const MARKDOWN_TAGS = [
+  'a',
+  'blockquote',
+  'br',
+  'code',
+  'del',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'input',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'strong',
+  'ul',
+] as const;
+
+/**
+ * URL schemes links can use; URLs without a scheme are relative and always allowed
+ */
+export const SAFE_URL_PROTOCOLS = ['http', 'https', 'mailto'];
+
+/**
+ * How many rendered sources renderMarkdown keeps; the oldest are dropped first
+ */
+export const MARKDOWN_CACHE_SIZE = 500;
+
+// Block quotes and lists nested deeper than this are rendered as text
+const MAX_NESTING = 10;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Check a link target, dropping control characters and whitespace browsers would ignore
+ * @returns The URL to link to, or null when its scheme is not allowed
+ */
+export function sanitizeUrl(url: string): string | null {
+  const cleaned = url.replace(/[\u0000- \u007f-\u009f]+/g, '');
+  if (!cleaned) return null;
+
+  // Anything before the first colon counts as a scheme unless a path or query starts first
+  const scheme = /^([^/?]*?):/.exec(cleaned)?.[1];
+  if (scheme === undefined) return cleaned;
+
+  return SAFE_URL_PROTOCOLS.includes(scheme.toLowerCase()) ? cleaned : null;
+}
+
+const link = (url: string, label: string) => {
+  const href = sanitizeUrl(url);
+  return href
+    ? `<a href="${escapeHtml(href)}" rel="nofollow noopener noreferrer" target="_blank">${label}</a>`
+    : label;
+};
+
+/**
+ * Render the inline markup of a block
+ * Code spans, escaped characters and links are set aside as numbered placeholders before the rest
+ * of the text is escaped, then put back; placeholder characters are removed from the source first
+ * URLs take back the source text of placeholders inside them, not their HTML
+ */
+function renderInline(text: string): string {
+  const stash: string[] = [];
+  const sources: string[] = [];
+  const keep = (html: string, source: string) => {
+    sources.push(source);
+    return `\u0000${stash.push(html) - 1}\u0000`;
+  };
+  const unstash = (url: string) => {
+    while (/\u0000\d+\u0000/.test(url)) {
+      url = url.replace(/\u0000(\d+)\u0000/g, (_, index: string) => sources[Number(index)]);
+    }
+    return url;
+  };
+
+  let html = text
+    // In one pass, so escaped backticks open no code span and backslashes in code stay literal
+    .replace(
+      /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])|(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/g,
+      (match: string, char: string | undefined, __, code: string) =>
+        keep(
+          char !== undefined
+            ? escapeHtml(char)
+            : `<code>${escapeHtml(code.replace(/^ ([\s\S]*) $/, '$1'))}</code>`,
+          match
+        )
+    )
+    .replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (match: string, url: string) => {
+      const source = unstash(url);
+      return keep(link(source, escapeHtml(source)), match);
+    })
+    .replace(
+      /\[([^[\]]*)\]\(\s*(<[^<>\n]*>|[^\s()<>]*(?:\([^\s()<>]*\)[^\s()<>]*)*)(?:\s+"[^"\n]*")?\s*\)/g,
+      (match: string, label: string, url: string) => {
+        // Backslash escapes in link destinations stand for the character itself
+        const destination = unstash(url)
+          .replace(/^<(.*)>$/, '$1')
+          .replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+        return keep(link(destination, renderEmphasis(escapeHtml(label))), match);
+      }
+    )
+    .replace(/\b(?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,:;"'!?*_~)\]]/gi, match => {
+      const url = unstash(match);
+      return keep(link(/^www\./i.test(url) ? `https://${url}` : url, escapeHtml(url)), match);
+    });
+
+  html = renderEmphasis(escapeHtml(html)).replace(/ *\n/g, '<br>\n');
+
+  // Placeholders can hold other placeholders, such as code in a link label
+  while (/\u0000\d+\u0000/.test(html)) {
+    html = html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)]);
+  }
+
+  return html;
+}
+
+/**
+ * Render emphasis and strikethrough in escaped text
+ */
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>');
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+(.*))?$/;
+const TASK = /^\[([ xX])\][ \t]+([\s\S]*)$/;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line);
+
+const isBlank = (line: string) => !line.trim();
+
+const indentOf = (line: string) => line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+
+/**
+ * Remove up to the given number of columns of indentation from a line
+ */
+const dedent = (line: string, columns: number) =>
+  line.replace(/^\t/, '    ').replace(new RegExp(`^ {0,${columns}}`), '');
+
+/**
+ * Render a run of lines as blocks
+ */
+function renderBlocks(lines: string[], depth: number): string {
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const [, marker, info] = fence;
+      const code: string[] = [];
+      i++;
+      while (
+        i < lines.length &&
+        !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`).test(lines[i])
+      ) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+
+      const language = info.replace(/[^\w+-]/g, '');
+      const attributes = language ? ` class="language-${language}"` : '';
+      blocks.push(`<pre><code${attributes}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2] ?? '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line) && depth < MAX_NESTING) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const match = QUOTE.exec(lines[i]);
+        // Lines without > continue the quoted paragraph
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      blocks.push(`<blockquote>${renderBlocks(quoted, depth + 1)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line) && depth < MAX_NESTING) {
+      i = renderList(lines, i, depth, blocks);
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return blocks.join('\n');
+}
+
+/**
+ * Render the list starting at the given line
+ * Items continue on lines indented past their marker; indented list markers start nested lists
+ * @returns The index of the first line after the list
+ */
+function renderList(lines: string[], start: number, depth: number, blocks: string[]): number {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: string[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const item = LIST_ITEM.exec(lines[i]);
+    if (!item || /\d/.test(item[2]) !== ordered || item[2].slice(-1) !== delimiter) break;
+
+    const contentIndent = item[1].length + item[2].length + 1;
+    const body: string[] = [item[4] ?? ''];
+    i++;
+
+    while (i < lines.length) {
+      const next = lines[i];
+      if (isBlank(next)) {
+        // A blank line ends the list unless the item or list carries on after it
+        const following = lines.slice(i + 1).find(l => !isBlank(l));
+        if (
+          following === undefined ||
+          (indentOf(following) < contentIndent && !LIST_ITEM.test(following))
+        ) {
+          break;
+        }
+        body.push('');
+      } else if (indentOf(next) >= Math.min(contentIndent, 4)) {
+        body.push(dedent(next, contentIndent));
+      } else if (!startsBlock(next) && !isBlank(body[body.length - 1])) {
+        // Lazy continuation of the item's paragraph
+        body.push(next.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    items.push(renderListItem(body, depth));
+
+    // Skip blank lines between items
+    while (i < lines.length && isBlank(lines[i])) i++;
+  }
+
+  const number = ordered ? parseInt(first[2], 10) : 1;
+  const tag = ordered ? 'ol' : 'ul';
+  const attributes = ordered && number !== 1 ? ` start="${number}"` : '';
+  blocks.push(`<${tag}${attributes}>\n${items.join('\n')}\n</${tag}>`);
+
+  return i;
+}
+
+/**
+ * Render a list item: its first paragraph inline, anything after it as blocks
+ */
+function renderListItem(body: string[], depth: number): string {
+  let end = 1;
+  while (end < body.length && !isBlank(body[end]) && !startsBlock(body[end])) end++;
+
+  let text = body.slice(0, end).join('\n').trim();
+  let checkbox = '';
+  const task = TASK.exec(text);
+  if (task) {
+    const checked = task[1] !== ' ';
+    checkbox = `<input type="checkbox" disabled${checked ? ' checked' : ''}> `;
+    text = task[2];
+  }
+
+  const rest = renderBlocks(body.slice(end), depth + 1);
+  const attributes = task ? ' class="task-list-item"' : '';
+  return `<li${attributes}>${checkbox}${renderInline(text)}${rest ? `\n${rest}` : ''}</li>`;
+}
+
+const cache = new Map<string, string>();
+
+/**
+ * Render markdown to HTML that is safe to insert into a page
+ * Results are cached, so descriptions and comments can be rendered on every read
+ * @param source Markdown from a description, comment or AI suggestion
+ * @returns The HTML, or an empty string for empty sources
+ */
+export function renderMarkdown(source: string | null | undefined): string {
+  if (!source?.trim()) return '';
+
+  const cached = cache.get(source);
+  if (cached !== undefined) {
+    // Move to the back, so the least recently used entry is dropped first
+    cache.delete(source);
+    cache.set(source, cached);
+    return cached;
+  }
+
+  const lines = source
+    .replace(/\u0000/g, '�')
+    .replace(/\r\n?/g, '\n')
+    .split('\n');
+  const html = renderBlocks(lines, 0);
+
+  cache.set(source, html);
+  if (cache.size > MARKDOWN_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+
+  return html;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/**
+ * Extract the text of markdown, without its syntax, for search and previews
+ * @param source Markdown from a description or comment
+ * @returns The text on a single line, with blocks separated by spaces
+ */
+export function markdownToPlainText(source: string | null | undefined): string {
+  return renderMarkdown(source)
+    .replace(/<\/?(?:p|h[1-6]|ul|ol|li|blockquote|pre|hr|br)\b[^>]*>/g, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Shorten markdown to a plain-text preview
+ * @param source Markdown from a description or comment
+ * @param maxLength Maximum length before truncation
+ */
+export function markdownExcerpt(source: string | null | undefined, maxLength = 200): string {
+  return truncateText(markdownToPlainText(source), maxLength);
+}
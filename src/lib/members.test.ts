@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { addMemberSchema, getMemberRole } from './members';
+
+const userId = '0b6e7c8a-3f0d-4b8e-9a51-6f2d3c4b5a69';
+
+describe('members', () => {
+  describe('getMemberRole', () => {
+    const idea = {
+      owner_id: 'creator',
+      members: [
+        { user_id: 'creator', role: 'owner' },
+        { user_id: 'co-owner', role: 'owner' },
+        { user_id: 'writer', role: 'editor' },
+        { user_id: 'reader', role: 'viewer' },
+      ],
+    };
+
+    it('returns the role each member holds', () => {
+      expect(getMemberRole(idea, 'co-owner')).toBe('owner');
+      expect(getMemberRole(idea, 'writer')).toBe('editor');
+      expect(getMemberRole(idea, 'reader')).toBe('viewer');
+    });
+
+    it('returns null for non-members and anonymous users', () => {
+      expect(getMemberRole(idea, 'stranger')).toBeNull();
+      expect(getMemberRole(idea, null)).toBeNull();
+    });
+
+    it('treats the creator as an owner without loaded memberships', () => {
+      expect(getMemberRole({ owner_id: 'creator' }, 'creator')).toBe('owner');
+    });
+  });
+
+  describe('addMemberSchema', () => {
+    it('accepts a user ID or an email, but not both', () => {
+      expect(addMemberSchema.safeParse({ user_id: userId, role: 'editor' }).success).toBe(true);
+      expect(addMemberSchema.safeParse({ email: 'a@example.com', role: 'viewer' }).success).toBe(
+        true
+      );
+      expect(
+        addMemberSchema.safeParse({ user_id: userId, email: 'a@example.com', role: 'editor' })
+          .success
+      ).toBe(false);
+      expect(addMemberSchema.safeParse({ role: 'editor' }).success).toBe(false);
+    });
+
+    it('only accepts known roles', () => {
+      expect(addMemberSchema.safeParse({ user_id: userId, role: 'admin' }).success).toBe(false);
+    });
+  });
+});
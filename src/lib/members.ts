@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * What a member may do on an idea
+ * - owner: everything the creator can do, including submitting and managing members
+ * - editor: edit the idea's content while its status allows edits
+ * - viewer: read and comment
+ */
+export const IDEA_MEMBER_ROLES = ['owner', 'editor', 'viewer'] as const;
+export type IdeaMemberRole = (typeof IDEA_MEMBER_ROLES)[number];
+
+/**
+ * A membership as embedded in idea queries via members:idea_members(user_id, role)
+ */
+export interface IdeaMemberRef {
+  user_id: string;
+  role: IdeaMemberRole | string;
+}
+
+// Schema for validating member invitations
+export const addMemberSchema = z
+  .object({
+    user_id: z.string().uuid('User ID must be a valid UUID').optional(),
+    email: z.string().email('Email must be a valid email address').optional(),
+    role: z.enum(IDEA_MEMBER_ROLES, {
+      required_error: "Role must be 'owner', 'editor' or 'viewer'",
+    }),
+  })
+  .refine(data => !!data.user_id !== !!data.email, {
+    message: 'Provide either a user ID or an email address',
+  });
+
+/**
+ * Find a user's role on an idea
+ * The idea's creator (owner_id) is always an owner, even before memberships are loaded
+ * @param idea The idea with its members, if loaded
+ * @param userId The user to look up
+ * @returns The member role, or null when the user is not a member
+ */
+export function getMemberRole(
+  idea: { owner_id: string; members?: IdeaMemberRef[] | null },
+  userId: string | null | undefined
+): IdeaMemberRole | null {
+  if (!userId) return null;
+  if (idea.owner_id === userId) return 'owner';
+
+  const role = idea.members?.find(member => member.user_id === userId)?.role;
+  return IDEA_MEMBER_ROLES.find(r => r === role) ?? null;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { findMentions } from './mentions';
+
+const candidates = [
+  { id: 'ana', full_name: 'Ana' },
+  { id: 'ana-lima', full_name: 'Ana Lima' },
+  { id: 'bo', full_name: 'Bo Chen' },
+  { id: 'jose', full_name: 'José Álvarez' },
+  { id: 'nameless', full_name: null },
+  { id: 'dotted', full_name: 'J.R. Smith' },
+];
+
+describe('mentions', () => {
+  describe('findMentions', () => {
+    it('finds mentions by full name, ignoring case', () => {
+      expect(findMentions('Thanks @bo chen, looks good', candidates)).toEqual(['bo']);
+      expect(findMentions('@BO CHEN', candidates)).toEqual(['bo']);
+    });
+
+    it('finds several mentions, each once', () => {
+      expect(findMentions('@Ana and @Bo Chen, and again @Ana', candidates)).toEqual(['ana', 'bo']);
+    });
+
+    it('prefers the longest matching name', () => {
+      expect(findMentions('cc @Ana Lima', candidates)).toEqual(['ana-lima']);
+      expect(findMentions('cc @Ana, not Lima', candidates)).toEqual(['ana']);
+    });
+
+    it('requires a boundary before the @ and after the name', () => {
+      expect(findMentions('mail bo@Bo Chen.com', candidates)).toEqual([]);
+      expect(findMentions('@Bo Chenko', candidates)).toEqual([]);
+      expect(findMentions('(@Bo Chen)', candidates)).toEqual(['bo']);
+      expect(findMentions('@Bo Chen.', candidates)).toEqual(['bo']);
+    });
+
+    it('handles accents and punctuation in names', () => {
+      expect(findMentions('@josé álvarez agreed', candidates)).toEqual(['jose']);
+      expect(findMentions('@J.R. Smith', candidates)).toEqual(['dotted']);
+      expect(findMentions('@JxR. Smith', candidates)).toEqual([]);
+    });
+
+    it('ignores users without a name and bodies without mentions', () => {
+      expect(findMentions('@', candidates)).toEqual([]);
+      expect(findMentions('No mentions here', candidates)).toEqual([]);
+      expect(findMentions('@Bo Chen', [])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * How many users the mention autocomplete returns by default, and at most
+ */
+export const DEFAULT_MENTION_SEARCH_LIMIT = 10;
+export const MAX_MENTION_SEARCH_LIMIT = 50;
+
+/**
+ * A user who can be mentioned on an idea
+ */
+export interface MentionCandidate {
+  id: string;
+  full_name: string | null;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find the users a comment body mentions
+ * A mention is @ followed by a user's full name, matched case-insensitively, at the start of the
+ * body or after a non-word character and not followed by a letter or digit. When names overlap,
+ * "@Ana Lima" mentions Ana Lima and not Ana.
+ * Mirrors public.find_comment_mentions in the database
+ * @param body The comment body
+ * @param candidates The users who can see the idea
+ * @returns The IDs of the mentioned users, in candidate order
+ */
+export function findMentions(body: string, candidates: MentionCandidate[]): string[] {
+  const text = body.toLowerCase();
+  const matched = candidates
+    .map(candidate => ({ id: candidate.id, name: candidate.full_name?.trim().toLowerCase() ?? '' }))
+    .filter(
+      ({ name }) =>
+        name &&
+        new RegExp(`(^|[^\\p{L}\\p{N}_])@${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, 'u').test(text)
+    );
+
+  const mentioned = matched
+    .filter(({ name }) => !matched.some(other => other.name.startsWith(`${name} `)))
+    .map(({ id }) => id);
+
+  return [...new Set(mentioned)];
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addNotification,
+  getNotificationPreferences,
+  InboxPage,
+  NOTIFICATION_TYPES,
+  updateNotification,
+  updateNotificationPreferencesSchema,
+} from './notifications';
+
+const notification = (id: string, read = false, idea_id = 'idea-1') => ({
+  id,
+  user_id: 'user-1',
+  workspace_id: 'ws-1',
+  idea_id,
+  type: 'new_comment',
+  meta: {},
+  read,
+  channel: 'in_app',
+  delivery_status: null,
+  delivery_attempts: 0,
+  delivery_error: null,
+  delivered_at: null,
+  created_at: '2025-01-24T10:00:00Z',
+});
+
+const inbox = (limit = 20): InboxPage => ({
+  data: [
+    {
+      ...notification('a'),
+      idea: { id: 'idea-1', title: 'Faster onboarding', status: 'submitted' },
+    },
+    { ...notification('b', true), idea: null },
+  ],
+  pagination: { total: 2, limit, offset: 0 },
+  unread: 1,
+  workspace_id: 'ws-1',
+});
+
+describe('notifications', () => {
+  describe('addNotification', () => {
+    it('lists new notifications first and counts unread ones', () => {
+      const page = addNotification(inbox(), notification('c'));
+      expect(page.data.map(n => n.id)).toEqual(['c', 'a', 'b']);
+      expect(page.unread).toBe(2);
+      expect(page.pagination.total).toBe(3);
+    });
+
+    it('takes the idea from notifications about the same idea', () => {
+      expect(addNotification(inbox(), notification('c')).data[0].idea?.title).toBe(
+        'Faster onboarding'
+      );
+      expect(addNotification(inbox(), notification('c', false, 'idea-2')).data[0].idea).toBeNull();
+    });
+
+    it('does not count read notifications as unread', () => {
+      expect(addNotification(inbox(), notification('c', true)).unread).toBe(1);
+    });
+
+    it('keeps the page at its limit', () => {
+      expect(addNotification(inbox(2), notification('c')).data.map(n => n.id)).toEqual(['c', 'a']);
+    });
+
+    it('ignores notifications already listed', () => {
+      const page = inbox();
+      expect(addNotification(page, notification('a'))).toBe(page);
+    });
+  });
+
+  describe('updateNotification', () => {
+    it('updates listed notifications and the unread count', () => {
+      const read = updateNotification(inbox(), notification('a', true));
+      expect(read?.data[0].read).toBe(true);
+      expect(read?.data[0].idea?.title).toBe('Faster onboarding');
+      expect(read?.unread).toBe(0);
+
+      expect(updateNotification(inbox(), notification('b', false))?.unread).toBe(2);
+    });
+
+    it('counts a repeated change once', () => {
+      const once = updateNotification(inbox(), notification('a', true))!;
+      expect(updateNotification(once, notification('a', true))?.unread).toBe(0);
+    });
+
+    it('cannot update notifications that are not listed', () => {
+      expect(updateNotification(inbox(), notification('z', true))).toBeNull();
+    });
+  });
+
+  describe('getNotificationPreferences', () => {
+    it('lists every type, in-app unless set otherwise', () => {
+      const preferences = getNotificationPreferences([
+        { type: 'status_change', channel: 'email' },
+        { type: 'user_comment', channel: 'off' },
+        { type: 'retired_type', channel: 'digest' },
+      ]);
+
+      expect(preferences.map(p => p.type)).toEqual([...NOTIFICATION_TYPES]);
+      expect(preferences.find(p => p.type === 'status_change')?.channel).toBe('email');
+      expect(preferences.find(p => p.type === 'user_comment')?.channel).toBe('off');
+      expect(preferences.find(p => p.type === 'mention')?.channel).toBe('in_app');
+    });
+
+    it('treats unknown channels as in-app', () => {
+      const preferences = getNotificationPreferences([{ type: 'mention', channel: 'pager' }]);
+      expect(preferences.find(p => p.type === 'mention')?.channel).toBe('in_app');
+      expect(getNotificationPreferences(null)).toHaveLength(NOTIFICATION_TYPES.length);
+    });
+  });
+
+  describe('updateNotificationPreferencesSchema', () => {
+    const ideaId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('accepts channels per type and ideas to mute or unmute', () => {
+      expect(
+        updateNotificationPreferencesSchema.parse({ preferences: { new_comment: 'digest' } })
+      ).toEqual({ preferences: { new_comment: 'digest' }, mute: [], unmute: [] });
+      expect(updateNotificationPreferencesSchema.parse({ mute: [ideaId] }).mute).toEqual([ideaId]);
+    });
+
+    it('rejects unknown types and channels', () => {
+      expect(
+        updateNotificationPreferencesSchema.safeParse({ preferences: { likes: 'email' } }).success
+      ).toBe(false);
+      expect(
+        updateNotificationPreferencesSchema.safeParse({ preferences: { mention: 'sms' } }).success
+      ).toBe(false);
+    });
+
+    it('requires a change', () => {
+      expect(updateNotificationPreferencesSchema.safeParse({}).success).toBe(false);
+    });
+
+    it('rejects muting and unmuting the same idea', () => {
+      expect(
+        updateNotificationPreferencesSchema.safeParse({ mute: [ideaId], unmute: [ideaId] }).success
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { Notification, NotificationPreference } from './supabase';
+
+/**
+ * Types of notification users can set preferences for
+ * Mirrors the notification types created by the database triggers
+ */
+export const NOTIFICATION_TYPES = [
+  'status_change',
+  'admin_comment',
+  'user_comment',
+  'new_comment',
+  'internal_comment',
+  'comment_reply',
+  'mention',
+  'assigned',
+  'member_added',
+  'withdrawn',
+  'review_overdue',
+  'campaign_closed',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * How a type of notification is delivered
+ * in_app only lists it in the inbox, email also sends it right away, digest also includes it in a
+ * periodic summary and off drops it. Mirrors the notification_preferences check constraint
+ */
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'digest', 'off'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// Channel of the types a user has not set a preference for
+export const DEFAULT_NOTIFICATION_CHANNEL: NotificationChannel = 'in_app';
+
+// Schema for validating notification preference changes
+// preferences sets the channel per type; mute and unmute take idea IDs
+export const updateNotificationPreferencesSchema = z
+  .object({
+    preferences: z
+      .record(
+        z.enum(NOTIFICATION_TYPES, {
+          errorMap: () => ({
+            message: `Notification type must be one of: ${NOTIFICATION_TYPES.join(', ')}`,
+          }),
+        }),
+        z.enum(NOTIFICATION_CHANNELS, {
+          errorMap: () => ({
+            message: `Channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`,
+          }),
+        })
+      )
+      .optional()
+      .default({}),
+    mute: z.array(z.string().uuid('Idea ID must be a valid UUID')).optional().default([]),
+    unmute: z.array(z.string().uuid('Idea ID must be a valid UUID')).optional().default([]),
+  })
+  .refine(
+    data =>
+      Object.keys(data.preferences).length > 0 || data.mute.length > 0 || data.unmute.length > 0,
+    { message: 'Provide preferences, ideas to mute or ideas to unmute' }
+  )
+  .refine(data => !data.mute.some(id => data.unmute.includes(id)), {
+    message: 'An idea cannot be muted and unmuted at once',
+    path: ['unmute'],
+  });
+
+/**
+ * The channel of every notification type for a user
+ * @param preferences The user's stored preferences
+ * @returns One entry per type in NOTIFICATION_TYPES order, defaulting to in-app
+ */
+export function getNotificationPreferences(
+  preferences: Pick<NotificationPreference, 'type' | 'channel'>[] | null | undefined
+): { type: NotificationType; channel: NotificationChannel }[] {
+  return NOTIFICATION_TYPES.map(type => {
+    const stored = (preferences ?? []).find(p => p.type === type)?.channel;
+    const channel = NOTIFICATION_CHANNELS.find(c => c === stored) ?? DEFAULT_NOTIFICATION_CHANNEL;
+    return { type, channel };
+  });
+}
+
+/**
+ * A notification as listed by GET /api/inbox, with the idea it is about
+ * Notifications that arrive over realtime have no idea attached until the inbox is refetched,
+ * unless another listed notification is about the same idea
+ */
+export type InboxNotification = Notification & {
+  idea: { id: string; title: string; status: string } | null;
+};
+
+/**
+ * A page of the inbox as returned by GET /api/inbox
+ */
+export interface InboxPage {
+  data: InboxNotification[];
+  pagination: {
+    total: number | null;
+    limit: number;
+    offset: number;
+  };
+  unread: number;
+  // The workspace the inbox was listed for
+  workspace_id: string;
+}
+
+/**
+ * Add a newly created notification to the first page of the inbox
+ * Notifications already listed are left alone, so a notification delivered twice is counted once
+ * @param page The cached inbox page
+ * @param notification The inserted row
+ * @returns The page with the notification first, still at most pagination.limit long
+ */
+export function addNotification(page: InboxPage, notification: Notification): InboxPage {
+  if (page.data.some(n => n.id === notification.id)) {
+    return page;
+  }
+
+  const idea = page.data.find(n => n.idea_id === notification.idea_id)?.idea ?? null;
+
+  return {
+    ...page,
+    data: [{ ...notification, idea }, ...page.data].slice(0, page.pagination.limit),
+    pagination: {
+      ...page.pagination,
+      total: page.pagination.total === null ? null : page.pagination.total + 1,
+    },
+    unread: page.unread + (notification.read ? 0 : 1),
+  };
+}
+
+/**
+ * Apply a change to a listed notification, keeping the unread count in step
+ * Applying the same change twice has no further effect
+ * @param page The cached inbox page
+ * @param notification The updated row
+ * @returns The updated page, or null when the notification is not listed and the unread count
+ * cannot be worked out without refetching
+ */
+export function updateNotification(page: InboxPage, notification: Notification): InboxPage | null {
+  const listed = page.data.find(n => n.id === notification.id);
+  if (!listed) {
+    return null;
+  }
+
+  const unreadChange = listed.read === notification.read ? 0 : notification.read ? -1 : 1;
+
+  return {
+    ...page,
+    data: page.data.map(n => (n.id === notification.id ? { ...notification, idea: n.idea } : n)),
+    unread: Math.max(0, page.unread + unreadChange),
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getQuorumState, reviewPolicySchema, ReviewVote } from './quorum';
+
+const panel = ['r1', 'r2', 'r3'];
+const approve = (reviewer_id: string): ReviewVote => ({ reviewer_id, decision: 'approve' });
+const reject = (reviewer_id: string): ReviewVote => ({ reviewer_id, decision: 'reject' });
+
+describe('quorum', () => {
+  describe('getQuorumState', () => {
+    it('waits until the required approvals are in', () => {
+      const policy = { approvals_required: 2, rejection_rule: 'veto' as const };
+
+      expect(getQuorumState(policy, panel, [approve('r1')])).toMatchObject({
+        approvals: 1,
+        voted: ['r1'],
+        pending: ['r2', 'r3'],
+        outcome: null,
+      });
+      expect(getQuorumState(policy, panel, [approve('r1'), approve('r3')]).outcome).toBe('approve');
+    });
+
+    it('rejects on the first reject vote under a veto rule', () => {
+      const policy = { approvals_required: 2, rejection_rule: 'veto' as const };
+      expect(getQuorumState(policy, panel, [approve('r1'), reject('r2')]).outcome).toBe('reject');
+    });
+
+    it('needs a quorum of reject votes under a quorum rule', () => {
+      const policy = { approvals_required: 2, rejection_rule: 'quorum' as const };
+
+      expect(getQuorumState(policy, panel, [reject('r1'), approve('r2')]).outcome).toBeNull();
+      expect(getQuorumState(policy, panel, [reject('r1'), reject('r2')]).outcome).toBe('reject');
+    });
+
+    it('rejects once too few reviewers are left to approve', () => {
+      const policy = { approvals_required: 3, rejection_rule: 'quorum' as const };
+
+      expect(getQuorumState(policy, panel, [approve('r1'), approve('r2')]).outcome).toBeNull();
+      expect(
+        getQuorumState(policy, panel, [approve('r1'), approve('r2'), reject('r3')])
+      ).toMatchObject({ approvals: 2, rejections: 1, pending: [], outcome: 'reject' });
+      expect(getQuorumState(policy, panel, [reject('r1')]).outcome).toBe('reject');
+    });
+
+    it('never requires more approvals than the panel has reviewers', () => {
+      const policy = { approvals_required: 5, rejection_rule: 'veto' as const };
+      const state = getQuorumState(policy, ['r1', 'r2'], [approve('r1'), approve('r2')]);
+
+      expect(state.approvals_required).toBe(2);
+      expect(state.outcome).toBe('approve');
+    });
+
+    it('ignores votes from reviewers who left the panel', () => {
+      const policy = { approvals_required: 1, rejection_rule: 'veto' as const };
+      const state = getQuorumState(policy, panel, [reject('former')]);
+
+      expect(state.rejections).toBe(0);
+      expect(state.outcome).toBeNull();
+    });
+  });
+
+  describe('reviewPolicySchema', () => {
+    it('only accepts known rejection rules and positive quorums', () => {
+      expect(
+        reviewPolicySchema.safeParse({ approvals_required: 2, rejection_rule: 'quorum' }).success
+      ).toBe(true);
+      expect(
+        reviewPolicySchema.safeParse({ approvals_required: 0, rejection_rule: 'veto' }).success
+      ).toBe(false);
+      expect(
+        reviewPolicySchema.safeParse({ approvals_required: 2, rejection_rule: 'majority' }).success
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+/**
+ * How a panel rejects an idea
+ * - veto: a single reject vote rejects the idea
+ * - quorum: rejection needs as many reject votes as approval needs approvals
+ * Either way an idea is rejected once too few reviewers are left to approve it
+ */
+export const REJECTION_RULES = ['veto', 'quorum'] as const;
+export type RejectionRule = (typeof REJECTION_RULES)[number];
+
+export type ReviewDecision = 'approve' | 'reject';
+
+/**
+ * The review policy in effect, stored as the single row of review_policy
+ */
+export interface QuorumPolicy {
+  approvals_required: number;
+  rejection_rule: RejectionRule;
+}
+
+/**
+ * A reviewer's vote in the current review round
+ */
+export interface ReviewVote {
+  reviewer_id: string;
+  decision: ReviewDecision;
+}
+
+/**
+ * Where a submitted idea stands with its review panel
+ */
+export interface QuorumState {
+  approvals_required: number;
+  rejection_rule: RejectionRule;
+  approvals: number;
+  rejections: number;
+  voted: string[];
+  pending: string[];
+  outcome: ReviewDecision | null;
+}
+
+// Used when no policy row can be read, matching the single-admin behaviour
+export const DEFAULT_QUORUM_POLICY: QuorumPolicy = {
+  approvals_required: 1,
+  rejection_rule: 'veto',
+};
+
+// Schema for validating review policy updates
+export const reviewPolicySchema = z.object({
+  approvals_required: z
+    .number()
+    .int('Approvals required must be a whole number')
+    .min(1, 'At least one approval is required')
+    .max(50, 'Approvals required is too large'),
+  rejection_rule: z.enum(REJECTION_RULES, {
+    required_error: "Rejection rule must be either 'veto' or 'quorum'",
+  }),
+});
+
+/**
+ * Count a panel's votes against the review policy
+ * Votes from reviewers no longer on the panel are ignored, and the quorum never
+ * exceeds the panel size so shrinking the panel cannot leave an idea stuck.
+ * Mirrors public.idea_quorum_reached in Postgres.
+ * @param policy The review policy in effect
+ * @param panel Reviewer IDs on the review panel
+ * @param votes Votes cast in the current review round
+ * @returns Vote tallies and the decision reached, if any
+ */
+export function getQuorumState(
+  policy: QuorumPolicy,
+  panel: string[],
+  votes: ReviewVote[]
+): QuorumState {
+  const panelVotes = votes.filter(vote => panel.includes(vote.reviewer_id));
+  const voted = panelVotes.map(vote => vote.reviewer_id);
+  const approvals = panelVotes.filter(vote => vote.decision === 'approve').length;
+  const rejections = panelVotes.filter(vote => vote.decision === 'reject').length;
+  const required = Math.max(1, Math.min(policy.approvals_required, panel.length));
+  const pending = panel.filter(id => !voted.includes(id));
+
+  let outcome: ReviewDecision | null = null;
+  if (
+    rejections >= (policy.rejection_rule === 'veto' ? 1 : required) ||
+    // Not enough reviewers left to approve, so the idea would otherwise wait forever
+    approvals + pending.length < required
+  ) {
+    outcome = 'reject';
+  } else if (approvals >= required) {
+    outcome = 'approve';
+  }
+
+  return {
+    approvals_required: required,
+    rejection_rule: policy.rejection_rule,
+    approvals,
+    rejections,
+    voted,
+    pending,
+    outcome,
+  };
+}
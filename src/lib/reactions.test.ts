@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { reactionSchema, summarizeReactions } from './reactions';
+
+describe('reactions', () => {
+  describe('reactionSchema', () => {
+    it('accepts reactions on ideas and comments', () => {
+      expect(reactionSchema.safeParse({ reaction: 'upvote' }).success).toBe(true);
+      expect(
+        reactionSchema.safeParse({
+          reaction: 'heart',
+          comment_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+        }).success
+      ).toBe(true);
+    });
+
+    it('rejects unknown reactions', () => {
+      const result = reactionSchema.safeParse({ reaction: 'thumbs_down' });
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toMatch(/^Reaction must be one of: upvote/);
+    });
+
+    it('only allows upvotes on ideas', () => {
+      const result = reactionSchema.safeParse({
+        reaction: 'upvote',
+        comment_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toBe('Only ideas can be upvoted');
+    });
+  });
+
+  describe('summarizeReactions', () => {
+    const reactions = [
+      { reaction: 'heart', user_id: 'ana' },
+      { reaction: 'upvote', user_id: 'bo' },
+      { reaction: 'heart', user_id: 'bo' },
+      { reaction: 'upvote', user_id: 'ana' },
+      { reaction: 'upvote', user_id: 'cy' },
+    ];
+
+    it('counts reactions by type, in display order', () => {
+      expect(summarizeReactions(reactions, 'cy')).toEqual([
+        { reaction: 'upvote', emoji: '⬆️', count: 3, reacted: true },
+        { reaction: 'heart', emoji: '❤️', count: 2, reacted: false },
+      ]);
+    });
+
+    it('handles missing reactions and users', () => {
+      expect(summarizeReactions(null, 'ana')).toEqual([]);
+      expect(summarizeReactions(reactions, null).every(summary => !summary.reacted)).toBe(true);
+    });
+  });
+});
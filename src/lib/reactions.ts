@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+/**
+ * Reactions users can leave on ideas and comments
+ * upvote is the one-per-user vote on an idea and cannot be left on comments; the others are emoji,
+ * stored by name. Mirrors the idea_reactions and comment_reactions check constraints in the database
+ */
+export const REACTIONS = [
+  'upvote',
+  'thumbs_up',
+  'heart',
+  'tada',
+  'rocket',
+  'eyes',
+  'laugh',
+] as const;
+
+export type ReactionType = (typeof REACTIONS)[number];
+
+/**
+ * The emoji shown for each reaction
+ */
+export const REACTION_EMOJI: Record<ReactionType, string> = {
+  upvote: '⬆️',
+  thumbs_up: '👍',
+  heart: '❤️',
+  tada: '🎉',
+  rocket: '🚀',
+  eyes: '👀',
+  laugh: '😄',
+};
+
+/**
+ * A reaction as needed to summarize it
+ */
+export interface ReactionRef {
+  reaction: string;
+  user_id: string;
+}
+
+/**
+ * How many users left a reaction, and whether the current user is one of them
+ */
+export interface ReactionSummary {
+  reaction: ReactionType;
+  emoji: string;
+  count: number;
+  reacted: boolean;
+}
+
+// Schema for validating a reaction on an idea, or on one of its comments (comment_id)
+export const reactionSchema = z
+  .object({
+    reaction: z.enum(REACTIONS, {
+      errorMap: () => ({ message: `Reaction must be one of: ${REACTIONS.join(', ')}` }),
+    }),
+    comment_id: z.string().uuid('Comment ID must be a valid UUID').optional(),
+  })
+  .refine(data => data.reaction !== 'upvote' || !data.comment_id, {
+    message: 'Only ideas can be upvoted',
+    path: ['reaction'],
+  });
+
+/**
+ * Count reactions by type
+ * @param reactions The reactions on an idea or comment
+ * @param userId The current user
+ * @returns The reactions anyone left, in REACTIONS order
+ */
+export function summarizeReactions(
+  reactions: ReactionRef[] | null | undefined,
+  userId: string | null | undefined
+): ReactionSummary[] {
+  return REACTIONS.map(reaction => {
+    const left = (reactions ?? []).filter(r => r.reaction === reaction);
+    return {
+      reaction,
+      emoji: REACTION_EMOJI[reaction],
+      count: left.length,
+      reacted: !!userId && left.some(r => r.user_id === userId),
+    };
+  }).filter(summary => summary.count > 0);
+}
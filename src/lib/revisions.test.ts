@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, diffRevisions, getChangesSinceLastReview, MAX_DIFF_CELLS } from './revisions';
+
+const revision = (
+  n: number,
+  overrides: Partial<{ title: string; description: string; tags: string[]; event: string }> = {}
+) => ({
+  revision: n,
+  event: 'updated',
+  title: 'Solar kiosks',
+  description: 'Charge phones with solar power at bus stops',
+  tags: ['energy'],
+  ...overrides,
+});
+
+describe('revisions', () => {
+  describe('diffWords', () => {
+    it('returns a single equal segment for identical text', () => {
+      expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', value: 'same text' }]);
+    });
+
+    it('marks replaced words as removed and added', () => {
+      expect(diffWords('a quick fox', 'a slow fox')).toEqual([
+        { type: 'equal', value: 'a ' },
+        { type: 'removed', value: 'quick' },
+        { type: 'added', value: 'slow' },
+        { type: 'equal', value: ' fox' },
+      ]);
+    });
+
+    it('treats empty input as fully added or removed', () => {
+      expect(diffWords('', 'new text')).toEqual([{ type: 'added', value: 'new text' }]);
+      expect(diffWords('old text', '')).toEqual([{ type: 'removed', value: 'old text' }]);
+    });
+
+    it('can rebuild both versions from the segments', () => {
+      const before = 'Charge phones with solar power at bus stops';
+      const after = 'Charge phones and e-bikes with solar power at train stations';
+      const segments = diffWords(before, after);
+
+      const rebuild = (skip: string) =>
+        segments
+          .filter(s => s.type !== skip)
+          .map(s => s.value)
+          .join('');
+
+      expect(rebuild('added')).toBe(before);
+      expect(rebuild('removed')).toBe(after);
+    });
+
+    it('only diffs the changed middle of long texts', () => {
+      const words = Array.from({ length: 5000 }, (_, i) => `word${i}`);
+      const before = words.join(' ');
+      const after = [...words.slice(0, 2500), 'inserted', ...words.slice(2500)].join(' ');
+
+      const segments = diffWords(before, after);
+      expect(segments.map(s => s.type)).toEqual(['equal', 'added', 'equal']);
+      expect(segments[1].value).toBe('inserted ');
+    });
+
+    it('falls back to a block diff when too many words changed', () => {
+      const count = Math.ceil(Math.sqrt(MAX_DIFF_CELLS));
+      const before = Array.from({ length: count }, (_, i) => `old${i}`).join(' ');
+      const after = Array.from({ length: count }, (_, i) => `new${i}`).join(' ');
+
+      expect(diffWords(`Intro ${before} outro`, `Intro ${after} outro`)).toEqual([
+        { type: 'equal', value: 'Intro ' },
+        { type: 'removed', value: before },
+        { type: 'added', value: after },
+        { type: 'equal', value: ' outro' },
+      ]);
+    });
+  });
+
+  describe('diffRevisions', () => {
+    it('reports only the fields that changed', () => {
+      const diff = diffRevisions(revision(1), revision(2, { title: 'Solar kiosks v2' }));
+      expect(diff.from).toBe(1);
+      expect(diff.to).toBe(2);
+      expect(diff.changedFields).toEqual(['title']);
+    });
+
+    it('lists added and removed tags', () => {
+      const diff = diffRevisions(revision(1), revision(2, { tags: ['transport'] }));
+      const tags = diff.fields.find(f => f.field === 'tags');
+      expect(tags).toMatchObject({ changed: true, added: ['transport'], removed: ['energy'] });
+    });
+
+    it('diffs the first revision against nothing', () => {
+      const diff = diffRevisions(null, revision(1));
+      expect(diff.from).toBeNull();
+      expect(diff.changedFields).toEqual(['title', 'description', 'tags']);
+    });
+  });
+
+  describe('getChangesSinceLastReview', () => {
+    it('returns no changes for ideas that were never reviewed', () => {
+      expect(getChangesSinceLastReview([revision(1, { event: 'created' })])).toEqual({
+        lastReviewedRevision: null,
+        changedSinceReview: false,
+        changedFields: [],
+      });
+    });
+
+    it('detects edits made after a rejection', () => {
+      const result = getChangesSinceLastReview([
+        revision(4, { event: 'submitted', description: 'Now with a pilot plan' }),
+        revision(1, { event: 'created' }),
+        revision(2, { event: 'submitted' }),
+        revision(3, { event: 'reviewed' }),
+      ]);
+      expect(result).toEqual({
+        lastReviewedRevision: 3,
+        changedSinceReview: true,
+        changedFields: ['description'],
+      });
+    });
+
+    it('does not flag resubmissions without edits', () => {
+      const result = getChangesSinceLastReview([
+        revision(1, { event: 'submitted' }),
+        revision(2, { event: 'reviewed' }),
+        revision(3, { event: 'submitted' }),
+      ]);
+      expect(result.changedSinceReview).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { IdeaRevision } from './supabase';
+
+/**
+ * Idea fields that are captured in every revision snapshot
+ */
+export type RevisionField = 'title' | 'description' | 'tags';
+
+export const REVISION_FIELDS: RevisionField[] = ['title', 'description', 'tags'];
+
+/**
+ * The part of a revision needed to compute diffs
+ */
+export type RevisionSnapshot = Pick<IdeaRevision, 'revision' | 'title' | 'description' | 'tags'>;
+
+/**
+ * A run of words that was kept, added or removed between two versions
+ */
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface TextFieldDiff {
+  field: 'title' | 'description';
+  changed: boolean;
+  before: string;
+  after: string;
+  words: DiffSegment[];
+}
+
+export interface TagsFieldDiff {
+  field: 'tags';
+  changed: boolean;
+  before: string[];
+  after: string[];
+  added: string[];
+  removed: string[];
+}
+
+export type FieldDiff = TextFieldDiff | TagsFieldDiff;
+
+export interface RevisionDiff {
+  from: number | null;
+  to: number;
+  changedFields: RevisionField[];
+  fields: FieldDiff[];
+}
+
+/**
+ * Longest description an idea can be given directly, in characters
+ * Keeps revision snapshots, and the word diffs between them, to a reasonable size
+ */
+export const MAX_DESCRIPTION_LENGTH = 20000;
+
+/**
+ * Largest table the word diff fills, in cells (changed words before times changed words after)
+ * Texts that differ in more words than this are diffed as a whole block removed and added
+ */
+export const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Compute a word-level diff between two strings
+ * Whitespace is kept as its own token so the segments can be joined back into the original text
+ * Words shared at the start and end are matched first, so edits in long texts only diff the middle
+ * @param before Previous text
+ * @param after New text
+ * @returns Ordered list of equal/added/removed segments
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before ? before.split(/(\s+)/).filter(Boolean) : [];
+  const b = after ? after.split(/(\s+)/).filter(Boolean) : [];
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], value: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      segments.push({ type, value });
+    }
+  };
+
+  // Skip the words both versions start and end with
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    push('equal', a[start++]);
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const columns = endB - start;
+
+  if (rows * columns > MAX_DIFF_CELLS) {
+    // Too many changed words to diff word by word
+    for (let i = start; i < endA; i++) push('removed', a[i]);
+    for (let j = start; j < endB; j++) push('added', b[j]);
+  } else {
+    // Longest common subsequence table of the middle, filled from the end
+    const width = columns + 1;
+    const lcs = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[start + i] === b[start + j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (a[start + i] === b[start + j]) {
+        push('equal', a[start + i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('removed', a[start + i]);
+        i++;
+      } else {
+        push('added', b[start + j]);
+        j++;
+      }
+    }
+    while (i < rows) push('removed', a[start + i++]);
+    while (j < columns) push('added', b[start + j++]);
+  }
+
+  for (let i = endA; i < a.length; i++) push('equal', a[i]);
+
+  return segments;
+}
+
+/**
+ * Compute a field-level and word-level diff between two revisions
+ * @param from Previous revision, or null when diffing the first revision
+ * @param to Revision to compare against
+ * @returns Diff of every tracked field
+ */
+export function diffRevisions(from: RevisionSnapshot | null, to: RevisionSnapshot): RevisionDiff {
+  const fields: FieldDiff[] = REVISION_FIELDS.map(field => {
+    if (field === 'tags') {
+      const before = from?.tags || [];
+      const after = to.tags || [];
+      const added = after.filter(tag => !before.includes(tag));
+      const removed = before.filter(tag => !after.includes(tag));
+      return {
+        field,
+        changed: added.length > 0 || removed.length > 0,
+        before,
+        after,
+        added,
+        removed,
+      };
+    }
+
+    const before = from?.[field] || '';
+    const after = to[field] || '';
+    return {
+      field,
+      changed: before !== after,
+      before,
+      after,
+      words: diffWords(before, after),
+    };
+  });
+
+  return {
+    from: from?.revision ?? null,
+    to: to.revision,
+    changedFields: fields.filter(diff => diff.changed).map(diff => diff.field),
+    fields,
+  };
+}
+
+/**
+ * Work out what changed in an idea since an admin last reviewed it
+ * Mirrors public.idea_review_changes, which the admin idea list uses to skip loading revision texts
+ * @param revisions All revisions of a single idea, in any order
+ * @returns The last reviewed revision number and the fields changed since then
+ */
+export function getChangesSinceLastReview(
+  revisions: (RevisionSnapshot & Pick<IdeaRevision, 'event'>)[]
+): { lastReviewedRevision: number | null; changedSinceReview: boolean; changedFields: RevisionField[] } {
+  const sorted = [...revisions].sort((a, b) => a.revision - b.revision);
+  const lastReview = [...sorted].reverse().find(revision => revision.event === 'reviewed');
+  const latest = sorted[sorted.length - 1];
+
+  if (!lastReview || !latest) {
+    return { lastReviewedRevision: null, changedSinceReview: false, changedFields: [] };
+  }
+
+  const { changedFields } = diffRevisions(lastReview, latest);
+
+  return {
+    lastReviewedRevision: lastReview.revision,
+    changedSinceReview: changedFields.length > 0,
+    changedFields,
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { computeWeightedScore, rubricSchema, scoreScorecard, scorecardSchema } from './rubrics';
+
+const criteria = [
+  { key: 'impact', label: 'Impact', weight: 3 },
+  { key: 'feasibility', label: 'Feasibility', weight: 2 },
+  { key: 'cost', label: 'Cost', weight: 1 },
+];
+
+describe('rubrics', () => {
+  describe('computeWeightedScore', () => {
+    it('weights each score by its criterion', () => {
+      const scored = [
+        { ...criteria[0], score: 5 },
+        { ...criteria[1], score: 2 },
+        { ...criteria[2], score: 1 },
+      ];
+      // (5*3 + 2*2 + 1*1) / 6 = 3.333...
+      expect(computeWeightedScore(scored)).toBe(3.33);
+    });
+
+    it('returns 0 for an empty scorecard', () => {
+      expect(computeWeightedScore([])).toBe(0);
+    });
+  });
+
+  describe('scoreScorecard', () => {
+    it('scores a complete scorecard', () => {
+      const result = scoreScorecard(criteria, { impact: 4, feasibility: 4, cost: 4 });
+      expect(result.error).toBeUndefined();
+      expect(result).toMatchObject({ weightedScore: 4 });
+    });
+
+    it('rejects scorecards with missing criteria', () => {
+      expect(scoreScorecard(criteria, { impact: 4 })).toEqual({
+        error: 'Missing scores for: feasibility, cost',
+      });
+    });
+
+    it('rejects scorecards with unknown criteria', () => {
+      expect(scoreScorecard(criteria, { impact: 4, feasibility: 4, cost: 4, vibes: 5 })).toEqual({
+        error: 'Unknown criteria: vibes',
+      });
+    });
+  });
+
+  describe('scorecardSchema', () => {
+    it('only accepts whole scores between 1 and 5', () => {
+      expect(scorecardSchema.safeParse({ scores: { impact: 5 } }).success).toBe(true);
+      expect(scorecardSchema.safeParse({ scores: { impact: 0 } }).success).toBe(false);
+      expect(scorecardSchema.safeParse({ scores: { impact: 6 } }).success).toBe(false);
+      expect(scorecardSchema.safeParse({ scores: { impact: 2.5 } }).success).toBe(false);
+    });
+  });
+
+  describe('rubricSchema', () => {
+    it('rejects duplicate criterion keys', () => {
+      const result = rubricSchema.safeParse({
+        name: 'Duplicate keys',
+        criteria: [criteria[0], criteria[0]],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
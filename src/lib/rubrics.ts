@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+/**
+ * Every rubric criterion is scored on the same scale
+ */
+export const SCORE_MIN = 1;
+export const SCORE_MAX = 5;
+
+/**
+ * A rubric criterion as needed for scoring
+ */
+export interface RubricCriterion {
+  key: string;
+  label: string;
+  weight: number;
+}
+
+/**
+ * A criterion together with the score a reviewer gave it
+ * This is the shape stored in idea_reviews.scores
+ */
+export interface ScoredCriterion extends RubricCriterion {
+  score: number;
+}
+
+// Schema for validating a single rubric criterion
+export const criterionSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, 'Criterion keys must be lowercase letters, digits and underscores')
+    .max(50, 'Criterion keys must be at most 50 characters'),
+  label: z.string().min(1, 'Criterion label is required').max(100, 'Criterion label is too long'),
+  description: z.string().max(500, 'Criterion description is too long').optional(),
+  weight: z.number().positive('Criterion weight must be positive').max(100, 'Criterion weight is too large'),
+});
+
+// Schema for validating rubric creation and replacement
+export const rubricSchema = z.object({
+  name: z.string().min(3, 'Name must be at least 3 characters').max(100, 'Name must be at most 100 characters'),
+  description: z.string().max(1000, 'Description is too long').optional(),
+  is_default: z.boolean().optional().default(false),
+  criteria: z
+    .array(criterionSchema)
+    .min(1, 'A rubric needs at least one criterion')
+    .refine(
+      criteria => new Set(criteria.map(c => c.key)).size === criteria.length,
+      'Criterion keys must be unique'
+    ),
+});
+
+// Schema for validating a scorecard submitted with a decision
+export const scorecardSchema = z.object({
+  rubric_id: z.string().uuid().optional(),
+  scores: z.record(
+    z
+      .number()
+      .int('Scores must be whole numbers')
+      .min(SCORE_MIN, `Scores must be between ${SCORE_MIN} and ${SCORE_MAX}`)
+      .max(SCORE_MAX, `Scores must be between ${SCORE_MIN} and ${SCORE_MAX}`)
+  ),
+});
+
+export type Scorecard = z.infer<typeof scorecardSchema>;
+
+/**
+ * Compute the weighted average of a scorecard
+ * @param scored Criteria with their scores
+ * @returns Score on the SCORE_MIN-SCORE_MAX scale, rounded to two decimals
+ */
+export function computeWeightedScore(scored: ScoredCriterion[]): number {
+  const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) return 0;
+
+  const weighted = scored.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight;
+  return Math.round(weighted * 100) / 100;
+}
+
+/**
+ * Match a submitted scorecard against a rubric's criteria
+ * @param criteria The rubric's criteria
+ * @param scores Scores keyed by criterion key
+ * @returns The scored criteria and weighted score, or an error message
+ */
+export function scoreScorecard(
+  criteria: RubricCriterion[],
+  scores: Record<string, number>
+): { scored: ScoredCriterion[]; weightedScore: number; error?: undefined } | { error: string } {
+  const missing = criteria.filter(c => scores[c.key] === undefined).map(c => c.key);
+  if (missing.length) {
+    return { error: `Missing scores for: ${missing.join(', ')}` };
+  }
+
+  const known = new Set(criteria.map(c => c.key));
+  const unknown = Object.keys(scores).filter(key => !known.has(key));
+  if (unknown.length) {
+    return { error: `Unknown criteria: ${unknown.join(', ')}` };
+  }
+
+  const scored = criteria.map(({ key, label, weight }) => ({
+    key,
+    label,
+    weight: Number(weight),
+    score: scores[key],
+  }));
+
+  return { scored, weightedScore: computeWeightedScore(scored) };
+}
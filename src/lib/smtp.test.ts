@@ -0,0 +1,234 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, Server } from 'net';
+import { buildMimeMessage, getMailboxAddress, getSmtpConfig, sendMail, SmtpConfig } from './smtp';
+
+/**
+ * A mail catcher speaking just enough SMTP, recording the commands and message it receives
+ * @param rcptReply The reply to RCPT TO, to simulate refused recipients
+ * @param starttls Whether to offer STARTTLS; the connection ends once the TLS handshake starts
+ * @param host The address to listen on
+ */
+const startServer = async (rcptReply = '250 OK', { starttls = false, host = '127.0.0.1' } = {}) => {
+  const received = { commands: [] as string[], data: '', handshake: false };
+
+  const server = createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let upgrading = false;
+
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', chunk => {
+      // A TLS handshake starts with a handshake record
+      if (upgrading) {
+        received.handshake = chunk[0] === 0x16;
+        socket.destroy();
+        return;
+      }
+
+      buffer += chunk.toString();
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        received.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 Queued\r\n');
+      }
+
+      let end: number;
+      while (!inData && (end = buffer.indexOf('\r\n')) !== -1) {
+        const command = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        received.commands.push(command);
+
+        if (command.startsWith('EHLO')) {
+          socket.write(`250-localhost\r\n${starttls ? '250-STARTTLS\r\n' : ''}250 AUTH PLAIN\r\n`);
+        } else if (command === 'STARTTLS') {
+          upgrading = true;
+          socket.write('220 Ready to start TLS\r\n');
+        } else if (command.startsWith('AUTH')) socket.write('235 Authenticated\r\n');
+        else if (command.startsWith('RCPT')) socket.write(`${rcptReply}\r\n`);
+        else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 Go ahead\r\n');
+        } else if (command === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, host, resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+
+  return { server, port, received };
+};
+
+let server: Server | null = null;
+
+const configFor = (port: number, overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+  host: '127.0.0.1',
+  port,
+  secure: false,
+  from: 'Ideazoop <notifications@example.com>',
+  ...overrides,
+});
+
+// Decode the base64 body parts of a MIME message
+const decodeParts = (source: string) =>
+  [...source.matchAll(/base64\r\n\r\n([A-Za-z0-9+/=\r\n]+?)(?:\r\n--|$)/g)].map(([, body]) =>
+    Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')
+  );
+
+describe('smtp', () => {
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  describe('getSmtpConfig', () => {
+    it('defaults to the local mail catcher', () => {
+      expect(getSmtpConfig({})).toEqual({
+        host: 'localhost',
+        port: 54325,
+        secure: false,
+        user: undefined,
+        pass: undefined,
+        from: 'Ideazoop <notifications@localhost>',
+      });
+    });
+
+    it('reads the SMTP settings', () => {
+      expect(
+        getSmtpConfig({
+          SMTP_HOST: 'smtp.example.com',
+          SMTP_PORT: '465',
+          SMTP_SECURE: 'true',
+          SMTP_USER: 'apikey',
+          SMTP_PASS: 'secret',
+          EMAIL_FROM: 'Team <team@example.com>',
+        })
+      ).toEqual({
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        user: 'apikey',
+        pass: 'secret',
+        from: 'Team <team@example.com>',
+      });
+    });
+  });
+
+  describe('getMailboxAddress', () => {
+    it('extracts the address', () => {
+      expect(getMailboxAddress('Ideazoop <a@example.com>')).toBe('a@example.com');
+      expect(getMailboxAddress(' a@example.com ')).toBe('a@example.com');
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    it('sends text with an HTML alternative', () => {
+      const source = buildMimeMessage(
+        'Ideazoop <n@example.com>',
+        { to: 'a@example.com', subject: 'Hello', text: 'Plain', html: '<p>Rich</p>' },
+        new Date('2025-01-26T10:00:00Z')
+      );
+
+      expect(source).toContain('Subject: Hello\r\n');
+      expect(source).toContain('Date: Sun, 26 Jan 2025 10:00:00 +0000\r\n');
+      expect(source).toContain('Content-Type: multipart/alternative;');
+      expect(decodeParts(source)).toEqual(['Plain', '<p>Rich</p>']);
+    });
+
+    it('encodes non-ASCII headers and keeps header lines whole', () => {
+      const source = buildMimeMessage('n@example.com', {
+        to: 'a@example.com',
+        subject: 'Café\r\nBcc: victim@example.com',
+        text: 'Plain',
+      });
+
+      expect(source).not.toContain('\r\nBcc:');
+      expect(source).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('Café Bcc: victim@example.com').toString('base64')}?=`
+      );
+    });
+  });
+
+  describe('sendMail', () => {
+    it('delivers the message', async () => {
+      const started = await startServer();
+      server = started.server;
+
+      await sendMail(configFor(started.port, { user: 'apikey', pass: 'secret' }), {
+        to: 'Ada <ada@example.com>',
+        subject: 'Your idea was approved',
+        text: '.leading dot\nApproved',
+        html: '<p>Approved</p>',
+      });
+
+      expect(started.received.commands).toEqual([
+        'EHLO example.com',
+        `AUTH PLAIN ${Buffer.from('\u0000apikey\u0000secret').toString('base64')}`,
+        'MAIL FROM:<notifications@example.com>',
+        'RCPT TO:<ada@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      expect(started.received.data).toContain('To: Ada <ada@example.com>');
+      expect(decodeParts(started.received.data)).toEqual([
+        '.leading dot\nApproved',
+        '<p>Approved</p>',
+      ]);
+    });
+
+    it('fails with the server’s reply when the email is refused', async () => {
+      const started = await startServer('550 No such user');
+      server = started.server;
+
+      await expect(
+        sendMail(configFor(started.port), { to: 'nobody@example.com', subject: 'Hi', text: 'Hi' })
+      ).rejects.toThrow('SMTP 550: No such user');
+    });
+
+    it('switches to TLS before authenticating when the server offers STARTTLS', async () => {
+      const started = await startServer('250 OK', { starttls: true });
+      server = started.server;
+
+      await expect(
+        sendMail(configFor(started.port, { user: 'apikey', pass: 'secret' }), {
+          to: 'a@example.com',
+          subject: 'Hi',
+          text: 'Hi',
+        })
+      ).rejects.toThrow();
+      expect(started.received.commands).toEqual(['EHLO example.com', 'STARTTLS']);
+      expect(started.received.handshake).toBe(true);
+    });
+
+    it('refuses to send credentials unencrypted to servers other than the local one', async () => {
+      const started = await startServer('250 OK', { host: '127.0.0.2' });
+      server = started.server;
+
+      await expect(
+        sendMail(configFor(started.port, { host: '127.0.0.2', user: 'apikey', pass: 'secret' }), {
+          to: 'a@example.com',
+          subject: 'Hi',
+          text: 'Hi',
+        })
+      ).rejects.toThrow('Refusing to send SMTP credentials to 127.0.0.2');
+      expect(started.received.commands).toEqual(['EHLO example.com']);
+    });
+
+    it('refuses addresses that would inject SMTP commands', async () => {
+      await expect(
+        sendMail(configFor(1), {
+          to: 'a@example.com>\r\nRCPT TO:<b@example.com',
+          subject: 'Hi',
+          text: 'Hi',
+        })
+      ).rejects.toThrow('Invalid email address');
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { connect as connectPlain, Socket } from 'net';
+import { connect as connectTls, TLSSocket } from 'tls';
+import { randomUUID } from 'crypto';
+
+/**
+ * SMTP port of the mail catcher in the local Supabase stack (Inbucket, see supabase/config.toml)
+ */
+export const DEFAULT_SMTP_PORT = 54325;
+
+// How long the server may take to answer before the connection is given up
+export const SMTP_TIMEOUT = 30 * 1000; // 30 seconds
+
+/**
+ * Hosts credentials may be sent to without encryption, for the local mail catcher
+ */
+export const LOCAL_SMTP_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * Where and how mail is sent
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Connect over TLS from the start (port 465); plain connections are upgraded with STARTTLS when
+  // the server offers it
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Sender, e.g. "Ideazoop <notifications@example.com>"
+  from: string;
+}
+
+/**
+ * An email to one recipient
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Read the SMTP settings from the environment
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and EMAIL_FROM; without them mail goes
+ * to the local mail catcher
+ */
+export function getSmtpConfig(env: Record<string, string | undefined> = process.env): SmtpConfig {
+  const port = Number(env.SMTP_PORT);
+
+  return {
+    host: env.SMTP_HOST?.trim() || 'localhost',
+    port: Number.isInteger(port) && port > 0 ? port : DEFAULT_SMTP_PORT,
+    secure: env.SMTP_SECURE === 'true',
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.EMAIL_FROM?.trim() || 'Ideazoop <notifications@localhost>',
+  };
+}
+
+/**
+ * The bare address of a mailbox, e.g. "Ideazoop <a@example.com>" -> "a@example.com"
+ */
+export function getMailboxAddress(mailbox: string): string {
+  return (mailbox.match(/<([^>]*)>/)?.[1] ?? mailbox).trim();
+}
+
+// Header values outside ASCII are sent as RFC 2047 encoded words
+const encodeHeader = (value: string) => {
+  const cleaned = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(cleaned)
+    ? cleaned
+    : `=?UTF-8?B?${Buffer.from(cleaned, 'utf8').toString('base64')}?=`;
+};
+
+// Body parts are base64 encoded, in lines of 76 characters
+const encodeBody = (value: string) =>
+  (
+    Buffer.from(value, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g) ?? []
+  ).join('\r\n');
+
+/**
+ * Build the MIME source of an email: plain text, with an HTML alternative when given
+ * @param from The sender
+ * @param message The email
+ * @param date When the email is sent
+ */
+export function buildMimeMessage(from: string, message: MailMessage, date = new Date()): string {
+  const domain = getMailboxAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const part = (type: string, content: string) =>
+    [
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(content),
+    ].join('\r\n');
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Read the server's replies, one at a time
+ * A reply may span several lines ("250-..." up to "250 ...")
+ */
+function createReplyReader(socket: Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: { code: number; text: string }[] = [];
+  const waiting: {
+    resolve: (reply: { code: number; text: string }) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  let failure: Error | null = null;
+
+  const settle = () => {
+    while (replies.length && waiting.length) {
+      waiting.shift()!.resolve(replies.shift()!);
+    }
+    if (failure) {
+      waiting.splice(0).forEach(w => w.reject(failure!));
+    }
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.join(' ').trim() });
+        lines = [];
+      }
+    }
+    settle();
+  });
+  socket.on('error', error => {
+    failure = error;
+    settle();
+  });
+  socket.on('close', () => {
+    failure ??= new Error('SMTP connection closed unexpectedly');
+    settle();
+  });
+
+  return () =>
+    new Promise<{ code: number; text: string }>((resolve, reject) => {
+      waiting.push({ resolve, reject });
+      settle();
+    });
+}
+
+/**
+ * Send an email over SMTP
+ * Plain connections switch to TLS with STARTTLS when the server offers it. Authenticates with
+ * AUTH PLAIN when a user is configured, which needs an encrypted connection unless the server is
+ * one of LOCAL_SMTP_HOSTS
+ * @throws Error with the server's reply when it refuses the email
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  // Addresses go into SMTP commands as they are, so they must not carry anything else
+  for (const mailbox of [config.from, message.to]) {
+    if (!/^[^\s<>@]+@[^\s<>@]+$/.test(getMailboxAddress(mailbox))) {
+      throw new Error(`Invalid email address: ${JSON.stringify(mailbox)}`);
+    }
+  }
+
+  const plain = await new Promise<Socket>((resolve, reject) => {
+    const connected = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, () =>
+          resolve(connected)
+        )
+      : connectPlain({ host: config.host, port: config.port }, () => resolve(connected));
+    connected.once('error', reject);
+  });
+
+  let socket = plain;
+  let encrypted = config.secure;
+  socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new Error('SMTP server timed out')));
+  let nextReply = createReplyReader(socket);
+
+  const expect = async (codes: number[], command?: string) => {
+    if (command !== undefined) {
+      socket.write(`${command}\r\n`);
+    }
+    const reply = await nextReply();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    const ehlo = `EHLO ${getMailboxAddress(config.from).split('@')[1] || 'localhost'}`;
+    await expect([220]);
+    const features = await expect([250], ehlo);
+
+    if (!encrypted && /\bSTARTTLS\b/i.test(features.text)) {
+      await expect([220], 'STARTTLS');
+
+      // The TLS socket reads from the connection from here on
+      plain.removeAllListeners('data');
+      socket = await new Promise<TLSSocket>((resolve, reject) => {
+        const upgraded = connectTls({ socket: plain, servername: config.host }, () =>
+          resolve(upgraded)
+        );
+        upgraded.once('error', reject);
+      });
+      encrypted = true;
+      socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new Error('SMTP server timed out')));
+      nextReply = createReplyReader(socket);
+
+      // The server forgets what it was told before STARTTLS
+      await expect([250], ehlo);
+    }
+
+    if (config.user) {
+      if (!encrypted && !LOCAL_SMTP_HOSTS.includes(config.host)) {
+        throw new Error(
+          `Refusing to send SMTP credentials to ${config.host} over an unencrypted connection`
+        );
+      }
+
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.pass ?? ''}`).toString(
+        'base64'
+      );
+      await expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await expect([250], `MAIL FROM:<${getMailboxAddress(config.from)}>`);
+    await expect([250, 251], `RCPT TO:<${getMailboxAddress(message.to)}>`);
+    await expect([354], 'DATA');
+
+    // Lines starting with a dot are escaped so they cannot end the message early
+    const source = buildMimeMessage(config.from, message).replace(/^\./gm, '..');
+    await expect([250], `${source}\r\n.`);
+    await expect([221], 'QUIT');
+  } finally {
+    socket.destroy();
+    plain.destroy();
+  }
+}
@@ -4,13 +4,32 @@ import { Database } from './database.types';
 // Types for our database tables
 export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type Idea = Database['public']['Tables']['ideas']['Row'];
+export type IdeaAttachment = Database['public']['Tables']['idea_attachments']['Row'];
+export type IdeaField = Database['public']['Tables']['idea_fields']['Row'];
+export type IdeaTemplate = Database['public']['Tables']['idea_templates']['Row'];
+export type IdeaRevision = Database['public']['Tables']['idea_revisions']['Row'];
+export type IdeaMember = Database['public']['Tables']['idea_members']['Row'];
+export type IdeaReview = Database['public']['Tables']['idea_reviews']['Row'];
+export type IdeaReaction = Database['public']['Tables']['idea_reactions']['Row'];
+export type Campaign = Database['public']['Tables']['campaigns']['Row'];
+export type Rubric = Database['public']['Tables']['rubrics']['Row'];
+export type ReviewPolicy = Database['public']['Tables']['review_policy']['Row'];
 export type Comment = Database['public']['Tables']['comments']['Row'];
+export type CommentRevision = Database['public']['Tables']['comment_revisions']['Row'];
+export type CommentMention = Database['public']['Tables']['comment_mentions']['Row'];
+export type CommentReaction = Database['public']['Tables']['comment_reactions']['Row'];
 export type Notification = Database['public']['Tables']['notifications']['Row'];
+export type NotificationPreference = Database['public']['Tables']['notification_preferences']['Row'];
+export type NotificationMute = Database['public']['Tables']['notification_mutes']['Row'];
+export type Webhook = Database['public']['Tables']['webhooks']['Row'];
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row'];
 export type OpenAILog = Database['public']['Tables']['openai_logs']['Row'];
+export type Workspace = Database['public']['Tables']['workspaces']['Row'];
+export type WorkspaceMember = Database['public']['Tables']['workspace_members']['Row'];
 
 // Enum types from the database
 export type UserRole = 'owner' | 'admin';
-export type IdeaStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+export type IdeaStatus = Database['public']['Enums']['idea_status'];
 
 // Environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_TEMPLATES,
+  TemplateSnapshot,
+  buildSectionsSchema,
+  getBuiltInTemplate,
+  getIncompleteSections,
+  getSectionsSubmissionError,
+  getSectionsView,
+  ideaTemplateSchema,
+  mergeSections,
+  renderSections,
+  toTemplateSnapshot,
+  updateIdeaTemplateSchema,
+} from './templates';
+
+const template: TemplateSnapshot = {
+  key: 'claims-brief',
+  name: 'Claims brief',
+  version: 2,
+  sections: [
+    { key: 'problem', title: 'Problem', prompt: 'What is broken?', required: true },
+    { key: 'impact', title: 'Impact', prompt: '', required: true, min_length: 20 },
+    { key: 'notes', title: 'Notes', prompt: 'Anything else?', required: false },
+  ],
+};
+
+describe('templates', () => {
+  describe('BUILT_IN_TEMPLATES', () => {
+    it('offers the standard templates', () => {
+      expect(BUILT_IN_TEMPLATES.map(t => t.key)).toEqual([
+        'problem-solution-brief',
+        'lean-canvas',
+        'business-model-canvas',
+        'experiment-proposal',
+      ]);
+    });
+
+    it('defines templates that pass their own validation', () => {
+      for (const { sections, name, description } of BUILT_IN_TEMPLATES) {
+        expect(
+          ideaTemplateSchema.safeParse({ key: 'copy', name, description, sections }).success
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe('getBuiltInTemplate', () => {
+    it('looks up built-in templates by key', () => {
+      expect(getBuiltInTemplate('lean-canvas')?.name).toBe('Lean Canvas');
+      expect(getBuiltInTemplate('claims-brief')).toBeUndefined();
+    });
+  });
+
+  describe('toTemplateSnapshot', () => {
+    it('keeps only what ideas store', () => {
+      const snapshot = toTemplateSnapshot(getBuiltInTemplate('experiment-proposal')!);
+      expect(Object.keys(snapshot).sort()).toEqual(['key', 'name', 'sections', 'version']);
+    });
+  });
+
+  describe('ideaTemplateSchema', () => {
+    const sections = [{ key: 'problem', title: 'Problem' }];
+
+    it('defaults sections to required with an empty prompt', () => {
+      expect(ideaTemplateSchema.parse({ key: 'claims-brief', name: 'Claims', sections })).toEqual({
+        key: 'claims-brief',
+        name: 'Claims',
+        description: '',
+        sections: [{ key: 'problem', title: 'Problem', prompt: '', required: true }],
+      });
+    });
+
+    it('rejects keys taken by built-in templates', () => {
+      const result = ideaTemplateSchema.safeParse({ key: 'lean-canvas', name: 'Lean', sections });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects templates without sections or with duplicate section keys', () => {
+      expect(
+        ideaTemplateSchema.safeParse({ key: 'claims', name: 'Claims', sections: [] }).success
+      ).toBe(false);
+      expect(
+        ideaTemplateSchema.safeParse({
+          key: 'claims',
+          name: 'Claims',
+          sections: [...sections, ...sections],
+        }).success
+      ).toBe(false);
+    });
+
+    it('rejects empty updates', () => {
+      expect(updateIdeaTemplateSchema.safeParse({}).success).toBe(false);
+      expect(updateIdeaTemplateSchema.safeParse({ name: 'Claims v2' }).success).toBe(true);
+    });
+  });
+
+  describe('buildSectionsSchema', () => {
+    const schema = buildSectionsSchema(template);
+
+    it('accepts partial section contents and null to clear a section', () => {
+      expect(schema.safeParse({ problem: 'Slow claims' }).success).toBe(true);
+      expect(schema.safeParse({ impact: null }).success).toBe(true);
+    });
+
+    it('rejects unknown sections and non-text content', () => {
+      expect(schema.safeParse({ budget: 'Big' }).success).toBe(false);
+      expect(schema.safeParse({ problem: 42 }).success).toBe(false);
+    });
+  });
+
+  describe('mergeSections', () => {
+    it('applies changes and drops cleared or blank sections', () => {
+      expect(
+        mergeSections({ problem: 'Slow', impact: 'Faster payouts' }, { problem: null, notes: ' ' })
+      ).toEqual({ impact: 'Faster payouts' });
+    });
+  });
+
+  describe('getIncompleteSections', () => {
+    it('lists required sections that are empty or too short', () => {
+      const incomplete = getIncompleteSections(template, { problem: '  ', impact: 'Faster' });
+      expect(incomplete.map(s => s.key)).toEqual(['problem', 'impact']);
+    });
+
+    it('ignores optional sections', () => {
+      const sections = { problem: 'Slow claims', impact: 'Payouts in days instead of weeks' };
+      expect(getIncompleteSections(template, sections)).toEqual([]);
+    });
+
+    it('has nothing to check for ideas without a template', () => {
+      expect(getIncompleteSections(null, {})).toEqual([]);
+    });
+  });
+
+  describe('getSectionsSubmissionError', () => {
+    it('names the incomplete sections', () => {
+      expect(getSectionsSubmissionError(template, {})).toBe('Incomplete sections: Problem, Impact');
+      expect(getSectionsSubmissionError(null, null)).toBeNull();
+    });
+  });
+
+  describe('getSectionsView', () => {
+    it('lists every section with its content and completeness', () => {
+      expect(getSectionsView(template, { problem: 'Slow claims' })).toMatchObject([
+        { key: 'problem', content: 'Slow claims', complete: true },
+        { key: 'impact', content: '', complete: false },
+        { key: 'notes', content: '', complete: false },
+      ]);
+      expect(getSectionsView(null, {})).toEqual([]);
+    });
+  });
+
+  describe('renderSections', () => {
+    it('renders one heading per section, with prompts for empty sections', () => {
+      expect(renderSections(template, { problem: 'Slow claims' })).toBe(
+        '## Problem\n\nSlow claims\n\n## Impact\n\n## Notes\n\n_Anything else?_'
+      );
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { z } from 'zod';
+
+/**
+ * A named section of an idea template
+ * min_length is the number of characters a required section needs to count as complete
+ */
+export interface TemplateSection {
+  key: string;
+  title: string;
+  prompt: string;
+  required: boolean;
+  min_length?: number;
+}
+
+/**
+ * A template as copied onto the ideas created from it (ideas.template)
+ * Ideas keep the version they were created with when the template is revised later
+ */
+export interface TemplateSnapshot {
+  key: string;
+  name: string;
+  version: number;
+  sections: TemplateSection[];
+}
+
+/**
+ * A template as listed by the API
+ */
+export interface IdeaTemplateSummary extends TemplateSnapshot {
+  id: string | null;
+  description: string;
+  built_in: boolean;
+}
+
+/**
+ * Section contents as stored in ideas.sections, keyed by section key
+ */
+export type SectionValues = Record<string, string>;
+
+/**
+ * A section with its content, as shown on the idea detail
+ */
+export interface SectionView extends TemplateSection {
+  content: string;
+  complete: boolean;
+}
+
+const SECTION_MAX_LENGTH = 5000;
+
+// Schema for validating a template section
+export const templateSectionSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, 'Section keys must be lowercase letters, digits and underscores')
+    .max(50, 'Section keys must be at most 50 characters'),
+  title: z.string().min(1, 'Section title is required').max(100, 'Section title is too long'),
+  prompt: z.string().max(500, 'Section prompt is too long').optional().default(''),
+  required: z.boolean().optional().default(true),
+  min_length: z
+    .number()
+    .int()
+    .min(1, 'Minimum length must be at least 1')
+    .max(SECTION_MAX_LENGTH, 'Minimum length is too large')
+    .optional(),
+});
+
+const sectionsSchema = z
+  .array(templateSectionSchema)
+  .min(1, 'A template needs at least one section')
+  .max(20, 'A template can have at most 20 sections')
+  .refine(
+    sections => new Set(sections.map(s => s.key)).size === sections.length,
+    'Section keys must be unique'
+  );
+
+// Schema for validating template creation
+export const ideaTemplateSchema = z.object({
+  key: z
+    .string()
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      'Template keys must be lowercase letters, numbers and dashes'
+    )
+    .max(50, 'Template keys must be at most 50 characters')
+    .refine(key => !getBuiltInTemplate(key), 'This key is taken by a built-in template'),
+  name: z.string().min(3, 'Name must be at least 3 characters').max(100, 'Name is too long'),
+  description: z.string().max(1000, 'Description is too long').optional().default(''),
+  sections: sectionsSchema,
+});
+
+// Schema for validating template updates; changing the sections publishes a new version
+export const updateIdeaTemplateSchema = z
+  .object({
+    name: ideaTemplateSchema.shape.name,
+    description: z.string().max(1000, 'Description is too long'),
+    sections: sectionsSchema,
+  })
+  .partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+const section = (key: string, title: string, prompt: string, required = true): TemplateSection => ({
+  key,
+  title,
+  prompt,
+  required,
+});
+
+/**
+ * Templates every workspace gets out of the box
+ */
+export const BUILT_IN_TEMPLATES: IdeaTemplateSummary[] = [
+  {
+    id: null,
+    key: 'problem-solution-brief',
+    name: 'Problem / solution brief',
+    description:
+      'A short brief stating the problem, the proposed solution and its expected impact.',
+    version: 1,
+    built_in: true,
+    sections: [
+      section('problem', 'Problem', 'What problem are you solving, and for whom?'),
+      section('solution', 'Solution', 'How would you solve it?'),
+      section('impact', 'Impact', 'What changes if this works? Quantify where you can.'),
+    ],
+  },
+  {
+    id: null,
+    key: 'lean-canvas',
+    name: 'Lean Canvas',
+    description: 'One-page business plan for a new product or service.',
+    version: 1,
+    built_in: true,
+    sections: [
+      section('problem', 'Problem', 'Top three problems your customers have.'),
+      section(
+        'customer_segments',
+        'Customer segments',
+        'Who are your target customers and early adopters?'
+      ),
+      section(
+        'unique_value_proposition',
+        'Unique value proposition',
+        'Why are you different and worth attention?'
+      ),
+      section('solution', 'Solution', 'Top three features that address the problems.'),
+      section('channels', 'Channels', 'How will you reach your customers?'),
+      section('revenue_streams', 'Revenue streams', 'How will this make or save money?'),
+      section('cost_structure', 'Cost structure', 'What will it cost to build and run?'),
+      section('key_metrics', 'Key metrics', 'Which numbers tell you it is working?'),
+      section(
+        'unfair_advantage',
+        'Unfair advantage',
+        'What cannot easily be copied or bought?',
+        false
+      ),
+    ],
+  },
+  {
+    id: null,
+    key: 'business-model-canvas',
+    name: 'Business Model Canvas',
+    description: 'How the idea creates, delivers and captures value.',
+    version: 1,
+    built_in: true,
+    sections: [
+      section('key_partners', 'Key partners', 'Who are the partners and suppliers you rely on?'),
+      section(
+        'key_activities',
+        'Key activities',
+        'What must you do well to deliver the value proposition?'
+      ),
+      section('key_resources', 'Key resources', 'Which assets does the idea need?'),
+      section(
+        'value_propositions',
+        'Value propositions',
+        'What value do you deliver to customers?'
+      ),
+      section(
+        'customer_relationships',
+        'Customer relationships',
+        'How do you get, keep and grow customers?'
+      ),
+      section('channels', 'Channels', 'Through which channels do customers want to be reached?'),
+      section('customer_segments', 'Customer segments', 'For whom are you creating value?'),
+      section('cost_structure', 'Cost structure', 'What are the most important costs?'),
+      section('revenue_streams', 'Revenue streams', 'For what value are customers willing to pay?'),
+    ],
+  },
+  {
+    id: null,
+    key: 'experiment-proposal',
+    name: 'Experiment proposal',
+    description: 'A small, time-boxed test of an assumption before investing further.',
+    version: 1,
+    built_in: true,
+    sections: [
+      section('hypothesis', 'Hypothesis', 'We believe that... will result in...'),
+      section('experiment', 'Experiment', 'What will you do, with whom, and for how long?'),
+      section('metrics', 'Metrics', 'What will you measure?'),
+      section(
+        'success_criteria',
+        'Success criteria',
+        'Which result would prove the hypothesis right or wrong?'
+      ),
+      section(
+        'resources',
+        'Resources needed',
+        'People, budget and tools the experiment needs.',
+        false
+      ),
+    ],
+  },
+];
+
+/**
+ * Look up a built-in template by key
+ */
+export function getBuiltInTemplate(key: string): IdeaTemplateSummary | undefined {
+  return BUILT_IN_TEMPLATES.find(template => template.key === key);
+}
+
+/**
+ * Copy the parts of a template ideas keep
+ */
+export function toTemplateSnapshot(template: TemplateSnapshot): TemplateSnapshot {
+  const { key, name, version, sections } = template;
+  return { key, name, version, sections };
+}
+
+/**
+ * Build the schema for an idea's section contents from its template
+ * Every section is optional, and null clears it, so drafts can be saved incomplete;
+ * completeness is checked at submission with getIncompleteSections
+ * @param template The idea's template
+ * @returns A strict object schema that rejects unknown sections
+ */
+export function buildSectionsSchema(template: TemplateSnapshot) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const { key, title } of template.sections) {
+    shape[key] = z
+      .string({ invalid_type_error: `${title} must be text` })
+      .max(SECTION_MAX_LENGTH, `${title} is too long`)
+      .nullable()
+      .optional();
+  }
+
+  return z.object(shape).strict('Unknown template section');
+}
+
+/**
+ * Merge validated section changes into an idea's stored sections, dropping cleared ones
+ * @param current The idea's stored sections
+ * @param changes Validated changes, where null or blank clears a section
+ * @returns The sections to store
+ */
+export function mergeSections(
+  current: SectionValues | null | undefined,
+  changes: Record<string, string | null | undefined>
+): SectionValues {
+  const merged: Record<string, string | null | undefined> = { ...current, ...changes };
+  return Object.fromEntries(
+    Object.entries(merged).filter((entry): entry is [string, string] => !!entry[1]?.trim())
+  );
+}
+
+/**
+ * Check whether a section's content is complete enough for submission
+ */
+function isSectionComplete(section: TemplateSection, content: string | undefined): boolean {
+  return (content?.trim().length ?? 0) >= Math.max(section.min_length ?? 1, 1);
+}
+
+/**
+ * Find the required sections an idea has not completed
+ * Mirrors public.idea_sections_complete in the database
+ * @param template The idea's template, or null for ideas without one
+ * @param sections The idea's section contents
+ * @returns The incomplete sections, in template order
+ */
+export function getIncompleteSections(
+  template: TemplateSnapshot | null | undefined,
+  sections: SectionValues | null | undefined
+): TemplateSection[] {
+  if (!template) return [];
+
+  return template.sections.filter(
+    section => section.required && !isSectionComplete(section, sections?.[section.key])
+  );
+}
+
+/**
+ * Explain why an idea's sections keep it from being submitted
+ * @param template The idea's template, or null for ideas without one
+ * @param sections The idea's section contents
+ * @returns An error message, or null when every required section is complete
+ */
+export function getSectionsSubmissionError(
+  template: TemplateSnapshot | null | undefined,
+  sections: SectionValues | null | undefined
+): string | null {
+  const incomplete = getIncompleteSections(template, sections);
+  return incomplete.length
+    ? `Incomplete sections: ${incomplete.map(section => section.title).join(', ')}`
+    : null;
+}
+
+/**
+ * List a template's sections with the idea's content, for display
+ * @param template The idea's template, or null for ideas without one
+ * @param sections The idea's section contents
+ * @returns The sections in template order, or an empty list without a template
+ */
+export function getSectionsView(
+  template: TemplateSnapshot | null | undefined,
+  sections: SectionValues | null | undefined
+): SectionView[] {
+  if (!template) return [];
+
+  return template.sections.map(section => {
+    const content = sections?.[section.key] ?? '';
+    return { ...section, content, complete: isSectionComplete(section, content) };
+  });
+}
+
+/**
+ * Render an idea's sections as a markdown description
+ * Keeps the description, and everything that searches it, in step with the sections
+ * @param template The idea's template
+ * @param sections The idea's section contents
+ * @returns Markdown with one heading per section; empty sections show their prompt
+ */
+export function renderSections(template: TemplateSnapshot, sections: SectionValues): string {
+  return template.sections
+    .map(section => {
+      const content = sections[section.key]?.trim() || (section.prompt && `_${section.prompt}_`);
+      return `## ${section.title}\n\n${content}`.trim();
+    })
+    .join('\n\n');
+}
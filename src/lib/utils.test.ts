@@ -112,6 +112,9 @@ describe('utils', () => {
       expect(getStatusLabel('submitted')).toBe('Under Review');
       expect(getStatusLabel('approved')).toBe('Approved');
       expect(getStatusLabel('rejected')).toBe('Needs Revision');
+      expect(getStatusLabel('in_progress')).toBe('In Progress');
+      expect(getStatusLabel('shipped')).toBe('Shipped');
+      expect(getStatusLabel('archived')).toBe('Archived');
     });
 
     it('returns Unknown for null or undefined status', () => {
@@ -126,6 +129,9 @@ describe('utils', () => {
       expect(getStatusBadgeVariant('submitted')).toBe('default');
       expect(getStatusBadgeVariant('approved')).toBe('success');
       expect(getStatusBadgeVariant('rejected')).toBe('destructive');
+      expect(getStatusBadgeVariant('in_progress')).toBe('default');
+      expect(getStatusBadgeVariant('shipped')).toBe('success');
+      expect(getStatusBadgeVariant('archived')).toBe('outline');
     });
 
     it('returns outline for null or undefined status', () => {
@@ -86,6 +86,12 @@ export function getStatusBadgeVariant(status: IdeaStatus | null | undefined): "d
       return "success"; // Green
     case "rejected":
       return "destructive"; // Red
+    case "in_progress":
+      return "default"; // Primary color (blue)
+    case "shipped":
+      return "success"; // Green
+    case "archived":
+      return "outline"; // Muted
     default:
       return "outline";
   }
@@ -108,6 +114,12 @@ export function getStatusLabel(status: IdeaStatus | null | undefined): string {
       return "Approved";
     case "rejected":
       return "Needs Revision";
+    case "in_progress":
+      return "In Progress";
+    case "shipped":
+      return "Shipped";
+    case "archived":
+      return "Archived";
     default:
       return status.charAt(0).toUpperCase() + status.slice(1);
   }
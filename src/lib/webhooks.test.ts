@@ -0,0 +1,321 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import {
+  buildTestPayload,
+  buildWebhookRequest,
+  createWebhookSchema,
+  generateWebhookSecret,
+  getWebhookDeliveryUpdate,
+  getWebhookRetryDelay,
+  isPrivateAddress,
+  sendWebhook,
+  signWebhookPayload,
+  updateWebhookSchema,
+  verifyWebhookSignature,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RESPONSE_MAX_LENGTH,
+} from './webhooks';
+
+const SECRET = 'whsec_0123456789abcdef';
+
+const delivery = {
+  id: 'delivery-1',
+  event: 'idea.approved',
+  payload: {
+    event: 'idea.approved',
+    created_at: '2025-01-27T10:00:00.000Z',
+    workspace_id: 'ws-1',
+    data: { idea: { id: 'idea-1', title: 'Solar roofs', status: 'approved' } },
+  },
+};
+
+/**
+ * A local webhook receiver, recording the requests it gets
+ * @param status The status it answers with
+ * @param responseBody What it answers
+ */
+const startReceiver = async (status = 200, responseBody = '{"ok":true}') => {
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(responseBody);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+
+  return { server, url: `http://127.0.0.1:${port}/hooks`, received };
+};
+
+let server: Server | null = null;
+
+describe('webhooks', () => {
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  describe('createWebhookSchema', () => {
+    it('accepts a webhook with defaults', () => {
+      expect(
+        createWebhookSchema.parse({
+          url: 'https://example.com/hooks',
+          events: ['idea.approved', 'idea.approved', 'comment.created'],
+        })
+      ).toEqual({
+        url: 'https://example.com/hooks',
+        events: ['idea.approved', 'comment.created'],
+        format: 'json',
+        description: '',
+        active: true,
+      });
+    });
+
+    it('rejects other protocols, unknown events and empty subscriptions', () => {
+      expect(() =>
+        createWebhookSchema.parse({ url: 'ftp://example.com', events: ['idea.created'] })
+      ).toThrow('URL must use http or https');
+      expect(() =>
+        createWebhookSchema.parse({ url: 'https://example.com', events: ['idea.deleted'] })
+      ).toThrow();
+      expect(() => createWebhookSchema.parse({ url: 'https://example.com', events: [] })).toThrow(
+        'Subscribe to at least one event'
+      );
+    });
+  });
+
+  describe('updateWebhookSchema', () => {
+    it('accepts partial updates and secret rotation', () => {
+      expect(updateWebhookSchema.parse({ active: false })).toEqual({ active: false });
+      expect(updateWebhookSchema.parse({ rotate_secret: true })).toEqual({ rotate_secret: true });
+    });
+
+    it('rejects empty updates', () => {
+      expect(() => updateWebhookSchema.parse({})).toThrow('Nothing to update');
+    });
+  });
+
+  describe('generateWebhookSecret', () => {
+    it('generates distinct secrets', () => {
+      const secret = generateWebhookSecret();
+      expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('signatures', () => {
+    const body = JSON.stringify({ hello: 'world' });
+    const now = 1737972000;
+
+    it('verifies its own signatures', () => {
+      const signature = signWebhookPayload(SECRET, now, body);
+      expect(signature).toMatch(/^t=1737972000,v1=[0-9a-f]{64}$/);
+      expect(verifyWebhookSignature(SECRET, signature, body, now + 60)).toBe(true);
+    });
+
+    it('rejects tampered bodies, other secrets and stale or malformed signatures', () => {
+      const signature = signWebhookPayload(SECRET, now, body);
+
+      expect(verifyWebhookSignature(SECRET, signature, body.replace('world', 'x'), now)).toBe(
+        false
+      );
+      expect(verifyWebhookSignature('whsec_other_secret', signature, body, now)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, signature, body, now + 10 * 60)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, 'v1=abc', body, now)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, null, body, now)).toBe(false);
+    });
+  });
+
+  describe('buildWebhookRequest', () => {
+    it('sends the payload with the delivery ID, signed', () => {
+      const now = new Date('2025-01-27T10:00:00Z');
+      const request = buildWebhookRequest(delivery, { secret: SECRET, format: 'json' }, now);
+
+      expect(JSON.parse(request.body)).toEqual({ id: 'delivery-1', ...delivery.payload });
+      expect(request.headers).toMatchObject({
+        'Content-Type': 'application/json',
+        'X-Ideazoop-Event': 'idea.approved',
+        'X-Ideazoop-Delivery': 'delivery-1',
+      });
+      expect(
+        verifyWebhookSignature(
+          SECRET,
+          request.headers['X-Ideazoop-Signature'],
+          request.body,
+          now.getTime() / 1000
+        )
+      ).toBe(true);
+    });
+
+    it('sends chat webhooks a message formatted for the chat service', () => {
+      const request = buildWebhookRequest(
+        delivery,
+        { secret: SECRET, format: 'slack' },
+        new Date(),
+        'https://ideas.example.com'
+      );
+
+      expect(JSON.parse(request.body)).toMatchObject({
+        text: '"Solar roofs" was approved',
+        blocks: expect.arrayContaining([expect.objectContaining({ type: 'actions' })]),
+      });
+      expect(request.body).toContain('https://ideas.example.com/ideas/idea-1');
+    });
+  });
+
+  describe('sendWebhook', () => {
+    it('posts a signed delivery to the receiver', async () => {
+      const receiver = await startReceiver();
+      server = receiver.server;
+
+      const attempt = await sendWebhook(
+        { url: receiver.url, secret: SECRET, format: 'json' },
+        delivery,
+        { allowPrivateNetwork: true }
+      );
+
+      expect(attempt).toEqual({ status: 200, body: '{"ok":true}', error: null });
+      expect(receiver.received).toHaveLength(1);
+
+      const [{ headers, body }] = receiver.received;
+      expect(headers['x-ideazoop-event']).toBe('idea.approved');
+      expect(JSON.parse(body).data.idea.title).toBe('Solar roofs');
+      expect(verifyWebhookSignature(SECRET, headers['x-ideazoop-signature'] as string, body)).toBe(
+        true
+      );
+    });
+
+    it('fails on error responses, keeping a bounded response', async () => {
+      const receiver = await startReceiver(500, 'x'.repeat(5000));
+      server = receiver.server;
+
+      const attempt = await sendWebhook(
+        { url: receiver.url, secret: SECRET, format: 'json' },
+        delivery,
+        { allowPrivateNetwork: true }
+      );
+
+      expect(attempt.status).toBe(500);
+      expect(attempt.error).toBe('Receiver responded with HTTP 500');
+      expect(attempt.body).toHaveLength(WEBHOOK_RESPONSE_MAX_LENGTH);
+    });
+
+    it('fails without throwing when the receiver is unreachable', async () => {
+      const receiver = await startReceiver();
+      const { url } = receiver;
+      await new Promise(resolve => receiver.server.close(resolve));
+
+      const attempt = await sendWebhook({ url, secret: SECRET, format: 'json' }, delivery, {
+        allowPrivateNetwork: true,
+      });
+
+      expect(attempt.status).toBeNull();
+      expect(attempt.error).toMatch(/ECONNREFUSED/);
+    });
+
+    it('refuses receivers on private addresses unless allowed', async () => {
+      const receiver = await startReceiver();
+      server = receiver.server;
+      const webhook = { url: receiver.url, secret: SECRET, format: 'json' as const };
+
+      expect(await sendWebhook(webhook, delivery, { allowPrivateNetwork: false })).toEqual({
+        status: null,
+        body: null,
+        error: '127.0.0.1 is a private address',
+      });
+
+      const resolved = await sendWebhook(
+        { ...webhook, url: receiver.url.replace('127.0.0.1', 'localhost') },
+        delivery,
+        { allowPrivateNetwork: false }
+      );
+      expect(resolved.error).toMatch(/^localhost resolves to a private address/);
+      expect(receiver.received).toHaveLength(0);
+    });
+  });
+
+  describe('isPrivateAddress', () => {
+    it('flags loopback, private and link-local addresses', () => {
+      for (const address of [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.16.0.1',
+        '192.168.1.1',
+        '169.254.169.254',
+        '::1',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:10.0.0.1',
+      ]) {
+        expect(isPrivateAddress(address)).toBe(true);
+      }
+      expect(isPrivateAddress('93.184.216.34')).toBe(false);
+      expect(isPrivateAddress('2606:2800:220:1::')).toBe(false);
+    });
+  });
+
+  describe('getWebhookRetryDelay', () => {
+    it('backs off exponentially', () => {
+      expect([1, 2, 3, 4, 5].map(getWebhookRetryDelay)).toEqual(
+        [1, 2, 4, 8, 16].map(minutes => minutes * 60 * 1000)
+      );
+    });
+  });
+
+  describe('getWebhookDeliveryUpdate', () => {
+    const now = new Date('2025-01-27T10:00:00Z');
+    const failure = { status: 503, body: 'Unavailable', error: 'Receiver responded with HTTP 503' };
+
+    it('marks a delivered delivery as sent', () => {
+      expect(getWebhookDeliveryUpdate(0, { status: 204, body: '', error: null }, { now })).toEqual({
+        attempts: 1,
+        response_status: 204,
+        response_body: '',
+        error: null,
+        status: 'sent',
+        next_attempt_at: null,
+        delivered_at: now.toISOString(),
+      });
+    });
+
+    it('schedules a retry after a failure', () => {
+      expect(getWebhookDeliveryUpdate(2, failure, { now })).toMatchObject({
+        attempts: 3,
+        status: 'pending',
+        response_status: 503,
+        next_attempt_at: '2025-01-27T10:04:00.000Z',
+      });
+    });
+
+    it('gives up after the last attempt, or right away without retries', () => {
+      expect(getWebhookDeliveryUpdate(WEBHOOK_MAX_ATTEMPTS - 1, failure, { now })).toMatchObject({
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        status: 'failed',
+        next_attempt_at: null,
+      });
+      expect(getWebhookDeliveryUpdate(0, failure, { now, retry: false })).toMatchObject({
+        status: 'failed',
+        next_attempt_at: null,
+      });
+    });
+  });
+
+  describe('buildTestPayload', () => {
+    it('is shaped like an event', () => {
+      expect(buildTestPayload('ws-1', new Date('2025-01-27T10:00:00Z'))).toEqual({
+        event: 'webhook.test',
+        created_at: '2025-01-27T10:00:00.000Z',
+        workspace_id: 'ws-1',
+        data: { message: 'This is a test delivery from Ideazoop.' },
+      });
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import { z } from 'zod';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { ChatEvent, CHAT_FORMATS, ChatFormat, formatChatMessage } from './chat-ops';
+import { getSiteUrl } from './email';
+import { Webhook, WebhookDelivery } from './supabase';
+
+/**
+ * Idea lifecycle events webhooks can subscribe to
+ * Raised by database triggers, see supabase/migrations/20250127000000_webhooks.sql
+ */
+export const WEBHOOK_EVENTS = [
+  'idea.created',
+  'idea.submitted',
+  'idea.approved',
+  'idea.rejected',
+  'comment.created',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * How a webhook sends events: signed JSON for any receiver, or a message for a chat service
+ */
+export const WEBHOOK_FORMATS = ['json', ...CHAT_FORMATS] as const;
+
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number];
+
+// Event of the deliveries sent by the test endpoint, which every webhook receives
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/**
+ * How often a delivery is tried before it is marked as failed
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+// Delay before the first retry, doubling with every further attempt: 1, 2, 4, 8 and 16 minutes
+export const WEBHOOK_RETRY_BASE_DELAY = 60 * 1000; // 1 minute
+
+// How long a receiver may take to answer
+export const WEBHOOK_TIMEOUT = 10 * 1000; // 10 seconds
+
+// How much of a receiver's response is kept in the delivery log
+export const WEBHOOK_RESPONSE_MAX_LENGTH = 2000;
+
+// How old a signature may be before receivers should reject it, against replay attacks
+export const WEBHOOK_SIGNATURE_TOLERANCE = 5 * 60; // 5 minutes, in seconds
+
+// Addresses webhooks are not sent to unless WEBHOOK_ALLOW_PRIVATE_NETWORK is true: loopback,
+// private networks (RFC 1918, unique local), link-local (including cloud metadata services) and
+// other addresses that are not on the public internet
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Ideazoop-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Ideazoop-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Ideazoop-Delivery';
+
+// Webhook columns the API returns: the secret is only shown when it is created or rotated
+export const WEBHOOK_COLUMNS =
+  'id, workspace_id, url, events, format, campaign_id, description, active, created_by, created_at, updated_at';
+
+/**
+ * The webhook fields needed to send it a delivery
+ */
+export type WebhookTarget = Pick<Webhook, 'url' | 'secret' | 'format'>;
+
+const webhookFields = {
+  url: z
+    .string()
+    .trim()
+    .url('URL must be a valid URL')
+    .refine(url => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, 'Subscribe to at least one event')
+    .transform(events => [...new Set(events)]),
+  format: z.enum(WEBHOOK_FORMATS),
+  // Only ideas in this campaign raise events; null for the whole workspace
+  campaign_id: z.string().uuid('Campaign ID must be a valid UUID').nullable(),
+  description: z.string().trim().max(500, 'Description is too long'),
+  active: z.boolean(),
+};
+
+// Schema for validating webhook creation
+export const createWebhookSchema = z.object({
+  ...webhookFields,
+  format: webhookFields.format.optional().default('json'),
+  campaign_id: webhookFields.campaign_id.optional(),
+  description: webhookFields.description.optional().default(''),
+  active: webhookFields.active.optional().default(true),
+});
+
+// Schema for validating webhook updates; rotate_secret replaces the signing secret
+export const updateWebhookSchema = z
+  .object({ ...webhookFields, rotate_secret: z.literal(true) })
+  .partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+// Schema for validating delivery log queries
+export const listWebhookDeliveriesQuerySchema = z.object({
+  status: z.enum(['pending', 'sent', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+});
+
+/**
+ * Generate a secret to sign a webhook's payloads with
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a payload: HMAC-SHA256 of "<timestamp>.<body>" with the webhook's secret
+ * @param secret The webhook's secret
+ * @param timestamp Unix time in seconds when the payload is sent
+ * @param body The raw JSON body
+ * @returns The signature header value, "t=<timestamp>,v1=<hex digest>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a payload's signature, as a receiver would
+ * @param secret The webhook's secret
+ * @param header The signature header value
+ * @param body The raw JSON body
+ * @param now Unix time in seconds
+ * @returns Whether the signature is valid and recent
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null | undefined,
+  body: string,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    (header ?? '').split(',').map(part => part.trim().split('=', 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+
+  if (
+    !Number.isInteger(timestamp) ||
+    !parts.v1 ||
+    Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(`t=${timestamp},v1=${parts.v1}`);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Build the signed request for a delivery
+ * JSON webhooks get the event with the delivery ID, chat webhooks a message formatted for them
+ * @param delivery The delivery
+ * @param webhook The webhook's secret and format
+ * @param now When the request is sent
+ * @param siteUrl Where links in chat messages point
+ */
+export function buildWebhookRequest(
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'payload'>,
+  webhook: Pick<Webhook, 'secret' | 'format'>,
+  now = new Date(),
+  siteUrl = getSiteUrl()
+) {
+  const body = JSON.stringify(
+    webhook.format === 'json'
+      ? { id: delivery.id, ...(delivery.payload as Record<string, unknown>) }
+      : formatChatMessage(
+          webhook.format as ChatFormat,
+          delivery.payload as unknown as ChatEvent,
+          siteUrl
+        )
+  );
+
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Ideazoop-Webhooks/1.0',
+      [WEBHOOK_EVENT_HEADER]: delivery.event,
+      [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+        webhook.secret,
+        Math.floor(now.getTime() / 1000),
+        body
+      ),
+    },
+  };
+}
+
+/**
+ * The outcome of sending a delivery
+ */
+export interface WebhookAttempt {
+  // The receiver's HTTP status, if it answered
+  status: number | null;
+  body: string | null;
+  // Why the attempt failed, if it did
+  error: string | null;
+}
+
+/**
+ * Check whether an IP address is outside the public internet, such as loopback or a private network
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 addresses mapped to IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPrivateAddress(mapped);
+
+  const family = isIP(address);
+  return family === 0 || PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolve host names like dns.lookup, refusing private addresses; checked on the address actually
+// connected to, so a host cannot resolve to a public address first and a private one later
+const publicLookup: LookupFunction = (hostname, options, callback) =>
+  lookup(hostname, options, (error, address, family) => {
+    const addresses = typeof address === 'string' ? [address] : (address ?? []).map(a => a.address);
+    const blocked = error ? undefined : addresses.find(isPrivateAddress);
+    if (blocked) {
+      callback(new Error(`${hostname} resolves to a private address (${blocked})`), '', family);
+      return;
+    }
+    callback(error, address, family);
+  });
+
+/**
+ * POST a delivery to its webhook
+ * Any 2xx response counts as delivered, redirects are not followed; never throws
+ * Receivers on loopback, private or link-local addresses are refused unless allowPrivateNetwork is
+ * set, by default from WEBHOOK_ALLOW_PRIVATE_NETWORK, for trying webhooks with npm run webhooks:receive
+ * @param webhook The webhook's URL, secret and format
+ * @param delivery The delivery
+ */
+export function sendWebhook(
+  webhook: WebhookTarget,
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'payload'>,
+  {
+    allowPrivateNetwork = process.env.WEBHOOK_ALLOW_PRIVATE_NETWORK === 'true',
+  }: { allowPrivateNetwork?: boolean } = {}
+): Promise<WebhookAttempt> {
+  const { url } = webhook;
+  const { body, headers } = buildWebhookRequest(delivery, webhook);
+
+  return new Promise(resolve => {
+    const fail = (error: string) => resolve({ status: null, body: null, error });
+    const request = url.startsWith('https:') ? httpsRequest : httpRequest;
+
+    try {
+      // Addresses in the URL itself are not looked up
+      const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+      if (!allowPrivateNetwork && isIP(host) && isPrivateAddress(host)) {
+        fail(`${host} is a private address`);
+        return;
+      }
+
+      const req = request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          timeout: WEBHOOK_TIMEOUT,
+          lookup: allowPrivateNetwork ? undefined : publicLookup,
+        },
+        res => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            text = (text + chunk).slice(0, WEBHOOK_RESPONSE_MAX_LENGTH);
+          });
+          res.on('error', error => fail(error.message));
+          res.on('end', () => {
+            const status = res.statusCode ?? 0;
+            resolve({
+              status,
+              body: text,
+              error:
+                status >= 200 && status < 300 ? null : `Receiver responded with HTTP ${status}`,
+            });
+          });
+        }
+      );
+
+      req.on('timeout', () =>
+        req.destroy(new Error(`Receiver did not respond within ${WEBHOOK_TIMEOUT / 1000} seconds`))
+      );
+      req.on('error', error => fail(error.message));
+      req.end(body);
+    } catch (error) {
+      // Invalid URLs throw before any request is made
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  });
+}
+
+/**
+ * How long to wait before retrying a delivery
+ * @param attempts How often it was tried so far
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return WEBHOOK_RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * Delivery log columns after an attempt to send a delivery
+ * @param attempts How often the delivery was tried before
+ * @param attempt The outcome
+ * @param options retry: whether a failure is retried later (test deliveries are not)
+ * @returns The webhook_deliveries columns to update; failed once WEBHOOK_MAX_ATTEMPTS is reached
+ */
+export function getWebhookDeliveryUpdate(
+  attempts: number,
+  attempt: WebhookAttempt,
+  { retry = true, now = new Date() }: { retry?: boolean; now?: Date } = {}
+) {
+  const tried = attempts + 1;
+  const log = {
+    attempts: tried,
+    response_status: attempt.status,
+    response_body: attempt.body,
+    error: attempt.error,
+  };
+
+  if (!attempt.error) {
+    return {
+      ...log,
+      status: 'sent' as const,
+      next_attempt_at: null,
+      delivered_at: now.toISOString(),
+    };
+  }
+
+  if (!retry || tried >= WEBHOOK_MAX_ATTEMPTS) {
+    return { ...log, status: 'failed' as const, next_attempt_at: null, delivered_at: null };
+  }
+
+  return {
+    ...log,
+    status: 'pending' as const,
+    next_attempt_at: new Date(now.getTime() + getWebhookRetryDelay(tried)).toISOString(),
+    delivered_at: null,
+  };
+}
+
+/**
+ * The payload of a test delivery, shaped like a real event
+ * @param workspaceId The webhook's workspace
+ * @param now When the test is sent
+ */
+export function buildTestPayload(workspaceId: string, now = new Date()) {
+  return {
+    event: WEBHOOK_TEST_EVENT,
+    created_at: now.toISOString(),
+    workspace_id: workspaceId,
+    data: { message: 'This is a test delivery from Ideazoop.' },
+  };
+}
@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  IDEA_STATUSES,
+  STATUS_RULES,
+  TRANSITIONS,
+  WORKFLOW_FIELDS,
+  WorkflowAction,
+  WorkflowActor,
+  canDeleteIdea,
+  canEditIdea,
+  checkTransition,
+  generateWorkflowSql,
+  getAvailableActions,
+  getTransition,
+  getWorkflowActors,
+} from './workflow';
+import { IdeaStatus } from './supabase';
+
+const ACTIONS: WorkflowAction[] = [
+  'submit',
+  'withdraw',
+  'approve',
+  'reject',
+  'start',
+  'ship',
+  'archive',
+];
+const ACTOR_SETS: WorkflowActor[][] = [[], ['owner'], ['editor'], ['admin'], ['owner', 'admin']];
+
+// The expected workflow, written out by hand: [action, from, to, actors allowed]
+const EXPECTED: [WorkflowAction, IdeaStatus, IdeaStatus, WorkflowActor[]][] = [
+  ['submit', 'draft', 'submitted', ['owner']],
+  ['submit', 'rejected', 'submitted', ['owner']],
+  ['withdraw', 'submitted', 'draft', ['owner']],
+  ['approve', 'submitted', 'approved', ['admin']],
+  ['reject', 'submitted', 'rejected', ['admin']],
+  ['start', 'approved', 'in_progress', ['admin']],
+  ['ship', 'approved', 'shipped', ['admin']],
+  ['ship', 'in_progress', 'shipped', ['admin']],
+  ['archive', 'draft', 'archived', ['owner', 'admin']],
+  ['archive', 'approved', 'archived', ['owner', 'admin']],
+  ['archive', 'rejected', 'archived', ['owner', 'admin']],
+  ['archive', 'in_progress', 'archived', ['owner', 'admin']],
+  ['archive', 'shipped', 'archived', ['owner', 'admin']],
+];
+
+const idea = (status: IdeaStatus, title = 'A valid title') => ({
+  owner_id: 'owner-1',
+  status,
+  title,
+});
+
+describe('workflow', () => {
+  describe('checkTransition', () => {
+    for (const action of ACTIONS) {
+      for (const status of IDEA_STATUSES) {
+        for (const actors of ACTOR_SETS) {
+          const expected = EXPECTED.find(([a, from]) => a === action && from === status);
+          const permitted = !!expected && actors.some(actor => expected[3].includes(actor));
+
+          it(`${action} from ${status} as [${actors.join(', ') || 'nobody'}] is ${
+            permitted ? 'allowed' : 'refused'
+          }`, () => {
+            const result = checkTransition(action, idea(status), actors);
+            expect(result.allowed).toBe(permitted);
+
+            if (result.allowed) {
+              expect(result.transition.to).toBe(expected![2]);
+            } else if (!expected) {
+              expect(result.status).toBe(400);
+              expect(result.error).toBe('Invalid Status');
+            } else {
+              expect(result.status).toBe(403);
+              expect(result.error).toBe('Forbidden');
+            }
+          });
+        }
+      }
+    }
+
+    it('runs guards after status and actor checks', () => {
+      const result = checkTransition('submit', idea('draft', 'ab'), ['owner']);
+      expect(result).toMatchObject({ allowed: false, status: 400, error: 'Validation Error' });
+    });
+
+    it('blocks submission into a campaign outside its submission window', () => {
+      const closed = {
+        opens_at: '2025-01-01T00:00:00Z',
+        closes_at: '2025-01-10T00:00:00Z',
+        closed_at: '2025-01-10T00:00:00Z',
+      };
+      const result = checkTransition('submit', { ...idea('draft'), campaign: closed }, ['owner']);
+      expect(result).toMatchObject({
+        allowed: false,
+        status: 400,
+        message: 'This campaign is closed for submissions',
+      });
+    });
+
+    it('blocks submission until required custom fields are filled in', () => {
+      const fields = [
+        { key: 'budget', label: 'Budget', type: 'currency' as const, options: [], required: true },
+      ];
+      expect(
+        checkTransition('submit', { ...idea('draft'), fields, custom_fields: {} }, ['owner'])
+      ).toMatchObject({ allowed: false, message: 'Missing required fields: Budget' });
+      expect(
+        checkTransition('submit', { ...idea('draft'), fields, custom_fields: { budget: 100 } }, [
+          'owner',
+        ]).allowed
+      ).toBe(true);
+    });
+
+    it('blocks submission until required template sections are complete', () => {
+      const template = {
+        key: 'brief',
+        name: 'Brief',
+        version: 1,
+        sections: [{ key: 'problem', title: 'Problem', prompt: '', required: true }],
+      };
+      expect(
+        checkTransition('submit', { ...idea('draft'), template, sections: {} }, ['owner'])
+      ).toMatchObject({ allowed: false, message: 'Incomplete sections: Problem' });
+      expect(
+        checkTransition(
+          'submit',
+          { ...idea('draft'), template, sections: { problem: 'Slow claims' } },
+          ['owner']
+        ).allowed
+      ).toBe(true);
+    });
+
+    it('blocks withdrawal once an admin has started the review', () => {
+      const result = checkTransition(
+        'withdraw',
+        { ...idea('submitted'), review_started_at: '2025-01-07T10:00:00Z' },
+        ['owner']
+      );
+      expect(result).toMatchObject({
+        allowed: false,
+        status: 400,
+        message: 'An admin has already started reviewing this idea',
+      });
+    });
+  });
+
+  describe('TRANSITIONS', () => {
+    it('matches the expected workflow exactly', () => {
+      const actual = TRANSITIONS.flatMap(t => t.from.map(from => [t.action, from, t.to, t.actors]));
+      expect(actual).toEqual(EXPECTED);
+    });
+
+    it('only refers to known statuses', () => {
+      for (const t of TRANSITIONS) {
+        expect(IDEA_STATUSES).toContain(t.to);
+        t.from.forEach(from => expect(IDEA_STATUSES).toContain(from));
+      }
+    });
+
+    it('never has two transitions for the same action and status', () => {
+      for (const action of ACTIONS) {
+        for (const status of IDEA_STATUSES) {
+          const matches = TRANSITIONS.filter(t => t.action === action && t.from.includes(status));
+          expect(matches.length).toBeLessThanOrEqual(1);
+        }
+      }
+    });
+
+    it('never lets anyone archive an idea under review', () => {
+      expect(getTransition('archive', 'submitted')).toBeUndefined();
+    });
+
+    it('requires a decision comment on admin decisions', () => {
+      expect(getTransition('approve', 'submitted')?.effects).toContain('decision_comment');
+      expect(getTransition('reject', 'submitted')?.effects).toContain('decision_comment');
+    });
+
+    it('notifies admins when an idea is withdrawn', () => {
+      expect(getTransition('withdraw', 'submitted')?.effects).toContain('notify_admins');
+    });
+  });
+
+  describe('STATUS_RULES', () => {
+    it('defines rules for every status', () => {
+      expect(Object.keys(STATUS_RULES).sort()).toEqual([...IDEA_STATUSES].sort());
+    });
+
+    it('lets owners and editors edit only drafts and rejected ideas', () => {
+      for (const status of IDEA_STATUSES) {
+        expect(canEditIdea(status, ['owner'])).toBe(status === 'draft' || status === 'rejected');
+        expect(canEditIdea(status, ['editor'])).toBe(status === 'draft' || status === 'rejected');
+        expect(canEditIdea(status, ['admin'])).toBe(false);
+        expect(canEditIdea(status, [])).toBe(false);
+      }
+    });
+
+    it('lets owners and admins delete only drafts', () => {
+      for (const status of IDEA_STATUSES) {
+        expect(canDeleteIdea(status, ['owner'])).toBe(status === 'draft');
+        expect(canDeleteIdea(status, ['admin'])).toBe(status === 'draft');
+        expect(canDeleteIdea(status, ['editor'])).toBe(false);
+        expect(canDeleteIdea(status, [])).toBe(false);
+      }
+    });
+  });
+
+  describe('getWorkflowActors', () => {
+    it('resolves owner and admin capacities', () => {
+      expect(getWorkflowActors({ owner_id: 'u1' }, 'u1', 'owner')).toEqual(['owner']);
+      expect(getWorkflowActors({ owner_id: 'u1' }, 'u2', 'admin')).toEqual(['admin']);
+      expect(getWorkflowActors({ owner_id: 'u1' }, 'u1', 'admin')).toEqual(['owner', 'admin']);
+      expect(getWorkflowActors({ owner_id: 'u1' }, 'u2', 'owner')).toEqual([]);
+      expect(getWorkflowActors({ owner_id: 'u1' }, null, null)).toEqual([]);
+    });
+
+    it('resolves capacities from idea membership', () => {
+      const members = [
+        { user_id: 'u2', role: 'owner' },
+        { user_id: 'u3', role: 'editor' },
+        { user_id: 'u4', role: 'viewer' },
+      ];
+      expect(getWorkflowActors({ owner_id: 'u1', members }, 'u2', 'owner')).toEqual(['owner']);
+      expect(getWorkflowActors({ owner_id: 'u1', members }, 'u3', 'owner')).toEqual(['editor']);
+      expect(getWorkflowActors({ owner_id: 'u1', members }, 'u4', 'owner')).toEqual([]);
+      expect(getWorkflowActors({ owner_id: 'u1', members }, 'u3', 'admin')).toEqual([
+        'editor',
+        'admin',
+      ]);
+    });
+  });
+
+  describe('getAvailableActions', () => {
+    it('lists only actions that would succeed', () => {
+      expect(getAvailableActions(idea('draft'), ['owner'])).toEqual(['submit', 'archive']);
+      expect(getAvailableActions(idea('submitted'), ['admin'])).toEqual(['approve', 'reject']);
+      expect(getAvailableActions(idea('submitted'), ['owner'])).toEqual(['withdraw']);
+      expect(getAvailableActions(idea('approved'), ['owner'])).toEqual(['archive']);
+      expect(getAvailableActions(idea('approved'), ['admin'])).toEqual([
+        'start',
+        'ship',
+        'archive',
+      ]);
+      expect(getAvailableActions(idea('archived'), ['owner', 'admin'])).toEqual([]);
+      expect(getAvailableActions(idea('draft', ''), ['owner'])).toEqual(['archive']);
+      expect(getAvailableActions(idea('draft'), ['editor'])).toEqual([]);
+    });
+  });
+
+  describe('generateWorkflowSql', () => {
+    it('checks every transition in the trigger', () => {
+      const sql = generateWorkflowSql();
+      for (const [, from, to] of EXPECTED) {
+        expect(sql).toContain(`old.status = '${from}' and new.status = '${to}'`);
+      }
+    });
+
+    it('enforces transition SQL conditions', () => {
+      expect(generateWorkflowSql()).toContain(
+        "(old.status = 'submitted' and new.status = 'draft' and (is_owner) and (old.review_started_at is null))"
+      );
+      expect(generateWorkflowSql()).toContain(
+        "(old.status = 'submitted' and new.status = 'approved' and (is_admin) and (public.idea_quorum_reached(old.id, 'approve')))"
+      );
+      expect(generateWorkflowSql()).toContain(
+        "(old.status = 'draft' and new.status = 'submitted' and (is_owner) and (public.campaign_accepts_submissions(new.campaign_id) and public.idea_required_fields_complete(new.workspace_id, new.campaign_id, new.custom_fields) and public.idea_sections_complete(new.template, new.sections)))"
+      );
+    });
+
+    it('lets everyone the status rules name delete ideas', () => {
+      expect(generateWorkflowSql()).toContain(
+        "(public.idea_member_role(id) = 'owner' and status in ('draft'))\n    or (public.workspace_role(workspace_id) = 'admin' and status in ('draft'))"
+      );
+    });
+
+    it('keeps users from changing the fields the workflow maintains', () => {
+      const sql = generateWorkflowSql();
+      expect(sql).toContain('create trigger on_idea_fields_guard');
+      expect(sql).toContain(
+        "if auth.uid() is null or current_user not in ('anon', 'authenticated') then"
+      );
+      for (const field of WORKFLOW_FIELDS) {
+        expect(sql).toContain(`old.${field} is distinct from new.${field}`);
+      }
+      expect(sql).toContain(
+        '(old.status_reason is distinct from new.status_reason and old.status = new.status)'
+      );
+    });
+
+    it('is in sync with the latest workflow migration', () => {
+      const dir = resolve(__dirname, '../../supabase/migrations');
+      const latest = readdirSync(dir)
+        .filter(file => file.endsWith('.sql'))
+        .sort()
+        .map(file => readFileSync(resolve(dir, file), 'utf8'))
+        .filter(sql => sql.includes('function public.check_idea_workflow()'))
+        .pop();
+
+      expect(latest).toBe(generateWorkflowSql());
+    });
+  });
+});
@@ -0,0 +1,471 @@
+import { Constants } from './database.types';
+import { Idea, IdeaStatus, UserRole } from './supabase';
+import { getMemberRole, IdeaMemberRef } from './members';
+import { CampaignWindow, getCampaignSubmissionError } from './campaigns';
+import { CustomFieldValues, getCustomFieldsSubmissionError, IdeaFieldDefinition } from './fields';
+import { getSectionsSubmissionError, SectionValues, TemplateSnapshot } from './templates';
+
+/**
+ * The capacity in which a user acts on an idea
+ * Owners and editors come from idea membership; an admin who is also a member acts as both
+ */
+export type WorkflowActor = 'owner' | 'editor' | 'admin';
+
+/**
+ * Named status transitions exposed through the API
+ */
+export type WorkflowAction =
+  | 'submit'
+  | 'withdraw'
+  | 'approve'
+  | 'reject'
+  | 'start'
+  | 'ship'
+  | 'archive';
+
+/**
+ * Side effects that happen when a transition fires
+ * - notify_owner: every idea member gets a status_change notification (handle_idea_status_change trigger)
+ * - notify_admins: every admin gets a notification named after the action (same trigger)
+ * - decision_comment: the route must store the actor's comment alongside the transition
+ */
+export type WorkflowEffect = 'notify_owner' | 'notify_admins' | 'decision_comment';
+
+/**
+ * The idea fields transitions and guards need to see
+ * Ideas submitted into a campaign need the campaign's dates to be checked, ideas with
+ * custom fields need the field definitions that apply to them, and ideas created from a
+ * template need its sections
+ */
+export type WorkflowIdea = Pick<Idea, 'owner_id' | 'status' | 'title'> &
+  Partial<Pick<Idea, 'review_started_at'>> & {
+    campaign?: CampaignWindow | null;
+    custom_fields?: CustomFieldValues | null;
+    fields?: IdeaFieldDefinition[];
+    template?: TemplateSnapshot | null;
+    sections?: SectionValues | null;
+  };
+
+/**
+ * A guard returns an error message when the transition must not happen, or null when it may
+ */
+export type WorkflowGuard = (idea: WorkflowIdea) => string | null;
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  from: IdeaStatus[];
+  to: IdeaStatus;
+  actors: WorkflowActor[];
+  guards: WorkflowGuard[];
+  effects: WorkflowEffect[];
+  /** Extra condition the Postgres trigger enforces, written against the old and new rows */
+  sqlCondition?: string;
+}
+
+/**
+ * What each actor may do to an idea's content while it sits in a status
+ */
+export interface StatusRule {
+  editableBy: WorkflowActor[];
+  deletableBy: WorkflowActor[];
+}
+
+export type TransitionCheck =
+  | { allowed: true; transition: WorkflowTransition }
+  | { allowed: false; status: number; error: string; message: string };
+
+/**
+ * All idea statuses, in the order they are declared in the database enum
+ */
+export const IDEA_STATUSES: readonly IdeaStatus[] = Constants.public.Enums.idea_status;
+
+/**
+ * Idea columns that count as content (as opposed to workflow state)
+ */
+export const CONTENT_FIELDS = [
+  'title',
+  'description',
+  'tags',
+  'custom_fields',
+  'sections',
+] as const;
+
+/**
+ * Idea columns the workflow's own functions and triggers maintain, which users cannot set directly
+ * status_reason is also workflow state, but users give it along with the status change it explains
+ */
+export const WORKFLOW_FIELDS = [
+  'review_started_at',
+  'review_round',
+  'review_score',
+  'submitted_at',
+  'decided_at',
+  'escalated_at',
+  'campaign_id',
+  'template',
+] as const;
+
+const hasTitle: WorkflowGuard = idea =>
+  !idea.title || idea.title.trim().length < 3
+    ? 'Idea must have a title of at least 3 characters before submission'
+    : null;
+
+const campaignOpen: WorkflowGuard = idea => getCampaignSubmissionError(idea.campaign);
+
+const requiredFieldsFilled: WorkflowGuard = idea =>
+  idea.fields ? getCustomFieldsSubmissionError(idea.fields, idea.custom_fields) : null;
+
+const sectionsComplete: WorkflowGuard = idea =>
+  getSectionsSubmissionError(idea.template, idea.sections);
+
+const reviewNotStarted: WorkflowGuard = idea =>
+  idea.review_started_at ? 'An admin has already started reviewing this idea' : null;
+
+/**
+ * Content permissions per status
+ */
+export const STATUS_RULES: Record<IdeaStatus, StatusRule> = {
+  draft: { editableBy: ['owner', 'editor'], deletableBy: ['owner', 'admin'] },
+  submitted: { editableBy: [], deletableBy: [] },
+  approved: { editableBy: [], deletableBy: [] },
+  rejected: { editableBy: ['owner', 'editor'], deletableBy: [] },
+  in_progress: { editableBy: [], deletableBy: [] },
+  shipped: { editableBy: [], deletableBy: [] },
+  archived: { editableBy: [], deletableBy: [] },
+};
+
+/**
+ * The idea status transition table
+ * Every status change made through the API or directly in Postgres must match an entry here
+ */
+export const TRANSITIONS: WorkflowTransition[] = [
+  {
+    action: 'submit',
+    from: ['draft', 'rejected'],
+    to: 'submitted',
+    actors: ['owner'],
+    guards: [hasTitle, campaignOpen, requiredFieldsFilled, sectionsComplete],
+    effects: ['notify_owner'],
+    sqlCondition:
+      'public.campaign_accepts_submissions(new.campaign_id) and ' +
+      'public.idea_required_fields_complete(new.workspace_id, new.campaign_id, new.custom_fields) and ' +
+      'public.idea_sections_complete(new.template, new.sections)',
+  },
+  {
+    action: 'withdraw',
+    from: ['submitted'],
+    to: 'draft',
+    actors: ['owner'],
+    guards: [reviewNotStarted],
+    effects: ['notify_owner', 'notify_admins'],
+    sqlCondition: 'old.review_started_at is null',
+  },
+  {
+    action: 'approve',
+    from: ['submitted'],
+    to: 'approved',
+    actors: ['admin'],
+    guards: [],
+    effects: ['notify_owner', 'decision_comment'],
+    sqlCondition: "public.idea_quorum_reached(old.id, 'approve')",
+  },
+  {
+    action: 'reject',
+    from: ['submitted'],
+    to: 'rejected',
+    actors: ['admin'],
+    guards: [],
+    effects: ['notify_owner', 'decision_comment'],
+    sqlCondition: "public.idea_quorum_reached(old.id, 'reject')",
+  },
+  {
+    action: 'start',
+    from: ['approved'],
+    to: 'in_progress',
+    actors: ['admin'],
+    guards: [],
+    effects: ['notify_owner'],
+  },
+  {
+    action: 'ship',
+    from: ['approved', 'in_progress'],
+    to: 'shipped',
+    actors: ['admin'],
+    guards: [],
+    effects: ['notify_owner'],
+  },
+  {
+    action: 'archive',
+    from: ['draft', 'approved', 'rejected', 'in_progress', 'shipped'],
+    to: 'archived',
+    actors: ['owner', 'admin'],
+    guards: [],
+    effects: ['notify_owner'],
+  },
+];
+
+const ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit: 'submitted',
+  withdraw: 'withdrawn',
+  approve: 'approved',
+  reject: 'rejected',
+  start: 'started',
+  ship: 'shipped',
+  archive: 'archived',
+};
+
+/**
+ * Work out which capacities a user acts in for an idea
+ * Viewers have no workflow capacity; they can only read and comment
+ * @param idea The idea being acted on, with its members when co-owners and editors matter
+ * @param userId The acting user's ID
+ * @param role The acting user's role in the idea's workspace
+ * @returns List of actors, empty when the user has no standing on the idea
+ */
+export function getWorkflowActors(
+  idea: Pick<Idea, 'owner_id'> & { members?: IdeaMemberRef[] | null },
+  userId: string | null | undefined,
+  role: UserRole | null | undefined
+): WorkflowActor[] {
+  const actors: WorkflowActor[] = [];
+  const memberRole = getMemberRole(idea, userId);
+  if (memberRole === 'owner') actors.push('owner');
+  if (memberRole === 'editor') actors.push('editor');
+  if (role === 'admin') actors.push('admin');
+  return actors;
+}
+
+/**
+ * Find the transition an action triggers from a given status
+ * @param action The workflow action
+ * @param from The idea's current status
+ * @returns The matching transition, if any
+ */
+export function getTransition(
+  action: WorkflowAction,
+  from: IdeaStatus
+): WorkflowTransition | undefined {
+  return TRANSITIONS.find(t => t.action === action && t.from.includes(from));
+}
+
+/**
+ * Check whether an action may be performed on an idea
+ * @param action The workflow action
+ * @param idea The idea being acted on
+ * @param actors The capacities the user acts in
+ * @returns The transition to apply, or an error suitable for createErrorResponse
+ */
+export function checkTransition(
+  action: WorkflowAction,
+  idea: WorkflowIdea,
+  actors: WorkflowActor[]
+): TransitionCheck {
+  const transition = getTransition(action, idea.status);
+
+  if (!transition) {
+    return {
+      allowed: false,
+      status: 400,
+      error: 'Invalid Status',
+      message: `Ideas in '${idea.status}' status cannot be ${ACTION_LABELS[action]}`,
+    };
+  }
+
+  if (!actors.some(actor => transition.actors.includes(actor))) {
+    return {
+      allowed: false,
+      status: 403,
+      error: 'Forbidden',
+      message: `You do not have permission to ${action} this idea`,
+    };
+  }
+
+  for (const guard of transition.guards) {
+    const message = guard(idea);
+    if (message) {
+      return { allowed: false, status: 400, error: 'Validation Error', message };
+    }
+  }
+
+  return { allowed: true, transition };
+}
+
+/**
+ * List the actions a user can currently perform on an idea
+ * @param idea The idea being acted on
+ * @param actors The capacities the user acts in
+ * @returns Actions whose transition, actor and guard checks all pass
+ */
+export function getAvailableActions(idea: WorkflowIdea, actors: WorkflowActor[]): WorkflowAction[] {
+  return TRANSITIONS.filter(t => checkTransition(t.action, idea, actors).allowed)
+    .map(t => t.action)
+    .filter((action, index, all) => all.indexOf(action) === index);
+}
+
+/**
+ * Check whether the idea's content may be edited in its current status
+ */
+export function canEditIdea(status: IdeaStatus, actors: WorkflowActor[]): boolean {
+  return actors.some(actor => STATUS_RULES[status].editableBy.includes(actor));
+}
+
+/**
+ * Check whether the idea may be deleted in its current status
+ */
+export function canDeleteIdea(status: IdeaStatus, actors: WorkflowActor[]): boolean {
+  return actors.some(actor => STATUS_RULES[status].deletableBy.includes(actor));
+}
+
+const sqlList = (statuses: IdeaStatus[]) =>
+  statuses.length ? statuses.map(s => `'${s}'`).join(', ') : 'null';
+
+const statusesWhere = (predicate: (status: IdeaStatus) => boolean) =>
+  IDEA_STATUSES.filter(predicate);
+
+/**
+ * Generate the Postgres trigger and RLS policies that enforce the workflow table
+ * Output is written to a migration by scripts/generate-workflow-sql.ts
+ * @returns SQL source
+ */
+export function generateWorkflowSql(): string {
+  const actorCheck = (actors: WorkflowActor[]) => actors.map(actor => `is_${actor}`).join(' or ');
+
+  const transitionChecks = TRANSITIONS.flatMap(t =>
+    t.from.map(
+      from =>
+        `(old.status = '${from}' and new.status = '${t.to}' and (${actorCheck(t.actors)})` +
+        (t.sqlCondition ? ` and (${t.sqlCondition}))` : ')')
+    )
+  );
+
+  const editChecks = IDEA_STATUSES.filter(s => STATUS_RULES[s].editableBy.length).map(
+    s => `(old.status = '${s}' and (${actorCheck(STATUS_RULES[s].editableBy)}))`
+  );
+
+  const workflowFieldsChanged = WORKFLOW_FIELDS.map(
+    field => `old.${field} is distinct from new.${field}`
+  ).join('\n    or ');
+
+  const contentChanged = CONTENT_FIELDS.map(
+    field => `old.${field} is distinct from new.${field}`
+  ).join('\n    or ');
+
+  const updatableBy = (actor: WorkflowActor) =>
+    statusesWhere(
+      s =>
+        STATUS_RULES[s].editableBy.includes(actor) ||
+        TRANSITIONS.some(t => t.from.includes(s) && t.actors.includes(actor))
+    );
+  const adminUpdatable = updatableBy('admin');
+
+  // Row checks for each actor, as the policies see the idea
+  const actorRowCheck: Record<WorkflowActor, string> = {
+    owner: "public.idea_member_role(id) = 'owner'",
+    editor: "public.idea_member_role(id) = 'editor'",
+    admin: "public.workspace_role(workspace_id) = 'admin'",
+  };
+  const deletableBy = (actor: WorkflowActor) =>
+    statusesWhere(s => STATUS_RULES[s].deletableBy.includes(actor));
+  const deleteChecks = (Object.keys(actorRowCheck) as WorkflowActor[])
+    .filter(actor => deletableBy(actor).length)
+    .map(actor => `(${actorRowCheck[actor]} and status in (${sqlList(deletableBy(actor))}))`);
+
+  return `-- Generated by scripts/generate-workflow-sql.ts from src/lib/workflow.ts
+-- Do not edit by hand: change the transition table and regenerate
+
+-- Enforce the idea workflow table on every update
+create or replace function public.check_idea_workflow()
+returns trigger as $$
+declare
+  is_owner boolean;
+  is_editor boolean;
+  is_admin boolean;
+begin
+  -- Service role updates carry no session, so only the table itself is checked
+  is_owner := auth.uid() is null or new.owner_id = auth.uid()
+    or public.idea_member_role(new.id) = 'owner';
+  is_editor := auth.uid() is null or public.idea_member_role(new.id) = 'editor';
+  is_admin := auth.uid() is null or public.workspace_role(new.workspace_id) = 'admin';
+
+  if old.status <> new.status and not (
+    ${transitionChecks.join('\n    or ')}
+  ) then
+    raise exception 'Idea status cannot change from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  if (
+    ${contentChanged}
+  ) and not (
+    ${editChecks.length ? editChecks.join('\n    or ') : 'false'}
+  ) then
+    raise exception 'Ideas in % status cannot be modified', old.status
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_idea_workflow_check on public.ideas;
+create trigger on_idea_workflow_check
+  before update on public.ideas
+  for each row execute procedure public.check_idea_workflow();
+
+-- Keep users from setting the columns the workflow maintains, through the API or directly
+-- Before update triggers fire in name order, so this one sees the statement's own changes before
+-- the status triggers stamp theirs
+create or replace function public.check_idea_workflow_fields()
+returns trigger as $$
+begin
+  -- Security definer functions run as their owner, and service role updates carry no session
+  if auth.uid() is null or current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if ${workflowFieldsChanged}
+    or (old.status_reason is distinct from new.status_reason and old.status = new.status) then
+    raise exception 'Idea workflow fields cannot be changed directly'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_idea_fields_guard on public.ideas;
+create trigger on_idea_fields_guard
+  before update on public.ideas
+  for each row execute procedure public.check_idea_workflow_fields();
+
+-- Row access follows the same table; the trigger above polices what actually changes
+drop policy if exists "Owners can update own draft or rejected ideas" on public.ideas;
+drop policy if exists "Owners can update own ideas" on public.ideas;
+drop policy if exists "Members can update ideas" on public.ideas;
+create policy "Members can update ideas"
+  on public.ideas for update
+  using (
+    (public.idea_member_role(id) = 'owner' and status in (${sqlList(updatableBy('owner'))}))
+    or (public.idea_member_role(id) = 'editor' and status in (${sqlList(updatableBy('editor'))}))
+  )
+  with check (public.idea_member_role(id) in ('owner', 'editor'));
+
+drop policy if exists "Admins can update status of submitted ideas" on public.ideas;
+drop policy if exists "Admins can update ideas" on public.ideas;
+create policy "Admins can update ideas"
+  on public.ideas for update
+  using (
+    status in (${sqlList(adminUpdatable)})
+    and public.workspace_role(workspace_id) = 'admin'
+  );
+
+drop policy if exists "Owners can delete own draft ideas" on public.ideas;
+drop policy if exists "Owners can delete own ideas" on public.ideas;
+drop policy if exists "Members can delete ideas" on public.ideas;
+create policy "Members can delete ideas"
+  on public.ideas for delete
+  using (
+    ${deleteChecks.length ? deleteChecks.join('\n    or ') : 'false'}
+  );
+`;
+}
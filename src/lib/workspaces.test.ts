@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addWorkspaceMemberSchema,
+  createWorkspaceSchema,
+  pickWorkspace,
+  slugifyWorkspaceName,
+  WorkspaceMembership,
+} from './workspaces';
+
+const userId = '0b6e7c8a-3f0d-4b8e-9a51-6f2d3c4b5a69';
+
+describe('workspaces', () => {
+  describe('pickWorkspace', () => {
+    const memberships: WorkspaceMembership[] = [
+      { workspace_id: 'retail', role: 'owner' },
+      { workspace_id: 'wholesale', role: 'admin' },
+    ];
+
+    it('picks the requested workspace when the user belongs to it', () => {
+      expect(pickWorkspace(memberships, 'wholesale')).toEqual({
+        workspace_id: 'wholesale',
+        role: 'admin',
+      });
+    });
+
+    it('refuses workspaces the user does not belong to', () => {
+      expect(pickWorkspace(memberships, 'insurance')).toBeNull();
+    });
+
+    it("falls back to the user's first workspace when none is requested", () => {
+      expect(pickWorkspace(memberships, null)?.workspace_id).toBe('retail');
+      expect(pickWorkspace(memberships, undefined)?.workspace_id).toBe('retail');
+      expect(pickWorkspace(memberships, '')?.workspace_id).toBe('retail');
+    });
+
+    it('returns null for users without any workspace', () => {
+      expect(pickWorkspace([], null)).toBeNull();
+    });
+  });
+
+  describe('slugifyWorkspaceName', () => {
+    it('lowercases and dashes names', () => {
+      expect(slugifyWorkspaceName('Retail Banking')).toBe('retail-banking');
+      expect(slugifyWorkspaceName('  R&D / Labs  ')).toBe('r-d-labs');
+    });
+
+    it('drops accents', () => {
+      expect(slugifyWorkspaceName('Équipe Créative')).toBe('equipe-creative');
+    });
+
+    it('keeps slugs within 50 characters without a trailing dash', () => {
+      const slug = slugifyWorkspaceName(`${'a'.repeat(49)} b`);
+      expect(slug).toBe('a'.repeat(49));
+    });
+
+    it('returns an empty slug when nothing usable is left', () => {
+      expect(slugifyWorkspaceName('!!!')).toBe('');
+    });
+  });
+
+  describe('createWorkspaceSchema', () => {
+    it('accepts a name with an optional slug', () => {
+      expect(createWorkspaceSchema.safeParse({ name: 'Retail' }).success).toBe(true);
+      expect(createWorkspaceSchema.safeParse({ name: 'Retail', slug: 'retail-2' }).success).toBe(
+        true
+      );
+    });
+
+    it('rejects malformed slugs', () => {
+      expect(createWorkspaceSchema.safeParse({ name: 'Retail', slug: 'Retail' }).success).toBe(
+        false
+      );
+      expect(createWorkspaceSchema.safeParse({ name: 'Retail', slug: 'retail-' }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('addWorkspaceMemberSchema', () => {
+    it('defaults new members to the owner role', () => {
+      expect(addWorkspaceMemberSchema.parse({ user_id: userId })).toEqual({
+        user_id: userId,
+        role: 'owner',
+      });
+    });
+
+    it('accepts a user ID or an email, but not both', () => {
+      expect(addWorkspaceMemberSchema.safeParse({ email: 'a@example.com' }).success).toBe(true);
+      expect(
+        addWorkspaceMemberSchema.safeParse({ user_id: userId, email: 'a@example.com' }).success
+      ).toBe(false);
+      expect(addWorkspaceMemberSchema.safeParse({ role: 'admin' }).success).toBe(false);
+    });
+  });
+});
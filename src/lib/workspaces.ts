@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { UserRole } from './supabase';
+
+/**
+ * Where API requests name the workspace they act in
+ * The header wins over the cookie set by PUT /api/workspaces/current
+ */
+export const WORKSPACE_HEADER = 'x-workspace-id';
+export const WORKSPACE_COOKIE = 'workspace_id';
+
+/**
+ * Roles within a workspace; admins administer the workspace's ideas, owners submit ideas
+ */
+export const WORKSPACE_ROLES = ['owner', 'admin'] as const;
+
+/**
+ * A user's membership as returned by workspace_members queries
+ */
+export interface WorkspaceMembership {
+  workspace_id: string;
+  role: UserRole;
+}
+
+// Schema for validating workspace creation
+export const createWorkspaceSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be at most 100 characters'),
+  slug: z
+    .string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase letters, numbers and dashes')
+    .max(50, 'Slug must be at most 50 characters')
+    .optional(),
+});
+
+// Schema for validating a workspace switch
+export const switchWorkspaceSchema = z.object({
+  workspace_id: z.string().uuid('Workspace ID must be a valid UUID'),
+});
+
+// Schema for validating workspace member additions and role changes
+export const addWorkspaceMemberSchema = z
+  .object({
+    user_id: z.string().uuid('User ID must be a valid UUID').optional(),
+    email: z.string().email('Email must be a valid email address').optional(),
+    role: z.enum(WORKSPACE_ROLES).optional().default('owner'),
+  })
+  .refine(data => !!data.user_id !== !!data.email, {
+    message: 'Provide either a user ID or an email address',
+  });
+
+/**
+ * Turn a workspace name into a URL-friendly slug
+ * @param name The workspace name
+ * @returns The slug, e.g. "Retail Banking" -> "retail-banking"
+ */
+export function slugifyWorkspaceName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Pick the workspace a request acts in
+ * @param memberships The user's memberships, oldest first
+ * @param requestedId The workspace named by the request, if any
+ * @returns The requested membership, the user's first workspace when none was requested,
+ * or null when the user is not a member of the requested workspace or of any workspace
+ */
+export function pickWorkspace(
+  memberships: WorkspaceMembership[],
+  requestedId: string | null | undefined
+): WorkspaceMembership | null {
+  if (requestedId) {
+    return memberships.find(m => m.workspace_id === requestedId) ?? null;
+  }
+
+  return memberships[0] ?? null;
+}
@@ -56,6 +56,7 @@ vi.mock('@/lib/supabase', async () => {
       on: vi.fn().mockReturnThis(),
       subscribe: vi.fn().mockReturnThis(),
     }),
+    removeChannel: vi.fn().mockResolvedValue('ok'),
     storage: {
       from: vi.fn().mockReturnValue({
         upload: vi.fn(),
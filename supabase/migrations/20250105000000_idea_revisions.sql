@@ -0,0 +1,102 @@
+-- 20250105000000_idea_revisions.sql
+-- Per-version snapshots of ideas so edits and resubmissions can be diffed
+
+-- IDEA_REVISIONS TABLE
+-- Stores an immutable snapshot of an idea's content after every change
+create table public.idea_revisions (
+  id uuid primary key default gen_random_uuid(),
+  idea_id uuid not null references public.ideas(id) on delete cascade,
+  revision integer not null,
+  -- created | updated | submitted | reviewed
+  event text not null,
+  title text not null,
+  description text not null,
+  tags text[] default array[]::text[],
+  status idea_status not null,
+  author_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (idea_id, revision)
+);
+
+-- Enable RLS on idea_revisions
+alter table public.idea_revisions enable row level security;
+
+-- Idea revisions RLS policies
+-- Revisions are written by trigger only, so there are no insert/update/delete policies
+-- Owners can read revisions of their own ideas
+create policy "Owners can read own idea revisions"
+  on public.idea_revisions for select
+  using (
+    idea_id in (
+      select id from public.ideas
+      where owner_id = auth.uid()
+    )
+  );
+
+-- Admins can read all idea revisions
+create policy "Admins can read all idea revisions"
+  on public.idea_revisions for select
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Snapshot trigger for idea inserts and updates
+create or replace function public.handle_idea_revision()
+returns trigger as $$
+declare
+  revision_event text;
+  next_revision integer;
+begin
+  if tg_op = 'INSERT' then
+    revision_event := 'created';
+  elsif old.status <> new.status and new.status = 'submitted' then
+    revision_event := 'submitted';
+  elsif old.status <> new.status and new.status in ('approved', 'rejected') then
+    revision_event := 'reviewed';
+  elsif old.title is distinct from new.title
+    or old.description is distinct from new.description
+    or old.tags is distinct from new.tags then
+    revision_event := 'updated';
+  else
+    -- Nothing worth snapshotting changed
+    return new;
+  end if;
+
+  select coalesce(max(revision), 0) + 1 into next_revision
+  from public.idea_revisions
+  where idea_id = new.id;
+
+  insert into public.idea_revisions(
+    idea_id, revision, event, title, description, tags, status, author_id
+  )
+  values (
+    new.id,
+    next_revision,
+    revision_event,
+    new.title,
+    new.description,
+    new.tags,
+    new.status,
+    coalesce(auth.uid(), new.owner_id)
+  );
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Create trigger for idea revision snapshots
+create trigger on_idea_revision
+  after insert or update on public.ideas
+  for each row execute procedure public.handle_idea_revision();
+
+-- Backfill an initial revision for ideas that already exist
+insert into public.idea_revisions(idea_id, revision, event, title, description, tags, status, author_id)
+select id, 1, 'created', title, description, tags, status, owner_id
+from public.ideas;
+
+-- Create indexes for performance
+create index idx_idea_revisions_idea_id on public.idea_revisions(idea_id);
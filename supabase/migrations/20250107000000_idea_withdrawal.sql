@@ -0,0 +1,93 @@
+-- 20250107000000_idea_withdrawal.sql
+-- Let owners withdraw submitted ideas until an admin starts reviewing them
+
+-- Track when an admin first picked up a submitted idea, and why the last status change happened
+alter table public.ideas
+  add column review_started_at timestamptz,
+  add column status_reason text;
+
+-- Clear per-transition fields whenever the status moves on
+create or replace function public.handle_idea_status_reset()
+returns trigger as $$
+begin
+  if old.status <> new.status then
+    -- A fresh submission has not been picked up by anyone yet
+    if new.status = 'submitted' then
+      new.review_started_at := null;
+    end if;
+
+    -- Do not carry a reason over from an earlier transition
+    if new.status_reason is not distinct from old.status_reason then
+      new.status_reason := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Create trigger to reset per-transition fields
+create trigger on_idea_status_reset
+  before update of status on public.ideas
+  for each row execute procedure public.handle_idea_status_reset();
+
+-- Mark a submitted idea as under review (called when an admin opens or comments on it)
+create or replace function public.start_idea_review(idea_id uuid)
+returns boolean as $$
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid()
+    and profiles.role = 'admin'
+  ) then
+    return false;
+  end if;
+
+  update public.ideas
+  set review_started_at = now()
+  where ideas.id = start_idea_review.idea_id
+  and ideas.status = 'submitted'
+  and ideas.review_started_at is null;
+
+  return found;
+end;
+$$ language plpgsql security definer;
+
+-- Notification trigger for idea status changes
+-- Withdrawals additionally notify every admin
+create or replace function public.handle_idea_status_change()
+returns trigger as $$
+begin
+  if old.status <> new.status then
+    -- Notify the idea owner about the status change
+    insert into public.notifications(user_id, idea_id, type, meta)
+    values (
+      new.owner_id,
+      new.id,
+      'status_change',
+      jsonb_build_object(
+        'old_status', old.status,
+        'new_status', new.status,
+        'reason', new.status_reason
+      )
+    );
+
+    -- Let admins know a submission they may have queued was pulled back
+    if old.status = 'submitted' and new.status = 'draft' then
+      insert into public.notifications(user_id, idea_id, type, meta)
+      select
+        p.id,
+        new.id,
+        'withdrawn',
+        jsonb_build_object(
+          'owner_id', new.owner_id,
+          'reason', new.status_reason
+        )
+      from public.profiles p
+      where p.role = 'admin';
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,82 @@
+-- Generated by scripts/generate-workflow-sql.ts from src/lib/workflow.ts
+-- Do not edit by hand: change the transition table and regenerate
+
+-- Enforce the idea workflow table on every update
+create or replace function public.check_idea_workflow()
+returns trigger as $$
+declare
+  is_owner boolean;
+  is_admin boolean;
+begin
+  -- Service role updates carry no session, so only the table itself is checked
+  is_owner := auth.uid() is null or new.owner_id = auth.uid();
+  is_admin := auth.uid() is null or exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid()
+    and profiles.role = 'admin'
+  );
+
+  if old.status <> new.status and not (
+    (old.status = 'draft' and new.status = 'submitted' and (is_owner))
+    or (old.status = 'rejected' and new.status = 'submitted' and (is_owner))
+    or (old.status = 'submitted' and new.status = 'draft' and (is_owner) and (old.review_started_at is null))
+    or (old.status = 'submitted' and new.status = 'approved' and (is_admin))
+    or (old.status = 'submitted' and new.status = 'rejected' and (is_admin))
+  ) then
+    raise exception 'Idea status cannot change from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  if (
+    old.title is distinct from new.title
+    or old.description is distinct from new.description
+    or old.tags is distinct from new.tags
+  ) and not (
+    (old.status = 'draft' and (is_owner))
+    or (old.status = 'rejected' and (is_owner))
+  ) then
+    raise exception 'Ideas in % status cannot be modified', old.status
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_idea_workflow_check on public.ideas;
+create trigger on_idea_workflow_check
+  before update on public.ideas
+  for each row execute procedure public.check_idea_workflow();
+
+-- Row access follows the same table; the trigger above polices what actually changes
+drop policy if exists "Owners can update own draft or rejected ideas" on public.ideas;
+drop policy if exists "Owners can update own ideas" on public.ideas;
+create policy "Owners can update own ideas"
+  on public.ideas for update
+  using (
+    owner_id = auth.uid()
+    and status in ('draft', 'submitted', 'rejected')
+  )
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Admins can update status of submitted ideas" on public.ideas;
+drop policy if exists "Admins can update ideas" on public.ideas;
+create policy "Admins can update ideas"
+  on public.ideas for update
+  using (
+    status in ('submitted')
+    and exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+drop policy if exists "Owners can delete own draft ideas" on public.ideas;
+drop policy if exists "Owners can delete own ideas" on public.ideas;
+create policy "Owners can delete own ideas"
+  on public.ideas for delete
+  using (
+    owner_id = auth.uid()
+    and status in ('draft')
+  );
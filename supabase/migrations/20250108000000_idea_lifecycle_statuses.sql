@@ -0,0 +1,7 @@
+-- 20250108000000_idea_lifecycle_statuses.sql
+-- Statuses for what happens to an idea after approval, and for retiring stale ideas
+-- Kept in its own migration because new enum values cannot be used in the transaction that adds them
+
+alter type public.idea_status add value if not exists 'in_progress';
+alter type public.idea_status add value if not exists 'shipped';
+alter type public.idea_status add value if not exists 'archived';
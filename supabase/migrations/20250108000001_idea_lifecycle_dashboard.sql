@@ -0,0 +1,45 @@
+-- 20250108000001_idea_lifecycle_dashboard.sql
+-- Dashboard counters for the post-approval and archived statuses
+
+-- Create function to get dashboard counts
+create or replace function public.get_dashboard_counts(user_id uuid)
+returns json as $$
+declare
+  result json;
+begin
+  select json_build_object(
+    'draft_count', (select count(*) from public.ideas where owner_id = user_id and status = 'draft'),
+    'submitted_count', (select count(*) from public.ideas where owner_id = user_id and status = 'submitted'),
+    'approved_count', (select count(*) from public.ideas where owner_id = user_id and status = 'approved'),
+    'rejected_count', (select count(*) from public.ideas where owner_id = user_id and status = 'rejected'),
+    'in_progress_count', (select count(*) from public.ideas where owner_id = user_id and status = 'in_progress'),
+    'shipped_count', (select count(*) from public.ideas where owner_id = user_id and status = 'shipped'),
+    'archived_count', (select count(*) from public.ideas where owner_id = user_id and status = 'archived'),
+    'total_count', (select count(*) from public.ideas where owner_id = user_id)
+  ) into result;
+  
+  return result;
+end;
+$$ language plpgsql security definer;
+
+-- Create function to get admin dashboard counts
+create or replace function public.get_admin_dashboard_counts()
+returns json as $$
+declare
+  result json;
+begin
+  select json_build_object(
+    'draft_count', (select count(*) from public.ideas where status = 'draft'),
+    'submitted_count', (select count(*) from public.ideas where status = 'submitted'),
+    'approved_count', (select count(*) from public.ideas where status = 'approved'),
+    'rejected_count', (select count(*) from public.ideas where status = 'rejected'),
+    'in_progress_count', (select count(*) from public.ideas where status = 'in_progress'),
+    'shipped_count', (select count(*) from public.ideas where status = 'shipped'),
+    'archived_count', (select count(*) from public.ideas where status = 'archived'),
+    'total_count', (select count(*) from public.ideas),
+    'pending_review_count', (select count(*) from public.ideas where status = 'submitted')
+  ) into result;
+  
+  return result;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,161 @@
+-- 20250109000000_review_rubrics.sql
+-- Admin-configurable review rubrics and weighted scorecards on admin decisions
+
+-- RUBRICS TABLE
+-- A named set of weighted criteria reviewers score ideas against
+create table public.rubrics (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  is_default boolean not null default false,
+  active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Only one rubric can be the default at a time
+create unique index idx_rubrics_single_default on public.rubrics(is_default) where is_default;
+
+-- RUBRIC_CRITERIA TABLE
+-- Criteria of a rubric, each scored on a 1-5 scale
+create table public.rubric_criteria (
+  id uuid primary key default gen_random_uuid(),
+  rubric_id uuid not null references public.rubrics(id) on delete cascade,
+  key text not null,
+  label text not null,
+  description text,
+  weight numeric not null check (weight > 0),
+  position integer not null default 0,
+  unique (rubric_id, key)
+);
+
+-- IDEA_REVIEWS TABLE
+-- One row per admin decision, with the scorecard and its weighted score
+create table public.idea_reviews (
+  id uuid primary key default gen_random_uuid(),
+  idea_id uuid not null references public.ideas(id) on delete cascade,
+  reviewer_id uuid not null references public.profiles(id) on delete cascade,
+  rubric_id uuid references public.rubrics(id) on delete set null,
+  decision text not null check (decision in ('approve', 'reject')),
+  -- Snapshot of [{ key, label, weight, score }] so later rubric edits do not rewrite history
+  scores jsonb not null default '[]'::jsonb,
+  weighted_score numeric check (weighted_score between 1 and 5),
+  created_at timestamptz not null default now()
+);
+
+-- Latest weighted score on the idea itself so lists can sort by it
+alter table public.ideas add column review_score numeric;
+
+-- Enable RLS on the new tables
+alter table public.rubrics enable row level security;
+alter table public.rubric_criteria enable row level security;
+alter table public.idea_reviews enable row level security;
+
+-- Rubrics RLS policies
+-- Any signed-in user can read rubrics, so owners know what they will be scored on
+create policy "Authenticated users can read rubrics"
+  on public.rubrics for select
+  using (auth.uid() is not null);
+
+-- Admins can manage rubrics
+create policy "Admins can manage rubrics"
+  on public.rubrics for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Rubric criteria RLS policies
+create policy "Authenticated users can read rubric criteria"
+  on public.rubric_criteria for select
+  using (auth.uid() is not null);
+
+create policy "Admins can manage rubric criteria"
+  on public.rubric_criteria for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Idea reviews RLS policies
+-- Owners can read reviews of their own ideas
+create policy "Owners can read reviews of own ideas"
+  on public.idea_reviews for select
+  using (
+    idea_id in (
+      select id from public.ideas
+      where owner_id = auth.uid()
+    )
+  );
+
+-- Admins can read all reviews
+create policy "Admins can read all reviews"
+  on public.idea_reviews for select
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Admins can record their own reviews
+create policy "Admins can insert own reviews"
+  on public.idea_reviews for insert
+  with check (
+    reviewer_id = auth.uid()
+    and exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Keep the idea's score in step with its latest review
+create or replace function public.handle_new_review()
+returns trigger as $$
+begin
+  update public.ideas
+  set review_score = new.weighted_score
+  where id = new.idea_id;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Create trigger for review scores
+create trigger on_review_created
+  after insert on public.idea_reviews
+  for each row execute procedure public.handle_new_review();
+
+-- Create trigger to auto-update updated_at on rubrics table
+create trigger on_rubric_updated
+  before update on public.rubrics
+  for each row execute procedure public.handle_updated_at();
+
+-- Seed a default rubric covering the usual review criteria
+with default_rubric as (
+  insert into public.rubrics(name, description, is_default)
+  values ('Standard review', 'Default criteria for reviewing submitted ideas', true)
+  returning id
+)
+insert into public.rubric_criteria(rubric_id, key, label, description, weight, position)
+select default_rubric.id, c.key, c.label, c.description, c.weight, c.position
+from default_rubric, (values
+  ('impact', 'Impact', 'Value delivered if the idea succeeds', 3, 0),
+  ('feasibility', 'Feasibility', 'How realistic delivery is with current capabilities', 2, 1),
+  ('cost', 'Cost', 'Higher scores mean a cheaper idea to deliver', 1, 2),
+  ('strategic_fit', 'Strategic fit', 'Alignment with current company priorities', 2, 3)
+) as c(key, label, description, weight, position);
+
+-- Create indexes for performance
+create index idx_rubric_criteria_rubric_id on public.rubric_criteria(rubric_id);
+create index idx_idea_reviews_idea_id on public.idea_reviews(idea_id);
+create index idx_ideas_review_score on public.ideas(review_score);
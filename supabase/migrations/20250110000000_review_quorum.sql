@@ -0,0 +1,192 @@
+-- 20250110000000_review_quorum.sql
+-- N-of-M approval: panel reviewers vote independently and the idea only moves once quorum is reached
+
+-- REVIEW_POLICY TABLE
+-- A single row holding the quorum rule in effect
+create table public.review_policy (
+  id boolean primary key default true check (id),
+  approvals_required integer not null default 1 check (approvals_required >= 1),
+  rejection_rule text not null default 'veto' check (rejection_rule in ('veto', 'quorum')),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+-- One approval and a veto on rejection matches the single-admin behaviour
+insert into public.review_policy default values;
+
+-- REVIEW_PANEL_MEMBERS TABLE
+-- Admins who vote on submitted ideas; when empty, every admin is on the panel
+create table public.review_panel_members (
+  reviewer_id uuid primary key references public.profiles(id) on delete cascade,
+  added_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Every submission starts a new review round so votes on earlier submissions do not count
+alter table public.ideas add column review_round integer not null default 0;
+
+alter table public.idea_reviews add column round integer not null default 0;
+
+-- Each reviewer votes once per round
+alter table public.idea_reviews
+  add constraint idea_reviews_one_vote_per_round unique (idea_id, reviewer_id, round);
+
+-- Enable RLS on the new tables
+alter table public.review_policy enable row level security;
+alter table public.review_panel_members enable row level security;
+
+-- Review policy RLS policies
+-- Any signed-in user can read the policy, so owners know how their idea is decided
+create policy "Authenticated users can read review policy"
+  on public.review_policy for select
+  using (auth.uid() is not null);
+
+create policy "Admins can update review policy"
+  on public.review_policy for update
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Review panel RLS policies
+create policy "Authenticated users can read review panel"
+  on public.review_panel_members for select
+  using (auth.uid() is not null);
+
+create policy "Admins can manage review panel"
+  on public.review_panel_members for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Reviewers currently on the panel, with the profile fields shown next to votes
+create or replace function public.get_review_panel()
+returns table (id uuid, full_name text, avatar_url text) as $$
+  select p.id, p.full_name, p.avatar_url
+  from public.profiles p
+  where p.role = 'admin'
+  and (
+    not exists (select 1 from public.review_panel_members)
+    or p.id in (select reviewer_id from public.review_panel_members)
+  )
+  order by p.full_name;
+$$ language sql stable security definer;
+
+-- Whether the current round's panel votes reach the given decision
+-- Mirrors getQuorumState in src/lib/quorum.ts
+create or replace function public.idea_quorum_reached(idea_id uuid, decision text)
+returns boolean as $$
+declare
+  policy public.review_policy;
+  panel_size integer;
+  required integer;
+  rejections_needed integer;
+  approvals integer;
+  rejections integer;
+begin
+  select * into policy from public.review_policy;
+  select count(*) into panel_size from public.get_review_panel();
+
+  required := greatest(1, least(coalesce(policy.approvals_required, 1), panel_size));
+  rejections_needed := case when coalesce(policy.rejection_rule, 'veto') = 'veto' then 1 else required end;
+
+  select
+    count(*) filter (where r.decision = 'approve'),
+    count(*) filter (where r.decision = 'reject')
+  into approvals, rejections
+  from public.idea_reviews r
+  join public.ideas i on i.id = r.idea_id and i.review_round = r.round
+  where r.idea_id = idea_quorum_reached.idea_id
+  and r.reviewer_id in (select panel.id from public.get_review_panel() panel);
+
+  if idea_quorum_reached.decision = 'reject' then
+    return rejections >= rejections_needed;
+  end if;
+
+  return approvals >= required and rejections < rejections_needed;
+end;
+$$ language plpgsql stable security definer;
+
+-- Start a new review round on every submission
+create or replace function public.handle_idea_status_reset()
+returns trigger as $$
+begin
+  if old.status <> new.status then
+    -- A fresh submission has not been picked up by anyone yet
+    if new.status = 'submitted' then
+      new.review_started_at := null;
+      new.review_round := old.review_round + 1;
+    end if;
+
+    -- Do not carry a reason over from an earlier transition
+    if new.status_reason is not distinct from old.status_reason then
+      new.status_reason := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Votes always belong to the idea's current round
+create or replace function public.handle_review_round()
+returns trigger as $$
+begin
+  select review_round into new.round
+  from public.ideas
+  where id = new.idea_id;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_review_round
+  before insert on public.idea_reviews
+  for each row execute procedure public.handle_review_round();
+
+-- The idea's score is the average of the current round's scored votes
+create or replace function public.handle_new_review()
+returns trigger as $$
+begin
+  update public.ideas
+  set review_score = (
+    select avg(r.weighted_score)
+    from public.idea_reviews r
+    where r.idea_id = new.idea_id
+    and r.round = new.round
+  )
+  where id = new.idea_id;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Only panel reviewers can vote, and only while the idea is submitted
+drop policy if exists "Admins can insert own reviews" on public.idea_reviews;
+
+create policy "Panel reviewers can vote on submitted ideas"
+  on public.idea_reviews for insert
+  with check (
+    reviewer_id = auth.uid()
+    and reviewer_id in (select panel.id from public.get_review_panel() panel)
+    and exists (
+      select 1 from public.ideas
+      where ideas.id = idea_reviews.idea_id
+      and ideas.status = 'submitted'
+    )
+  );
+
+-- Create trigger to auto-update updated_at on review_policy table
+create trigger on_review_policy_updated
+  before update on public.review_policy
+  for each row execute procedure public.handle_updated_at();
+
+-- Create indexes for performance
+create index idx_idea_reviews_round on public.idea_reviews(idea_id, round);
@@ -0,0 +1,208 @@
+-- 20250111000000_reviewer_assignment.sql
+-- Assign submitted ideas to a reviewer, manually or automatically, and report reviewer workload
+
+-- The reviewer a submitted idea is waiting on, and since when
+alter table public.ideas
+  add column assigned_reviewer_id uuid references public.profiles(id) on delete set null,
+  add column assigned_at timestamptz;
+
+-- How new submissions are assigned; round-robin remembers who was picked last
+alter table public.review_policy
+  add column assignment_strategy text not null default 'manual'
+    check (assignment_strategy in ('manual', 'round_robin', 'least_loaded')),
+  add column last_assigned_reviewer_id uuid references public.profiles(id) on delete set null;
+
+-- Pick a reviewer from the review panel
+-- round_robin: the next panel member after the last one picked
+-- least_loaded: the panel member with the fewest submitted ideas assigned
+create or replace function public.pick_reviewer(strategy text)
+returns uuid as $$
+declare
+  picked uuid;
+  last_assigned uuid;
+begin
+  if strategy = 'round_robin' then
+    select last_assigned_reviewer_id into last_assigned from public.review_policy;
+
+    select panel.id into picked
+    from public.get_review_panel() panel
+    order by (last_assigned is not null and panel.id <= last_assigned), panel.id
+    limit 1;
+
+    update public.review_policy
+    set last_assigned_reviewer_id = picked
+    where id;
+  elsif strategy = 'least_loaded' then
+    select panel.id into picked
+    from public.get_review_panel() panel
+    left join public.ideas on ideas.assigned_reviewer_id = panel.id
+      and ideas.status = 'submitted'
+    group by panel.id
+    order by count(ideas.id), max(ideas.assigned_at) nulls first, panel.id
+    limit 1;
+  end if;
+
+  return picked;
+end;
+$$ language plpgsql security definer;
+
+-- Only reachable through the assignment trigger and assign_idea_reviewer
+revoke execute on function public.pick_reviewer(text) from public, anon, authenticated;
+
+-- Assign a submitted idea to a reviewer, or pick one with the given strategy
+create or replace function public.assign_idea_reviewer(
+  idea_id uuid,
+  strategy text default 'manual',
+  reviewer_id uuid default null
+)
+returns uuid as $$
+declare
+  assignee uuid;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid()
+    and profiles.role = 'admin'
+  ) then
+    raise exception 'Only admins can assign reviewers'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if strategy = 'manual' then
+    assignee := assign_idea_reviewer.reviewer_id;
+  else
+    assignee := public.pick_reviewer(strategy);
+  end if;
+
+  if assignee is null
+    or assignee not in (select panel.id from public.get_review_panel() panel) then
+    raise exception 'Reviewer must be on the review panel'
+      using errcode = 'check_violation';
+  end if;
+
+  update public.ideas
+  set assigned_reviewer_id = assignee
+  where ideas.id = assign_idea_reviewer.idea_id
+  and ideas.status = 'submitted';
+
+  if not found then
+    raise exception 'Only submitted ideas can be assigned'
+      using errcode = 'no_data_found';
+  end if;
+
+  return assignee;
+end;
+$$ language plpgsql security definer;
+
+-- Keep assignments consistent whenever an idea changes
+create or replace function public.handle_idea_assignment()
+returns trigger as $$
+declare
+  strategy text;
+begin
+  -- Only admins move ideas between reviewers; service role updates carry no session
+  if new.assigned_reviewer_id is distinct from old.assigned_reviewer_id
+    and auth.uid() is not null
+    and not exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    ) then
+    raise exception 'Only admins can assign reviewers'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  -- Auto-assign fresh submissions, keeping an earlier reviewer who is still on the panel
+  if old.status <> new.status and new.status = 'submitted' then
+    select assignment_strategy into strategy from public.review_policy;
+
+    if coalesce(strategy, 'manual') <> 'manual' and (
+      new.assigned_reviewer_id is null
+      or new.assigned_reviewer_id not in (select panel.id from public.get_review_panel() panel)
+    ) then
+      new.assigned_reviewer_id := public.pick_reviewer(strategy);
+    end if;
+  end if;
+
+  if new.assigned_reviewer_id is distinct from old.assigned_reviewer_id then
+    new.assigned_at := case when new.assigned_reviewer_id is null then null else now() end;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Create trigger for reviewer assignment
+create trigger on_idea_assignment
+  before update on public.ideas
+  for each row execute procedure public.handle_idea_assignment();
+
+-- Let the new assignee know an idea is waiting on them
+create or replace function public.handle_idea_assignment_notification()
+returns trigger as $$
+begin
+  if new.assigned_reviewer_id is not null
+    and new.assigned_reviewer_id is distinct from old.assigned_reviewer_id
+    and new.assigned_reviewer_id is distinct from auth.uid() then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    values (
+      new.assigned_reviewer_id,
+      new.id,
+      'assigned',
+      jsonb_build_object(
+        'previous_reviewer_id', old.assigned_reviewer_id,
+        'assigned_by', auth.uid()
+      )
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Create trigger for assignment notifications
+create trigger on_idea_assigned
+  after update of assigned_reviewer_id on public.ideas
+  for each row execute procedure public.handle_idea_assignment_notification();
+
+-- Admin dashboard counts now include each reviewer's open assignments
+create or replace function public.get_admin_dashboard_counts()
+returns json as $$
+declare
+  result json;
+begin
+  select json_build_object(
+    'draft_count', (select count(*) from public.ideas where status = 'draft'),
+    'submitted_count', (select count(*) from public.ideas where status = 'submitted'),
+    'approved_count', (select count(*) from public.ideas where status = 'approved'),
+    'rejected_count', (select count(*) from public.ideas where status = 'rejected'),
+    'in_progress_count', (select count(*) from public.ideas where status = 'in_progress'),
+    'shipped_count', (select count(*) from public.ideas where status = 'shipped'),
+    'archived_count', (select count(*) from public.ideas where status = 'archived'),
+    'total_count', (select count(*) from public.ideas),
+    'pending_review_count', (select count(*) from public.ideas where status = 'submitted'),
+    'unassigned_count', (
+      select count(*) from public.ideas
+      where status = 'submitted' and assigned_reviewer_id is null
+    ),
+    'reviewer_workload', (
+      select coalesce(json_agg(workload order by workload.assigned_count desc, workload.full_name), '[]'::json)
+      from (
+        select
+          panel.id as reviewer_id,
+          panel.full_name,
+          count(ideas.id) as assigned_count
+        from public.get_review_panel() panel
+        left join public.ideas on ideas.assigned_reviewer_id = panel.id
+          and ideas.status = 'submitted'
+        group by panel.id, panel.full_name
+      ) workload
+    )
+  ) into result;
+
+  return result;
+end;
+$$ language plpgsql security definer;
+
+-- Create indexes for performance
+create index idx_ideas_assigned_reviewer on public.ideas(assigned_reviewer_id, status);
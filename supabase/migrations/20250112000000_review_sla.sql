@@ -0,0 +1,215 @@
+-- 20250112000000_review_sla.sql
+-- Track how long ideas wait for a decision and escalate the ones that breach the review SLA
+
+-- How long a submitted idea may wait for a decision
+alter table public.review_policy
+  add column sla_hours integer not null default 72 check (sla_hours > 0);
+
+-- When the current submission started, when it was decided and when it was escalated
+alter table public.ideas
+  add column submitted_at timestamptz,
+  add column decided_at timestamptz,
+  add column escalated_at timestamptz;
+
+-- Backfill from the revision history without touching updated_at
+alter table public.ideas disable trigger on_idea_updated;
+
+update public.ideas
+set
+  submitted_at = (
+    select max(r.created_at) from public.idea_revisions r
+    where r.idea_id = ideas.id and r.event = 'submitted'
+  ),
+  decided_at = (
+    select max(r.created_at) from public.idea_revisions r
+    where r.idea_id = ideas.id and r.event = 'reviewed'
+  );
+
+-- A decision older than the latest submission belongs to an earlier round
+update public.ideas
+set decided_at = null
+where decided_at < submitted_at;
+
+alter table public.ideas enable trigger on_idea_updated;
+
+-- Reset per-transition fields and stamp review timestamps whenever the status moves on
+create or replace function public.handle_idea_status_reset()
+returns trigger as $$
+begin
+  if old.status <> new.status then
+    -- A fresh submission has not been picked up, decided or escalated yet
+    if new.status = 'submitted' then
+      new.review_started_at := null;
+      new.review_round := old.review_round + 1;
+      new.submitted_at := now();
+      new.decided_at := null;
+      new.escalated_at := null;
+    end if;
+
+    -- The review ends with the admin decision
+    if old.status = 'submitted' and new.status in ('approved', 'rejected') then
+      new.decided_at := now();
+    end if;
+
+    -- Do not carry a reason over from an earlier transition
+    if new.status_reason is not distinct from old.status_reason then
+      new.status_reason := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- When the current submission is due for a decision (computed column)
+create or replace function public.review_due_at(idea public.ideas)
+returns timestamptz as $$
+  select idea.submitted_at + make_interval(hours => policy.sla_hours)
+  from public.review_policy policy;
+$$ language sql stable security definer;
+
+-- Whether a submitted idea has waited longer than the review SLA (computed column)
+create or replace function public.overdue(idea public.ideas)
+returns boolean as $$
+  select idea.status = 'submitted'
+    and coalesce(public.review_due_at(idea) < now(), false);
+$$ language sql stable security definer;
+
+-- Notify reviewers about submitted ideas that breached the SLA, once per submission
+-- Run by pg_cron where available, or locally with `npm run db:escalate`
+create or replace function public.escalate_overdue_reviews()
+returns integer as $$
+declare
+  escalated integer;
+begin
+  with overdue_ideas as (
+    update public.ideas
+    set escalated_at = now()
+    where ideas.status = 'submitted'
+    and ideas.escalated_at is null
+    and public.overdue(ideas)
+    returning ideas.id, ideas.assigned_reviewer_id, ideas.submitted_at
+  ),
+  notified as (
+    -- The assignee and every admin, so an absent reviewer does not stall the idea
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select distinct on (recipients.user_id, overdue_ideas.id)
+      recipients.user_id,
+      overdue_ideas.id,
+      'review_overdue',
+      jsonb_build_object(
+        'submitted_at', overdue_ideas.submitted_at,
+        'assigned_reviewer_id', overdue_ideas.assigned_reviewer_id
+      )
+    from overdue_ideas
+    cross join lateral (
+      select overdue_ideas.assigned_reviewer_id as user_id
+      where overdue_ideas.assigned_reviewer_id is not null
+      union
+      select profiles.id from public.profiles
+      where profiles.role = 'admin'
+    ) recipients
+    returning 1
+  )
+  select count(*) into escalated from overdue_ideas;
+
+  return escalated;
+end;
+$$ language plpgsql security definer;
+
+-- Escalation is a background job, not something users trigger
+revoke execute on function public.escalate_overdue_reviews() from public, anon, authenticated;
+
+-- Schedule the escalation hourly where pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule(
+      'escalate-overdue-reviews',
+      '0 * * * *',
+      'select public.escalate_overdue_reviews()'
+    );
+  end if;
+end;
+$$;
+
+-- Average hours from submission to decision over the last 90 days
+create or replace function public.average_review_hours()
+returns numeric as $$
+  select round(avg(extract(epoch from (decided_at - submitted_at)) / 3600)::numeric, 1)
+  from public.ideas
+  where decided_at is not null
+  and submitted_at is not null
+  and decided_at > now() - interval '90 days';
+$$ language sql stable security definer;
+
+-- Dashboard counts gain the overdue count and the real average review time
+create or replace function public.get_dashboard_counts(user_id uuid)
+returns json as $$
+declare
+  result json;
+begin
+  select json_build_object(
+    'draft_count', (select count(*) from public.ideas where owner_id = user_id and status = 'draft'),
+    'submitted_count', (select count(*) from public.ideas where owner_id = user_id and status = 'submitted'),
+    'approved_count', (select count(*) from public.ideas where owner_id = user_id and status = 'approved'),
+    'rejected_count', (select count(*) from public.ideas where owner_id = user_id and status = 'rejected'),
+    'in_progress_count', (select count(*) from public.ideas where owner_id = user_id and status = 'in_progress'),
+    'shipped_count', (select count(*) from public.ideas where owner_id = user_id and status = 'shipped'),
+    'archived_count', (select count(*) from public.ideas where owner_id = user_id and status = 'archived'),
+    'total_count', (select count(*) from public.ideas where owner_id = user_id),
+    -- Platform-wide, so owners know how long a decision usually takes
+    'avg_review_hours', public.average_review_hours()
+  ) into result;
+
+  return result;
+end;
+$$ language plpgsql security definer;
+
+create or replace function public.get_admin_dashboard_counts()
+returns json as $$
+declare
+  result json;
+begin
+  select json_build_object(
+    'draft_count', (select count(*) from public.ideas where status = 'draft'),
+    'submitted_count', (select count(*) from public.ideas where status = 'submitted'),
+    'approved_count', (select count(*) from public.ideas where status = 'approved'),
+    'rejected_count', (select count(*) from public.ideas where status = 'rejected'),
+    'in_progress_count', (select count(*) from public.ideas where status = 'in_progress'),
+    'shipped_count', (select count(*) from public.ideas where status = 'shipped'),
+    'archived_count', (select count(*) from public.ideas where status = 'archived'),
+    'total_count', (select count(*) from public.ideas),
+    'pending_review_count', (select count(*) from public.ideas where status = 'submitted'),
+    'overdue_count', (
+      select count(*) from public.ideas
+      where status = 'submitted' and public.overdue(ideas)
+    ),
+    'avg_review_hours', public.average_review_hours(),
+    'sla_hours', (select sla_hours from public.review_policy),
+    'unassigned_count', (
+      select count(*) from public.ideas
+      where status = 'submitted' and assigned_reviewer_id is null
+    ),
+    'reviewer_workload', (
+      select coalesce(json_agg(workload order by workload.assigned_count desc, workload.full_name), '[]'::json)
+      from (
+        select
+          panel.id as reviewer_id,
+          panel.full_name,
+          count(ideas.id) as assigned_count
+        from public.get_review_panel() panel
+        left join public.ideas on ideas.assigned_reviewer_id = panel.id
+          and ideas.status = 'submitted'
+        group by panel.id, panel.full_name
+      ) workload
+    )
+  ) into result;
+
+  return result;
+end;
+$$ language plpgsql security definer;
+
+-- Create indexes for performance
+create index idx_ideas_submitted_at on public.ideas(status, submitted_at);
@@ -0,0 +1,295 @@
+-- 20250113000000_idea_members.sql
+-- Co-owners, editors and viewers on ideas, with access and notifications following membership
+
+-- IDEA_MEMBERS TABLE
+-- Who works on an idea and in which role; the creator (ideas.owner_id) is always an owner
+create table public.idea_members (
+  idea_id uuid not null references public.ideas(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  added_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (idea_id, user_id)
+);
+
+-- Every existing creator becomes an owner member
+insert into public.idea_members(idea_id, user_id, role)
+select id, owner_id, 'owner'
+from public.ideas;
+
+-- The current user's role on an idea, or null when they are not a member
+-- Security definer so policies on ideas and idea_members can use it without recursion
+create or replace function public.idea_member_role(idea_id uuid)
+returns text as $$
+  select idea_members.role
+  from public.idea_members
+  where idea_members.idea_id = idea_member_role.idea_id
+  and idea_members.user_id = auth.uid();
+$$ language sql stable security definer;
+
+-- Find a user to invite by email; returns their profile ID or null
+create or replace function public.find_user_by_email(email text)
+returns uuid as $$
+  select users.id
+  from auth.users
+  where lower(users.email) = lower(find_user_by_email.email)
+  and auth.uid() is not null;
+$$ language sql stable security definer;
+
+-- Enable RLS on idea_members
+alter table public.idea_members enable row level security;
+
+-- Idea members RLS policies
+-- Members can see who else works on the idea
+create policy "Members can read idea members"
+  on public.idea_members for select
+  using (
+    public.idea_member_role(idea_id) is not null
+    or exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Owners and admins manage membership
+create policy "Owners can manage idea members"
+  on public.idea_members for all
+  using (
+    public.idea_member_role(idea_id) = 'owner'
+    or exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Anyone can leave an idea
+create policy "Members can leave ideas"
+  on public.idea_members for delete
+  using (user_id = auth.uid());
+
+-- Keep the creator's ownership and the idea's owner_id fixed
+create or replace function public.handle_idea_member_change()
+returns trigger as $$
+begin
+  if exists (
+    select 1 from public.ideas
+    where ideas.id = old.idea_id
+    and ideas.owner_id = old.user_id
+  ) and (tg_op = 'DELETE' or new.role <> 'owner') then
+    raise exception 'The idea creator must remain an owner'
+      using errcode = 'check_violation';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_member_change
+  before update or delete on public.idea_members
+  for each row execute procedure public.handle_idea_member_change();
+
+-- Add the creator as an owner member of every new idea
+create or replace function public.handle_new_idea_owner()
+returns trigger as $$
+begin
+  insert into public.idea_members(idea_id, user_id, role)
+  values (new.id, new.owner_id, 'owner')
+  on conflict (idea_id, user_id) do update set role = 'owner';
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_created_add_owner
+  after insert on public.ideas
+  for each row execute procedure public.handle_new_idea_owner();
+
+-- Co-owners and editors can update ideas, but never hand the creator role to someone else
+create or replace function public.handle_idea_owner_lock()
+returns trigger as $$
+begin
+  if new.owner_id is distinct from old.owner_id and auth.uid() is not null then
+    raise exception 'The idea creator cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_owner_lock
+  before update of owner_id on public.ideas
+  for each row execute procedure public.handle_idea_owner_lock();
+
+-- Ideas RLS policies
+-- Members can read the ideas they work on
+create policy "Members can read ideas"
+  on public.ideas for select
+  using (public.idea_member_role(id) is not null);
+
+-- Comments RLS policies
+-- Only members and admins can comment, and read the discussion
+drop policy if exists "Users can insert comments" on public.comments;
+create policy "Members can insert comments"
+  on public.comments for insert
+  with check (
+    author_id = auth.uid()
+    and (
+      public.idea_member_role(idea_id) is not null
+      or exists (
+        select 1 from public.profiles
+        where profiles.id = auth.uid()
+        and profiles.role = 'admin'
+      )
+    )
+  );
+
+drop policy if exists "Users can read comments if participant" on public.comments;
+create policy "Users can read comments if participant"
+  on public.comments for select
+  using (
+    author_id = auth.uid()
+    or public.idea_member_role(idea_id) is not null
+    or exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Revisions and reviews are visible to every member
+create policy "Members can read idea revisions"
+  on public.idea_revisions for select
+  using (public.idea_member_role(idea_id) is not null);
+
+create policy "Members can read reviews"
+  on public.idea_reviews for select
+  using (public.idea_member_role(idea_id) is not null);
+
+-- Notification trigger for new comments
+-- Every member except the author hears about it
+create or replace function public.handle_new_comment()
+returns trigger as $$
+declare
+  comment_author_role user_role;
+  notification_type text;
+begin
+  -- Get the comment author role
+  select role into comment_author_role
+  from public.profiles
+  where id = new.author_id;
+
+  -- Set notification type based on author role
+  if comment_author_role = 'admin' then
+    notification_type := 'admin_comment';
+  else
+    notification_type := 'user_comment';
+  end if;
+
+  -- Notify the idea's members
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    m.user_id,
+    new.idea_id,
+    notification_type,
+    jsonb_build_object(
+      'comment_id', new.id,
+      'author_id', new.author_id
+    )
+  from public.idea_members m
+  where m.idea_id = new.idea_id
+  and m.user_id <> new.author_id;
+
+  -- If commenter is not admin, also notify all admins
+  if comment_author_role <> 'admin' then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select
+      p.id,
+      new.idea_id,
+      'new_comment',
+      jsonb_build_object(
+        'comment_id', new.id,
+        'author_id', new.author_id
+      )
+    from public.profiles p
+    where p.role = 'admin'
+    and p.id <> new.author_id;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Notification trigger for idea status changes
+-- Every member hears about it; withdrawals additionally notify every admin
+create or replace function public.handle_idea_status_change()
+returns trigger as $$
+begin
+  if old.status <> new.status then
+    -- Notify the idea's members about the status change
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select
+      m.user_id,
+      new.id,
+      'status_change',
+      jsonb_build_object(
+        'old_status', old.status,
+        'new_status', new.status,
+        'reason', new.status_reason
+      )
+    from public.idea_members m
+    where m.idea_id = new.id;
+
+    -- Let admins know a submission they may have queued was pulled back
+    if old.status = 'submitted' and new.status = 'draft' then
+      insert into public.notifications(user_id, idea_id, type, meta)
+      select
+        p.id,
+        new.id,
+        'withdrawn',
+        jsonb_build_object(
+          'owner_id', new.owner_id,
+          'reason', new.status_reason
+        )
+      from public.profiles p
+      where p.role = 'admin';
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Let people know they were added to an idea
+create or replace function public.handle_idea_member_added()
+returns trigger as $$
+begin
+  if new.user_id is distinct from auth.uid() and new.added_by is not null then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    values (
+      new.user_id,
+      new.idea_id,
+      'member_added',
+      jsonb_build_object(
+        'role', new.role,
+        'added_by', new.added_by
+      )
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_member_added
+  after insert on public.idea_members
+  for each row execute procedure public.handle_idea_member_added();
+
+-- Create indexes for performance
+create index idx_idea_members_user_id on public.idea_members(user_id);
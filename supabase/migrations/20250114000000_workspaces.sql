@@ -0,0 +1,937 @@
+-- 20250114000000_workspaces.sql
+-- Workspaces: ideas, discussions, notifications and review settings belong to one workspace,
+-- and admins only administer the workspaces they are admins of
+
+-- WORKSPACES TABLE
+-- One per business unit sharing the deployment
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- WORKSPACE_MEMBERS TABLE
+-- Who belongs to a workspace and in which role; the same person can be an admin in one
+-- workspace and a regular user in another
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role user_role not null default 'owner',
+  added_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+-- Everything so far lives in the default workspace, and everyone keeps their current role there
+insert into public.workspaces(name, slug)
+values ('Default', 'default');
+
+insert into public.workspace_members(workspace_id, user_id, role)
+select workspaces.id, profiles.id, profiles.role
+from public.workspaces
+cross join public.profiles
+where workspaces.slug = 'default';
+
+-- The current user's role in a workspace, or null when they are not a member
+-- Security definer so policies on workspace_members can use it without recursion
+create or replace function public.workspace_role(workspace_id uuid)
+returns user_role as $$
+  select workspace_members.role
+  from public.workspace_members
+  where workspace_members.workspace_id = workspace_role.workspace_id
+  and workspace_members.user_id = auth.uid();
+$$ language sql stable security definer;
+
+-- Scope ideas and everything hanging off them, plus the review settings, to a workspace
+alter table public.ideas
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+alter table public.comments
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+alter table public.notifications
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+alter table public.rubrics
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+alter table public.review_panel_members
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+-- Backfill without touching updated_at
+alter table public.ideas disable trigger on_idea_updated;
+
+update public.ideas
+set workspace_id = (select id from public.workspaces where slug = 'default');
+
+alter table public.ideas enable trigger on_idea_updated;
+
+update public.comments
+set workspace_id = ideas.workspace_id
+from public.ideas
+where ideas.id = comments.idea_id;
+
+update public.notifications
+set workspace_id = ideas.workspace_id
+from public.ideas
+where ideas.id = notifications.idea_id;
+
+update public.rubrics
+set workspace_id = (select id from public.workspaces where slug = 'default');
+
+update public.review_panel_members
+set workspace_id = (select id from public.workspaces where slug = 'default');
+
+alter table public.ideas alter column workspace_id set not null;
+alter table public.comments alter column workspace_id set not null;
+alter table public.notifications alter column workspace_id set not null;
+alter table public.rubrics alter column workspace_id set not null;
+alter table public.review_panel_members alter column workspace_id set not null;
+
+-- The panel is chosen per workspace
+alter table public.review_panel_members drop constraint review_panel_members_pkey;
+alter table public.review_panel_members add primary key (workspace_id, reviewer_id);
+
+-- Each workspace has its own default rubric
+drop index public.idx_rubrics_single_default;
+create unique index idx_rubrics_single_default on public.rubrics(workspace_id) where is_default;
+
+-- The review policy becomes one row per workspace instead of a singleton
+alter table public.review_policy drop constraint review_policy_pkey;
+alter table public.review_policy drop column id;
+alter table public.review_policy
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+update public.review_policy
+set workspace_id = (select id from public.workspaces where slug = 'default');
+
+alter table public.review_policy
+  alter column workspace_id set not null,
+  add primary key (workspace_id);
+
+-- New workspaces get a review policy, and their creator becomes their first admin
+create or replace function public.handle_new_workspace()
+returns trigger as $$
+begin
+  insert into public.review_policy(workspace_id)
+  values (new.id);
+
+  if new.created_by is not null then
+    insert into public.workspace_members(workspace_id, user_id, role, added_by)
+    values (new.id, new.created_by, 'admin', new.created_by);
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_workspace_created
+  after insert on public.workspaces
+  for each row execute procedure public.handle_new_workspace();
+
+-- Create trigger to auto-update updated_at on workspaces table
+create trigger on_workspace_updated
+  before update on public.workspaces
+  for each row execute procedure public.handle_updated_at();
+
+-- New sign-ups join the default workspace, so a single-team deployment works as before
+create or replace function public.handle_new_profile_workspace()
+returns trigger as $$
+begin
+  insert into public.workspace_members(workspace_id, user_id, role)
+  select workspaces.id, new.id, new.role
+  from public.workspaces
+  where workspaces.slug = 'default';
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_profile_created_join_workspace
+  after insert on public.profiles
+  for each row execute procedure public.handle_new_profile_workspace();
+
+-- Admin users created by hand administer the default workspace
+create or replace function public.create_admin_user(email text, password text)
+returns uuid as $$
+declare
+  new_user_id uuid;
+begin
+  -- Create user in auth.users
+  insert into auth.users (email, password)
+  values (email, crypt(password, gen_salt('bf')))
+  returning id into new_user_id;
+
+  -- Update the user's role to admin
+  update public.profiles
+  set role = 'admin'
+  where id = new_user_id;
+
+  update public.workspace_members
+  set role = 'admin'
+  where user_id = new_user_id;
+
+  return new_user_id;
+end;
+$$ language plpgsql security definer;
+
+-- A workspace always keeps at least one admin
+create or replace function public.handle_workspace_member_change()
+returns trigger as $$
+begin
+  -- The workspace itself is being deleted when it no longer exists
+  if old.role = 'admin'
+    and (tg_op = 'DELETE' or new.role <> 'admin')
+    and exists (select 1 from public.workspaces where workspaces.id = old.workspace_id)
+    and not exists (
+      select 1 from public.workspace_members
+      where workspace_members.workspace_id = old.workspace_id
+      and workspace_members.user_id <> old.user_id
+      and workspace_members.role = 'admin'
+    ) then
+    raise exception 'A workspace must keep at least one admin'
+      using errcode = 'check_violation';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_workspace_member_change
+  before update or delete on public.workspace_members
+  for each row execute procedure public.handle_workspace_member_change();
+
+-- Comments and notifications always belong to their idea's workspace
+create or replace function public.handle_idea_workspace()
+returns trigger as $$
+begin
+  select workspace_id into new.workspace_id
+  from public.ideas
+  where id = new.idea_id;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_comment_workspace
+  before insert on public.comments
+  for each row execute procedure public.handle_idea_workspace();
+
+create trigger on_notification_workspace
+  before insert on public.notifications
+  for each row execute procedure public.handle_idea_workspace();
+
+-- Ideas never change creator or workspace once created
+create or replace function public.handle_idea_owner_lock()
+returns trigger as $$
+begin
+  if new.owner_id is distinct from old.owner_id and auth.uid() is not null then
+    raise exception 'The idea creator cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.workspace_id is distinct from old.workspace_id and auth.uid() is not null then
+    raise exception 'Ideas cannot move between workspaces'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_idea_owner_lock on public.ideas;
+create trigger on_idea_owner_lock
+  before update of owner_id, workspace_id on public.ideas
+  for each row execute procedure public.handle_idea_owner_lock();
+
+-- Enable RLS on the new tables
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+-- Workspaces RLS policies
+-- Members can see the workspaces they belong to, creators as soon as they create them
+create policy "Members can read workspaces"
+  on public.workspaces for select
+  using (
+    public.workspace_role(id) is not null
+    or created_by = auth.uid()
+  );
+
+-- Platform admins set up new workspaces
+create policy "Admins can create workspaces"
+  on public.workspaces for insert
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+create policy "Workspace admins can update workspaces"
+  on public.workspaces for update
+  using (public.workspace_role(id) = 'admin');
+
+-- Workspace members RLS policies
+create policy "Members can read workspace members"
+  on public.workspace_members for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Workspace admins can manage members"
+  on public.workspace_members for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Anyone can leave a workspace
+create policy "Members can leave workspaces"
+  on public.workspace_members for delete
+  using (user_id = auth.uid());
+
+-- Ideas RLS policies
+-- Ideas can only be created in a workspace the owner belongs to
+drop policy if exists "Owners can insert own ideas" on public.ideas;
+create policy "Owners can insert own ideas"
+  on public.ideas for insert
+  with check (
+    owner_id = auth.uid()
+    and public.workspace_role(workspace_id) is not null
+  );
+
+-- Admins only read the ideas of the workspaces they administer
+drop policy if exists "Admins can read all ideas" on public.ideas;
+create policy "Workspace admins can read ideas"
+  on public.ideas for select
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Comments RLS policies
+drop policy if exists "Members can insert comments" on public.comments;
+create policy "Members can insert comments"
+  on public.comments for insert
+  with check (
+    author_id = auth.uid()
+    and (
+      public.idea_member_role(idea_id) is not null
+      or public.workspace_role(workspace_id) = 'admin'
+    )
+  );
+
+drop policy if exists "Users can read comments if participant" on public.comments;
+create policy "Users can read comments if participant"
+  on public.comments for select
+  using (
+    author_id = auth.uid()
+    or public.idea_member_role(idea_id) is not null
+    or public.workspace_role(workspace_id) = 'admin'
+  );
+
+-- Idea revisions RLS policies
+drop policy if exists "Admins can read all idea revisions" on public.idea_revisions;
+create policy "Workspace admins can read idea revisions"
+  on public.idea_revisions for select
+  using (
+    exists (
+      select 1 from public.ideas
+      where ideas.id = idea_revisions.idea_id
+      and public.workspace_role(ideas.workspace_id) = 'admin'
+    )
+  );
+
+-- Idea members RLS policies
+-- Only people in the idea's workspace can be added to it
+drop policy if exists "Members can read idea members" on public.idea_members;
+create policy "Members can read idea members"
+  on public.idea_members for select
+  using (
+    public.idea_member_role(idea_id) is not null
+    or exists (
+      select 1 from public.ideas
+      where ideas.id = idea_members.idea_id
+      and public.workspace_role(ideas.workspace_id) = 'admin'
+    )
+  );
+
+drop policy if exists "Owners can manage idea members" on public.idea_members;
+create policy "Owners can manage idea members"
+  on public.idea_members for all
+  using (
+    public.idea_member_role(idea_id) = 'owner'
+    or exists (
+      select 1 from public.ideas
+      where ideas.id = idea_members.idea_id
+      and public.workspace_role(ideas.workspace_id) = 'admin'
+    )
+  )
+  with check (
+    (
+      public.idea_member_role(idea_id) = 'owner'
+      or exists (
+        select 1 from public.ideas
+        where ideas.id = idea_members.idea_id
+        and public.workspace_role(ideas.workspace_id) = 'admin'
+      )
+    )
+    and exists (
+      select 1 from public.ideas
+      join public.workspace_members on workspace_members.workspace_id = ideas.workspace_id
+      where ideas.id = idea_members.idea_id
+      and workspace_members.user_id = idea_members.user_id
+    )
+  );
+
+-- Rubrics RLS policies
+drop policy if exists "Authenticated users can read rubrics" on public.rubrics;
+create policy "Members can read workspace rubrics"
+  on public.rubrics for select
+  using (public.workspace_role(workspace_id) is not null);
+
+drop policy if exists "Admins can manage rubrics" on public.rubrics;
+create policy "Workspace admins can manage rubrics"
+  on public.rubrics for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+drop policy if exists "Authenticated users can read rubric criteria" on public.rubric_criteria;
+create policy "Members can read workspace rubric criteria"
+  on public.rubric_criteria for select
+  using (
+    exists (
+      select 1 from public.rubrics
+      where rubrics.id = rubric_criteria.rubric_id
+      and public.workspace_role(rubrics.workspace_id) is not null
+    )
+  );
+
+drop policy if exists "Admins can manage rubric criteria" on public.rubric_criteria;
+create policy "Workspace admins can manage rubric criteria"
+  on public.rubric_criteria for all
+  using (
+    exists (
+      select 1 from public.rubrics
+      where rubrics.id = rubric_criteria.rubric_id
+      and public.workspace_role(rubrics.workspace_id) = 'admin'
+    )
+  );
+
+-- Review policy and panel RLS policies
+drop policy if exists "Authenticated users can read review policy" on public.review_policy;
+create policy "Members can read workspace review policy"
+  on public.review_policy for select
+  using (public.workspace_role(workspace_id) is not null);
+
+drop policy if exists "Admins can update review policy" on public.review_policy;
+create policy "Workspace admins can update review policy"
+  on public.review_policy for update
+  using (public.workspace_role(workspace_id) = 'admin');
+
+drop policy if exists "Authenticated users can read review panel" on public.review_panel_members;
+create policy "Members can read workspace review panel"
+  on public.review_panel_members for select
+  using (public.workspace_role(workspace_id) is not null);
+
+drop policy if exists "Admins can manage review panel" on public.review_panel_members;
+create policy "Workspace admins can manage review panel"
+  on public.review_panel_members for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Idea reviews RLS policies
+drop policy if exists "Admins can read all reviews" on public.idea_reviews;
+create policy "Workspace admins can read reviews"
+  on public.idea_reviews for select
+  using (
+    exists (
+      select 1 from public.ideas
+      where ideas.id = idea_reviews.idea_id
+      and public.workspace_role(ideas.workspace_id) = 'admin'
+    )
+  );
+
+-- The panel is now looked up per workspace
+drop policy if exists "Panel reviewers can vote on submitted ideas" on public.idea_reviews;
+drop function public.get_review_panel();
+
+-- Reviewers on a workspace's panel; when none are configured, every admin of the workspace
+create or replace function public.get_review_panel(workspace_id uuid)
+returns table (id uuid, full_name text, avatar_url text) as $$
+  select p.id, p.full_name, p.avatar_url
+  from public.workspace_members wm
+  join public.profiles p on p.id = wm.user_id
+  where wm.workspace_id = get_review_panel.workspace_id
+  and wm.role = 'admin'
+  and (auth.uid() is null or public.workspace_role(get_review_panel.workspace_id) is not null)
+  and (
+    not exists (
+      select 1 from public.review_panel_members rpm
+      where rpm.workspace_id = get_review_panel.workspace_id
+    )
+    or p.id in (
+      select rpm.reviewer_id from public.review_panel_members rpm
+      where rpm.workspace_id = get_review_panel.workspace_id
+    )
+  )
+  order by p.full_name;
+$$ language sql stable security definer;
+
+create policy "Panel reviewers can vote on submitted ideas"
+  on public.idea_reviews for insert
+  with check (
+    reviewer_id = auth.uid()
+    and exists (
+      select 1 from public.ideas
+      where ideas.id = idea_reviews.idea_id
+      and ideas.status = 'submitted'
+      and idea_reviews.reviewer_id in (
+        select panel.id from public.get_review_panel(ideas.workspace_id) panel
+      )
+    )
+  );
+
+-- Quorum follows the policy and panel of the idea's workspace
+-- Mirrors getQuorumState in src/lib/quorum.ts
+create or replace function public.idea_quorum_reached(idea_id uuid, decision text)
+returns boolean as $$
+declare
+  idea_workspace_id uuid;
+  policy public.review_policy;
+  panel_size integer;
+  required integer;
+  rejections_needed integer;
+  approvals integer;
+  rejections integer;
+begin
+  select ideas.workspace_id into idea_workspace_id
+  from public.ideas
+  where ideas.id = idea_quorum_reached.idea_id;
+
+  select * into policy
+  from public.review_policy
+  where review_policy.workspace_id = idea_workspace_id;
+
+  select count(*) into panel_size from public.get_review_panel(idea_workspace_id);
+
+  required := greatest(1, least(coalesce(policy.approvals_required, 1), panel_size));
+  rejections_needed := case when coalesce(policy.rejection_rule, 'veto') = 'veto' then 1 else required end;
+
+  select
+    count(*) filter (where r.decision = 'approve'),
+    count(*) filter (where r.decision = 'reject')
+  into approvals, rejections
+  from public.idea_reviews r
+  join public.ideas i on i.id = r.idea_id and i.review_round = r.round
+  where r.idea_id = idea_quorum_reached.idea_id
+  and r.reviewer_id in (select panel.id from public.get_review_panel(idea_workspace_id) panel);
+
+  if idea_quorum_reached.decision = 'reject' then
+    return rejections >= rejections_needed;
+  end if;
+
+  return approvals >= required and rejections < rejections_needed;
+end;
+$$ language plpgsql stable security definer;
+
+-- Pick a reviewer from a workspace's review panel
+-- round_robin: the next panel member after the last one picked in the workspace
+-- least_loaded: the panel member with the fewest submitted ideas assigned
+drop function public.pick_reviewer(text);
+
+create or replace function public.pick_reviewer(workspace_id uuid, strategy text)
+returns uuid as $$
+declare
+  picked uuid;
+  last_assigned uuid;
+begin
+  if strategy = 'round_robin' then
+    select last_assigned_reviewer_id into last_assigned
+    from public.review_policy
+    where review_policy.workspace_id = pick_reviewer.workspace_id;
+
+    select panel.id into picked
+    from public.get_review_panel(pick_reviewer.workspace_id) panel
+    order by (last_assigned is not null and panel.id <= last_assigned), panel.id
+    limit 1;
+
+    update public.review_policy
+    set last_assigned_reviewer_id = picked
+    where review_policy.workspace_id = pick_reviewer.workspace_id;
+  elsif strategy = 'least_loaded' then
+    select panel.id into picked
+    from public.get_review_panel(pick_reviewer.workspace_id) panel
+    left join public.ideas on ideas.assigned_reviewer_id = panel.id
+      and ideas.workspace_id = pick_reviewer.workspace_id
+      and ideas.status = 'submitted'
+    group by panel.id
+    order by count(ideas.id), max(ideas.assigned_at) nulls first, panel.id
+    limit 1;
+  end if;
+
+  return picked;
+end;
+$$ language plpgsql security definer;
+
+-- Only reachable through the assignment trigger and assign_idea_reviewer
+revoke execute on function public.pick_reviewer(uuid, text) from public, anon, authenticated;
+
+-- Assign a submitted idea to a reviewer of its workspace, or pick one with the given strategy
+create or replace function public.assign_idea_reviewer(
+  idea_id uuid,
+  strategy text default 'manual',
+  reviewer_id uuid default null
+)
+returns uuid as $$
+declare
+  idea_workspace_id uuid;
+  assignee uuid;
+begin
+  select ideas.workspace_id into idea_workspace_id
+  from public.ideas
+  where ideas.id = assign_idea_reviewer.idea_id;
+
+  if public.workspace_role(idea_workspace_id) is distinct from 'admin' then
+    raise exception 'Only admins can assign reviewers'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if strategy = 'manual' then
+    assignee := assign_idea_reviewer.reviewer_id;
+  else
+    assignee := public.pick_reviewer(idea_workspace_id, strategy);
+  end if;
+
+  if assignee is null
+    or assignee not in (select panel.id from public.get_review_panel(idea_workspace_id) panel) then
+    raise exception 'Reviewer must be on the review panel'
+      using errcode = 'check_violation';
+  end if;
+
+  update public.ideas
+  set assigned_reviewer_id = assignee
+  where ideas.id = assign_idea_reviewer.idea_id
+  and ideas.status = 'submitted';
+
+  if not found then
+    raise exception 'Only submitted ideas can be assigned'
+      using errcode = 'no_data_found';
+  end if;
+
+  return assignee;
+end;
+$$ language plpgsql security definer;
+
+-- Keep assignments consistent whenever an idea changes
+create or replace function public.handle_idea_assignment()
+returns trigger as $$
+declare
+  strategy text;
+begin
+  -- Only workspace admins move ideas between reviewers; service role updates carry no session
+  if new.assigned_reviewer_id is distinct from old.assigned_reviewer_id
+    and auth.uid() is not null
+    and public.workspace_role(new.workspace_id) is distinct from 'admin' then
+    raise exception 'Only admins can assign reviewers'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  -- Auto-assign fresh submissions, keeping an earlier reviewer who is still on the panel
+  if old.status <> new.status and new.status = 'submitted' then
+    select assignment_strategy into strategy
+    from public.review_policy
+    where review_policy.workspace_id = new.workspace_id;
+
+    if coalesce(strategy, 'manual') <> 'manual' and (
+      new.assigned_reviewer_id is null
+      or new.assigned_reviewer_id not in (
+        select panel.id from public.get_review_panel(new.workspace_id) panel
+      )
+    ) then
+      new.assigned_reviewer_id := public.pick_reviewer(new.workspace_id, strategy);
+    end if;
+  end if;
+
+  if new.assigned_reviewer_id is distinct from old.assigned_reviewer_id then
+    new.assigned_at := case when new.assigned_reviewer_id is null then null else now() end;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Mark a submitted idea as under review when an admin of its workspace opens or comments on it
+create or replace function public.start_idea_review(idea_id uuid)
+returns boolean as $$
+begin
+  update public.ideas
+  set review_started_at = now()
+  where ideas.id = start_idea_review.idea_id
+  and ideas.status = 'submitted'
+  and ideas.review_started_at is null
+  and public.workspace_role(ideas.workspace_id) = 'admin';
+
+  return found;
+end;
+$$ language plpgsql security definer;
+
+-- When the current submission is due, per the SLA of the idea's workspace (computed column)
+create or replace function public.review_due_at(idea public.ideas)
+returns timestamptz as $$
+  select idea.submitted_at + make_interval(hours => policy.sla_hours)
+  from public.review_policy policy
+  where policy.workspace_id = idea.workspace_id;
+$$ language sql stable security definer;
+
+-- Escalations go to the assignee and the admins of the idea's workspace
+create or replace function public.escalate_overdue_reviews()
+returns integer as $$
+declare
+  escalated integer;
+begin
+  with overdue_ideas as (
+    update public.ideas
+    set escalated_at = now()
+    where ideas.status = 'submitted'
+    and ideas.escalated_at is null
+    and public.overdue(ideas)
+    returning ideas.id, ideas.workspace_id, ideas.assigned_reviewer_id, ideas.submitted_at
+  ),
+  notified as (
+    -- The assignee and every workspace admin, so an absent reviewer does not stall the idea
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select distinct on (recipients.user_id, overdue_ideas.id)
+      recipients.user_id,
+      overdue_ideas.id,
+      'review_overdue',
+      jsonb_build_object(
+        'submitted_at', overdue_ideas.submitted_at,
+        'assigned_reviewer_id', overdue_ideas.assigned_reviewer_id
+      )
+    from overdue_ideas
+    cross join lateral (
+      select overdue_ideas.assigned_reviewer_id as user_id
+      where overdue_ideas.assigned_reviewer_id is not null
+      union
+      select workspace_members.user_id from public.workspace_members
+      where workspace_members.workspace_id = overdue_ideas.workspace_id
+      and workspace_members.role = 'admin'
+    ) recipients
+    returning 1
+  )
+  select count(*) into escalated from overdue_ideas;
+
+  return escalated;
+end;
+$$ language plpgsql security definer;
+
+-- Notification trigger for new comments
+-- Every member except the author hears about it, plus the workspace admins for user comments
+create or replace function public.handle_new_comment()
+returns trigger as $$
+declare
+  comment_author_role user_role;
+  notification_type text;
+begin
+  -- Get the comment author role in the idea's workspace
+  select role into comment_author_role
+  from public.workspace_members
+  where workspace_id = new.workspace_id
+  and user_id = new.author_id;
+
+  -- Set notification type based on author role
+  if comment_author_role = 'admin' then
+    notification_type := 'admin_comment';
+  else
+    notification_type := 'user_comment';
+  end if;
+
+  -- Notify the idea's members
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    m.user_id,
+    new.idea_id,
+    notification_type,
+    jsonb_build_object(
+      'comment_id', new.id,
+      'author_id', new.author_id
+    )
+  from public.idea_members m
+  where m.idea_id = new.idea_id
+  and m.user_id <> new.author_id;
+
+  -- If commenter is not admin, also notify the workspace admins
+  if comment_author_role is distinct from 'admin' then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select
+      wm.user_id,
+      new.idea_id,
+      'new_comment',
+      jsonb_build_object(
+        'comment_id', new.id,
+        'author_id', new.author_id
+      )
+    from public.workspace_members wm
+    where wm.workspace_id = new.workspace_id
+    and wm.role = 'admin'
+    and wm.user_id <> new.author_id;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Notification trigger for idea status changes
+-- Every member hears about it; withdrawals additionally notify the workspace admins
+create or replace function public.handle_idea_status_change()
+returns trigger as $$
+begin
+  if old.status <> new.status then
+    -- Notify the idea's members about the status change
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select
+      m.user_id,
+      new.id,
+      'status_change',
+      jsonb_build_object(
+        'old_status', old.status,
+        'new_status', new.status,
+        'reason', new.status_reason
+      )
+    from public.idea_members m
+    where m.idea_id = new.id;
+
+    -- Let admins know a submission they may have queued was pulled back
+    if old.status = 'submitted' and new.status = 'draft' then
+      insert into public.notifications(user_id, idea_id, type, meta)
+      select
+        wm.user_id,
+        new.id,
+        'withdrawn',
+        jsonb_build_object(
+          'owner_id', new.owner_id,
+          'reason', new.status_reason
+        )
+      from public.workspace_members wm
+      where wm.workspace_id = new.workspace_id
+      and wm.role = 'admin';
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Average hours from submission to decision over the last 90 days, per workspace
+drop function public.average_review_hours();
+
+create or replace function public.average_review_hours(workspace_id uuid)
+returns numeric as $$
+  select round(avg(extract(epoch from (decided_at - submitted_at)) / 3600)::numeric, 1)
+  from public.ideas
+  where ideas.workspace_id = average_review_hours.workspace_id
+  and decided_at is not null
+  and submitted_at is not null
+  and decided_at > now() - interval '90 days';
+$$ language sql stable security definer;
+
+-- Dashboard counts only cover the current workspace
+drop function public.get_dashboard_counts(uuid);
+
+create or replace function public.get_dashboard_counts(user_id uuid, workspace_id uuid)
+returns json as $$
+declare
+  result json;
+begin
+  with own_ideas as (
+    select ideas.status
+    from public.ideas
+    where ideas.owner_id = get_dashboard_counts.user_id
+    and ideas.workspace_id = get_dashboard_counts.workspace_id
+  )
+  select json_build_object(
+    'draft_count', (select count(*) from own_ideas where status = 'draft'),
+    'submitted_count', (select count(*) from own_ideas where status = 'submitted'),
+    'approved_count', (select count(*) from own_ideas where status = 'approved'),
+    'rejected_count', (select count(*) from own_ideas where status = 'rejected'),
+    'in_progress_count', (select count(*) from own_ideas where status = 'in_progress'),
+    'shipped_count', (select count(*) from own_ideas where status = 'shipped'),
+    'archived_count', (select count(*) from own_ideas where status = 'archived'),
+    'total_count', (select count(*) from own_ideas),
+    -- Workspace-wide, so owners know how long a decision usually takes
+    'avg_review_hours', public.average_review_hours(get_dashboard_counts.workspace_id)
+  ) into result;
+
+  return result;
+end;
+$$ language plpgsql security definer;
+
+drop function public.get_admin_dashboard_counts();
+
+create or replace function public.get_admin_dashboard_counts(workspace_id uuid)
+returns json as $$
+declare
+  result json;
+begin
+  -- Security definer, so make sure other workspaces' numbers stay private
+  if auth.uid() is not null
+    and public.workspace_role(get_admin_dashboard_counts.workspace_id) is distinct from 'admin' then
+    raise exception 'Only workspace admins can view workspace counts'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  with workspace_ideas as (
+    select ideas.*
+    from public.ideas
+    where ideas.workspace_id = get_admin_dashboard_counts.workspace_id
+  )
+  select json_build_object(
+    'draft_count', (select count(*) from workspace_ideas where status = 'draft'),
+    'submitted_count', (select count(*) from workspace_ideas where status = 'submitted'),
+    'approved_count', (select count(*) from workspace_ideas where status = 'approved'),
+    'rejected_count', (select count(*) from workspace_ideas where status = 'rejected'),
+    'in_progress_count', (select count(*) from workspace_ideas where status = 'in_progress'),
+    'shipped_count', (select count(*) from workspace_ideas where status = 'shipped'),
+    'archived_count', (select count(*) from workspace_ideas where status = 'archived'),
+    'total_count', (select count(*) from workspace_ideas),
+    'pending_review_count', (select count(*) from workspace_ideas where status = 'submitted'),
+    'overdue_count', (
+      select count(*) from public.ideas
+      where ideas.workspace_id = get_admin_dashboard_counts.workspace_id
+      and ideas.status = 'submitted'
+      and public.overdue(ideas)
+    ),
+    'avg_review_hours', public.average_review_hours(get_admin_dashboard_counts.workspace_id),
+    'sla_hours', (
+      select sla_hours from public.review_policy
+      where review_policy.workspace_id = get_admin_dashboard_counts.workspace_id
+    ),
+    'unassigned_count', (
+      select count(*) from workspace_ideas
+      where status = 'submitted' and assigned_reviewer_id is null
+    ),
+    'reviewer_workload', (
+      select coalesce(json_agg(workload order by workload.assigned_count desc, workload.full_name), '[]'::json)
+      from (
+        select
+          panel.id as reviewer_id,
+          panel.full_name,
+          count(workspace_ideas.id) as assigned_count
+        from public.get_review_panel(get_admin_dashboard_counts.workspace_id) panel
+        left join workspace_ideas on workspace_ideas.assigned_reviewer_id = panel.id
+          and workspace_ideas.status = 'submitted'
+        group by panel.id, panel.full_name
+      ) workload
+    )
+  ) into result;
+
+  return result;
+end;
+$$ language plpgsql security definer;
+
+-- Create indexes for performance
+create index idx_workspace_members_user_id on public.workspace_members(user_id);
+create index idx_ideas_workspace_id on public.ideas(workspace_id, status);
+create index idx_comments_workspace_id on public.comments(workspace_id);
+create index idx_notifications_workspace_id on public.notifications(user_id, workspace_id);
+create index idx_rubrics_workspace_id on public.rubrics(workspace_id);
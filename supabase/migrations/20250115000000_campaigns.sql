@@ -0,0 +1,281 @@
+-- 20250115000000_campaigns.sql
+-- Innovation campaigns: time-boxed challenges, with their own brief and rubric, that ideas are submitted into
+
+-- CAMPAIGNS TABLE
+-- Run by a workspace; only that workspace's members can submit ideas into it
+create table public.campaigns (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  title text not null check (char_length(title) between 3 and 120),
+  brief text not null default '',
+  opens_at timestamptz not null default now(),
+  closes_at timestamptz not null,
+  -- Set once the campaign has closed, on schedule or early by an admin
+  closed_at timestamptz,
+  -- Rubric its ideas are reviewed against instead of the workspace default
+  rubric_id uuid references public.rubrics(id) on delete set null,
+  -- Whether participants hear about the campaign closing
+  notify_participants boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (closes_at > opens_at)
+);
+
+-- Ideas can be submitted into a campaign
+alter table public.ideas
+  add column campaign_id uuid references public.campaigns(id) on delete set null;
+
+-- Create trigger to auto-update updated_at on campaigns table
+create trigger on_campaign_updated
+  before update on public.campaigns
+  for each row execute procedure public.handle_updated_at();
+
+-- A campaign's rubric comes from its own workspace, and pushing the closing date back reopens it
+create or replace function public.handle_campaign_change()
+returns trigger as $$
+begin
+  if new.rubric_id is not null and not exists (
+    select 1 from public.rubrics
+    where rubrics.id = new.rubric_id
+    and rubrics.workspace_id = new.workspace_id
+  ) then
+    raise exception 'Campaign rubric must belong to the campaign''s workspace'
+      using errcode = 'check_violation';
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.workspace_id is distinct from old.workspace_id then
+      raise exception 'Campaigns cannot move between workspaces'
+        using errcode = 'check_violation';
+    end if;
+
+    if old.closed_at is not null
+      and new.closed_at is not distinct from old.closed_at
+      and new.closes_at is distinct from old.closes_at
+      and new.closes_at > now() then
+      new.closed_at := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_campaign_change
+  before insert or update on public.campaigns
+  for each row execute procedure public.handle_campaign_change();
+
+-- Whether a campaign currently takes submissions; ideas outside any campaign always do
+-- Mirrors getCampaignSubmissionError in src/lib/campaigns.ts
+create or replace function public.campaign_accepts_submissions(campaign_id uuid)
+returns boolean as $$
+  select campaign_accepts_submissions.campaign_id is null or exists (
+    select 1 from public.campaigns
+    where campaigns.id = campaign_accepts_submissions.campaign_id
+    and campaigns.closed_at is null
+    and campaigns.opens_at <= now()
+    and campaigns.closes_at > now()
+  );
+$$ language sql stable security definer;
+
+-- Ideas join campaigns of their own workspace, and only while those are not closed
+create or replace function public.handle_idea_campaign()
+returns trigger as $$
+declare
+  campaign public.campaigns;
+begin
+  if new.campaign_id is null then
+    return new;
+  end if;
+
+  select * into campaign
+  from public.campaigns
+  where id = new.campaign_id;
+
+  if campaign.workspace_id is distinct from new.workspace_id then
+    raise exception 'Ideas can only join campaigns of their own workspace'
+      using errcode = 'check_violation';
+  end if;
+
+  if (tg_op = 'INSERT' or new.campaign_id is distinct from old.campaign_id)
+    and (campaign.closed_at is not null or campaign.closes_at <= now()) then
+    raise exception 'Campaign % is closed', campaign.title
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_campaign
+  before insert or update of campaign_id on public.ideas
+  for each row execute procedure public.handle_idea_campaign();
+
+-- Let everyone with an idea in a closing campaign know, once per idea
+create or replace function public.handle_campaign_closed()
+returns trigger as $$
+begin
+  if old.closed_at is null and new.closed_at is not null and new.notify_participants then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select
+      m.user_id,
+      ideas.id,
+      'campaign_closed',
+      jsonb_build_object(
+        'campaign_id', new.id,
+        'campaign_title', new.title,
+        'status', ideas.status
+      )
+    from public.ideas
+    join public.idea_members m on m.idea_id = ideas.id
+    where ideas.campaign_id = new.id
+    and ideas.status <> 'archived';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_campaign_closed
+  after update of closed_at on public.campaigns
+  for each row execute procedure public.handle_campaign_closed();
+
+-- Close campaigns that reached their closing date, notifying participants through the trigger above
+-- Run by pg_cron where available, or locally with `npm run db:close-campaigns`
+create or replace function public.close_due_campaigns()
+returns integer as $$
+declare
+  closed integer;
+begin
+  with due as (
+    update public.campaigns
+    set closed_at = campaigns.closes_at
+    where campaigns.closed_at is null
+    and campaigns.closes_at <= now()
+    returning 1
+  )
+  select count(*) into closed from due;
+
+  return closed;
+end;
+$$ language plpgsql security definer;
+
+-- Closing on schedule is a background job, not something users trigger
+revoke execute on function public.close_due_campaigns() from public, anon, authenticated;
+
+-- Close due campaigns every 15 minutes where pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule(
+      'close-due-campaigns',
+      '*/15 * * * *',
+      'select public.close_due_campaigns()'
+    );
+  end if;
+end;
+$$;
+
+-- Enable RLS on campaigns
+alter table public.campaigns enable row level security;
+
+-- Campaigns RLS policies
+create policy "Members can read workspace campaigns"
+  on public.campaigns for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Workspace admins can manage campaigns"
+  on public.campaigns for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Admin dashboard counts gain per-campaign counts
+create or replace function public.get_admin_dashboard_counts(workspace_id uuid)
+returns json as $$
+declare
+  result json;
+begin
+  -- Security definer, so make sure other workspaces' numbers stay private
+  if auth.uid() is not null
+    and public.workspace_role(get_admin_dashboard_counts.workspace_id) is distinct from 'admin' then
+    raise exception 'Only workspace admins can view workspace counts'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  with workspace_ideas as (
+    select ideas.*
+    from public.ideas
+    where ideas.workspace_id = get_admin_dashboard_counts.workspace_id
+  )
+  select json_build_object(
+    'draft_count', (select count(*) from workspace_ideas where status = 'draft'),
+    'submitted_count', (select count(*) from workspace_ideas where status = 'submitted'),
+    'approved_count', (select count(*) from workspace_ideas where status = 'approved'),
+    'rejected_count', (select count(*) from workspace_ideas where status = 'rejected'),
+    'in_progress_count', (select count(*) from workspace_ideas where status = 'in_progress'),
+    'shipped_count', (select count(*) from workspace_ideas where status = 'shipped'),
+    'archived_count', (select count(*) from workspace_ideas where status = 'archived'),
+    'total_count', (select count(*) from workspace_ideas),
+    'pending_review_count', (select count(*) from workspace_ideas where status = 'submitted'),
+    'overdue_count', (
+      select count(*) from public.ideas
+      where ideas.workspace_id = get_admin_dashboard_counts.workspace_id
+      and ideas.status = 'submitted'
+      and public.overdue(ideas)
+    ),
+    'avg_review_hours', public.average_review_hours(get_admin_dashboard_counts.workspace_id),
+    'sla_hours', (
+      select sla_hours from public.review_policy
+      where review_policy.workspace_id = get_admin_dashboard_counts.workspace_id
+    ),
+    'unassigned_count', (
+      select count(*) from workspace_ideas
+      where status = 'submitted' and assigned_reviewer_id is null
+    ),
+    'reviewer_workload', (
+      select coalesce(json_agg(workload order by workload.assigned_count desc, workload.full_name), '[]'::json)
+      from (
+        select
+          panel.id as reviewer_id,
+          panel.full_name,
+          count(workspace_ideas.id) as assigned_count
+        from public.get_review_panel(get_admin_dashboard_counts.workspace_id) panel
+        left join workspace_ideas on workspace_ideas.assigned_reviewer_id = panel.id
+          and workspace_ideas.status = 'submitted'
+        group by panel.id, panel.full_name
+      ) workload
+    ),
+    -- Archived ideas are left out, as on the idea lists
+    'campaigns', (
+      select coalesce(json_agg(campaign_counts order by campaign_counts.closes_at desc), '[]'::json)
+      from (
+        select
+          campaigns.id as campaign_id,
+          campaigns.title,
+          campaigns.opens_at,
+          campaigns.closes_at,
+          campaigns.closed_at,
+          count(workspace_ideas.id) as total_count,
+          count(workspace_ideas.id) filter (where workspace_ideas.status = 'draft') as draft_count,
+          count(workspace_ideas.id) filter (where workspace_ideas.status = 'submitted') as submitted_count,
+          count(workspace_ideas.id) filter (where workspace_ideas.status = 'approved') as approved_count,
+          count(workspace_ideas.id) filter (where workspace_ideas.status = 'rejected') as rejected_count,
+          count(workspace_ideas.id) filter (where workspace_ideas.status = 'in_progress') as in_progress_count,
+          count(workspace_ideas.id) filter (where workspace_ideas.status = 'shipped') as shipped_count
+        from public.campaigns
+        left join workspace_ideas on workspace_ideas.campaign_id = campaigns.id
+          and workspace_ideas.status <> 'archived'
+        where campaigns.workspace_id = get_admin_dashboard_counts.workspace_id
+        group by campaigns.id
+      ) campaign_counts
+    )
+  ) into result;
+
+  return result;
+end;
+$$ language plpgsql security definer;
+
+-- Create indexes for performance
+create index idx_campaigns_workspace_id on public.campaigns(workspace_id, closes_at);
+create index idx_ideas_campaign_id on public.ideas(campaign_id, status);
@@ -0,0 +1,87 @@
+-- Generated by scripts/generate-workflow-sql.ts from src/lib/workflow.ts
+-- Do not edit by hand: change the transition table and regenerate
+
+-- Enforce the idea workflow table on every update
+create or replace function public.check_idea_workflow()
+returns trigger as $$
+declare
+  is_owner boolean;
+  is_editor boolean;
+  is_admin boolean;
+begin
+  -- Service role updates carry no session, so only the table itself is checked
+  is_owner := auth.uid() is null or new.owner_id = auth.uid()
+    or public.idea_member_role(new.id) = 'owner';
+  is_editor := auth.uid() is null or public.idea_member_role(new.id) = 'editor';
+  is_admin := auth.uid() is null or public.workspace_role(new.workspace_id) = 'admin';
+
+  if old.status <> new.status and not (
+    (old.status = 'draft' and new.status = 'submitted' and (is_owner) and (public.campaign_accepts_submissions(new.campaign_id)))
+    or (old.status = 'rejected' and new.status = 'submitted' and (is_owner) and (public.campaign_accepts_submissions(new.campaign_id)))
+    or (old.status = 'submitted' and new.status = 'draft' and (is_owner) and (old.review_started_at is null))
+    or (old.status = 'submitted' and new.status = 'approved' and (is_admin) and (public.idea_quorum_reached(old.id, 'approve')))
+    or (old.status = 'submitted' and new.status = 'rejected' and (is_admin) and (public.idea_quorum_reached(old.id, 'reject')))
+    or (old.status = 'approved' and new.status = 'in_progress' and (is_admin))
+    or (old.status = 'approved' and new.status = 'shipped' and (is_admin))
+    or (old.status = 'in_progress' and new.status = 'shipped' and (is_admin))
+    or (old.status = 'draft' and new.status = 'archived' and (is_owner or is_admin))
+    or (old.status = 'approved' and new.status = 'archived' and (is_owner or is_admin))
+    or (old.status = 'rejected' and new.status = 'archived' and (is_owner or is_admin))
+    or (old.status = 'in_progress' and new.status = 'archived' and (is_owner or is_admin))
+    or (old.status = 'shipped' and new.status = 'archived' and (is_owner or is_admin))
+  ) then
+    raise exception 'Idea status cannot change from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  if (
+    old.title is distinct from new.title
+    or old.description is distinct from new.description
+    or old.tags is distinct from new.tags
+  ) and not (
+    (old.status = 'draft' and (is_owner or is_editor))
+    or (old.status = 'rejected' and (is_owner or is_editor))
+  ) then
+    raise exception 'Ideas in % status cannot be modified', old.status
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_idea_workflow_check on public.ideas;
+create trigger on_idea_workflow_check
+  before update on public.ideas
+  for each row execute procedure public.check_idea_workflow();
+
+-- Row access follows the same table; the trigger above polices what actually changes
+drop policy if exists "Owners can update own draft or rejected ideas" on public.ideas;
+drop policy if exists "Owners can update own ideas" on public.ideas;
+drop policy if exists "Members can update ideas" on public.ideas;
+create policy "Members can update ideas"
+  on public.ideas for update
+  using (
+    (public.idea_member_role(id) = 'owner' and status in ('draft', 'submitted', 'approved', 'rejected', 'in_progress', 'shipped'))
+    or (public.idea_member_role(id) = 'editor' and status in ('draft', 'rejected'))
+  )
+  with check (public.idea_member_role(id) in ('owner', 'editor'));
+
+drop policy if exists "Admins can update status of submitted ideas" on public.ideas;
+drop policy if exists "Admins can update ideas" on public.ideas;
+create policy "Admins can update ideas"
+  on public.ideas for update
+  using (
+    status in ('draft', 'submitted', 'approved', 'rejected', 'in_progress', 'shipped')
+    and public.workspace_role(workspace_id) = 'admin'
+  );
+
+drop policy if exists "Owners can delete own draft ideas" on public.ideas;
+drop policy if exists "Owners can delete own ideas" on public.ideas;
+drop policy if exists "Members can delete ideas" on public.ideas;
+create policy "Members can delete ideas"
+  on public.ideas for delete
+  using (
+    public.idea_member_role(id) = 'owner'
+    and status in ('draft')
+  );
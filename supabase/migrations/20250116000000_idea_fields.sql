@@ -0,0 +1,141 @@
+-- 20250116000000_idea_fields.sql
+-- Admin-defined custom idea fields, per workspace or per campaign, with values kept on the idea
+
+-- Kinds of custom fields
+create type idea_field_type as enum (
+  'text',
+  'number',
+  'currency',
+  'select',
+  'multi_select',
+  'date',
+  'url'
+);
+
+-- Lets idea fields point at a campaign of their own workspace
+alter table public.campaigns add unique (id, workspace_id);
+
+-- IDEA_FIELDS TABLE
+-- Extra fields ideas fill in; workspace-wide when campaign_id is null, otherwise only for
+-- ideas in that campaign
+create table public.idea_fields (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  campaign_id uuid,
+  -- Values are stored under this key in ideas.custom_fields
+  key text not null check (key ~ '^[a-z][a-z0-9_]*$'),
+  label text not null,
+  help_text text,
+  type idea_field_type not null,
+  -- Choices for select and multi_select fields
+  options text[] not null default array[]::text[],
+  -- Required fields only need to be filled in for submission, drafts can be saved without them
+  required boolean not null default false,
+  position integer not null default 0,
+  active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- Keys are unique per workspace so campaign fields never shadow workspace fields
+  unique (workspace_id, key),
+  foreign key (campaign_id, workspace_id)
+    references public.campaigns(id, workspace_id) on delete cascade,
+  check ((type in ('select', 'multi_select')) = (cardinality(options) > 0))
+);
+
+-- Custom field values, validated against the definitions by the API
+alter table public.ideas
+  add column custom_fields jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(custom_fields) = 'object');
+
+-- Revisions snapshot custom field values along with the rest of the content
+alter table public.idea_revisions
+  add column custom_fields jsonb not null default '{}'::jsonb;
+
+-- Create trigger to auto-update updated_at on idea_fields table
+create trigger on_idea_field_updated
+  before update on public.idea_fields
+  for each row execute procedure public.handle_updated_at();
+
+-- Whether an idea has filled in every required field that applies to it
+-- Mirrors getMissingRequiredFields in src/lib/fields.ts
+create or replace function public.idea_required_fields_complete(
+  workspace_id uuid,
+  campaign_id uuid,
+  custom_fields jsonb
+)
+returns boolean as $$
+  select not exists (
+    select 1 from public.idea_fields f
+    where f.workspace_id = idea_required_fields_complete.workspace_id
+    and (f.campaign_id is null or f.campaign_id = idea_required_fields_complete.campaign_id)
+    and f.active
+    and f.required
+    and (
+      nullif(btrim(idea_required_fields_complete.custom_fields ->> f.key), '') is null
+      or idea_required_fields_complete.custom_fields -> f.key = '[]'::jsonb
+    )
+  );
+$$ language sql stable security definer;
+
+-- Snapshot trigger for idea inserts and updates, now including custom field values
+create or replace function public.handle_idea_revision()
+returns trigger as $$
+declare
+  revision_event text;
+  next_revision integer;
+begin
+  if tg_op = 'INSERT' then
+    revision_event := 'created';
+  elsif old.status <> new.status and new.status = 'submitted' then
+    revision_event := 'submitted';
+  elsif old.status <> new.status and new.status in ('approved', 'rejected') then
+    revision_event := 'reviewed';
+  elsif old.title is distinct from new.title
+    or old.description is distinct from new.description
+    or old.tags is distinct from new.tags
+    or old.custom_fields is distinct from new.custom_fields then
+    revision_event := 'updated';
+  else
+    -- Nothing worth snapshotting changed
+    return new;
+  end if;
+
+  select coalesce(max(revision), 0) + 1 into next_revision
+  from public.idea_revisions
+  where idea_id = new.id;
+
+  insert into public.idea_revisions(
+    idea_id, revision, event, title, description, tags, custom_fields, status, author_id
+  )
+  values (
+    new.id,
+    next_revision,
+    revision_event,
+    new.title,
+    new.description,
+    new.tags,
+    new.custom_fields,
+    new.status,
+    coalesce(auth.uid(), new.owner_id)
+  );
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Enable RLS on idea_fields
+alter table public.idea_fields enable row level security;
+
+-- Idea fields RLS policies
+-- Members need the definitions to fill in their ideas
+create policy "Members can read workspace idea fields"
+  on public.idea_fields for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Workspace admins can manage idea fields"
+  on public.idea_fields for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Create indexes for performance
+create index idx_idea_fields_campaign_id on public.idea_fields(campaign_id);
@@ -0,0 +1,126 @@
+-- 20250117000000_idea_templates.sql
+-- Idea templates that pre-structure an idea into named sections, with admin-authored, versioned
+-- templates per workspace; built-in templates live in src/lib/templates.ts
+
+-- IDEA_TEMPLATES TABLE
+-- The current version of each template a workspace has authored
+create table public.idea_templates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  key text not null check (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text not null,
+  description text not null default '',
+  version integer not null default 1,
+  -- [{ key, title, prompt, required, min_length }]
+  sections jsonb not null
+    check (jsonb_typeof(sections) = 'array' and jsonb_array_length(sections) > 0),
+  active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (workspace_id, key)
+);
+
+-- IDEA_TEMPLATE_VERSIONS TABLE
+-- Every published version of a template, written by trigger only
+create table public.idea_template_versions (
+  template_id uuid not null references public.idea_templates(id) on delete cascade,
+  version integer not null,
+  name text not null,
+  sections jsonb not null,
+  author_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (template_id, version)
+);
+
+-- Ideas keep a snapshot of the template version they were created from, and their section contents
+alter table public.ideas
+  add column template jsonb,
+  add column sections jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(sections) = 'object');
+
+-- Create trigger to auto-update updated_at on idea_templates table
+create trigger on_idea_template_updated
+  before update on public.idea_templates
+  for each row execute procedure public.handle_updated_at();
+
+-- Changing a template's sections publishes a new version; ideas created earlier keep theirs
+create or replace function public.handle_idea_template_version()
+returns trigger as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.key is distinct from old.key or new.workspace_id is distinct from old.workspace_id then
+      raise exception 'Template keys and workspaces cannot change'
+        using errcode = 'check_violation';
+    end if;
+
+    if new.sections is not distinct from old.sections then
+      new.version := old.version;
+      return new;
+    end if;
+
+    new.version := old.version + 1;
+  else
+    new.version := 1;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_template_version
+  before insert or update on public.idea_templates
+  for each row execute procedure public.handle_idea_template_version();
+
+create or replace function public.handle_idea_template_published()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' or new.version <> old.version then
+    insert into public.idea_template_versions(template_id, version, name, sections, author_id)
+    values (new.id, new.version, new.name, new.sections, coalesce(auth.uid(), new.created_by));
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_template_published
+  after insert or update on public.idea_templates
+  for each row execute procedure public.handle_idea_template_published();
+
+-- Whether an idea has completed every required section of its template
+-- Mirrors getIncompleteSections in src/lib/templates.ts
+create or replace function public.idea_sections_complete(template jsonb, sections jsonb)
+returns boolean as $$
+  select idea_sections_complete.template is null or not exists (
+    select 1
+    from jsonb_array_elements(idea_sections_complete.template -> 'sections') section
+    where coalesce((section ->> 'required')::boolean, true)
+    and char_length(btrim(coalesce(idea_sections_complete.sections ->> (section ->> 'key'), '')))
+      < greatest(coalesce((section ->> 'min_length')::integer, 1), 1)
+  );
+$$ language sql immutable;
+
+-- Enable RLS on the new tables
+alter table public.idea_templates enable row level security;
+alter table public.idea_template_versions enable row level security;
+
+-- Idea templates RLS policies
+create policy "Members can read workspace idea templates"
+  on public.idea_templates for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Workspace admins can manage idea templates"
+  on public.idea_templates for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Template versions are written by trigger only, so there are no insert/update/delete policies
+create policy "Members can read workspace idea template versions"
+  on public.idea_template_versions for select
+  using (
+    exists (
+      select 1 from public.idea_templates
+      where idea_templates.id = idea_template_versions.template_id
+      and public.workspace_role(idea_templates.workspace_id) is not null
+    )
+  );
@@ -0,0 +1,217 @@
+-- 20250118000000_idea_attachments.sql
+-- File attachments on ideas, stored in the private idea-attachments bucket
+-- Access follows the idea's RLS rules; attachments are locked once the idea is submitted
+
+-- STORAGE BUCKET
+-- Limits mirror MAX_ATTACHMENT_SIZE and ALLOWED_ATTACHMENT_TYPES in src/lib/attachments.ts
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'idea-attachments',
+  'idea-attachments',
+  false,
+  26214400,
+  array[
+    'application/pdf',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.presentation',
+    'application/vnd.apple.keynote',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.oasis.opendocument.text',
+    'text/plain',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp'
+  ]
+)
+on conflict (id) do update set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
+
+-- IDEA_ATTACHMENTS TABLE
+-- One row per stored object; storage_path is {workspace_id}/{idea_id}/{id}/{file name}
+create table public.idea_attachments (
+  id uuid primary key default gen_random_uuid(),
+  idea_id uuid not null references public.ideas(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  file_name text not null check (char_length(file_name) between 1 and 255),
+  content_type text not null,
+  size_bytes bigint not null check (size_bytes > 0),
+  storage_path text not null unique,
+  uploaded_by uuid references public.profiles(id) on delete set null,
+  -- Set when the idea is submitted; locked attachments cannot be deleted
+  locked_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (storage_path like workspace_id::text || '/' || idea_id::text || '/' || id::text || '/%')
+);
+
+create index idea_attachments_idea_id_idx on public.idea_attachments(idea_id);
+
+-- Whether the current user may add or remove attachments on an idea:
+-- owners and editors, while the idea's content is editable (see STATUS_RULES in src/lib/workflow.ts)
+-- Security definer so storage policies can use it without read access to the idea
+create or replace function public.can_change_idea_attachments(idea_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from public.ideas
+    where ideas.id = can_change_idea_attachments.idea_id
+    and ideas.status in ('draft', 'rejected')
+    and public.idea_member_role(ideas.id) in ('owner', 'editor')
+  );
+$$ language sql stable security definer;
+
+-- Whether the current user may read an idea's attachments: its members and workspace admins
+create or replace function public.can_read_idea_attachments(idea_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from public.ideas
+    where ideas.id = can_read_idea_attachments.idea_id
+    and (
+      public.idea_member_role(ideas.id) is not null
+      or public.workspace_role(ideas.workspace_id) = 'admin'
+    )
+  );
+$$ language sql stable security definer;
+
+-- Enforce the per-idea quotas and keep attachments in their idea's workspace
+-- Quotas mirror MAX_ATTACHMENTS_PER_IDEA and MAX_ATTACHMENT_BYTES_PER_IDEA in src/lib/attachments.ts
+create or replace function public.check_idea_attachment_quota()
+returns trigger as $$
+declare
+  attachment_count integer;
+  attachment_bytes bigint;
+begin
+  if not exists (
+    select 1 from public.ideas
+    where ideas.id = new.idea_id
+    and ideas.workspace_id = new.workspace_id
+  ) then
+    raise exception 'Attachments must belong to their idea''s workspace'
+      using errcode = 'check_violation';
+  end if;
+
+  -- Serialise uploads to the same idea so concurrent ones cannot both squeeze under the quota
+  perform 1 from public.ideas where ideas.id = new.idea_id for update;
+
+  select count(*), coalesce(sum(size_bytes), 0)
+  into attachment_count, attachment_bytes
+  from public.idea_attachments
+  where idea_attachments.idea_id = new.idea_id;
+
+  if attachment_count >= 20 then
+    raise exception 'Ideas can have at most 20 attachments'
+      using errcode = 'check_violation';
+  end if;
+
+  if attachment_bytes + new.size_bytes > 104857600 then
+    raise exception 'Attachments on an idea can total at most 100 MB'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_attachment_quota
+  before insert on public.idea_attachments
+  for each row execute procedure public.check_idea_attachment_quota();
+
+-- Locked attachments stay with the idea, whoever deletes them; the idea itself can still be deleted
+create or replace function public.handle_idea_attachment_delete()
+returns trigger as $$
+begin
+  if old.locked_at is not null
+    and exists (select 1 from public.ideas where ideas.id = old.idea_id) then
+    raise exception 'Attachments cannot be removed once the idea has been submitted'
+      using errcode = 'check_violation';
+  end if;
+
+  return old;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_attachment_delete
+  before delete on public.idea_attachments
+  for each row execute procedure public.handle_idea_attachment_delete();
+
+-- Lock every attachment on an idea when it is submitted
+create or replace function public.handle_idea_attachments_lock()
+returns trigger as $$
+begin
+  if new.status = 'submitted' and old.status is distinct from new.status then
+    update public.idea_attachments
+    set locked_at = now()
+    where idea_attachments.idea_id = new.id
+    and idea_attachments.locked_at is null;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_attachments_lock
+  after update of status on public.ideas
+  for each row execute procedure public.handle_idea_attachments_lock();
+
+-- Enable RLS on idea_attachments
+alter table public.idea_attachments enable row level security;
+
+-- Idea attachments RLS policies
+create policy "Members can read idea attachments"
+  on public.idea_attachments for select
+  using (public.can_read_idea_attachments(idea_id));
+
+create policy "Editors can add idea attachments"
+  on public.idea_attachments for insert
+  with check (
+    uploaded_by = auth.uid()
+    and locked_at is null
+    and public.can_change_idea_attachments(idea_id)
+  );
+
+create policy "Editors can remove unlocked idea attachments"
+  on public.idea_attachments for delete
+  using (
+    locked_at is null
+    and public.can_change_idea_attachments(idea_id)
+  );
+
+-- Storage RLS policies
+-- Object paths start with {workspace_id}/{idea_id}/, so access is decided by the idea
+create policy "Members can read idea attachment objects"
+  on storage.objects for select
+  using (
+    bucket_id = 'idea-attachments'
+    and public.can_read_idea_attachments(((storage.foldername(name))[2])::uuid)
+  );
+
+create policy "Editors can upload idea attachment objects"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'idea-attachments'
+    and public.can_change_idea_attachments(((storage.foldername(name))[2])::uuid)
+    and exists (
+      select 1 from public.idea_attachments
+      where idea_attachments.storage_path = objects.name
+      and idea_attachments.locked_at is null
+    )
+  );
+
+create policy "Editors can remove unlocked idea attachment objects"
+  on storage.objects for delete
+  using (
+    bucket_id = 'idea-attachments'
+    and public.can_change_idea_attachments(((storage.foldername(name))[2])::uuid)
+    and not exists (
+      select 1 from public.idea_attachments
+      where idea_attachments.storage_path = objects.name
+      and idea_attachments.locked_at is not null
+    )
+  );
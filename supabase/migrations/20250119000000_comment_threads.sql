@@ -0,0 +1,139 @@
+-- 20250119000000_comment_threads.sql
+-- Threaded comment replies, with reply notifications to the author of the comment replied to
+
+-- Replies point at the comment they answer; depth is 0 for top-level comments
+-- The maximum depth is configured in the API (COMMENT_MAX_DEPTH)
+alter table public.comments
+  add column parent_id uuid references public.comments(id) on delete cascade,
+  add column depth integer not null default 0 check (depth >= 0);
+
+create index comments_parent_id_idx on public.comments(parent_id);
+
+-- Replies stay on their parent's idea and sit one level below it
+create or replace function public.handle_comment_reply()
+returns trigger as $$
+declare
+  parent record;
+begin
+  if new.parent_id is null then
+    new.depth := 0;
+    return new;
+  end if;
+
+  select idea_id, depth into parent
+  from public.comments
+  where id = new.parent_id;
+
+  -- Unknown parents are rejected by the foreign key
+  if not found then
+    return new;
+  end if;
+
+  if parent.idea_id is distinct from new.idea_id then
+    raise exception 'Replies must be on the same idea as the comment they answer'
+      using errcode = 'check_violation';
+  end if;
+
+  new.depth := parent.depth + 1;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_comment_reply
+  before insert on public.comments
+  for each row execute procedure public.handle_comment_reply();
+
+-- Notification trigger for new comments
+-- The author of the comment replied to gets a comment_reply notification instead of the general one,
+-- as long as they can still see the idea
+create or replace function public.handle_new_comment()
+returns trigger as $$
+declare
+  comment_author_role user_role;
+  notification_type text;
+  parent_author_id uuid;
+begin
+  -- Get the comment author role in the idea's workspace
+  select role into comment_author_role
+  from public.workspace_members
+  where workspace_id = new.workspace_id
+  and user_id = new.author_id;
+
+  -- Set notification type based on author role
+  if comment_author_role = 'admin' then
+    notification_type := 'admin_comment';
+  else
+    notification_type := 'user_comment';
+  end if;
+
+  -- Notify the author of the comment replied to
+  if new.parent_id is not null then
+    select c.author_id into parent_author_id
+    from public.comments c
+    where c.id = new.parent_id
+    and c.author_id <> new.author_id
+    and (
+      exists (
+        select 1 from public.idea_members m
+        where m.idea_id = new.idea_id
+        and m.user_id = c.author_id
+      )
+      or exists (
+        select 1 from public.workspace_members wm
+        where wm.workspace_id = new.workspace_id
+        and wm.user_id = c.author_id
+        and wm.role = 'admin'
+      )
+    );
+
+    if parent_author_id is not null then
+      insert into public.notifications(user_id, idea_id, type, meta)
+      values (
+        parent_author_id,
+        new.idea_id,
+        'comment_reply',
+        jsonb_build_object(
+          'comment_id', new.id,
+          'parent_id', new.parent_id,
+          'author_id', new.author_id
+        )
+      );
+    end if;
+  end if;
+
+  -- Notify the idea's members
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    m.user_id,
+    new.idea_id,
+    notification_type,
+    jsonb_build_object(
+      'comment_id', new.id,
+      'author_id', new.author_id
+    )
+  from public.idea_members m
+  where m.idea_id = new.idea_id
+  and m.user_id <> new.author_id
+  and m.user_id is distinct from parent_author_id;
+
+  -- If commenter is not admin, also notify the workspace admins
+  if comment_author_role is distinct from 'admin' then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    select
+      wm.user_id,
+      new.idea_id,
+      'new_comment',
+      jsonb_build_object(
+        'comment_id', new.id,
+        'author_id', new.author_id
+      )
+    from public.workspace_members wm
+    where wm.workspace_id = new.workspace_id
+    and wm.role = 'admin'
+    and wm.user_id <> new.author_id
+    and wm.user_id is distinct from parent_author_id;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
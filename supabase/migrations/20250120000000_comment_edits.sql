@@ -0,0 +1,116 @@
+-- 20250120000000_comment_edits.sql
+-- Editing and removing comments, keeping every prior version
+-- Decision comments posted with a review vote stay immutable
+
+-- Decision comments are posted by the decision route alongside a vote; everything else is a plain comment
+-- Removed comments keep their place in the thread with an empty body
+alter table public.comments
+  add column kind text not null default 'comment' check (kind in ('comment', 'decision')),
+  add column edited_at timestamptz,
+  add column deleted_at timestamptz,
+  add column deleted_by uuid references public.profiles(id) on delete set null;
+
+-- COMMENT_REVISIONS TABLE
+-- Prior versions of edited or removed comments, written by trigger only
+create table public.comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.comments(id) on delete cascade,
+  body text not null,
+  -- Who edited or removed the comment, replacing this version
+  replaced_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index comment_revisions_comment_id_idx on public.comment_revisions(comment_id);
+
+-- Only the body of a comment can change, and only until it is removed
+-- The time window for authors is enforced by the API (COMMENT_EDIT_WINDOW_MINUTES)
+create or replace function public.handle_comment_change()
+returns trigger as $$
+begin
+  if old.kind = 'decision' then
+    raise exception 'Decision comments cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Removed comments cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.idea_id is distinct from old.idea_id
+    or new.workspace_id is distinct from old.workspace_id
+    or new.author_id is distinct from old.author_id
+    or new.parent_id is distinct from old.parent_id
+    or new.depth is distinct from old.depth
+    or new.kind is distinct from old.kind
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Only the body of a comment can change'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.deleted_at is not null then
+    insert into public.comment_revisions(comment_id, body, replaced_by)
+    values (old.id, old.body, auth.uid());
+
+    new.body := '';
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+    new.edited_at := old.edited_at;
+  elsif new.body is distinct from old.body then
+    insert into public.comment_revisions(comment_id, body, replaced_by)
+    values (old.id, old.body, auth.uid());
+
+    new.edited_at := now();
+    new.deleted_by := null;
+  else
+    new.edited_at := old.edited_at;
+    new.deleted_by := null;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_comment_change
+  before update on public.comments
+  for each row execute procedure public.handle_comment_change();
+
+-- Enable RLS on comment_revisions
+alter table public.comment_revisions enable row level security;
+
+-- Comments RLS policies
+-- Only admins post decision comments
+drop policy if exists "Members can insert comments" on public.comments;
+create policy "Members can insert comments"
+  on public.comments for insert
+  with check (
+    author_id = auth.uid()
+    and (
+      (kind = 'comment' and public.idea_member_role(idea_id) is not null)
+      or public.workspace_role(workspace_id) = 'admin'
+    )
+  );
+
+-- Authors edit and remove their own comments; workspace admins moderate
+-- Comments are never hard-deleted, removal sets deleted_at
+create policy "Authors and admins can update comments"
+  on public.comments for update
+  using (
+    author_id = auth.uid()
+    or public.workspace_role(workspace_id) = 'admin'
+  );
+
+-- Comment revisions RLS policies
+create policy "Authors and admins can read comment revisions"
+  on public.comment_revisions for select
+  using (
+    exists (
+      select 1 from public.comments
+      where comments.id = comment_revisions.comment_id
+      and (
+        comments.author_id = auth.uid()
+        or public.workspace_role(comments.workspace_id) = 'admin'
+      )
+    )
+  );
@@ -0,0 +1,259 @@
+-- 20250121000000_comment_mentions.sql
+-- @mentions in comments, stored per comment and notified only to the users mentioned
+-- Workspace admins are no longer notified of every comment; they are notified when mentioned,
+-- or when they are the idea's assigned reviewer
+
+-- COMMENT_MENTIONS TABLE
+-- Users mentioned in a comment, written by trigger only
+create table public.comment_mentions (
+  comment_id uuid not null references public.comments(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (comment_id, user_id)
+);
+
+create index comment_mentions_user_id_idx on public.comment_mentions(user_id);
+
+-- Find the users mentioned in a comment body
+-- A mention is @ followed by a user's full name, matched case-insensitively, at the start of the
+-- body or after a non-word character and not followed by a letter or digit. Only users who can
+-- see the idea (its members and the workspace admins) can be mentioned; when names overlap,
+-- "@Ana Lima" mentions Ana Lima and not Ana. Mirrors findMentions in src/lib/mentions.ts
+create or replace function public.find_comment_mentions(idea_id uuid, body text)
+returns setof uuid as $$
+  with audience as (
+    select m.user_id
+    from public.idea_members m
+    where m.idea_id = find_comment_mentions.idea_id
+    union
+    select wm.user_id
+    from public.workspace_members wm
+    join public.ideas i on i.workspace_id = wm.workspace_id
+    where i.id = find_comment_mentions.idea_id
+    and wm.role = 'admin'
+  ),
+  matched as (
+    select p.id, lower(btrim(p.full_name)) as name
+    from audience a
+    join public.profiles p on p.id = a.user_id
+    where coalesce(btrim(p.full_name), '') <> ''
+    and lower(find_comment_mentions.body) ~ (
+      '(^|[^[:alnum:]_])@'
+      || regexp_replace(lower(btrim(p.full_name)), '([^[:alnum:][:space:]])', '\\\1', 'g')
+      || '($|[^[:alnum:]])'
+    )
+  )
+  select matched.id
+  from matched
+  where not exists (
+    select 1 from matched longer
+    where left(longer.name, length(matched.name) + 1) = matched.name || ' '
+  );
+$$ language sql stable security definer;
+
+-- Record the users a comment mentions and send each newly mentioned user a mention notification
+-- Authors do not mention themselves, and users already mentioned before an edit are not notified again
+-- Returns the newly mentioned users
+create or replace function public.record_comment_mentions(comment_id uuid, idea_id uuid, author_id uuid, body text)
+returns uuid[] as $$
+declare
+  mentioned uuid[];
+begin
+  with added as (
+    insert into public.comment_mentions(comment_id, user_id)
+    select record_comment_mentions.comment_id, found.user_id
+    from public.find_comment_mentions(record_comment_mentions.idea_id, record_comment_mentions.body) as found(user_id)
+    where found.user_id <> record_comment_mentions.author_id
+    on conflict do nothing
+    returning user_id
+  )
+  select coalesce(array_agg(added.user_id), '{}') into mentioned
+  from added;
+
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    mentioned_user_id,
+    record_comment_mentions.idea_id,
+    'mention',
+    jsonb_build_object(
+      'comment_id', record_comment_mentions.comment_id,
+      'author_id', record_comment_mentions.author_id
+    )
+  from unnest(mentioned) as mentioned_user_id;
+
+  return mentioned;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function public.record_comment_mentions(uuid, uuid, uuid, text) from public, anon, authenticated;
+
+-- Notification trigger for new comments
+-- Mentioned users get a mention notification, the author of the comment replied to a comment_reply
+-- notification, and the idea's other members and its assigned reviewer the general one;
+-- nobody is notified twice about the same comment
+create or replace function public.handle_new_comment()
+returns trigger as $$
+declare
+  comment_author_role user_role;
+  notification_type text;
+  mentioned uuid[];
+  parent_author_id uuid;
+  reviewer_id uuid;
+begin
+  -- Get the comment author role in the idea's workspace
+  select role into comment_author_role
+  from public.workspace_members
+  where workspace_id = new.workspace_id
+  and user_id = new.author_id;
+
+  -- Set notification type based on author role
+  if comment_author_role = 'admin' then
+    notification_type := 'admin_comment';
+  else
+    notification_type := 'user_comment';
+  end if;
+
+  -- Notify the mentioned users
+  mentioned := public.record_comment_mentions(new.id, new.idea_id, new.author_id, new.body);
+
+  -- Notify the author of the comment replied to
+  if new.parent_id is not null then
+    select c.author_id into parent_author_id
+    from public.comments c
+    where c.id = new.parent_id
+    and c.author_id <> new.author_id
+    and (
+      exists (
+        select 1 from public.idea_members m
+        where m.idea_id = new.idea_id
+        and m.user_id = c.author_id
+      )
+      or exists (
+        select 1 from public.workspace_members wm
+        where wm.workspace_id = new.workspace_id
+        and wm.user_id = c.author_id
+        and wm.role = 'admin'
+      )
+    );
+
+    if parent_author_id is not null and not parent_author_id = any(mentioned) then
+      insert into public.notifications(user_id, idea_id, type, meta)
+      values (
+        parent_author_id,
+        new.idea_id,
+        'comment_reply',
+        jsonb_build_object(
+          'comment_id', new.id,
+          'parent_id', new.parent_id,
+          'author_id', new.author_id
+        )
+      );
+    end if;
+  end if;
+
+  -- Notify the idea's members
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    m.user_id,
+    new.idea_id,
+    notification_type,
+    jsonb_build_object(
+      'comment_id', new.id,
+      'author_id', new.author_id
+    )
+  from public.idea_members m
+  where m.idea_id = new.idea_id
+  and m.user_id <> new.author_id
+  and m.user_id is distinct from parent_author_id
+  and not m.user_id = any(mentioned);
+
+  -- Notify the idea's assigned reviewer, unless they are a member or were already notified
+  select i.assigned_reviewer_id into reviewer_id
+  from public.ideas i
+  where i.id = new.idea_id;
+
+  if reviewer_id is not null
+    and reviewer_id <> new.author_id
+    and reviewer_id is distinct from parent_author_id
+    and not reviewer_id = any(mentioned)
+    and not exists (
+      select 1 from public.idea_members m
+      where m.idea_id = new.idea_id
+      and m.user_id = reviewer_id
+    ) then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    values (
+      reviewer_id,
+      new.idea_id,
+      'new_comment',
+      jsonb_build_object(
+        'comment_id', new.id,
+        'author_id', new.author_id
+      )
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Users mentioned for the first time in an edit are notified too
+create or replace function public.handle_comment_mentions_edit()
+returns trigger as $$
+begin
+  if new.deleted_at is null and new.body is distinct from old.body then
+    perform public.record_comment_mentions(new.id, new.idea_id, new.author_id, new.body);
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_comment_mentions_edit
+  after update of body on public.comments
+  for each row execute procedure public.handle_comment_mentions_edit();
+
+-- Search the users who can be mentioned on an idea, by name
+-- Returns nothing unless the current user can see the idea themselves
+create or replace function public.search_mention_candidates(idea_id uuid, query text, max_results integer default 10)
+returns table (id uuid, full_name text, avatar_url text) as $$
+  select p.id, p.full_name, p.avatar_url
+  from public.ideas i
+  join lateral (
+    select m.user_id
+    from public.idea_members m
+    where m.idea_id = i.id
+    union
+    select wm.user_id
+    from public.workspace_members wm
+    where wm.workspace_id = i.workspace_id
+    and wm.role = 'admin'
+  ) audience on true
+  join public.profiles p on p.id = audience.user_id
+  where i.id = search_mention_candidates.idea_id
+  and (
+    public.idea_member_role(i.id) is not null
+    or public.workspace_role(i.workspace_id) = 'admin'
+  )
+  and coalesce(btrim(p.full_name), '') <> ''
+  and p.full_name ilike '%' || replace(replace(replace(search_mention_candidates.query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  order by
+    left(lower(p.full_name), length(search_mention_candidates.query)) = lower(search_mention_candidates.query) desc,
+    lower(p.full_name),
+    p.id
+  limit least(greatest(search_mention_candidates.max_results, 1), 50);
+$$ language sql stable security definer;
+
+-- ENABLE RLS ON COMMENT_MENTIONS
+alter table public.comment_mentions enable row level security;
+
+-- Comment mentions RLS policies
+-- Mentions are visible to whoever can read the comment
+create policy "Users can read mentions of comments they can read"
+  on public.comment_mentions for select
+  using (
+    exists (
+      select 1 from public.comments c
+      where c.id = comment_mentions.comment_id
+    )
+  );
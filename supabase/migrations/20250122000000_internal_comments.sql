@@ -0,0 +1,340 @@
+-- 20250122000000_internal_comments.sql
+-- Internal notes: comments only the workspace admins, who review ideas, can read
+-- Internal notes are hidden from the idea's owner and members and never notify them
+
+-- Replies to an internal note are internal too; visibility is fixed once posted
+alter table public.comments
+  add column internal boolean not null default false;
+
+-- Replies stay on their parent's idea, sit one level below it and share its visibility
+create or replace function public.handle_comment_reply()
+returns trigger as $$
+declare
+  parent record;
+begin
+  if new.parent_id is null then
+    new.depth := 0;
+    return new;
+  end if;
+
+  select idea_id, depth, internal into parent
+  from public.comments
+  where id = new.parent_id;
+
+  -- Unknown parents are rejected by the foreign key
+  if not found then
+    return new;
+  end if;
+
+  if parent.idea_id is distinct from new.idea_id then
+    raise exception 'Replies must be on the same idea as the comment they answer'
+      using errcode = 'check_violation';
+  end if;
+
+  new.depth := parent.depth + 1;
+  new.internal := new.internal or parent.internal;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Only the body of a comment can change, and only until it is removed
+-- The time window for authors is enforced by the API (COMMENT_EDIT_WINDOW_MINUTES)
+create or replace function public.handle_comment_change()
+returns trigger as $$
+begin
+  if old.kind = 'decision' then
+    raise exception 'Decision comments cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Removed comments cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.idea_id is distinct from old.idea_id
+    or new.workspace_id is distinct from old.workspace_id
+    or new.author_id is distinct from old.author_id
+    or new.parent_id is distinct from old.parent_id
+    or new.depth is distinct from old.depth
+    or new.kind is distinct from old.kind
+    or new.internal is distinct from old.internal
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Only the body of a comment can change'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.deleted_at is not null then
+    insert into public.comment_revisions(comment_id, body, replaced_by)
+    values (old.id, old.body, auth.uid());
+
+    new.body := '';
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+    new.edited_at := old.edited_at;
+  elsif new.body is distinct from old.body then
+    insert into public.comment_revisions(comment_id, body, replaced_by)
+    values (old.id, old.body, auth.uid());
+
+    new.edited_at := now();
+    new.deleted_by := null;
+  else
+    new.edited_at := old.edited_at;
+    new.deleted_by := null;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Record the users a comment mentions and send each newly mentioned user a mention notification
+-- Authors do not mention themselves, and users already mentioned before an edit are not notified again;
+-- internal notes only mention workspace admins
+-- Returns the newly mentioned users
+create or replace function public.record_comment_mentions(comment_id uuid, idea_id uuid, author_id uuid, body text)
+returns uuid[] as $$
+declare
+  note record;
+  mentioned uuid[];
+begin
+  select c.workspace_id, c.internal into note
+  from public.comments c
+  where c.id = record_comment_mentions.comment_id;
+
+  with added as (
+    insert into public.comment_mentions(comment_id, user_id)
+    select record_comment_mentions.comment_id, found.user_id
+    from public.find_comment_mentions(record_comment_mentions.idea_id, record_comment_mentions.body) as found(user_id)
+    where found.user_id <> record_comment_mentions.author_id
+    and (
+      not note.internal
+      or exists (
+        select 1 from public.workspace_members wm
+        where wm.workspace_id = note.workspace_id
+        and wm.user_id = found.user_id
+        and wm.role = 'admin'
+      )
+    )
+    on conflict do nothing
+    returning user_id
+  )
+  select coalesce(array_agg(added.user_id), '{}') into mentioned
+  from added;
+
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    mentioned_user_id,
+    record_comment_mentions.idea_id,
+    'mention',
+    jsonb_build_object(
+      'comment_id', record_comment_mentions.comment_id,
+      'author_id', record_comment_mentions.author_id,
+      'internal', note.internal
+    )
+  from unnest(mentioned) as mentioned_user_id;
+
+  return mentioned;
+end;
+$$ language plpgsql security definer;
+
+-- Notification trigger for new comments
+-- Mentioned users get a mention notification, the author of the comment replied to a comment_reply
+-- notification, and the idea's other members and its assigned reviewer the general one;
+-- nobody is notified twice about the same comment. Internal notes only notify workspace admins,
+-- with an internal_comment notification
+create or replace function public.handle_new_comment()
+returns trigger as $$
+declare
+  comment_author_role user_role;
+  notification_type text;
+  mentioned uuid[];
+  parent_author_id uuid;
+  reviewer_id uuid;
+begin
+  -- Get the comment author role in the idea's workspace
+  select role into comment_author_role
+  from public.workspace_members
+  where workspace_id = new.workspace_id
+  and user_id = new.author_id;
+
+  -- Set notification type based on visibility and author role
+  if new.internal then
+    notification_type := 'internal_comment';
+  elsif comment_author_role = 'admin' then
+    notification_type := 'admin_comment';
+  else
+    notification_type := 'user_comment';
+  end if;
+
+  -- Notify the mentioned users
+  mentioned := public.record_comment_mentions(new.id, new.idea_id, new.author_id, new.body);
+
+  -- Notify the author of the comment replied to
+  if new.parent_id is not null then
+    select c.author_id into parent_author_id
+    from public.comments c
+    where c.id = new.parent_id
+    and c.author_id <> new.author_id
+    and (
+      (
+        not new.internal
+        and exists (
+          select 1 from public.idea_members m
+          where m.idea_id = new.idea_id
+          and m.user_id = c.author_id
+        )
+      )
+      or exists (
+        select 1 from public.workspace_members wm
+        where wm.workspace_id = new.workspace_id
+        and wm.user_id = c.author_id
+        and wm.role = 'admin'
+      )
+    );
+
+    if parent_author_id is not null and not parent_author_id = any(mentioned) then
+      insert into public.notifications(user_id, idea_id, type, meta)
+      values (
+        parent_author_id,
+        new.idea_id,
+        'comment_reply',
+        jsonb_build_object(
+          'comment_id', new.id,
+          'parent_id', new.parent_id,
+          'author_id', new.author_id,
+          'internal', new.internal
+        )
+      );
+    end if;
+  end if;
+
+  -- Notify the idea's members; only those administering the workspace for internal notes
+  insert into public.notifications(user_id, idea_id, type, meta)
+  select
+    m.user_id,
+    new.idea_id,
+    notification_type,
+    jsonb_build_object(
+      'comment_id', new.id,
+      'author_id', new.author_id
+    )
+  from public.idea_members m
+  where m.idea_id = new.idea_id
+  and m.user_id <> new.author_id
+  and m.user_id is distinct from parent_author_id
+  and not m.user_id = any(mentioned)
+  and (
+    not new.internal
+    or exists (
+      select 1 from public.workspace_members wm
+      where wm.workspace_id = new.workspace_id
+      and wm.user_id = m.user_id
+      and wm.role = 'admin'
+    )
+  );
+
+  -- Notify the idea's assigned reviewer, unless they are a member or were already notified
+  select i.assigned_reviewer_id into reviewer_id
+  from public.ideas i
+  where i.id = new.idea_id;
+
+  if reviewer_id is not null
+    and reviewer_id <> new.author_id
+    and reviewer_id is distinct from parent_author_id
+    and not reviewer_id = any(mentioned)
+    and not exists (
+      select 1 from public.idea_members m
+      where m.idea_id = new.idea_id
+      and m.user_id = reviewer_id
+    )
+    and (
+      not new.internal
+      or exists (
+        select 1 from public.workspace_members wm
+        where wm.workspace_id = new.workspace_id
+        and wm.user_id = reviewer_id
+        and wm.role = 'admin'
+      )
+    ) then
+    insert into public.notifications(user_id, idea_id, type, meta)
+    values (
+      reviewer_id,
+      new.idea_id,
+      case when new.internal then notification_type else 'new_comment' end,
+      jsonb_build_object(
+        'comment_id', new.id,
+        'author_id', new.author_id
+      )
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Search the users who can be mentioned on an idea, by name
+-- Only workspace admins can be mentioned in internal notes
+-- Returns nothing unless the current user can see the idea themselves
+drop function public.search_mention_candidates(uuid, text, integer);
+
+create or replace function public.search_mention_candidates(
+  idea_id uuid,
+  query text,
+  max_results integer default 10,
+  internal boolean default false
+)
+returns table (id uuid, full_name text, avatar_url text) as $$
+  select p.id, p.full_name, p.avatar_url
+  from public.ideas i
+  join lateral (
+    select m.user_id
+    from public.idea_members m
+    where m.idea_id = i.id
+    and not search_mention_candidates.internal
+    union
+    select wm.user_id
+    from public.workspace_members wm
+    where wm.workspace_id = i.workspace_id
+    and wm.role = 'admin'
+  ) audience on true
+  join public.profiles p on p.id = audience.user_id
+  where i.id = search_mention_candidates.idea_id
+  and (
+    public.idea_member_role(i.id) is not null
+    or public.workspace_role(i.workspace_id) = 'admin'
+  )
+  and coalesce(btrim(p.full_name), '') <> ''
+  and p.full_name ilike '%' || replace(replace(replace(search_mention_candidates.query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  order by
+    left(lower(p.full_name), length(search_mention_candidates.query)) = lower(search_mention_candidates.query) desc,
+    lower(p.full_name),
+    p.id
+  limit least(greatest(search_mention_candidates.max_results, 1), 50);
+$$ language sql stable security definer;
+
+-- Comments RLS policies
+-- Only workspace admins post and read internal notes
+drop policy if exists "Members can insert comments" on public.comments;
+create policy "Members can insert comments"
+  on public.comments for insert
+  with check (
+    author_id = auth.uid()
+    and (
+      (kind = 'comment' and not internal and public.idea_member_role(idea_id) is not null)
+      or public.workspace_role(workspace_id) = 'admin'
+    )
+  );
+
+drop policy if exists "Users can read comments if participant" on public.comments;
+create policy "Users can read comments if participant"
+  on public.comments for select
+  using (
+    public.workspace_role(workspace_id) = 'admin'
+    or (
+      not internal
+      and (
+        author_id = auth.uid()
+        or public.idea_member_role(idea_id) is not null
+      )
+    )
+  );
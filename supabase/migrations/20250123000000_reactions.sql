@@ -0,0 +1,111 @@
+-- 20250123000000_reactions.sql
+-- Emoji reactions on ideas and comments, and one upvote per user on ideas
+-- Anyone who can see an idea can react to it and vote for it
+-- The reactions mirror REACTIONS in src/lib/reactions.ts
+
+-- IDEA_REACTIONS TABLE
+-- The upvote reaction is the user's vote for the idea
+create table public.idea_reactions (
+  idea_id uuid not null references public.ideas(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  reaction text not null check (
+    reaction in ('upvote', 'thumbs_up', 'heart', 'tada', 'rocket', 'eyes', 'laugh')
+  ),
+  created_at timestamptz not null default now(),
+  primary key (idea_id, user_id, reaction)
+);
+
+create index idea_reactions_user_id_idx on public.idea_reactions(user_id);
+
+-- COMMENT_REACTIONS TABLE
+-- Comments take emoji reactions only; they cannot be upvoted
+create table public.comment_reactions (
+  comment_id uuid not null references public.comments(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  reaction text not null check (
+    reaction in ('thumbs_up', 'heart', 'tada', 'rocket', 'eyes', 'laugh')
+  ),
+  created_at timestamptz not null default now(),
+  primary key (comment_id, user_id, reaction)
+);
+
+create index comment_reactions_user_id_idx on public.comment_reactions(user_id);
+
+-- Idea reactions always belong to their idea's workspace
+create trigger on_idea_reaction_workspace
+  before insert on public.idea_reactions
+  for each row execute procedure public.handle_idea_workspace();
+
+-- How many users upvoted an idea (computed column)
+create or replace function public.vote_count(idea public.ideas)
+returns integer as $$
+  select count(*)::integer
+  from public.idea_reactions r
+  where r.idea_id = idea.id
+  and r.reaction = 'upvote';
+$$ language sql stable security definer;
+
+-- Whether the current user upvoted an idea (computed column)
+create or replace function public.voted(idea public.ideas)
+returns boolean as $$
+  select exists (
+    select 1 from public.idea_reactions r
+    where r.idea_id = idea.id
+    and r.reaction = 'upvote'
+    and r.user_id = auth.uid()
+  );
+$$ language sql stable security definer;
+
+-- Enable RLS on reactions
+alter table public.idea_reactions enable row level security;
+alter table public.comment_reactions enable row level security;
+
+-- Idea reactions RLS policies
+-- Reactions and votes are visible to, and can be left by, whoever can see the idea
+create policy "Users can read reactions on ideas they can see"
+  on public.idea_reactions for select
+  using (
+    public.idea_member_role(idea_id) is not null
+    or public.workspace_role(workspace_id) = 'admin'
+  );
+
+create policy "Users can react to ideas they can see"
+  on public.idea_reactions for insert
+  with check (
+    user_id = auth.uid()
+    and (
+      public.idea_member_role(idea_id) is not null
+      or public.workspace_role(workspace_id) = 'admin'
+    )
+  );
+
+create policy "Users can delete their own idea reactions"
+  on public.idea_reactions for delete
+  using (user_id = auth.uid());
+
+-- Comment reactions RLS policies
+-- Reactions are visible to whoever can read the comment; removed comments take no new reactions
+create policy "Users can read reactions on comments they can read"
+  on public.comment_reactions for select
+  using (
+    exists (
+      select 1 from public.comments c
+      where c.id = comment_reactions.comment_id
+    )
+  );
+
+create policy "Users can react to comments they can read"
+  on public.comment_reactions for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.comments c
+      where c.id = comment_reactions.comment_id
+      and c.deleted_at is null
+    )
+  );
+
+create policy "Users can delete their own comment reactions"
+  on public.comment_reactions for delete
+  using (user_id = auth.uid());
@@ -0,0 +1,6 @@
+-- 20250124000000_notifications_realtime.sql
+-- Publish notification changes over Supabase Realtime so inboxes update live (useNotifications)
+-- Realtime applies the notifications read policy, so users only receive their own
+
+-- NOTIFICATIONS TABLE
+alter publication supabase_realtime add table public.notifications;
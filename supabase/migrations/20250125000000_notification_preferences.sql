@@ -0,0 +1,111 @@
+-- 20250125000000_notification_preferences.sql
+-- Per-user notification preferences: how each type of notification is delivered, and ideas muted
+-- altogether. Every notification passes through one trigger that applies them, so the triggers
+-- creating notifications do not need to know about preferences
+-- Types and channels mirror NOTIFICATION_TYPES and NOTIFICATION_CHANNELS in src/lib/notifications.ts
+
+-- NOTIFICATION_PREFERENCES TABLE
+-- Types without a preference are delivered in-app; type is not constrained so that preferences can
+-- be stored for types added later
+create table public.notification_preferences (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null,
+  channel text not null check (channel in ('in_app', 'email', 'digest', 'off')),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, type)
+);
+
+-- NOTIFICATION_MUTES TABLE
+-- A muted idea sends the user nothing but mentions and assignments, which are addressed to them
+create table public.notification_mutes (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  idea_id uuid not null references public.ideas(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, idea_id)
+);
+
+create index notification_mutes_idea_id_idx on public.notification_mutes(idea_id);
+
+-- Mutes always belong to their idea's workspace
+create trigger on_notification_mute_workspace
+  before insert on public.notification_mutes
+  for each row execute procedure public.handle_idea_workspace();
+
+-- NOTIFICATIONS TABLE
+-- How the notification is delivered besides the inbox: email sends it on its own, digest batches it
+alter table public.notifications
+  add column channel text not null default 'in_app' check (channel in ('in_app', 'email', 'digest'));
+
+-- Apply the recipient's preferences to a notification before it is stored
+-- Notifications the recipient turned off, or about ideas they muted, are dropped
+create or replace function public.handle_notification_preferences()
+returns trigger as $$
+declare
+  preferred_channel text;
+begin
+  if new.type not in ('mention', 'assigned') and exists (
+    select 1 from public.notification_mutes nm
+    where nm.user_id = new.user_id
+    and nm.idea_id = new.idea_id
+  ) then
+    return null;
+  end if;
+
+  select np.channel into preferred_channel
+  from public.notification_preferences np
+  where np.user_id = new.user_id
+  and np.type = new.type;
+
+  if preferred_channel = 'off' then
+    return null;
+  end if;
+
+  new.channel := coalesce(preferred_channel, 'in_app');
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_notification_preferences
+  before insert on public.notifications
+  for each row execute procedure public.handle_notification_preferences();
+
+-- Enable RLS on preferences and mutes
+alter table public.notification_preferences enable row level security;
+alter table public.notification_mutes enable row level security;
+
+-- Notification preferences RLS policies
+-- Users manage their own preferences only
+create policy "Users can read own notification preferences"
+  on public.notification_preferences for select
+  using (user_id = auth.uid());
+
+create policy "Users can set own notification preferences"
+  on public.notification_preferences for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can change own notification preferences"
+  on public.notification_preferences for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Notification mutes RLS policies
+-- Users can mute the ideas they can see, and unmute them again
+create policy "Users can read own notification mutes"
+  on public.notification_mutes for select
+  using (user_id = auth.uid());
+
+create policy "Users can mute ideas they can see"
+  on public.notification_mutes for insert
+  with check (
+    user_id = auth.uid()
+    and (
+      public.idea_member_role(idea_id) is not null
+      or public.workspace_role(workspace_id) = 'admin'
+    )
+  );
+
+create policy "Users can unmute ideas"
+  on public.notification_mutes for delete
+  using (user_id = auth.uid());
@@ -0,0 +1,83 @@
+-- 20250126000000_notification_delivery.sql
+-- Email delivery of notifications: notifications the recipient gets by email or in the daily digest
+-- wait as pending until the delivery worker (scripts/deliver-notification-emails.ts) sends them
+-- In-app notifications are never emailed and have no delivery status
+
+-- NOTIFICATIONS TABLE
+alter table public.notifications
+  add column delivery_status text check (delivery_status in ('pending', 'sent', 'failed')),
+  add column delivery_attempts integer not null default 0,
+  add column delivery_error text,
+  add column delivered_at timestamptz;
+
+-- The delivery worker looks up pending notifications by channel
+create index notifications_pending_delivery_idx
+  on public.notifications(channel, created_at)
+  where delivery_status = 'pending';
+
+-- Apply the recipient's preferences to a notification before it is stored
+-- Notifications the recipient turned off, or about ideas they muted, are dropped; those to be
+-- emailed wait for the delivery worker
+create or replace function public.handle_notification_preferences()
+returns trigger as $$
+declare
+  preferred_channel text;
+begin
+  if new.type not in ('mention', 'assigned') and exists (
+    select 1 from public.notification_mutes nm
+    where nm.user_id = new.user_id
+    and nm.idea_id = new.idea_id
+  ) then
+    return null;
+  end if;
+
+  select np.channel into preferred_channel
+  from public.notification_preferences np
+  where np.user_id = new.user_id
+  and np.type = new.type;
+
+  if preferred_channel = 'off' then
+    return null;
+  end if;
+
+  new.channel := coalesce(preferred_channel, 'in_app');
+  new.delivery_status := case when new.channel = 'in_app' then null else 'pending' end;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Users cannot tamper with delivery tracking; only the worker, with the service role, updates it
+create or replace function public.handle_notification_delivery_lock()
+returns trigger as $$
+begin
+  if auth.uid() is not null and (
+    new.channel is distinct from old.channel
+    or new.delivery_status is distinct from old.delivery_status
+    or new.delivery_attempts is distinct from old.delivery_attempts
+    or new.delivery_error is distinct from old.delivery_error
+    or new.delivered_at is distinct from old.delivered_at
+  ) then
+    raise exception 'Notification delivery cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_notification_delivery_lock
+  before update on public.notifications
+  for each row execute procedure public.handle_notification_delivery_lock();
+
+-- Email addresses of notification recipients, which live in auth.users
+-- Only the delivery worker may read them
+create or replace function public.get_notification_recipients(user_ids uuid[])
+returns table (id uuid, email text, full_name text) as $$
+  select u.id, u.email::text, p.full_name
+  from auth.users u
+  left join public.profiles p on p.id = u.id
+  where u.id = any(get_notification_recipients.user_ids);
+$$ language sql stable security definer;
+
+revoke execute on function public.get_notification_recipients(uuid[]) from public, anon, authenticated;
@@ -0,0 +1,199 @@
+-- 20250127000000_webhooks.sql
+-- Outbound webhooks: admins subscribe URLs to idea lifecycle events, which are queued as deliveries
+-- and POSTed, signed with the webhook's secret, by the delivery worker (scripts/deliver-webhooks.ts)
+-- Failed deliveries are retried with exponential backoff and kept as a log admins can replay from
+
+-- WEBHOOKS TABLE
+create table public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  url text not null check (url ~* '^https?://'),
+  -- Signs every payload (HMAC-SHA256), so receivers can tell deliveries are genuine
+  secret text not null check (char_length(secret) >= 16),
+  -- Events the webhook is subscribed to; keep in sync with WEBHOOK_EVENTS in src/lib/webhooks.ts
+  events text[] not null check (
+    cardinality(events) > 0
+    and events <@ array['idea.created', 'idea.submitted', 'idea.approved', 'idea.rejected', 'comment.created']
+  ),
+  description text not null default '',
+  active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index webhooks_workspace_idx on public.webhooks(workspace_id);
+
+-- Create trigger to auto-update updated_at on webhooks table
+create trigger on_webhook_updated
+  before update on public.webhooks
+  for each row execute procedure public.handle_updated_at();
+
+-- WEBHOOK DELIVERIES TABLE
+-- One event sent to one webhook, with the outcome of the latest attempt
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  event text not null,
+  -- The JSON body sent, without the delivery ID which is added when sending
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  -- When the worker tries next; cleared once the delivery is sent or has failed for good
+  next_attempt_at timestamptz default now(),
+  response_status integer,
+  response_body text,
+  error text,
+  delivered_at timestamptz,
+  -- The delivery this one replays
+  replay_of uuid references public.webhook_deliveries(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- The delivery worker looks up deliveries that are due
+create index webhook_deliveries_due_idx
+  on public.webhook_deliveries(next_attempt_at)
+  where status = 'pending';
+
+create index webhook_deliveries_webhook_idx
+  on public.webhook_deliveries(webhook_id, created_at desc);
+
+-- Deliveries belong to their webhook's workspace
+create or replace function public.handle_webhook_delivery_workspace()
+returns trigger as $$
+begin
+  select workspace_id into new.workspace_id
+  from public.webhooks
+  where id = new.webhook_id;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_webhook_delivery_workspace
+  before insert on public.webhook_deliveries
+  for each row execute procedure public.handle_webhook_delivery_workspace();
+
+-- Queue an event for every active webhook of the workspace subscribed to it
+create or replace function public.enqueue_webhook_event(workspace_id uuid, event text, data jsonb)
+returns void as $$
+  insert into public.webhook_deliveries(webhook_id, workspace_id, event, payload)
+  select
+    webhooks.id,
+    webhooks.workspace_id,
+    enqueue_webhook_event.event,
+    jsonb_build_object(
+      'event', enqueue_webhook_event.event,
+      'created_at', now(),
+      'workspace_id', webhooks.workspace_id,
+      'data', enqueue_webhook_event.data
+    )
+  from public.webhooks
+  where webhooks.workspace_id = enqueue_webhook_event.workspace_id
+  and webhooks.active
+  and enqueue_webhook_event.event = any(webhooks.events);
+$$ language sql security definer;
+
+-- Events are only raised by the triggers below
+revoke execute on function public.enqueue_webhook_event(uuid, text, jsonb) from public, anon, authenticated;
+
+-- Ideas as webhook payloads describe them
+create or replace function public.webhook_idea(idea public.ideas)
+returns jsonb as $$
+  select jsonb_build_object(
+    'id', idea.id,
+    'title', idea.title,
+    'status', idea.status,
+    'status_reason', idea.status_reason,
+    'owner_id', idea.owner_id,
+    'campaign_id', idea.campaign_id,
+    'review_score', idea.review_score,
+    'submitted_at', idea.submitted_at,
+    'decided_at', idea.decided_at,
+    'created_at', idea.created_at
+  );
+$$ language sql stable;
+
+-- idea.created when an idea is created, and idea.submitted, idea.approved or idea.rejected when it
+-- enters that status, however it got there
+create or replace function public.handle_idea_webhooks()
+returns trigger as $$
+declare
+  data jsonb;
+begin
+  data := jsonb_build_object(
+    'idea', public.webhook_idea(new),
+    'previous_status', case when tg_op = 'UPDATE' then old.status end
+  );
+
+  if tg_op = 'INSERT' then
+    perform public.enqueue_webhook_event(new.workspace_id, 'idea.created', data);
+  end if;
+
+  if (tg_op = 'INSERT' or new.status is distinct from old.status)
+    and new.status in ('submitted', 'approved', 'rejected') then
+    perform public.enqueue_webhook_event(new.workspace_id, 'idea.' || new.status::text, data);
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_webhooks
+  after insert or update of status on public.ideas
+  for each row execute procedure public.handle_idea_webhooks();
+
+-- comment.created when a comment is posted; internal notes stay inside the app
+create or replace function public.handle_comment_webhooks()
+returns trigger as $$
+declare
+  idea public.ideas;
+begin
+  if new.internal then
+    return new;
+  end if;
+
+  select * into idea
+  from public.ideas
+  where id = new.idea_id;
+
+  perform public.enqueue_webhook_event(
+    new.workspace_id,
+    'comment.created',
+    jsonb_build_object(
+      'comment', jsonb_build_object(
+        'id', new.id,
+        'idea_id', new.idea_id,
+        'parent_id', new.parent_id,
+        'author_id', new.author_id,
+        'kind', new.kind,
+        'body', new.body,
+        'created_at', new.created_at
+      ),
+      'idea', public.webhook_idea(idea)
+    )
+  );
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_comment_webhooks
+  after insert on public.comments
+  for each row execute procedure public.handle_comment_webhooks();
+
+-- Enable RLS on webhook tables
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+-- Webhooks RLS policies
+create policy "Workspace admins can manage webhooks"
+  on public.webhooks for all
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Webhook deliveries RLS policies
+-- Admins send test deliveries and replays themselves; queued events come from the triggers above
+create policy "Workspace admins can manage webhook deliveries"
+  on public.webhook_deliveries for all
+  using (public.workspace_role(workspace_id) = 'admin');
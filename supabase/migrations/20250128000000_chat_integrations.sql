@@ -0,0 +1,111 @@
+-- 20250128000000_chat_integrations.sql
+-- Chat integrations: webhooks can post idea events to Slack, Microsoft Teams or Mattermost incoming
+-- webhooks, formatted for each (see src/lib/chat-ops.ts), and can be limited to a single campaign
+-- Events carry the owner's name and the reviewer's decision comment for the formatted messages
+
+-- WEBHOOKS TABLE
+alter table public.webhooks
+  -- How payloads are sent: signed JSON, or a chat message; keep in sync with WEBHOOK_FORMATS
+  add column format text not null default 'json'
+    check (format in ('json', 'slack', 'teams', 'mattermost')),
+  -- Only ideas in this campaign raise events; without one, the whole workspace's do
+  add column campaign_id uuid references public.campaigns(id) on delete cascade;
+
+-- A webhook's campaign comes from its own workspace
+create or replace function public.handle_webhook_campaign()
+returns trigger as $$
+begin
+  if new.campaign_id is not null and not exists (
+    select 1 from public.campaigns
+    where campaigns.id = new.campaign_id
+    and campaigns.workspace_id = new.workspace_id
+  ) then
+    raise exception 'Webhook campaign must belong to the webhook''s workspace'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_webhook_campaign
+  before insert or update of campaign_id, workspace_id on public.webhooks
+  for each row execute procedure public.handle_webhook_campaign();
+
+-- Queue an event for every active webhook of the workspace subscribed to it, and to the idea's
+-- campaign when the webhook is limited to one
+create or replace function public.enqueue_webhook_event(workspace_id uuid, event text, data jsonb)
+returns void as $$
+  insert into public.webhook_deliveries(webhook_id, workspace_id, event, payload)
+  select
+    webhooks.id,
+    webhooks.workspace_id,
+    enqueue_webhook_event.event,
+    jsonb_build_object(
+      'event', enqueue_webhook_event.event,
+      'created_at', now(),
+      'workspace_id', webhooks.workspace_id,
+      'data', enqueue_webhook_event.data
+    )
+  from public.webhooks
+  where webhooks.workspace_id = enqueue_webhook_event.workspace_id
+  and webhooks.active
+  and enqueue_webhook_event.event = any(webhooks.events)
+  and (
+    webhooks.campaign_id is null
+    or webhooks.campaign_id::text = enqueue_webhook_event.data #>> '{idea,campaign_id}'
+  );
+$$ language sql security definer;
+
+-- Ideas as webhook payloads describe them, now with the owner's name
+create or replace function public.webhook_idea(idea public.ideas)
+returns jsonb as $$
+  select jsonb_build_object(
+    'id', idea.id,
+    'title', idea.title,
+    'status', idea.status,
+    'status_reason', idea.status_reason,
+    'owner_id', idea.owner_id,
+    'owner_name', (select full_name from public.profiles where profiles.id = idea.owner_id),
+    'campaign_id', idea.campaign_id,
+    'review_score', idea.review_score,
+    'submitted_at', idea.submitted_at,
+    'decided_at', idea.decided_at,
+    'created_at', idea.created_at
+  );
+$$ language sql stable security definer;
+
+-- Approvals and rejections carry the reviewer's latest decision comment, added before the decision
+create or replace function public.handle_idea_webhooks()
+returns trigger as $$
+declare
+  data jsonb;
+begin
+  data := jsonb_build_object(
+    'idea', public.webhook_idea(new),
+    'previous_status', case when tg_op = 'UPDATE' then old.status end
+  );
+
+  if tg_op = 'INSERT' then
+    perform public.enqueue_webhook_event(new.workspace_id, 'idea.created', data);
+  end if;
+
+  if (tg_op = 'INSERT' or new.status is distinct from old.status)
+    and new.status in ('submitted', 'approved', 'rejected') then
+    if new.status in ('approved', 'rejected') then
+      data := data || jsonb_build_object('decision_comment', (
+        select comments.body from public.comments
+        where comments.idea_id = new.id
+        and comments.kind = 'decision'
+        and comments.deleted_at is null
+        order by comments.created_at desc
+        limit 1
+      ));
+    end if;
+
+    perform public.enqueue_webhook_event(new.workspace_id, 'idea.' || new.status::text, data);
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
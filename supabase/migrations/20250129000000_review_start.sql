@@ -0,0 +1,43 @@
+-- 20250129000000_review_start.sql
+-- Reviews start on an explicit reviewer action rather than when an admin opens an idea: picking the
+-- idea up (POST /api/admin/ideas/[id]/review), commenting on it or casting the first vote
+-- Only reviewers on the workspace's panel, or the idea's assigned reviewer, can start a review,
+-- since a started review blocks the owner from withdrawing the idea
+
+-- Mark a submitted idea as under review when one of its reviewers acts on it
+create or replace function public.start_idea_review(idea_id uuid)
+returns boolean as $$
+begin
+  update public.ideas
+  set review_started_at = now()
+  where ideas.id = start_idea_review.idea_id
+  and ideas.status = 'submitted'
+  and ideas.review_started_at is null
+  and public.workspace_role(ideas.workspace_id) = 'admin'
+  and (
+    ideas.assigned_reviewer_id = auth.uid()
+    or auth.uid() in (select panel.id from public.get_review_panel(ideas.workspace_id) panel)
+  );
+
+  return found;
+end;
+$$ language plpgsql security definer;
+
+-- IDEA_REVIEWS TABLE
+-- The first vote on a submission starts its review; the vote policy already limits voting to the panel
+create or replace function public.handle_idea_review_start()
+returns trigger as $$
+begin
+  update public.ideas
+  set review_started_at = now()
+  where ideas.id = new.idea_id
+  and ideas.status = 'submitted'
+  and ideas.review_started_at is null;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger on_idea_review_start
+  after insert on public.idea_reviews
+  for each row execute procedure public.handle_idea_review_start();
@@ -0,0 +1,36 @@
+-- 20250129000001_idea_review_changes.sql
+-- Work out which ideas changed since their last review in the database, so the admin idea list
+-- does not load every revision's full text; mirrors getChangesSinceLastReview in src/lib/revisions.ts
+
+-- For each reviewed idea, its last reviewed revision and the fields changed since then
+-- Runs as the caller, so only revisions the caller can read are compared
+create or replace function public.idea_review_changes(idea_ids uuid[])
+returns table (idea_id uuid, last_reviewed_revision integer, changed_fields text[]) as $$
+  select
+    reviewed.idea_id,
+    reviewed.revision,
+    array_remove(array[
+      case when latest.title is distinct from reviewed.title then 'title' end,
+      case when latest.description is distinct from reviewed.description then 'description' end,
+      -- Tags compare as sets, like the revision diffs
+      case when not (
+        coalesce(latest.tags, '{}') @> coalesce(reviewed.tags, '{}')
+        and coalesce(latest.tags, '{}') <@ coalesce(reviewed.tags, '{}')
+      ) then 'tags' end
+    ], null)
+  from (
+    select distinct on (revisions.idea_id)
+      revisions.idea_id, revisions.revision, revisions.title, revisions.description, revisions.tags
+    from public.idea_revisions revisions
+    where revisions.idea_id = any(idea_review_changes.idea_ids)
+    and revisions.event = 'reviewed'
+    order by revisions.idea_id, revisions.revision desc
+  ) reviewed
+  cross join lateral (
+    select revisions.title, revisions.description, revisions.tags
+    from public.idea_revisions revisions
+    where revisions.idea_id = reviewed.idea_id
+    order by revisions.revision desc
+    limit 1
+  ) latest;
+$$ language sql stable;
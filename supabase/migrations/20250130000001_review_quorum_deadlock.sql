@@ -0,0 +1,47 @@
+-- 20250130000001_review_quorum_deadlock.sql
+-- Ideas are rejected once too few panel reviewers are left to reach the approval quorum, mirroring
+-- getQuorumState in src/lib/quorum.ts; otherwise a split vote under a quorum rule never resolves
+
+-- IDEA_REVIEWS TABLE
+-- Quorum follows the policy and panel of the idea's workspace
+-- Mirrors getQuorumState in src/lib/quorum.ts
+create or replace function public.idea_quorum_reached(idea_id uuid, decision text)
+returns boolean as $$
+declare
+  idea_workspace_id uuid;
+  policy public.review_policy;
+  panel_size integer;
+  required integer;
+  rejections_needed integer;
+  approvals integer;
+  rejections integer;
+begin
+  select ideas.workspace_id into idea_workspace_id
+  from public.ideas
+  where ideas.id = idea_quorum_reached.idea_id;
+
+  select * into policy
+  from public.review_policy
+  where review_policy.workspace_id = idea_workspace_id;
+
+  select count(*) into panel_size from public.get_review_panel(idea_workspace_id);
+
+  required := greatest(1, least(coalesce(policy.approvals_required, 1), panel_size));
+  rejections_needed := case when coalesce(policy.rejection_rule, 'veto') = 'veto' then 1 else required end;
+
+  select
+    count(*) filter (where r.decision = 'approve'),
+    count(*) filter (where r.decision = 'reject')
+  into approvals, rejections
+  from public.idea_reviews r
+  join public.ideas i on i.id = r.idea_id and i.review_round = r.round
+  where r.idea_id = idea_quorum_reached.idea_id
+  and r.reviewer_id in (select panel.id from public.get_review_panel(idea_workspace_id) panel);
+
+  if idea_quorum_reached.decision = 'reject' then
+    return rejections >= rejections_needed or panel_size - rejections < required;
+  end if;
+
+  return approvals >= required and rejections < rejections_needed;
+end;
+$$ language plpgsql stable security definer;
@@ -0,0 +1,77 @@
+-- 20250130000002_comment_edit_window.sql
+-- The database enforces who can change a comment, mirroring checkCommentChange in src/lib/comments.ts:
+-- only the author edits the body, within the edit window unless they administer the workspace,
+-- and workspace admins moderate other members' comments by removing them
+-- The window is read from the app.comment_edit_window_minutes setting, default 15; set it to match
+-- COMMENT_EDIT_WINDOW_MINUTES, e.g. alter database postgres set app.comment_edit_window_minutes = '30'
+
+-- COMMENTS TABLE
+-- Only the body of a comment can change, and only until it is removed
+-- Changes by the service role, which has no auth.uid(), are not limited to authors or the window
+create or replace function public.handle_comment_change()
+returns trigger as $$
+declare
+  is_admin boolean;
+  window_minutes integer;
+begin
+  if old.kind = 'decision' then
+    raise exception 'Decision comments cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Removed comments cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.idea_id is distinct from old.idea_id
+    or new.workspace_id is distinct from old.workspace_id
+    or new.author_id is distinct from old.author_id
+    or new.parent_id is distinct from old.parent_id
+    or new.depth is distinct from old.depth
+    or new.kind is distinct from old.kind
+    or new.internal is distinct from old.internal
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Only the body of a comment can change'
+      using errcode = 'check_violation';
+  end if;
+
+  if auth.uid() is not null
+    and (new.deleted_at is not null or new.body is distinct from old.body) then
+    is_admin := public.workspace_role(old.workspace_id) = 'admin';
+    window_minutes := coalesce(nullif(current_setting('app.comment_edit_window_minutes', true), '')::integer, 15);
+
+    if old.author_id is distinct from auth.uid() then
+      -- Admins remove other members' comments but never rewrite them
+      if new.deleted_at is null or not is_admin then
+        raise exception 'Only the author can change this comment'
+          using errcode = 'insufficient_privilege';
+      end if;
+    elsif not is_admin and old.created_at < now() - make_interval(mins => window_minutes) then
+      raise exception 'Comments can only be changed within % minutes of posting', window_minutes
+        using errcode = 'insufficient_privilege';
+    end if;
+  end if;
+
+  if new.deleted_at is not null then
+    insert into public.comment_revisions(comment_id, body, replaced_by)
+    values (old.id, old.body, auth.uid());
+
+    new.body := '';
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+    new.edited_at := old.edited_at;
+  elsif new.body is distinct from old.body then
+    insert into public.comment_revisions(comment_id, body, replaced_by)
+    values (old.id, old.body, auth.uid());
+
+    new.edited_at := now();
+    new.deleted_by := null;
+  else
+    new.edited_at := old.edited_at;
+    new.deleted_by := null;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;